@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+// Local stand-in for the marketplace APIs. Point a channel's endpoint override at
+// /api/channel-stub/<provider> and the backend will test and sync against it.
+// Any credential value starting with "invalid" is rejected, everything else is accepted.
+// Development only: production builds answer 404 so a fake connection cannot be saved.
+
+const PROVIDERS = ['amazon', 'walmart', 'ebay', 'etsy', 'google', 'newegg', 'sears']
+
+const readCredentials = async (request: NextRequest): Promise<Record<string, string>> => {
+  const values: Record<string, string> = {}
+  const contentType = request.headers.get('content-type') || ''
+
+  try {
+    if (contentType.includes('application/json')) {
+      Object.assign(values, await request.json())
+    } else {
+      new URLSearchParams(await request.text()).forEach((value, key) => { values[key] = value })
+    }
+  } catch {
+    // empty or unreadable body
+  }
+
+  // Walmart and eBay send client credentials as HTTP basic auth
+  const authorization = request.headers.get('authorization') || ''
+  if (authorization.startsWith('Basic ')) {
+    const [clientId, clientSecret] = Buffer.from(authorization.slice(6), 'base64').toString().split(':')
+    values.client_id = clientId || ''
+    values.client_secret = clientSecret || ''
+  }
+
+  return values
+}
+
+// Token exchange (LWA / OAuth refresh_token and client_credentials grants)
+export async function POST(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'not_found' }, { status: 404 })
+  }
+
+  const { provider } = await params
+
+  if (!PROVIDERS.includes(provider)) {
+    return NextResponse.json({ error: 'unknown_provider' }, { status: 404 })
+  }
+
+  const credentials = await readCredentials(request)
+  const provided = Object.values(credentials).filter(value => typeof value === 'string' && value.trim() !== '')
+
+  if (provided.length === 0) {
+    return NextResponse.json({ error: 'invalid_request', error_description: 'No credentials supplied' }, { status: 400 })
+  }
+
+  if (provided.some(value => value.toLowerCase().startsWith('invalid'))) {
+    return NextResponse.json({ error: 'invalid_client', error_description: 'Client authentication failed' }, { status: 401 })
+  }
+
+  return NextResponse.json({
+    access_token: `stub-${provider}-${Date.now()}`,
+    token_type: 'bearer',
+    expires_in: 3600,
+  })
+}
+
+// Authenticated ping / sync call; returns an empty page of orders
+export async function GET(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'not_found' }, { status: 404 })
+  }
+
+  const { provider } = await params
+
+  if (!PROVIDERS.includes(provider)) {
+    return NextResponse.json({ error: 'unknown_provider' }, { status: 404 })
+  }
+
+  if (!(request.headers.get('authorization') || '').includes(`stub-${provider}-`)) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+  }
+
+  return NextResponse.json({
+    provider,
+    ok: true,
+    orders: [],
+    nextToken: null,
+    timestamp: new Date().toISOString(),
+  })
+}
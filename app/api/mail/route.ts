@@ -0,0 +1,80 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getMailConfigProblem, getMailTransport, readMailbox, renderAccountMail, type MailTemplate } from '../../lib/mail'
+
+// Mail relay for the backend. The backend creates invitation and password reset
+// tokens and POSTs { template, to, data } here; this route renders the email and
+// hands it to the configured transport (see lib/mail/transport.ts).
+// MAIL_RELAY_SECRET must be set on both sides; requests need `Authorization: Bearer <secret>`.
+// Links in the emails point at APP_URL, which is required in production.
+
+const TEMPLATES: MailTemplate[] = ['invitation', 'password-reset']
+
+// Constant-time comparison so the secret cannot be guessed from response timings
+const isAuthorized = (request: NextRequest, secret: string) => {
+  const provided = Buffer.from(request.headers.get('authorization') || '')
+  const expected = Buffer.from(`Bearer ${secret}`)
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
+
+// Base URL for links in the emails. Outside production the request origin is
+// a fallback for local development; in production the Host header must not decide it.
+const getAppUrl = (request: NextRequest): string | null => {
+  if (process.env.APP_URL) return process.env.APP_URL
+  return process.env.NODE_ENV === 'production' ? null : request.nextUrl.origin
+}
+
+export async function POST(request: NextRequest) {
+  const problem = getMailConfigProblem()
+  if (problem) {
+    console.error(`❌ Mail: Sending is disabled: ${problem}`)
+    return NextResponse.json({ error: 'mail relay is not configured' }, { status: 503 })
+  }
+
+  const secret = process.env.MAIL_RELAY_SECRET
+  if (!secret) {
+    console.error('❌ Mail: MAIL_RELAY_SECRET is not set, refusing to relay mail')
+    return NextResponse.json({ error: 'mail relay is not configured' }, { status: 503 })
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+  }
+
+  const appUrl = getAppUrl(request)
+  if (!appUrl) {
+    console.error('❌ Mail: APP_URL is not set, refusing to build account links')
+    return NextResponse.json({ error: 'mail relay is not configured' }, { status: 503 })
+  }
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const { template, to, data } = body || {}
+  if (!TEMPLATES.includes(template)) {
+    return NextResponse.json({ error: `Unknown template "${template}"` }, { status: 400 })
+  }
+  if (typeof to !== 'string' || !to.includes('@') || !data?.token || !data?.expiresAt) {
+    return NextResponse.json({ error: 'to, data.token and data.expiresAt are required' }, { status: 400 })
+  }
+
+  try {
+    const transport = getMailTransport()
+    const result = await transport.send(renderAccountMail(template, to, data, appUrl))
+    return NextResponse.json({ id: result.id, transport: transport.name })
+  } catch (error) {
+    console.error('❌ Mail: Failed to send message:', error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to send mail' }, { status: 502 })
+  }
+}
+
+// Local mailbox for development: the most recent messages written by the mailbox transport
+export async function GET() {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'not_found' }, { status: 404 })
+  }
+  return NextResponse.json({ messages: await readMailbox() })
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import React from 'react';
+import { ShieldAlert, X, Download } from 'lucide-react';
+import { Button } from './ui/button';
+import { downloadCsv } from '../lib/utils/export.utils';
+import type { AccessRowViolation } from '../lib/access-control/scope';
+
+interface AccessViolationReportProps {
+  violations: AccessRowViolation[] | null;
+  onClose: () => void;
+  fileName?: string;
+}
+
+/**
+ * Per-row report for uploads rejected by the client-side access check.
+ * Nothing from the file has been sent when this is shown.
+ */
+const AccessViolationReport: React.FC<AccessViolationReportProps> = ({
+  violations,
+  onClose,
+  fileName,
+}) => {
+  if (!violations || violations.length === 0) return null;
+
+  const handleDownload = () => {
+    downloadCsv(
+      `access_report_${new Date().toISOString().split('T')[0]}.csv`,
+      ['Row', 'SKU', 'Brand', 'Marketplace', 'Reason'],
+      violations.map(v => [v.row, v.sku, v.brand, v.marketplace, v.reason])
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-3xl w-full mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center mb-4">
+          <ShieldAlert className="w-6 h-6 text-red-600 flex-shrink-0" />
+          <div className="ml-3">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              Upload blocked
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {violations.length} row{violations.length !== 1 ? 's' : ''}
+              {fileName ? ` in ${fileName}` : ''} touch brands or marketplaces you do not have access to. Nothing was uploaded.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="ml-auto text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto border dark:border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+              <tr className="text-left text-gray-600 dark:text-gray-300">
+                <th className="px-3 py-2 w-16">Row</th>
+                <th className="px-3 py-2">SKU</th>
+                <th className="px-3 py-2">Brand</th>
+                <th className="px-3 py-2">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y dark:divide-gray-700">
+              {violations.map(violation => (
+                <tr key={violation.row} className="text-gray-800 dark:text-gray-200">
+                  <td className="px-3 py-2 font-mono">{violation.row}</td>
+                  <td className="px-3 py-2 font-mono">{violation.sku || '-'}</td>
+                  <td className="px-3 py-2">{violation.brand || '-'}</td>
+                  <td className="px-3 py-2 text-red-600 dark:text-red-400">{violation.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-between items-center mt-4">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Remove these rows or ask an administrator for access, then upload again.
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={handleDownload} variant="outline" size="sm">
+              <Download className="h-4 w-4 mr-2" />
+              Download Report
+            </Button>
+            <Button onClick={onClose} size="sm">Close</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccessViolationReport;
@@ -1,12 +1,21 @@
 "use client"
 
 import React, { memo, useCallback, useMemo, useState, useEffect, useRef } from 'react'
-import { X, Package2, Plus, Maximize2, Image as ImageIcon, AlertCircle, CheckCircle, Loader2, Upload, Link, Edit3, Trash2 } from 'lucide-react'
+import { X, Plus, Maximize2, Image as ImageIcon, AlertCircle, CheckCircle, Loader2, Upload, Link, Edit3, Trash2 } from 'lucide-react'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
-import { Badge } from './ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Product } from '../lib/products/api'
+import type { ListingBundle } from '../lib/listings/bundles'
+import { calculatePrice, resolvePricingRule, PRICE_ROUNDING_LABELS } from '../lib/pricing'
+import type { PricingRule } from '../lib/settings/api'
+import BundleBuilder from './BundleBuilder'
+
+// Outcome of applying a pricing rule, shown above the price inputs
+interface PricingRuleResult {
+  text: string
+  error: boolean
+}
 
 // Validation utilities
 const validateSku = (sku: string): { isValid: boolean; error?: string } => {
@@ -188,44 +197,6 @@ const FieldError = memo(({ error }: { error?: string }) => {
 })
 
 // Memoized sub-components for better performance
-const CombinationCard = memo(({ 
-  combo, 
-  isSelected, 
-  onSelect 
-}: { 
-  combo: any
-  isSelected: boolean
-  onSelect: (id: number) => void 
-}) => (
-  <div
-    onClick={() => onSelect(combo.id)}
-    className={`cursor-pointer border-2 rounded-lg p-4 transition-all ${
-      isSelected
-        ? 'border-violet-500 bg-violet-100 dark:bg-violet-900/40 shadow-lg'
-        : 'border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 hover:border-violet-300 dark:hover:border-violet-600 hover:shadow-md'
-    }`}
-  >
-    <div className="flex items-center gap-2 mb-2">
-      <Badge variant="outline" className="text-xs">
-        {combo.productCount} Products
-      </Badge>
-    </div>
-    <p className="text-sm font-medium text-gray-900 dark:text-slate-100 line-clamp-2 mb-2">
-      {combo.title}
-    </p>
-    <div className="space-y-1 text-xs text-gray-600 dark:text-slate-400">
-      <p><span className="font-medium">Group SKU:</span> {combo.groupSku}</p>
-      <p><span className="font-medium">Sub SKUs:</span> {combo.subSkus.length}</p>
-      <p><span className="font-medium">Total MSRP:</span> ${combo.msrp?.toFixed(2) || '0.00'}</p>
-    </div>
-    <div className="mt-3 pt-3 border-t dark:border-slate-700">
-      <p className="text-xs text-gray-500 dark:text-slate-500">
-        Includes: {combo.products.map((p: Product) => p.title).join(', ')}
-      </p>
-    </div>
-  </div>
-))
-
 const ProductImage = memo(({ 
   imageUrl, 
   title, 
@@ -1016,6 +987,7 @@ const ListingForm = memo(({
   updateListingData,
   getImageUrl,
   onImagePreview,
+  onApplyPricingRule,
   validationErrors
 }: { 
   listing: any
@@ -1023,9 +995,11 @@ const ListingForm = memo(({
   updateListingData: (index: number, field: string, value: any) => void
   getImageUrl: (url: string | null) => string | null
   onImagePreview: (url: string, title: string) => void
+  onApplyPricingRule: (index: number) => PricingRuleResult
   validationErrors: Record<string, string>
 }) => {
   const galleryImages = listing.galleryImages || []
+  const [pricingResult, setPricingResult] = useState<PricingRuleResult | null>(null)
   
   // Auto-load image previews when URLs are entered
   useEffect(() => {
@@ -1293,6 +1267,18 @@ const ListingForm = memo(({
       
       
       {/* Pricing Information */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        {pricingResult ? (
+          <p className={`text-xs ${pricingResult.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {pricingResult.text}
+          </p>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-slate-400">Commission, profit margin and ecommerce price can come from the brand's pricing rule.</p>
+        )}
+        <Button type="button" onClick={() => setPricingResult(onApplyPricingRule(listingIndex))} variant="outline" size="sm">
+          Apply Pricing Rule
+        </Button>
+      </div>
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
@@ -1580,24 +1566,27 @@ const ListingsModal = memo(({
   onClose,
   listingsData,
   setListingsData,
-  combinationSuggestions,
-  selectedCombination,
-  onSelectCombination,
+  bundleProducts,
+  appliedBundle,
+  onApplyBundle,
+  onClearBundle,
   error,
   isSubmitting,
   onSubmit,
   getImageUrl,
   setPreviewImageUrl,
   setPreviewImageTitle,
-  setShowImagePreview
+  setShowImagePreview,
+  pricingRules
 }: {
   isOpen: boolean
   onClose: () => void
   listingsData: any[]
   setListingsData: (data: any[]) => void
-  combinationSuggestions: any[]
-  selectedCombination: number | null
-  onSelectCombination: (id: number) => void
+  bundleProducts: Product[]
+  appliedBundle: ListingBundle | null
+  onApplyBundle: (bundle: ListingBundle) => void
+  onClearBundle: () => void
   error: string | null
   isSubmitting: boolean
   onSubmit: () => void
@@ -1605,6 +1594,7 @@ const ListingsModal = memo(({
   setPreviewImageUrl: (url: string) => void
   setPreviewImageTitle: (title: string) => void
   setShowImagePreview: (show: boolean) => void
+  pricingRules: PricingRule[]
 }) => {
   const { validationErrors, isValid } = useFormValidation(listingsData)
   
@@ -1640,6 +1630,40 @@ const ListingsModal = memo(({
     setListingsData(newData)
   }, [listingsData, setListingsData])
 
+  // Fill commission, profit margin and ecommerce price from the brand's pricing rule
+  const applyPricingRule = useCallback((index: number): PricingRuleResult => {
+    const listing = listingsData[index]
+    const rule = resolvePricingRule(pricingRules, {
+      brandId: listing.brandId ? Number(listing.brandId) : null,
+      marketplaceId: null,
+    })
+    if (!rule) {
+      return { text: 'No enabled pricing rule matches this brand. Add one under Settings → Pricing Rules.', error: true }
+    }
+
+    const calculation = calculatePrice({
+      brandRealPrice: Number(listing.brandRealPrice) || 0,
+      brandMiscellaneous: Number(listing.brandMiscellaneous) || 0,
+      shippingPrice: Number(listing.shippingPrice) || 0,
+      ecommerceMiscellaneous: Number(listing.ecommerceMiscellaneous) || 0,
+      msrp: Number(listing.msrp) || 0,
+    }, rule)
+    if (!calculation) {
+      return { text: `Rule "${rule.name}" has commission + margin of 100% or more.`, error: true }
+    }
+
+    setListingsData(listingsData.map((item, i) => i === index ? {
+      ...item,
+      commissionPrice: calculation.commissionPrice,
+      profitMarginPrice: calculation.profitMarginPrice,
+      ecommercePrice: calculation.ecommercePrice,
+    } : item))
+    return {
+      text: `Priced by "${rule.name}": ecommerce price $${calculation.ecommercePrice.toFixed(2)} (${PRICE_ROUNDING_LABELS[rule.rounding]}${calculation.cappedAtMsrp ? ', capped at MSRP' : ''})${calculation.belowCost ? ' is below cost' : ''}`,
+      error: calculation.belowCost,
+    }
+  }, [listingsData, pricingRules, setListingsData])
+
   if (!isOpen) return null
 
   return (
@@ -1681,41 +1705,14 @@ const ListingsModal = memo(({
             </div>
           )}
           
-          {/* Combination Suggestions */}
-          {combinationSuggestions.length > 0 && (
-            <div className="bg-gradient-to-br from-violet-50 to-indigo-50 dark:from-violet-900/20 dark:to-indigo-900/20 border border-violet-200 dark:border-violet-800 rounded-lg p-6">
-              <div className="flex items-center gap-2 mb-4">
-                <Package2 className="h-5 w-5 text-violet-600 dark:text-violet-400" />
-                <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">
-                  Suggested Combinations
-                </h3>
-                <Badge className="bg-violet-600 text-white">
-                  {combinationSuggestions.length} combinations
-                </Badge>
-              </div>
-              <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">
-                Select a combination to create a bundled listing, or keep individual listings below
-              </p>
-              
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 max-h-96 overflow-y-auto">
-                {combinationSuggestions.map((combo) => (
-                  <CombinationCard
-                    key={combo.id}
-                    combo={combo}
-                    isSelected={selectedCombination === combo.id}
-                    onSelect={onSelectCombination}
-                  />
-                ))}
-              </div>
-              
-              {selectedCombination !== null && (
-                <div className="mt-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
-                  <p className="text-sm text-green-800 dark:text-green-200">
-                    ✓ Combination selected. The form below shows the combined listing details.
-                  </p>
-                </div>
-              )}
-            </div>
+          {/* Bundle Builder */}
+          {bundleProducts.length > 0 && (
+            <BundleBuilder
+              products={bundleProducts}
+              appliedBundle={appliedBundle}
+              onApply={onApplyBundle}
+              onClear={onClearBundle}
+            />
           )}
           
           {/* Listing Forms */}
@@ -1727,6 +1724,7 @@ const ListingsModal = memo(({
               updateListingData={updateListingData}
               getImageUrl={getImageUrl}
               onImagePreview={handleImagePreview}
+              onApplyPricingRule={applyPricingRule}
               validationErrors={validationErrors}
             />
           ))}
@@ -1770,7 +1768,6 @@ const ListingsModal = memo(({
 })
 
 ListingsModal.displayName = 'ListingsModal'
-CombinationCard.displayName = 'CombinationCard'
 ProductImage.displayName = 'ProductImage'
 SubSkuManager.displayName = 'SubSkuManager'
 DimensionCalculator.displayName = 'DimensionCalculator'
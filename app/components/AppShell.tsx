@@ -6,9 +6,12 @@ import Navbar from "./Navbar";
 import { useSidebar } from "./SidebarContext";
 import HydrationSafe from "./HydrationSafe";
 
+// Pages shown full screen, without the navbar
+const AUTH_PAGES = ["/login", "/forgot-password", "/reset-password"];
+
 export default function AppShell({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
-  const hideNavbar = pathname === "/login";
+  const hideNavbar = AUTH_PAGES.includes(pathname);
   const { sidebarCollapsed } = useSidebar();
   const { resolvedTheme } = useTheme();
   
@@ -0,0 +1,147 @@
+"use client"
+
+import React from 'react'
+import { AlertCircle } from 'lucide-react'
+import { Input } from './ui/input'
+import {
+  suggestAttributeField,
+  validateAttributeValue,
+  type AttributeSchemaField,
+} from '../lib/products/attribute-schemas'
+
+interface AttributeSchemaFieldsProps {
+  fields: AttributeSchemaField[] | null
+  values: Record<string, any>
+  onChange: (key: string, value: string) => void
+  // Keys the form already has its own inputs for; they are validated, not rendered again
+  skipKeys?: string[]
+  // Free-form custom attribute keys, checked for likely typos of schema fields
+  customKeys?: string[]
+  showRequired?: boolean
+  title?: string
+}
+
+const inputClass = "dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+const selectClass = "w-full h-10 border border-input rounded-md px-3 text-sm bg-background dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+
+/**
+ * Attribute inputs generated from the schema for the product's category.
+ * Invalid values are flagged as they are typed; missing required values
+ * only once `showRequired` is set, e.g. after a submit attempt.
+ */
+const AttributeSchemaFields: React.FC<AttributeSchemaFieldsProps> = ({
+  fields,
+  values,
+  onChange,
+  skipKeys = [],
+  customKeys = [],
+  showRequired = false,
+  title = 'Category Attributes',
+}) => {
+  if (!fields || fields.length === 0) return null
+
+  const errorFor = (field: AttributeSchemaField) => {
+    const value = values[field.key]
+    const isEmpty = value == null || String(value).trim() === ''
+    if (isEmpty && !showRequired) return null
+    return validateAttributeValue(field, value)
+  }
+
+  const rendered = fields.filter(field => !skipKeys.includes(field.key))
+  const otherErrors = fields
+    .filter(field => skipKeys.includes(field.key))
+    .map(errorFor)
+    .filter(Boolean)
+  const typos = customKeys
+    .map(key => ({ key, field: suggestAttributeField(fields, key) }))
+    .filter((entry): entry is { key: string; field: AttributeSchemaField } => !!entry.field)
+
+  const renderInput = (field: AttributeSchemaField, hasError: boolean) => {
+    const value = values[field.key] == null ? '' : String(values[field.key])
+    const errorClass = hasError ? 'border-red-400 dark:border-red-500' : ''
+
+    switch (field.type) {
+      case 'enum':
+        return (
+          <select value={value} onChange={(e) => onChange(field.key, e.target.value)} className={`${selectClass} ${errorClass}`}>
+            <option value="">Select...</option>
+            {(field.allowedValues || []).map(option => <option key={option} value={option}>{option}</option>)}
+            {value && !(field.allowedValues || []).some(option => option.toLowerCase() === value.toLowerCase()) && (
+              <option value={value}>{value} (not allowed)</option>
+            )}
+          </select>
+        )
+      case 'boolean':
+        return (
+          <select value={value === 'true' || value === 'false' ? value : value ? value : ''} onChange={(e) => onChange(field.key, e.target.value)} className={`${selectClass} ${errorClass}`}>
+            <option value="">Select...</option>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        )
+      case 'number':
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              step="any"
+              min={field.min ?? undefined}
+              max={field.max ?? undefined}
+              value={value}
+              onChange={(e) => onChange(field.key, e.target.value)}
+              className={`${inputClass} ${errorClass}`}
+            />
+            {field.unit && <span className="text-sm text-gray-500 dark:text-slate-400">{field.unit}</span>}
+          </div>
+        )
+      default:
+        return (
+          <Input
+            type="text"
+            value={value}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            className={`${inputClass} ${errorClass}`}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="md:col-span-3">
+      <h5 className="font-medium text-gray-900 dark:text-slate-100 mb-3">{title}</h5>
+      {rendered.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {rendered.map(field => {
+            const error = errorFor(field)
+            return (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  {field.label}{field.required && <span className="text-red-500"> *</span>}
+                </label>
+                {renderInput(field, !!error)}
+                {error && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{error}</p>}
+              </div>
+            )
+          })}
+        </div>
+      )}
+      {otherErrors.length > 0 && (
+        <div className="mt-3 text-xs text-red-600 dark:text-red-400 space-y-0.5">
+          {otherErrors.map(error => <div key={error}>{error}</div>)}
+        </div>
+      )}
+      {typos.length > 0 && (
+        <div className="mt-3 flex items-start gap-2 text-xs text-amber-700 dark:text-amber-300">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <div>
+            {typos.map(({ key, field }) => (
+              <div key={key}>Custom type &quot;{key}&quot; looks like {field.label} ({field.key}). Use the field above instead.</div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AttributeSchemaFields
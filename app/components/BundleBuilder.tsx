@@ -0,0 +1,294 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, CheckCircle, Loader2, Minus, Package2, Plus } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { useAuth } from '../lib/auth'
+import { getSettings } from '../lib/settings/api'
+import type { Product } from '../lib/products/api'
+import { formatVariantOptions, getProductSubSkus, getVariantPrice } from '../lib/products/variants'
+import {
+  BUNDLE_PRICING_LABELS,
+  DEFAULT_BUNDLE_PRICING,
+  DEFAULT_BUNDLE_SKU_PATTERN,
+  ListingBundlesService,
+  buildBundleSku,
+  calculateBundlePrices,
+  validateBundleSkuPattern,
+  type BundleComponent,
+  type BundlePricingMode,
+  type BundlePricingRule,
+  type ListingBundle,
+} from '../lib/listings/bundles'
+
+interface BundleBuilderProps {
+  products: Product[]
+  appliedBundle: ListingBundle | null
+  onApply: (bundle: ListingBundle) => void
+  onClear: () => void
+}
+
+const MAX_QUANTITY = 99
+
+const inputClass = "h-8 text-sm dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+
+const optionKey = (component: Pick<BundleComponent, 'product' | 'variant'>) =>
+  `${component.product.id}:${component.variant?.id ?? ''}`
+
+const formatPrice = (value: number) => `$${value.toFixed(2)}`
+
+/**
+ * Builds one bundled listing from the selected products: pick the
+ * components and how many units of each go in, choose a pricing rule and
+ * name it from the SKU pattern. Applying checks that no listing already
+ * sells the same components.
+ */
+const BundleBuilder: React.FC<BundleBuilderProps> = ({ products, appliedBundle, onApply, onClear }) => {
+  const { state } = useAuth()
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [pricing, setPricing] = useState<BundlePricingRule>(DEFAULT_BUNDLE_PRICING)
+  const [skuPattern, setSkuPattern] = useState(DEFAULT_BUNDLE_SKU_PATTERN)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Pattern from settings; the default is used when it cannot be loaded
+  useEffect(() => {
+    if (!state.accessToken) return
+    getSettings(state.accessToken)
+      .then(response => {
+        if (response.settings.bundleSkuPattern) setSkuPattern(response.settings.bundleSkuPattern)
+      })
+      .catch(err => console.error('Failed to load bundle SKU pattern:', err))
+  }, [state.accessToken])
+
+  // One option per variant, or per product without variants
+  const options = useMemo(() => products.flatMap<BundleComponent>(product =>
+    product.variants && product.variants.length > 0
+      ? product.variants.map(variant => ({ product, variant, subSkus: [variant.subSku], quantity: 0 }))
+      : [{ product, variant: null, subSkus: getProductSubSkus(product), quantity: 0 }]
+  ), [products])
+
+  const components = useMemo(() => options
+    .map(option => ({ ...option, quantity: quantities[optionKey(option)] || 0 }))
+    .filter(component => component.quantity > 0), [options, quantities])
+
+  const totalUnits = components.reduce((sum, component) => sum + component.quantity, 0)
+  const prices = useMemo(() => calculateBundlePrices(components, pricing), [components, pricing])
+  const summedPrice = useMemo(() => calculateBundlePrices(components, DEFAULT_BUNDLE_PRICING).ecommercePrice, [components])
+  const patternError = validateBundleSkuPattern(skuPattern)
+  const sku = patternError ? '' : buildBundleSku(skuPattern, components)
+
+  const setQuantity = (option: BundleComponent, quantity: number) => {
+    setQuantities(prev => ({ ...prev, [optionKey(option)]: Math.min(Math.max(Math.floor(quantity) || 0, 0), MAX_QUANTITY) }))
+    setError(null)
+  }
+
+  const validate = (): string | null => {
+    if (totalUnits < 2) return 'A bundle needs at least two units, e.g. two components or a quantity of 2'
+    const missingSku = components.find(component => component.subSkus.length === 0)
+    if (missingSku) return `${missingSku.product.groupSku} has no sub-SKU to bundle`
+    if (patternError) return patternError
+    if (!sku) return 'The SKU pattern produced an empty SKU'
+    if (pricing.mode === 'discount' && (pricing.discountPercent <= 0 || pricing.discountPercent >= 100)) {
+      return 'Discount must be between 0 and 100%'
+    }
+    if (pricing.mode === 'fixed' && pricing.fixedPrice <= 0) return 'Fixed price must be greater than 0'
+    return null
+  }
+
+  const handleApply = async () => {
+    const validationError = validate()
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    if (!state.accessToken) return
+
+    setIsChecking(true)
+    setError(null)
+    try {
+      const existing = await ListingBundlesService.findExistingBundle(state.accessToken, components)
+      if (existing) {
+        setError(`Listing ${existing.sku} (${existing.title}) already sells these components`)
+        return
+      }
+      onApply({ sku, components, pricing, prices })
+    } catch (err: any) {
+      setError(err.message || 'Could not check for existing bundles')
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <div className="bg-gradient-to-br from-violet-50 to-indigo-50 dark:from-violet-900/20 dark:to-indigo-900/20 border border-violet-200 dark:border-violet-800 rounded-lg p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Package2 className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">
+          Bundle Builder
+        </h3>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">
+        Set how many units of each item go into one bundled listing, or keep individual listings below
+      </p>
+
+      {/* Components */}
+      <div className="max-h-72 overflow-y-auto border dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-slate-700/50 text-xs text-gray-500 dark:text-slate-400 sticky top-0">
+            <tr>
+              <th className="text-left font-medium px-3 py-2">Item</th>
+              <th className="text-left font-medium px-3 py-2">Sub-SKU</th>
+              <th className="text-right font-medium px-3 py-2">Unit Price</th>
+              <th className="text-right font-medium px-3 py-2">Quantity</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y dark:divide-slate-700">
+            {options.map(option => {
+              const quantity = quantities[optionKey(option)] || 0
+              return (
+                <tr key={optionKey(option)} className={quantity > 0 ? 'bg-violet-50/60 dark:bg-violet-900/20' : ''}>
+                  <td className="px-3 py-2 text-gray-900 dark:text-slate-100">
+                    <div className="line-clamp-1">{option.product.title}</div>
+                    {option.variant && (
+                      <div className="text-xs text-gray-500 dark:text-slate-400">{formatVariantOptions(option.variant.options)}</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 font-mono text-xs text-gray-600 dark:text-slate-400">
+                    {option.subSkus.join(', ') || '—'}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700 dark:text-slate-300">
+                    {formatPrice(getVariantPrice(option.product, option.variant, 'ecommercePrice'))}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button type="button" variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => setQuantity(option, quantity - 1)} disabled={quantity === 0}>
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={MAX_QUANTITY}
+                        value={quantity}
+                        onChange={(e) => setQuantity(option, Number(e.target.value))}
+                        className={`${inputClass} w-16 text-center`}
+                      />
+                      <Button type="button" variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => setQuantity(option, quantity + 1)}>
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pricing and naming */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Pricing Rule</label>
+          <div className="flex items-center gap-2">
+            <select
+              value={pricing.mode}
+              onChange={(e) => { setPricing({ ...pricing, mode: e.target.value as BundlePricingMode }); setError(null) }}
+              className="h-8 border border-input rounded-md px-2 text-sm bg-background dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+            >
+              {(Object.keys(BUNDLE_PRICING_LABELS) as BundlePricingMode[]).map(mode => (
+                <option key={mode} value={mode}>{BUNDLE_PRICING_LABELS[mode]}</option>
+              ))}
+            </select>
+            {pricing.mode === 'discount' && (
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.5"
+                  value={pricing.discountPercent}
+                  onChange={(e) => { setPricing({ ...pricing, discountPercent: Number(e.target.value) }); setError(null) }}
+                  className={`${inputClass} w-20`}
+                />
+                <span className="text-sm text-gray-500 dark:text-slate-400">%</span>
+              </div>
+            )}
+            {pricing.mode === 'fixed' && (
+              <div className="flex items-center gap-1">
+                <span className="text-sm text-gray-500 dark:text-slate-400">$</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={pricing.fixedPrice}
+                  onChange={(e) => { setPricing({ ...pricing, fixedPrice: Number(e.target.value) }); setError(null) }}
+                  className={`${inputClass} w-28`}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">SKU Pattern</label>
+          <Input
+            type="text"
+            value={skuPattern}
+            onChange={(e) => { setSkuPattern(e.target.value); setError(null) }}
+            className={`${inputClass} font-mono`}
+          />
+          <p className={`text-xs mt-1 ${patternError ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-slate-400'}`}>
+            {patternError || (sku ? <>SKU: <span className="font-mono text-gray-800 dark:text-slate-200">{sku}</span></> : 'Choose components to preview the SKU')}
+          </p>
+        </div>
+      </div>
+
+      {/* Summary */}
+      {components.length > 0 && (
+        <div className="mt-4 text-sm text-gray-700 dark:text-slate-300 flex flex-wrap gap-x-6 gap-y-1">
+          <span>{components.map(component => `${component.quantity} × ${component.variant?.subSku || component.product.groupSku}`).join(' + ')}</span>
+          <span>Components: {formatPrice(summedPrice)}</span>
+          <span className="font-semibold">Bundle: {formatPrice(prices.ecommercePrice)}</span>
+          {summedPrice > prices.ecommercePrice && (
+            <span className="text-green-700 dark:text-green-400">Saves {formatPrice(summedPrice - prices.ecommercePrice)}</span>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <Button
+          type="button"
+          onClick={handleApply}
+          disabled={isChecking || components.length === 0}
+          className="bg-violet-600 hover:bg-violet-700 text-white"
+        >
+          {isChecking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Package2 className="h-4 w-4 mr-2" />}
+          {appliedBundle ? 'Update Bundle' : 'Create Bundle Listing'}
+        </Button>
+        {appliedBundle && (
+          <Button type="button" variant="outline" onClick={onClear} disabled={isChecking}>
+            Back to Individual Listings
+          </Button>
+        )}
+      </div>
+
+      {appliedBundle && (
+        <div className="mt-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg flex items-center gap-2">
+          <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
+          <p className="text-sm text-green-800 dark:text-green-200">
+            Bundle {appliedBundle.sku} applied. The form below shows the bundled listing details.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BundleBuilder
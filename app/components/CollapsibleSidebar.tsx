@@ -20,6 +20,9 @@ import {
   Truck,
   X,
   Activity,
+  DollarSign,
+  KeyRound,
+  ListChecks,
 } from "lucide-react";
 import { useAuth } from "../lib/auth";
 import { useTheme } from "next-themes";
@@ -41,7 +44,7 @@ export default function CollapsibleSidebar({
   onMobileMenuToggle,
 }: CollapsibleSidebarProps) {
   const pathname = usePathname();
-  const { state } = useAuth();
+  const { state, can } = useAuth();
   const { resolvedTheme } = useTheme();
 
   // Function to render icons dynamically
@@ -75,6 +78,12 @@ export default function CollapsibleSidebar({
         return <Truck {...iconProps} />;
       case "Activity":
         return <Activity {...iconProps} />;
+      case "DollarSign":
+        return <DollarSign {...iconProps} />;
+      case "KeyRound":
+        return <KeyRound {...iconProps} />;
+      case "ListChecks":
+        return <ListChecks {...iconProps} />;
       default:
         return <Home {...iconProps} />;
     }
@@ -110,6 +119,12 @@ export default function CollapsibleSidebar({
         iconName: "ShoppingCart",
         active: pathname === "/orders",
       },
+      {
+        label: "Reports",
+        href: "/reports",
+        iconName: "FileText",
+        active: pathname === "/reports",
+      },
       {
         label: "Status",
         href: "/status",
@@ -131,10 +146,6 @@ export default function CollapsibleSidebar({
         userKeys: state.user ? Object.keys(state.user) : 'no user'
       });
       
-      // Temporary fix: If role is undefined, try to determine from other fields or default to USER
-      const userRole = state.user?.role || 'USER';
-      const isAdminSafe = userRole === 'ADMIN';
-      
       const baseSettings = [
         {
           label: "Settings",
@@ -154,42 +165,66 @@ export default function CollapsibleSidebar({
           iconName: "Package",
           active: pathname === "/settings/brands",
         },
+        {
+          label: "Attribute Schemas",
+          href: "/settings/attribute-schemas",
+          iconName: "ListChecks",
+          active: pathname === "/settings/attribute-schemas",
+        },
         {
           label: "Shipping Platforms",
           href: "/settings/shipping",
           iconName: "Truck",
           active: pathname === "/settings/shipping",
         },
+        {
+          label: "Pricing Rules",
+          href: "/settings/pricing",
+          iconName: "DollarSign",
+          active: pathname === "/settings/pricing",
+        },
       ];
 
-      // Add admin-only settings if user is admin
-      if (isAdminSafe) {
-        return [
-          {
-            label: "Manage Users",
-            href: "/settings/manage-users",
-            iconName: "Users",
-            active: pathname === "/settings/manage-users",
-          },
-          {
-            label: "User Access",
-            href: "/settings/access-control",
-            iconName: "Shield",
-            active: pathname === "/settings/access-control",
-          },
-          {
-            label: "History",
-            href: "/settings/history",
-            iconName: "History",
-            active: pathname === "/settings/history",
-          },
-          ...baseSettings,
-        ];
-      }
+      // Add user and history settings the role allows
+      const adminSettings = [
+        {
+          label: "Manage Users",
+          href: "/settings/manage-users",
+          iconName: "Users",
+          active: pathname === "/settings/manage-users",
+          permission: 'users:manage' as const,
+        },
+        {
+          label: "User Access",
+          href: "/settings/access-control",
+          iconName: "Shield",
+          active: pathname === "/settings/access-control",
+          permission: 'users:manage' as const,
+        },
+        {
+          label: "Roles",
+          href: "/settings/roles",
+          iconName: "KeyRound",
+          active: pathname === "/settings/roles",
+          permission: 'roles:manage' as const,
+        },
+        {
+          label: "History",
+          href: "/settings/history",
+          iconName: "History",
+          active: pathname === "/settings/history",
+          permission: 'audit:view' as const,
+        },
+      ];
 
-      return baseSettings;
+      return [
+        ...adminSettings
+          .filter(item => can(item.permission))
+          .map(({ permission, ...item }) => item),
+        ...baseSettings,
+      ];
     },
-    [pathname, state.user?.role, state.isAuthenticated]
+    [pathname, state.user?.role, state.user?.permissions, state.isAuthenticated]
   );
 
   const renderNavigationItem = (item: any, isSubItem = false) => {
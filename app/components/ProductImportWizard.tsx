@@ -0,0 +1,703 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, ArrowLeft, ArrowRight, Download, Info, Loader2, Upload, X } from 'lucide-react'
+import { Button } from './ui/button'
+import { useAuth } from '../lib/auth'
+import { readImportRows, type ImportRow } from '../lib/utils/import.utils'
+import { ProductsService, type Brand } from '../lib/products/api'
+import {
+  PRODUCT_IMPORT_FIELDS,
+  PRODUCT_IMPORT_MODE_LABELS,
+  IGNORE_IMPORT_COLUMN,
+  ProductImportMappingsService,
+  attributeSchemaTarget,
+  buildProductImportDiff,
+  buildProductImportFile,
+  buildProductImportPreview,
+  buildProductImportUpdate,
+  customAttributeTarget,
+  getImportHeaders,
+  getMappedTargets,
+  getUnmappedRequiredFields,
+  importTargetLabel,
+  isCustomAttributeTarget,
+  suggestProductImportMapping,
+  type ProductImportDiffRow,
+  type ProductImportMapping,
+  type ProductImportMode,
+  type ProductImportPlan,
+} from '../lib/products/import'
+import { AttributeSchemasService, type AttributeSchema, type AttributeSchemaField } from '../lib/products/attribute-schemas'
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'review'
+
+const WIZARD_STEPS: WizardStep[] = ['upload', 'map', 'preview', 'review']
+
+interface ProductImportWizardProps {
+  brands: Brand[]
+  isSubmitting: boolean
+  onSubmit: (plan: ProductImportPlan) => Promise<void>
+  onClose: () => void
+  onDownloadSample: () => void
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+const PREVIEW_ROW_LIMIT = 200
+
+const selectClass = "w-full border border-gray-300 dark:border-slate-600 rounded-md px-2 py-1.5 text-sm bg-white dark:bg-slate-700 dark:text-slate-100"
+
+/**
+ * Import wizard: parse the supplier file in the browser, map its columns onto
+ * product fields, review a validated preview, then a dry-run diff against the
+ * catalog. Only the new rows and field changes the user keeps are handed to
+ * onSubmit; new rows go up as a rebuilt template file.
+ */
+const ProductImportWizard: React.FC<ProductImportWizardProps> = ({
+  brands,
+  isSubmitting,
+  onSubmit,
+  onClose,
+  onDownloadSample,
+}) => {
+  const { state } = useAuth()
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [file, setFile] = useState<File | null>(null)
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [headers, setHeaders] = useState<string[]>([])
+  const [brandId, setBrandId] = useState('')
+  const [mapping, setMapping] = useState<ProductImportMapping>({})
+  const [hasSavedMapping, setHasSavedMapping] = useState(false)
+  const [saveForBrand, setSaveForBrand] = useState(true)
+  const [isParsing, setIsParsing] = useState(false)
+  const [isLoadingMapping, setIsLoadingMapping] = useState(false)
+  const [onlyErrors, setOnlyErrors] = useState(false)
+  const [skipInvalid, setSkipInvalid] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<ProductImportMode>('upsert')
+  const [diff, setDiff] = useState<ProductImportDiffRow[]>([])
+  const [isComparing, setIsComparing] = useState(false)
+  const [selectedNew, setSelectedNew] = useState<Set<number>>(new Set())
+  const [selectedChanges, setSelectedChanges] = useState<Record<number, string[]>>({})
+  const [attributeSchemas, setAttributeSchemas] = useState<AttributeSchema[]>([])
+
+  const selectedBrand = brands.find(b => b.id.toString() === brandId)
+  const defaults = useMemo(
+    (): Record<string, string> => selectedBrand ? { brand: selectedBrand.name } : {},
+    [selectedBrand]
+  )
+
+  // Schema fields without a template column, offered as mapping targets
+  const schemaFields = useMemo(() => {
+    const fields = new Map<string, AttributeSchemaField>()
+    attributeSchemas.forEach(schema => schema.fields.forEach(field => {
+      if (!PRODUCT_IMPORT_FIELDS.some(f => f.key === field.key) && !fields.has(field.key)) fields.set(field.key, field)
+    }))
+    return Array.from(fields.values()).sort((a, b) => a.label.localeCompare(b.label))
+  }, [attributeSchemas])
+
+  // Without schemas rows are still validated against the template fields
+  useEffect(() => {
+    if (!state.accessToken) return
+    AttributeSchemasService.getSchemas(state.accessToken)
+      .then(setAttributeSchemas)
+      .catch(err => console.error('Failed to load attribute schemas:', err))
+  }, [state.accessToken])
+
+  // Re-apply the brand's saved mapping whenever the file or brand changes
+  useEffect(() => {
+    if (headers.length === 0) return
+    if (!brandId || !state.accessToken) {
+      setHasSavedMapping(false)
+      setMapping(suggestProductImportMapping(headers, null, schemaFields))
+      return
+    }
+
+    let cancelled = false
+    setIsLoadingMapping(true)
+    ProductImportMappingsService.getMapping(state.accessToken, Number(brandId))
+      .then(saved => {
+        if (cancelled) return
+        setHasSavedMapping(!!saved)
+        setMapping(suggestProductImportMapping(headers, saved?.columns, schemaFields))
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingMapping(false)
+      })
+    return () => { cancelled = true }
+  }, [headers, brandId, state.accessToken, schemaFields])
+
+  const missingRequired = useMemo(() => getUnmappedRequiredFields(mapping, defaults), [mapping, defaults])
+  const targets = useMemo(() => getMappedTargets(mapping, defaults), [mapping, defaults])
+  const preview = useMemo(
+    () => step === 'preview' || step === 'review' ? buildProductImportPreview(rows, mapping, defaults, brands, attributeSchemas) : [],
+    [step, rows, mapping, defaults, brands, attributeSchemas]
+  )
+  const invalidRows = preview.filter(row => Object.keys(row.errors).length > 0)
+  const validRows = preview.filter(row => Object.keys(row.errors).length === 0)
+  const visibleRows = (onlyErrors ? invalidRows : preview).slice(0, PREVIEW_ROW_LIMIT)
+  const rowsToImport = skipInvalid ? validRows : preview
+  // Schema errors for attributes no column is mapped to, e.g. a missing required field
+  const unmappedErrors = (row: typeof preview[number]) =>
+    Object.entries(row.errors).filter(([target]) => !targets.includes(target)).map(([, error]) => error)
+  const hasUnmappedErrors = preview.some(row => unmappedErrors(row).length > 0)
+
+  const diffByStatus = useMemo(() => ({
+    new: diff.filter(row => row.status === 'new'),
+    changed: diff.filter(row => row.status === 'changed'),
+    unchanged: diff.filter(row => row.status === 'unchanged'),
+    skipped: diff.filter(row => row.status === 'skipped'),
+  }), [diff])
+  const selectedUpdateCount = diffByStatus.changed.filter(row => (selectedChanges[row.preview.row] || []).length > 0).length
+  const selectedTotal = selectedNew.size + selectedUpdateCount
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+
+    if (!selected.name.match(/\.(csv|xlsx)$/i)) {
+      setError('Please select a valid CSV or Excel file (.csv, .xlsx)')
+      return
+    }
+    if (selected.size > MAX_FILE_SIZE) {
+      setError('File size must be less than 10MB')
+      return
+    }
+
+    try {
+      setIsParsing(true)
+      setError(null)
+      const parsed = await readImportRows(selected)
+      if (parsed.length === 0) {
+        setError(`${selected.name} has no data rows`)
+        return
+      }
+      setFile(selected)
+      setRows(parsed)
+      setHeaders(getImportHeaders(parsed))
+      setStep('map')
+    } catch (err: any) {
+      console.error('Failed to read import file:', err)
+      setError(`Could not read ${selected.name}: ${err.message || 'unknown format'}`)
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const updateMapping = (header: string, target: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      // A field can only come from one column
+      if (target && !isCustomAttributeTarget(target)) {
+        Object.keys(next).forEach(other => {
+          if (other !== header && next[other] === target) next[other] = IGNORE_IMPORT_COLUMN
+        })
+      }
+      next[header] = target
+      return next
+    })
+  }
+
+  const sampleValue = (header: string) =>
+    rows.map(row => String(row[header] ?? '').trim()).find(Boolean) || ''
+
+  // Dry run: match every row to the catalog and preselect all changes
+  const handleCompare = async () => {
+    if (!state.accessToken || rowsToImport.length === 0) return
+
+    try {
+      setIsComparing(true)
+      setError(null)
+      const accessToken = state.accessToken
+      const result = await buildProductImportDiff(rowsToImport, mode, async sku => {
+        try {
+          return (await ProductsService.getProductBySku(accessToken, sku)).product || null
+        } catch {
+          return null
+        }
+      })
+      setDiff(result)
+      setSelectedNew(new Set(result.filter(row => row.status === 'new').map(row => row.preview.row)))
+      setSelectedChanges(Object.fromEntries(
+        result.filter(row => row.status === 'changed').map(row => [row.preview.row, row.changes.map(change => change.target)])
+      ))
+      setStep('review')
+    } catch (err: any) {
+      console.error('Failed to compare import with catalog:', err)
+      setError(err.message || 'Failed to compare the file with the catalog')
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  const toggleNew = (row: number) => {
+    setSelectedNew(prev => {
+      const next = new Set(prev)
+      if (next.has(row)) next.delete(row)
+      else next.add(row)
+      return next
+    })
+  }
+
+  const toggleChange = (row: number, target: string) => {
+    setSelectedChanges(prev => {
+      const current = prev[row] || []
+      return {
+        ...prev,
+        [row]: current.includes(target) ? current.filter(t => t !== target) : [...current, target],
+      }
+    })
+  }
+
+  const toggleChangedRow = (diffRow: ProductImportDiffRow) => {
+    const row = diffRow.preview.row
+    setSelectedChanges(prev => ({
+      ...prev,
+      [row]: (prev[row] || []).length === diffRow.changes.length ? [] : diffRow.changes.map(change => change.target),
+    }))
+  }
+
+  const handleApply = async () => {
+    if (!file || selectedTotal === 0) return
+
+    try {
+      setError(null)
+      if (selectedBrand && saveForBrand && state.accessToken) {
+        try {
+          await ProductImportMappingsService.saveMapping(state.accessToken, selectedBrand.id, mapping)
+        } catch (err) {
+          // The import does not depend on the saved mapping
+          console.warn('Could not save import mapping:', err)
+        }
+      }
+
+      const createRows = diffByStatus.new.filter(row => selectedNew.has(row.preview.row)).map(row => row.preview)
+      const updates = diffByStatus.changed.flatMap(row => {
+        const chosen = selectedChanges[row.preview.row] || []
+        if (!row.product || chosen.length === 0) return []
+        const changes = row.changes.filter(change => chosen.includes(change.target))
+        return [{ row: row.preview.row, product: row.product, data: buildProductImportUpdate(row.product, changes) }]
+      })
+
+      await onSubmit({
+        mode,
+        createFile: createRows.length > 0 ? buildProductImportFile(createRows, targets, file.name) : null,
+        createCount: createRows.length,
+        updates,
+      })
+    } catch (err: any) {
+      setError(err.message || 'Failed to import products')
+    }
+  }
+
+  const stepTitle: Record<WizardStep, string> = {
+    upload: 'Choose a file',
+    map: 'Map columns',
+    preview: 'Review rows',
+    review: 'Review changes',
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 p-4">
+      <div className={`bg-white dark:bg-slate-800 rounded-lg p-6 w-full ${step === 'preview' || step === 'review' ? 'max-w-6xl' : 'max-w-3xl'} max-h-[90vh] flex flex-col`}>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-2xl font-semibold text-gray-900 dark:text-slate-100">
+              Import Products from File
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              Step {WIZARD_STEPS.indexOf(step) + 1} of {WIZARD_STEPS.length} · {stepTitle[step]}
+              {file && step !== 'upload' && <> · {file.name} ({rows.length} rows)</>}
+            </p>
+          </div>
+          <Button onClick={onClose} variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={isSubmitting}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg p-3 text-sm mb-4 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto min-h-0">
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+                <div className="flex items-start gap-3">
+                  <Info className="h-5 w-5 text-blue-500 flex-shrink-0 mt-0.5" />
+                  <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
+                    <li>• <strong>Supported formats:</strong> CSV or Excel (.xlsx) up to 10MB, headers in the first row</li>
+                    <li>• <strong>Any column names:</strong> you map the supplier&apos;s columns to product fields in the next step</li>
+                    <li>• <strong>Saved per brand:</strong> pick the brand and its last mapping is applied automatically</li>
+                    <li>• <strong>Re-imports:</strong> rows are matched to existing products on Group SKU + Sub SKU and you choose what to change</li>
+                  </ul>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                  Brand (optional)
+                </label>
+                <select value={brandId} onChange={(e) => setBrandId(e.target.value)} className={selectClass}>
+                  <option value="">Brand comes from a column in the file</option>
+                  {brands.map(brand => (
+                    <option key={brand.id} value={brand.id.toString()}>{brand.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <Button onClick={onDownloadSample} variant="outline" size="sm" className="text-indigo-600 hover:text-indigo-700">
+                <Download className="h-4 w-4 mr-2" />
+                Download Sample CSV
+              </Button>
+
+              <div className="border-2 border-dashed dark:border-slate-600 rounded-lg p-6 text-center">
+                <input
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={handleFileSelect}
+                  className="hidden"
+                  id="import-file-upload"
+                  disabled={isParsing}
+                />
+                <label htmlFor="import-file-upload" className="cursor-pointer flex flex-col items-center gap-2">
+                  {isParsing ? <Loader2 className="h-8 w-8 text-gray-400 animate-spin" /> : <Upload className="h-8 w-8 text-gray-400" />}
+                  <span className="text-gray-600 dark:text-slate-400">
+                    {isParsing ? 'Reading file...' : 'Click to select file'}
+                  </span>
+                  <span className="text-sm text-gray-500 dark:text-slate-500">CSV, Excel files up to 10MB</span>
+                </label>
+              </div>
+            </div>
+          )}
+
+          {step === 'map' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="flex-1 min-w-[200px]">
+                  <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">Brand</label>
+                  <select value={brandId} onChange={(e) => setBrandId(e.target.value)} className={selectClass}>
+                    <option value="">Brand comes from a column in the file</option>
+                    {brands.map(brand => (
+                      <option key={brand.id} value={brand.id.toString()}>{brand.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {selectedBrand && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300 pb-2">
+                    <input type="checkbox" checked={saveForBrand} onChange={(e) => setSaveForBrand(e.target.checked)} />
+                    Save this mapping for {selectedBrand.name}
+                  </label>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-slate-400">
+                {isLoadingMapping
+                  ? 'Loading saved mapping...'
+                  : hasSavedMapping
+                    ? `Applied the saved mapping for ${selectedBrand?.name}. Rows without a brand use ${selectedBrand?.name}.`
+                    : selectedBrand
+                      ? `No saved mapping for ${selectedBrand.name} yet; columns were matched by name. Rows without a brand use ${selectedBrand.name}.`
+                      : 'Columns were matched by name. Check each one before continuing.'}
+              </p>
+
+              {missingRequired.length > 0 && (
+                <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 rounded-lg p-3 text-sm">
+                  Required fields without a column: {missingRequired.map(field => field.label).join(', ')}
+                </div>
+              )}
+
+              <div className="border border-gray-200 dark:border-slate-600 rounded-md overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-slate-700 text-left text-gray-600 dark:text-slate-300">
+                    <tr>
+                      <th className="px-3 py-2">File Column</th>
+                      <th className="px-3 py-2">Sample Value</th>
+                      <th className="px-3 py-2 w-72">Product Field</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+                    {headers.map(header => (
+                      <tr key={header}>
+                        <td className="px-3 py-2 font-mono text-gray-900 dark:text-slate-100">{header}</td>
+                        <td className="px-3 py-2 text-gray-500 dark:text-slate-400 truncate max-w-[240px]" title={sampleValue(header)}>
+                          {sampleValue(header) || <span className="italic">empty</span>}
+                        </td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={mapping[header] ?? IGNORE_IMPORT_COLUMN}
+                            onChange={(e) => updateMapping(header, e.target.value)}
+                            className={selectClass}
+                          >
+                            <option value={IGNORE_IMPORT_COLUMN}>Don&apos;t import</option>
+                            <optgroup label="Product">
+                              {PRODUCT_IMPORT_FIELDS.filter(field => !field.attribute).map(field => (
+                                <option key={field.key} value={field.key}>{field.label}{field.required ? ' *' : ''}</option>
+                              ))}
+                            </optgroup>
+                            <optgroup label="Attributes">
+                              {PRODUCT_IMPORT_FIELDS.filter(field => field.attribute).map(field => (
+                                <option key={field.key} value={field.key}>{field.label}</option>
+                              ))}
+                              <option value={customAttributeTarget(header)}>{importTargetLabel(customAttributeTarget(header))}</option>
+                            </optgroup>
+                            {schemaFields.length > 0 && (
+                              <optgroup label="Category Attributes">
+                                {schemaFields.map(field => (
+                                  <option key={field.key} value={attributeSchemaTarget(field.key)}>
+                                    {field.label}{field.unit ? ` (${field.unit})` : ''}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            )}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2 text-gray-700 dark:text-slate-300">
+                  Existing products
+                  <select
+                    value={mode}
+                    onChange={(e) => setMode(e.target.value as ProductImportMode)}
+                    className="border border-gray-300 dark:border-slate-600 rounded-md px-2 py-1 text-sm bg-white dark:bg-slate-700 dark:text-slate-100"
+                  >
+                    {(Object.keys(PRODUCT_IMPORT_MODE_LABELS) as ProductImportMode[]).map(key => (
+                      <option key={key} value={key}>{PRODUCT_IMPORT_MODE_LABELS[key]}</option>
+                    ))}
+                  </select>
+                </label>
+                <span className="text-gray-700 dark:text-slate-300">
+                  <strong>{validRows.length}</strong> ready · <strong className={invalidRows.length > 0 ? 'text-red-600' : ''}>{invalidRows.length}</strong> with errors
+                </span>
+                <label className="flex items-center gap-2 text-gray-700 dark:text-slate-300">
+                  <input type="checkbox" checked={onlyErrors} onChange={(e) => setOnlyErrors(e.target.checked)} />
+                  Only rows with errors
+                </label>
+                {invalidRows.length > 0 && (
+                  <label className="flex items-center gap-2 text-gray-700 dark:text-slate-300">
+                    <input type="checkbox" checked={skipInvalid} onChange={(e) => setSkipInvalid(e.target.checked)} />
+                    Skip rows with errors
+                  </label>
+                )}
+              </div>
+
+              <div className="border border-gray-200 dark:border-slate-600 rounded-md overflow-auto max-h-[55vh]">
+                <table className="text-xs whitespace-nowrap">
+                  <thead className="bg-gray-50 dark:bg-slate-700 sticky top-0 text-left text-gray-600 dark:text-slate-300">
+                    <tr>
+                      <th className="px-2 py-2">Row</th>
+                      {targets.map(target => (
+                        <th key={target} className="px-2 py-2">{importTargetLabel(target)}</th>
+                      ))}
+                      {hasUnmappedErrors && <th className="px-2 py-2">Other Attribute Errors</th>}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+                    {visibleRows.map(row => (
+                      <tr key={row.row}>
+                        <td className="px-2 py-1 text-gray-500">{row.row}</td>
+                        {targets.map(target => {
+                          const cellError = row.errors[target]
+                          return (
+                            <td
+                              key={target}
+                              title={cellError || row.values[target]}
+                              className={`px-2 py-1 max-w-[220px] truncate ${cellError ? 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 font-medium' : 'text-gray-800 dark:text-slate-200'}`}
+                            >
+                              {row.values[target] || (cellError ? 'missing' : '')}
+                            </td>
+                          )
+                        })}
+                        {hasUnmappedErrors && (
+                          <td className="px-2 py-1 text-red-700 dark:text-red-300">{unmappedErrors(row).join('; ')}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {(onlyErrors ? invalidRows : preview).length > PREVIEW_ROW_LIMIT && (
+                <p className="text-xs text-gray-500 dark:text-slate-400">
+                  Showing the first {PREVIEW_ROW_LIMIT} rows. All rows are validated and imported.
+                </p>
+              )}
+
+              {invalidRows.length > 0 && (
+                <div className="text-xs text-red-700 dark:text-red-300 space-y-0.5 max-h-24 overflow-y-auto">
+                  {invalidRows.slice(0, 20).map(row => (
+                    <div key={row.row}>Row {row.row}: {Object.values(row.errors).join('; ')}</div>
+                  ))}
+                  {invalidRows.length > 20 && <div>…and {invalidRows.length - 20} more rows</div>}
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'review' && (
+            <div className="space-y-4 text-sm">
+              <div className="flex flex-wrap gap-2">
+                <span className="px-2 py-1 rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300">{diffByStatus.new.length} new</span>
+                <span className="px-2 py-1 rounded bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">{diffByStatus.changed.length} changed</span>
+                <span className="px-2 py-1 rounded bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300">{diffByStatus.unchanged.length} unchanged</span>
+                <span className="px-2 py-1 rounded bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300">{diffByStatus.skipped.length} skipped</span>
+                <span className="text-gray-500 dark:text-slate-400 self-center">Mode: {PRODUCT_IMPORT_MODE_LABELS[mode]}. Nothing has been changed yet.</span>
+              </div>
+
+              {diffByStatus.new.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-medium text-gray-900 dark:text-slate-100">New products</h4>
+                    <button
+                      className="text-xs text-indigo-600 hover:underline"
+                      onClick={() => setSelectedNew(selectedNew.size === diffByStatus.new.length ? new Set() : new Set(diffByStatus.new.map(row => row.preview.row)))}
+                    >
+                      {selectedNew.size === diffByStatus.new.length ? 'Select none' : 'Select all'}
+                    </button>
+                  </div>
+                  <div className="border border-gray-200 dark:border-slate-600 rounded-md divide-y divide-gray-100 dark:divide-slate-700 max-h-48 overflow-y-auto">
+                    {diffByStatus.new.map(({ preview: row }) => (
+                      <label key={row.row} className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-slate-700/50">
+                        <input type="checkbox" checked={selectedNew.has(row.row)} onChange={() => toggleNew(row.row)} />
+                        <span className="text-gray-500 w-14">Row {row.row}</span>
+                        <span className="font-mono text-gray-800 dark:text-slate-200">{row.values.groupSku} / {row.values.subSku}</span>
+                        <span className="text-gray-600 dark:text-slate-400 truncate">{row.values.title}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {diffByStatus.changed.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-gray-900 dark:text-slate-100 mb-2">Changed products</h4>
+                  <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+                    {diffByStatus.changed.map(diffRow => {
+                      const chosen = selectedChanges[diffRow.preview.row] || []
+                      return (
+                        <div key={diffRow.preview.row} className="border border-gray-200 dark:border-slate-600 rounded-md">
+                          <label className="flex items-center gap-3 px-3 py-2 bg-gray-50 dark:bg-slate-700/50 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={chosen.length === diffRow.changes.length}
+                              ref={el => { if (el) el.indeterminate = chosen.length > 0 && chosen.length < diffRow.changes.length }}
+                              onChange={() => toggleChangedRow(diffRow)}
+                            />
+                            <span className="text-gray-500 w-14">Row {diffRow.preview.row}</span>
+                            <span className="font-mono text-gray-800 dark:text-slate-200">{diffRow.product?.groupSku} / {diffRow.product?.subSku}</span>
+                            <span className="text-gray-600 dark:text-slate-400 truncate">{diffRow.product?.title}</span>
+                          </label>
+                          <div className="divide-y divide-gray-100 dark:divide-slate-700">
+                            {diffRow.changes.map(change => (
+                              <label key={change.target} className="flex items-center gap-3 px-3 py-1.5 pl-9 cursor-pointer text-xs">
+                                <input
+                                  type="checkbox"
+                                  checked={chosen.includes(change.target)}
+                                  onChange={() => toggleChange(diffRow.preview.row, change.target)}
+                                />
+                                <span className="w-44 text-gray-700 dark:text-slate-300">{importTargetLabel(change.target)}</span>
+                                <span className="text-red-600 dark:text-red-400 line-through truncate max-w-[240px]" title={change.before}>{change.before || 'empty'}</span>
+                                <ArrowRight className="h-3 w-3 text-gray-400 flex-shrink-0" />
+                                <span className="text-green-700 dark:text-green-400 truncate max-w-[240px]" title={change.after}>{change.after}</span>
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {diffByStatus.unchanged.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-gray-900 dark:text-slate-100 mb-1">Unchanged products</h4>
+                  <p className="text-xs text-gray-500 dark:text-slate-400">
+                    {diffByStatus.unchanged.slice(0, 15).map(row => row.product?.subSku || row.product?.groupSku).join(', ')}
+                    {diffByStatus.unchanged.length > 15 && ` and ${diffByStatus.unchanged.length - 15} more`}
+                  </p>
+                </div>
+              )}
+
+              {diffByStatus.skipped.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-gray-900 dark:text-slate-100 mb-1">Skipped rows</h4>
+                  <div className="text-xs text-amber-700 dark:text-amber-300 space-y-0.5 max-h-24 overflow-y-auto">
+                    {diffByStatus.skipped.map(row => (
+                      <div key={row.preview.row}>
+                        Row {row.preview.row} ({row.preview.values.groupSku} / {row.preview.values.subSku}): {row.reason}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-between mt-6">
+          <div>
+            {step !== 'upload' && (
+              <Button
+                onClick={() => setStep(WIZARD_STEPS[WIZARD_STEPS.indexOf(step) - 1])}
+                variant="outline"
+                disabled={isSubmitting}
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={onClose} variant="outline" disabled={isSubmitting}>
+              Cancel
+            </Button>
+            {step === 'map' && (
+              <Button
+                onClick={() => { setOnlyErrors(false); setSkipInvalid(false); setStep('preview') }}
+                disabled={isLoadingMapping || missingRequired.length > 0}
+                className="bg-purple-600 hover:bg-purple-700 text-white"
+              >
+                Preview Rows
+              </Button>
+            )}
+            {step === 'preview' && (
+              <Button
+                onClick={handleCompare}
+                disabled={isComparing || rowsToImport.length === 0 || (invalidRows.length > 0 && !skipInvalid)}
+                className="bg-purple-600 hover:bg-purple-700 text-white"
+              >
+                {isComparing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isComparing ? 'Comparing...' : `Compare ${rowsToImport.length} Row${rowsToImport.length !== 1 ? 's' : ''} with Catalog`}
+              </Button>
+            )}
+            {step === 'review' && (
+              <Button
+                onClick={handleApply}
+                disabled={isSubmitting || selectedTotal === 0}
+                className="bg-purple-600 hover:bg-purple-700 text-white"
+              >
+                {isSubmitting
+                  ? 'Applying...'
+                  : `Create ${selectedNew.size} · Update ${selectedUpdateCount}`}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProductImportWizard
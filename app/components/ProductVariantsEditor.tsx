@@ -0,0 +1,323 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, Loader2, Plus, RefreshCw, Trash2, X } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { useAuth } from '../lib/auth'
+import type { Product } from '../lib/products/api'
+import {
+  ProductVariantsService,
+  VARIANT_AXIS_PRESETS,
+  VARIANT_PRICE_FIELDS,
+  buildVariantMatrix,
+  formatVariantOptions,
+  mergeVariantMatrix,
+  toVariantInput,
+  validateVariants,
+  type ProductVariantInput,
+  type ProductVariantSet,
+  type VariantOptionAxis,
+  type VariantPriceField,
+} from '../lib/products/variants'
+
+interface ProductVariantsEditorProps {
+  product: Product
+  onClose: () => void
+  onSaved: (set: ProductVariantSet) => void
+}
+
+// Axis as typed; values stay a comma-separated string until generating
+interface AxisDraft {
+  name: string
+  values: string
+}
+
+const MAX_AXES = 3
+
+const inputClass = "h-8 text-sm dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+
+const toAxes = (drafts: AxisDraft[]): VariantOptionAxis[] =>
+  drafts
+    .map(draft => ({ name: draft.name.trim(), values: draft.values.split(',').map(value => value.trim()).filter(Boolean) }))
+    .filter(axis => axis.name && axis.values.length > 0)
+
+/**
+ * Matrix editor for a product's variants: define option axes, generate one
+ * variant per combination, then adjust sub-SKUs, price overrides and images.
+ */
+const ProductVariantsEditor: React.FC<ProductVariantsEditorProps> = ({ product, onClose, onSaved }) => {
+  const { state } = useAuth()
+  const [axes, setAxes] = useState<AxisDraft[]>([{ name: VARIANT_AXIS_PRESETS[0], values: '' }])
+  const [variants, setVariants] = useState<ProductVariantInput[]>([])
+  const [removed, setRemoved] = useState<ProductVariantInput[]>([])
+  const [stock, setStock] = useState<Record<number, number>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({})
+
+  const applySet = (set: ProductVariantSet) => {
+    if (set.axes.length > 0) setAxes(set.axes.map(axis => ({ name: axis.name, values: axis.values.join(', ') })))
+    setVariants(set.variants.map(toVariantInput))
+    setStock(Object.fromEntries(set.variants.map(variant => [variant.id, variant.inventory?.quantity ?? 0])))
+  }
+
+  useEffect(() => {
+    if (!state.accessToken) return
+    setIsLoading(true)
+    ProductVariantsService.getVariants(state.accessToken, product.id)
+      .then(applySet)
+      .catch(err => {
+        console.error('Failed to load variants:', err)
+        applySet({ axes: product.variantAxes || [], variants: product.variants || [] })
+      })
+      .finally(() => setIsLoading(false))
+  }, [product.id, state.accessToken])
+
+  const parsedAxes = useMemo(() => toAxes(axes), [axes])
+  const matrixSize = useMemo(() => buildVariantMatrix(parsedAxes).length, [parsedAxes])
+  const legacySubSkus = !product.variants?.length && product.subSku ? product.subSku : null
+
+  const updateAxis = (index: number, changes: Partial<AxisDraft>) => {
+    setAxes(prev => prev.map((axis, i) => i === index ? { ...axis, ...changes } : axis))
+  }
+
+  const addAxis = () => {
+    const unused = VARIANT_AXIS_PRESETS.find(preset => !axes.some(axis => axis.name.toLowerCase() === preset.toLowerCase()))
+    setAxes(prev => [...prev, { name: unused || '', values: '' }])
+  }
+
+  const handleGenerate = () => {
+    if (parsedAxes.length === 0) {
+      setError('Add at least one axis with values')
+      return
+    }
+    // Variants removed earlier come back if their options are generated again
+    const result = mergeVariantMatrix([...variants, ...removed], parsedAxes, product.groupSku)
+    setVariants(result.variants)
+    setRemoved(result.removed.filter(variant => variant.id !== null))
+    setRowErrors({})
+    setError(null)
+  }
+
+  const updateVariant = (index: number, changes: Partial<ProductVariantInput>) => {
+    setVariants(prev => prev.map((variant, i) => i === index ? { ...variant, ...changes } : variant))
+  }
+
+  const updatePrice = (index: number, field: VariantPriceField, value: string) => {
+    const priceOverrides = { ...variants[index].priceOverrides }
+    if (value.trim() === '') delete priceOverrides[field]
+    else priceOverrides[field] = parseFloat(value)
+    updateVariant(index, { priceOverrides })
+  }
+
+  const removeVariant = (index: number) => {
+    const variant = variants[index]
+    setVariants(prev => prev.filter((_, i) => i !== index))
+    if (variant.id !== null) setRemoved(prev => [...prev, variant])
+    setRowErrors({})
+  }
+
+  const handleSave = async () => {
+    if (!state.accessToken) return
+    const errors = validateVariants(variants)
+    setRowErrors(errors)
+    if (Object.keys(errors).length > 0) {
+      setError('Fix the highlighted variants before saving')
+      return
+    }
+    if (removed.length > 0 && !confirm(`Delete ${removed.length} variant(s) (${removed.map(v => v.subSku).join(', ')})? Their inventory rows are removed too.`)) {
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setError(null)
+      const saved = await ProductVariantsService.saveVariants(state.accessToken, product.id, {
+        axes: parsedAxes,
+        variants: variants.map(variant => ({ ...variant, subSku: variant.subSku.trim() })),
+      })
+      onSaved(saved)
+    } catch (err: any) {
+      setError(err.message || 'Failed to save variants')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg p-6 w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-2xl font-semibold text-gray-900 dark:text-slate-100">Variants</h3>
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              {product.title} · <span className="font-mono">{product.groupSku}</span>
+            </p>
+          </div>
+          <Button onClick={onClose} variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={isSaving}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg p-3 text-sm mb-4 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" /> {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-sm text-gray-500 dark:text-slate-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" /> Loading variants...
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto space-y-4">
+            <div className="border border-gray-200 dark:border-slate-600 rounded-md p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-gray-900 dark:text-slate-100">Option Axes</h4>
+                {axes.length < MAX_AXES && (
+                  <Button type="button" onClick={addAxis} size="sm" variant="outline" className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
+                    <Plus className="h-4 w-4 mr-1" /> Add Axis
+                  </Button>
+                )}
+              </div>
+              {axes.map((axis, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-2 items-center">
+                  <Input
+                    value={axis.name}
+                    onChange={(e) => updateAxis(index, { name: e.target.value })}
+                    list="variant-axis-presets"
+                    placeholder="Axis, e.g. Color"
+                    className={inputClass}
+                  />
+                  <Input
+                    value={axis.values}
+                    onChange={(e) => updateAxis(index, { values: e.target.value })}
+                    placeholder="Values, comma separated, e.g. Black, White, Oak"
+                    className={inputClass}
+                  />
+                  <Button
+                    type="button"
+                    onClick={() => setAxes(prev => prev.filter((_, i) => i !== index))}
+                    size="sm"
+                    disabled={axes.length === 1}
+                    className="bg-rose-500 hover:bg-rose-600 text-white"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <datalist id="variant-axis-presets">
+                {VARIANT_AXIS_PRESETS.map(preset => <option key={preset} value={preset} />)}
+              </datalist>
+              <div className="flex items-center gap-3">
+                <Button type="button" onClick={handleGenerate} size="sm" className="bg-indigo-500 hover:bg-indigo-600 text-white">
+                  <RefreshCw className="h-4 w-4 mr-1" /> Generate Variants
+                </Button>
+                <span className="text-xs text-gray-500 dark:text-slate-400">
+                  {matrixSize} combination{matrixSize !== 1 ? 's' : ''}. Existing variants keep their SKU, prices and images.
+                </span>
+              </div>
+              {legacySubSkus && (
+                <p className="text-xs text-amber-700 dark:text-amber-300">
+                  This product still uses the sub-SKU list &quot;{legacySubSkus}&quot;. Saving variants replaces it.
+                </p>
+              )}
+            </div>
+
+            {variants.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">
+                No variants yet. Add axis values and generate the matrix.
+              </p>
+            ) : (
+              <div className="border border-gray-200 dark:border-slate-600 rounded-md overflow-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-slate-700 text-left text-gray-600 dark:text-slate-300">
+                    <tr>
+                      <th className="px-3 py-2">Options</th>
+                      <th className="px-3 py-2 w-56">Sub-SKU</th>
+                      {VARIANT_PRICE_FIELDS.map(field => (
+                        <th key={field.key} className="px-3 py-2 w-28">{field.label}</th>
+                      ))}
+                      <th className="px-3 py-2 w-56">Image URL</th>
+                      <th className="px-3 py-2 w-16">Stock</th>
+                      <th className="px-3 py-2 w-10"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+                    {variants.map((variant, index) => (
+                      <tr key={variant.id ?? `new-${index}`} className={rowErrors[index] ? 'bg-red-50 dark:bg-red-900/20' : ''}>
+                        <td className="px-3 py-2 text-gray-900 dark:text-slate-100">
+                          {formatVariantOptions(variant.options)}
+                          {variant.id === null && <span className="ml-2 text-xs text-green-600 dark:text-green-400">new</span>}
+                          {rowErrors[index] && <div className="text-xs text-red-600 dark:text-red-400">{rowErrors[index]}</div>}
+                        </td>
+                        <td className="px-3 py-2">
+                          <Input
+                            value={variant.subSku}
+                            onChange={(e) => updateVariant(index, { subSku: e.target.value })}
+                            className={`${inputClass} font-mono`}
+                          />
+                        </td>
+                        {VARIANT_PRICE_FIELDS.map(field => (
+                          <td key={field.key} className="px-3 py-2">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={variant.priceOverrides[field.key] ?? ''}
+                              onChange={(e) => updatePrice(index, field.key, e.target.value)}
+                              placeholder={String(Number(product[field.key]) || 0)}
+                              className={inputClass}
+                            />
+                          </td>
+                        ))}
+                        <td className="px-3 py-2">
+                          <Input
+                            value={variant.mainImageUrl || ''}
+                            onChange={(e) => updateVariant(index, { mainImageUrl: e.target.value || null })}
+                            placeholder={product.mainImageUrl ? 'Parent image' : 'https://...'}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-gray-700 dark:text-slate-300">
+                          {variant.id !== null ? stock[variant.id] ?? 0 : '—'}
+                        </td>
+                        <td className="px-3 py-2">
+                          <Button type="button" onClick={() => removeVariant(index)} variant="ghost" size="sm" className="h-8 w-8 p-0" title="Remove variant">
+                            <Trash2 className="h-4 w-4 text-rose-600 dark:text-rose-400" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 dark:text-slate-400">
+              Empty prices and images use the parent product&apos;s. Stock is tracked per variant on the Inventory page.
+            </p>
+
+            {removed.length > 0 && (
+              <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300 rounded-lg p-3 text-sm">
+                Saving deletes {removed.length} variant(s) and their inventory: {removed.map(variant => variant.subSku).join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 mt-4 border-t dark:border-slate-700">
+          <Button onClick={onClose} variant="outline" disabled={isSaving} className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading} className="bg-blue-600 hover:bg-blue-700 text-white">
+            {isSaving ? <><Loader2 className="h-4 w-4 animate-spin mr-2" /> Saving...</> : `Save ${variants.length} Variant${variants.length !== 1 ? 's' : ''}`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProductVariantsEditor
@@ -6,7 +6,7 @@ import { FileText, X, User } from 'lucide-react';
 interface ProgressBarProps {
   job: {
     id: string;
-    type: 'product' | 'listing' | 'inventory';
+    type: 'product' | 'listing' | 'inventory' | 'order';
     status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
     progress: number;
     totalItems: number;
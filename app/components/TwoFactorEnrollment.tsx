@@ -0,0 +1,132 @@
+"use client";
+import React from 'react'
+import { Copy, Download, Loader2 } from 'lucide-react'
+import type { TwoFactorSetupResponse } from '../lib/auth'
+
+type Tone = 'light' | 'dark'
+
+const labelClass = (tone: Tone) => tone === 'dark' ? 'text-white/80' : 'text-gray-600 dark:text-slate-400'
+const textClass = (tone: Tone) => tone === 'dark' ? 'text-white/80' : 'text-gray-700 dark:text-slate-300'
+const inputClass = (tone: Tone) => tone === 'dark'
+  ? 'w-full border border-white/20 bg-white/10 text-white placeholder-white/60 rounded px-3 py-2 text-sm tracking-widest focus:outline-none focus:border-blue-400'
+  : 'input-soft w-full px-3 py-2 tracking-widest'
+
+/**
+ * One-time recovery codes with copy and download, shown right after enrollment
+ * or regeneration. They cannot be retrieved again later.
+ */
+export function RecoveryCodes({ codes, account, tone = 'light' }: { codes: string[]; account?: string; tone?: Tone }) {
+  const [copied, setCopied] = React.useState(false)
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error)
+    }
+  }
+
+  const download = () => {
+    const header = `Recovery codes${account ? ` for ${account}` : ''}\nEach code can be used once to sign in without your authenticator app.\n\n`
+    const blob = new Blob([header + codes.join('\n') + '\n'], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className={`text-sm ${textClass(tone)}`}>
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-white text-gray-900 border border-gray-200 p-3 font-mono text-sm">
+        {codes.map(code => <div key={code}>{code}</div>)}
+      </div>
+      <div className="flex gap-2">
+        <button type="button" onClick={copy} className="btn-secondary text-xs px-3 py-1.5 flex items-center gap-1">
+          <Copy size={12} /> {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button type="button" onClick={download} className="btn-secondary text-xs px-3 py-1.5 flex items-center gap-1">
+          <Download size={12} /> Download
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface TwoFactorEnrollmentProps {
+  setup: TwoFactorSetupResponse
+  onConfirm: (code: string) => Promise<void>
+  onCancel?: () => void
+  tone?: Tone
+}
+
+/**
+ * Scan-and-confirm step for adding an authenticator app
+ */
+export default function TwoFactorEnrollment({ setup, onConfirm, onCancel, tone = 'light' }: TwoFactorEnrollmentProps) {
+  const [code, setCode] = React.useState('')
+  const [isConfirming, setIsConfirming] = React.useState(false)
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim() || isConfirming) return
+    setIsConfirming(true)
+    try {
+      await onConfirm(code)
+    } catch {
+      // The caller shows the error; keep the form open for another try
+    } finally {
+      setIsConfirming(false)
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <p className={`text-sm ${textClass(tone)}`}>
+        Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy…), then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <img src={setup.qrCode} alt="Authenticator QR code" width={180} height={180} className="rounded-lg bg-white p-2" />
+      </div>
+      <div>
+        <div className={`text-xs ${labelClass(tone)}`}>Can&apos;t scan? Enter this key manually:</div>
+        <div className={`mt-1 font-mono text-xs break-all ${textClass(tone)}`}>{setup.secret}</div>
+      </div>
+      <div>
+        <label className={`text-xs ${labelClass(tone)}`}>Authenticator code</label>
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          maxLength={7}
+          className={`mt-1 ${inputClass(tone)}`}
+          disabled={isConfirming}
+          autoFocus
+        />
+      </div>
+      <div className="flex gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} disabled={isConfirming} className="btn-secondary text-sm px-4 py-2 disabled:opacity-50">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isConfirming || !code.trim()}
+          className="btn-primary text-sm px-4 py-2 flex-1 flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isConfirming && <Loader2 size={14} className="animate-spin" />}
+          Verify and Enable
+        </button>
+      </div>
+    </form>
+  )
+}
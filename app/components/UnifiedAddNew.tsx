@@ -216,50 +216,58 @@ const UnifiedAddNew: React.FC<UnifiedAddNewProps> = ({
                 
                 {platformType === 'products' && (
                   <>
-                    <Button
-                      onClick={() => {
-                        onAddProduct?.();
-                        setOpen(false);
-                      }}
-                      className="w-full justify-start"
-                      variant="outline"
-                    >
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add New Product
-                    </Button>
-                    <Button
-                      onClick={() => {
-                        onBulkAddProduct?.();
-                        setOpen(false);
-                      }}
-                      className="w-full justify-start"
-                      variant="outline"
-                    >
-                      <FileText className="w-4 h-4 mr-2" />
-                      Bulk Add
-                    </Button>
-                    <Button
-                      onClick={() => {
-                        onImportProduct?.();
-                        setOpen(false);
-                      }}
-                      className="w-full justify-start"
-                      variant="outline"
-                    >
-                      <Upload className="w-4 h-4 mr-2" />
-                      Import File
-                    </Button>
-                    <Button
-                      onClick={() => {
-                        onBulkImagesProduct?.();
-                        setOpen(false);
-                      }}
-                      className="w-full justify-start"
-                      variant="outline"
-                    >
-                      <ImagePlus className="w-4 h-4 mr-2" />
-                      Add Bulk Images
-                    </Button>
+                    {onAddProduct && (
+                      <Button
+                        onClick={() => {
+                          onAddProduct?.();
+                          setOpen(false);
+                        }}
+                        className="w-full justify-start"
+                        variant="outline"
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add New Product
+                      </Button>
+                    )}
+                    {onBulkAddProduct && (
+                      <Button
+                        onClick={() => {
+                          onBulkAddProduct?.();
+                          setOpen(false);
+                        }}
+                        className="w-full justify-start"
+                        variant="outline"
+                      >
+                        <FileText className="w-4 h-4 mr-2" />
+                        Bulk Add
+                      </Button>
+                    )}
+                    {onImportProduct && (
+                      <Button
+                        onClick={() => {
+                          onImportProduct?.();
+                          setOpen(false);
+                        }}
+                        className="w-full justify-start"
+                        variant="outline"
+                      >
+                        <Upload className="w-4 h-4 mr-2" />
+                        Import File
+                      </Button>
+                    )}
+                    {onBulkImagesProduct && (
+                      <Button
+                        onClick={() => {
+                          onBulkImagesProduct?.();
+                          setOpen(false);
+                        }}
+                        className="w-full justify-start"
+                        variant="outline"
+                      >
+                        <ImagePlus className="w-4 h-4 mr-2" />
+                        Add Bulk Images
+                      </Button>
+                    )}
                   </>
                 )}
                 
@@ -8,11 +8,37 @@
  */
 
 import React, { useState, useEffect, useMemo, useRef } from 'react'
-import { Search, Download, Plus, Info, X, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Filter, Maximize2, Minimize2, Upload, Edit, Trash2 } from 'lucide-react'
+import { useSearchParams } from 'next/navigation'
+import { Search, Download, Plus, Info, X, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Filter, Maximize2, Minimize2, Upload, Edit, Trash2, ClipboardList, History, ArrowLeftRight } from 'lucide-react'
 import { useAuth } from '../lib/auth'
+import { useAccessScope, type AccessRowViolation } from '../lib/access-control'
+import { getImportCell } from '../lib/utils/import.utils'
 import { useToast } from '../lib/hooks/use-toast'
-import { InventoryService, type InventoryItem, type UpdateInventoryRequest } from '../lib/inventory/api'
-import type { Brand } from '../lib/types/common.types'
+import {
+  InventoryService,
+  INVENTORY_MOVEMENT_SOURCE_LABELS,
+  type InventoryItem,
+  type InventoryFilters,
+  type InventoryMovement,
+  type InventoryMovementFilters,
+  type UpdateInventoryRequest,
+} from '../lib/inventory/api'
+import { BrandsService } from '../lib/brands/api'
+import { getSettings, updateSettings, type InventoryConfig } from '../lib/settings/api'
+import {
+  STOCK_STATUS_LABELS,
+  PURCHASE_ORDER_HEADERS,
+  resolveThreshold,
+  getStockStatus,
+  buildReorderSuggestions,
+  toPurchaseOrderRows,
+  type BrandReorderGroup,
+  type StockStatus,
+} from '../lib/inventory/stock-levels'
+import { getWarehouseQuantity, type WarehouseStock } from '../lib/warehouses/api'
+import { downloadCsv } from '../lib/utils/export.utils'
+import { formatVariantOptions } from '../lib/products/variants'
+import type { Brand, Pagination } from '../lib/types/common.types'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
@@ -20,20 +46,41 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Badge } from './ui/badge'
 import { Skeleton } from './ui/skeleton'
+import { useWarehouses } from './warehouses/WarehouseProvider'
+import AccessViolationReport from './AccessViolationReport'
 import './table-scroll.css'
 
+// Saved views map to the server-side stockStatus filter (/inventory?view=low-stock)
+const SAVED_VIEWS: Array<{ key: string; label: string; stockStatus?: InventoryFilters['stockStatus'] }> = [
+  { key: 'all', label: 'All Items' },
+  { key: 'low-stock', label: 'Low Stock', stockStatus: 'low' },
+  { key: 'out-of-stock', label: 'Out of Stock', stockStatus: 'out' },
+  { key: 'over-stock', label: 'Overstocked', stockStatus: 'over' },
+]
+
+const STOCK_BADGE_CLASSES: Record<StockStatus, string> = {
+  out: '',
+  low: 'bg-yellow-500 hover:bg-yellow-500',
+  ok: 'bg-green-500',
+  over: 'bg-purple-500 hover:bg-purple-500',
+}
+
 const Inventory = () => {
-  const { state } = useAuth()
+  const { state, can } = useAuth()
   const { toast } = useToast()
+  const { warehouses, transferStock } = useWarehouses()
+  const { scopeItems, canEditBrand, checkUpload } = useAccessScope()
   
   // State management
   const [inventory, setInventory] = useState<InventoryItem[]>([])
-  const [filteredInventory, setFilteredInventory] = useState<InventoryItem[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [selectedInventory, setSelectedInventory] = useState<InventoryItem | null>(null)
   const [showInfoModal, setShowInfoModal] = useState(false)
-  const [showFilters, setShowFilters] = useState(false)
+  const params = useSearchParams()
+  const [showFilters, setShowFilters] = useState(() =>
+    ['minQuantity', 'maxQuantity', 'brandId', 'warehouseId', 'etaFrom', 'etaTo'].some(key => params.has(key))
+  )
   const [showEditModal, setShowEditModal] = useState(false)
   const [showBulkUpdateModal, setShowBulkUpdateModal] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -50,12 +97,39 @@ const Inventory = () => {
   // Edit form state
   const [editFormData, setEditFormData] = useState({
     quantity: '',
-    eta: ''
+    eta: '',
+    reason: '',
+    minOverride: '',
+    maxOverride: '',
+    warehouseQuantities: {} as Record<number, string>
   })
   
+  // Stock transfer between warehouses
+  const [showTransferModal, setShowTransferModal] = useState(false)
+  const [transferForm, setTransferForm] = useState({
+    fromWarehouseId: '',
+    toWarehouseId: '',
+    quantity: '',
+    reason: ''
+  })
+  
+  // Movement ledger (info modal)
+  const [movements, setMovements] = useState<InventoryMovement[]>([])
+  const [movementFilters, setMovementFilters] = useState<InventoryMovementFilters>({ page: 1, limit: 20, dateFrom: '', dateTo: '' })
+  const [movementsPagination, setMovementsPagination] = useState<Pagination | null>(null)
+  const [movementsLoading, setMovementsLoading] = useState(false)
+  const [movementsError, setMovementsError] = useState<string | null>(null)
+  
+  // Stock thresholds and reorder suggestions
+  const [inventoryConfig, setInventoryConfig] = useState<InventoryConfig | null>(null)
+  const [showReorderModal, setShowReorderModal] = useState(false)
+  const [reorderGroups, setReorderGroups] = useState<BrandReorderGroup[]>([])
+  const [reorderLoading, setReorderLoading] = useState(false)
+  
   // Bulk update state
   const [bulkFile, setBulkFile] = useState<File | null>(null)
   const [bulkResults, setBulkResults] = useState<any>(null)
+  const [accessReport, setAccessReport] = useState<{ fileName?: string; violations: AccessRowViolation[] } | null>(null)
   
   // Selected rows state
   const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set())
@@ -194,23 +268,40 @@ const Inventory = () => {
     onMouseLeave: handleMouseLeave,
   }
   
-  // Filters and pagination
-  const [filters, setFilters] = useState({
-    search: '',
-    brandId: 'all' as string,
-    minQuantity: '',
-    maxQuantity: ''
+  // Filters and pagination (can be pre-filled from the URL, e.g. /inventory?maxQuantity=0)
+  const [filters, setFilters] = useState<InventoryFilters>(() => {
+    const toNumber = (value: string | null) =>
+      value === null || value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value)
+    return {
+      page: 1,
+      limit: 20,
+      search: params.get('search') || '',
+      brandId: toNumber(params.get('brandId')),
+      warehouseId: toNumber(params.get('warehouseId')),
+      minQuantity: toNumber(params.get('minQuantity')),
+      maxQuantity: toNumber(params.get('maxQuantity')),
+      etaFrom: params.get('etaFrom') || '',
+      etaTo: params.get('etaTo') || '',
+      stockStatus: SAVED_VIEWS.find(view => view.key === params.get('view'))?.stockStatus,
+      sortBy: 'subSku',
+      sortOrder: 'asc'
+    }
   })
+  const [searchInput, setSearchInput] = useState(filters.search || '')
   
-  const [pagination, setPagination] = useState({
+  const [pagination, setPagination] = useState<Pagination>({
+    totalCount: 0,
+    totalPages: 0,
     currentPage: 1,
-    itemsPerPage: 20
+    itemsPerPage: 20,
+    hasNextPage: false,
+    hasPrevPage: false
   })
   
   // Filter options
   const [brands, setBrands] = useState<Brand[]>([])
   
-  // Load inventory
+  // Load the current page of inventory
   const loadInventory = async () => {
     if (!state.accessToken) {
       setError('No access token available')
@@ -221,16 +312,28 @@ const Inventory = () => {
       setLoading(true)
       setError(null)
       
-      const response = await InventoryService.getInventory(state.accessToken)
+      const response = await InventoryService.getInventory(state.accessToken, filters)
       setInventory(response.inventory)
       
-      // Extract unique brands
-      const uniqueBrands = Array.from(
-        new Map(response.inventory.map(item => [item.brand.id, item.brand])).values()
-      )
-      setBrands(uniqueBrands)
+      if (response.pagination) {
+        setPagination(response.pagination)
+      } else {
+        // Older API versions only return the total
+        const totalCount = response.totalItems ?? response.inventory.length
+        const itemsPerPage = filters.limit || 20
+        const currentPage = filters.page || 1
+        const totalPages = Math.ceil(totalCount / itemsPerPage)
+        setPagination({
+          totalCount,
+          totalPages,
+          currentPage,
+          itemsPerPage,
+          hasNextPage: currentPage < totalPages,
+          hasPrevPage: currentPage > 1
+        })
+      }
       
-      console.log(`✅ Loaded ${response.inventory.length} inventory items`)
+      console.log(`✅ Loaded ${response.inventory.length} inventory items (page ${filters.page})`)
     } catch (err: any) {
       console.error('Failed to load inventory:', err)
       setError(err.message || 'Failed to load inventory')
@@ -239,10 +342,51 @@ const Inventory = () => {
     }
   }
   
-  // Load data on mount
+  // Load stock thresholds (global, per brand and per sub-SKU)
+  const loadInventoryConfig = async () => {
+    if (!state.accessToken) return
+    
+    try {
+      const response = await getSettings(state.accessToken)
+      setInventoryConfig(response.settings.inventoryConfig)
+    } catch (err) {
+      console.error('Failed to load inventory thresholds:', err)
+    }
+  }
+  
+  // Load brands for the brand filter
+  const loadBrands = async () => {
+    if (!state.accessToken) return
+    
+    try {
+      const response = await BrandsService.getBrands(state.accessToken, { limit: 1000, sortBy: 'name', sortOrder: 'asc' })
+      setBrands(response.brands || [])
+    } catch (err) {
+      console.error('Failed to load brands:', err)
+    }
+  }
+  
+  // Load data on mount and when filters change
   useEffect(() => {
-    loadInventory()
-  }, [])
+    if (state.accessToken) {
+      loadInventory()
+    }
+  }, [filters.page, filters.limit, filters.search, filters.brandId, filters.warehouseId, filters.minQuantity, filters.maxQuantity, filters.etaFrom, filters.etaTo, filters.stockStatus, filters.sortBy, filters.sortOrder, state.accessToken])
+  
+  useEffect(() => {
+    if (state.accessToken) {
+      loadBrands()
+      loadInventoryConfig()
+    }
+  }, [state.accessToken])
+  
+  // Debounce search so each keystroke doesn't hit the API
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => prev.search === searchInput ? prev : { ...prev, search: searchInput, page: 1 })
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
   
   // Cleanup modal scroll lock on unmount
   useEffect(() => {
@@ -268,96 +412,114 @@ const Inventory = () => {
     return () => container.removeEventListener('scroll', handleScroll)
   }, [])
   
-  // Apply filters
-  useEffect(() => {
-    let filtered = [...inventory]
-    
-    // Search filter
-    if (filters.search.trim()) {
-      const searchLower = filters.search.toLowerCase()
-      filtered = filtered.filter(item => 
-        item.subSku.toLowerCase().includes(searchLower) ||
-        item.brand.name.toLowerCase().includes(searchLower) ||
-        item.listing.title.toLowerCase().includes(searchLower) ||
-        item.listing.sku.toLowerCase().includes(searchLower)
-      )
-    }
-    
-    // Brand filter
-    if (filters.brandId !== 'all') {
-      filtered = filtered.filter(item => item.brand.id.toString() === filters.brandId)
-    }
-    
-    // Quantity filters
-    if (filters.minQuantity) {
-      const min = parseInt(filters.minQuantity)
-      if (!isNaN(min)) {
-        filtered = filtered.filter(item => item.quantity >= min)
-      }
-    }
-    
-    if (filters.maxQuantity) {
-      const max = parseInt(filters.maxQuantity)
-      if (!isNaN(max)) {
-        filtered = filtered.filter(item => item.quantity <= max)
-      }
-    }
-    
-    setFilteredInventory(filtered)
-    setPagination(prev => ({ ...prev, currentPage: 1 }))
-  }, [filters, inventory])
-  
-  // Calculate pagination
-  const totalPages = Math.max(1, Math.ceil(filteredInventory.length / pagination.itemsPerPage))
+  // Pagination display
+  const totalPages = Math.max(1, pagination.totalPages)
   const currentPage = Math.min(pagination.currentPage, totalPages)
-  const startIndex = (currentPage - 1) * pagination.itemsPerPage
-  const endIndex = startIndex + pagination.itemsPerPage
-  const paginatedInventory = filteredInventory.slice(startIndex, endIndex)
+  const firstItem = pagination.totalCount === 0 ? 0 : (currentPage - 1) * pagination.itemsPerPage + 1
+  const lastItem = (currentPage - 1) * pagination.itemsPerPage + inventory.length
   
   // Handle search
   const handleSearch = (value: string) => {
-    setFilters(prev => ({ ...prev, search: value }))
+    setSearchInput(value)
   }
   
   // Handle filter changes
   const handleBrandChange = (value: string) => {
-    setFilters(prev => ({ ...prev, brandId: value }))
+    setFilters(prev => ({ ...prev, brandId: value === 'all' ? undefined : parseInt(value), page: 1 }))
+  }
+  
+  const handleWarehouseChange = (value: string) => {
+    setFilters(prev => ({ ...prev, warehouseId: value === 'all' ? undefined : parseInt(value), page: 1 }))
+  }
+  
+  const handleQuantityChange = (key: 'minQuantity' | 'maxQuantity', value: string) => {
+    const parsed = parseInt(value)
+    setFilters(prev => ({ ...prev, [key]: value === '' || isNaN(parsed) ? undefined : parsed, page: 1 }))
+  }
+  
+  const handleEtaChange = (key: 'etaFrom' | 'etaTo', value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value, page: 1 }))
+  }
+  
+  const handleSortChange = (value: string) => {
+    setFilters(prev => ({ ...prev, sortBy: value as InventoryFilters['sortBy'], page: 1 }))
+  }
+  
+  const handleViewChange = (stockStatus: InventoryFilters['stockStatus']) => {
+    setSelectedRows(new Set())
+    setFilters(prev => ({ ...prev, stockStatus, page: 1 }))
+  }
+  
+  const handleSortOrderChange = (value: string) => {
+    setFilters(prev => ({ ...prev, sortOrder: value as InventoryFilters['sortOrder'], page: 1 }))
   }
   
   // Clear filters
   const handleClearFilters = () => {
-    setFilters({
+    setSearchInput('')
+    setFilters(prev => ({
+      ...prev,
+      page: 1,
       search: '',
-      brandId: 'all',
-      minQuantity: '',
-      maxQuantity: ''
-    })
+      brandId: undefined,
+      warehouseId: undefined,
+      minQuantity: undefined,
+      maxQuantity: undefined,
+      etaFrom: '',
+      etaTo: '',
+      stockStatus: undefined
+    }))
   }
   
   // Pagination handlers
   const goToPage = (page: number) => {
-    setPagination(prev => ({ ...prev, currentPage: page }))
+    setFilters(prev => ({ ...prev, page }))
   }
   
   // Info modal handlers
   const handleShowInfo = (item: InventoryItem) => {
     setSelectedInventory(item)
+    setMovements([])
+    setMovementsPagination(null)
+    setMovementFilters({ page: 1, limit: 20, dateFrom: '', dateTo: '' })
     setShowInfoModal(true)
     document.body.classList.add('modal-open')
   }
   
+  // Load the movement ledger while the info modal is open
+  useEffect(() => {
+    if (!showInfoModal || !selectedInventory || !state.accessToken) return
+    
+    const accessToken = state.accessToken
+    const loadMovements = async () => {
+      try {
+        setMovementsLoading(true)
+        setMovementsError(null)
+        const response = await InventoryService.getInventoryMovements(accessToken, selectedInventory.id, movementFilters)
+        setMovements(response.movements || [])
+        setMovementsPagination(response.pagination || null)
+      } catch (err: any) {
+        console.error('Failed to load inventory movements:', err)
+        setMovementsError(err.message || 'Failed to load movement history')
+      } finally {
+        setMovementsLoading(false)
+      }
+    }
+    
+    loadMovements()
+  }, [showInfoModal, selectedInventory?.id, movementFilters.page, movementFilters.dateFrom, movementFilters.dateTo, state.accessToken])
+  
   const handleCloseInfo = () => {
     setShowInfoModal(false)
     setSelectedInventory(null)
     document.body.classList.remove('modal-open')
   }
   
-  // Export to CSV - Exports ALL inventory data (all pages)
-  const handleExport = () => {
-    // Use filteredInventory to export all filtered data across all pages
-    const dataToExport = filteredInventory
+  // Export to CSV - Exports ALL inventory data matching the filters (all pages)
+  const handleExport = async () => {
+    if (!state.accessToken) return
     
-    if (dataToExport.length === 0) {
+    if (pagination.totalCount === 0) {
       toast({
         variant: "destructive",
         title: "No Data",
@@ -368,7 +530,7 @@ const Inventory = () => {
     
     // Show confirmation with total count
     const confirmExport = window.confirm(
-      `You are about to export ${dataToExport.length} inventory item(s) (all pages).\n\n` +
+      `You are about to export ${pagination.totalCount} inventory item(s) (all pages).\n\n` +
       `Do you want to continue?`
     )
     
@@ -376,12 +538,31 @@ const Inventory = () => {
       return
     }
     
+    let dataToExport: InventoryItem[]
+    try {
+      setIsSubmitting(true)
+      const { page, limit, ...exportFilters } = filters
+      dataToExport = await InventoryService.getAllInventory(state.accessToken, exportFilters)
+    } catch (err: any) {
+      console.error('Failed to load inventory for export:', err)
+      toast({
+        variant: "destructive",
+        title: "Export Failed",
+        description: err.message || "Failed to load inventory for export",
+      })
+      return
+    } finally {
+      setIsSubmitting(false)
+    }
+    
     const headers = [
-      'Sub SKU', 'Quantity', 'ETA', 'Listing SKU', 'Listing Title', 'Brand', 'Created', 'Updated'
+      'Sub SKU', 'Variant', ...warehouses.map(w => w.name), 'Quantity', 'ETA', 'Listing SKU', 'Listing Title', 'Brand', 'Created', 'Updated'
     ]
     
     const rows = dataToExport.map(item => [
       item.subSku,
+      formatVariantOptions(item.variant?.options),
+      ...warehouses.map(w => getWarehouseQuantity(item.warehouseStock, w.id).toString()),
       item.quantity.toString(),
       item.eta || 'N/A',
       item.listing.sku,
@@ -417,9 +598,16 @@ const Inventory = () => {
   // Edit inventory handler
   const handleEditInventory = (item: InventoryItem) => {
     setSelectedInventory(item)
+    const skuOverride = inventoryConfig?.skuOverrides?.[item.subSku]
     setEditFormData({
       quantity: item.quantity.toString(),
-      eta: item.eta || ''
+      eta: item.eta || '',
+      reason: '',
+      minOverride: skuOverride?.minValue?.toString() ?? '',
+      maxOverride: skuOverride?.maxValue?.toString() ?? '',
+      warehouseQuantities: Object.fromEntries(
+        warehouses.map(w => [w.id, getWarehouseQuantity(item.warehouseStock, w.id).toString()])
+      )
     })
     setShowEditModal(true)
     document.body.classList.add('modal-open')
@@ -438,7 +626,19 @@ const Inventory = () => {
       
       const updateData: UpdateInventoryRequest = {}
       
-      if (editFormData.quantity) {
+      if (warehouses.length > 0) {
+        // Per-warehouse quantities replace the single quantity; the backend stores their sum as the total
+        const warehouseStock: WarehouseStock[] = []
+        for (const w of warehouses) {
+          const quantity = parseInt(editFormData.warehouseQuantities[w.id] || '0')
+          if (isNaN(quantity) || quantity < 0) {
+            setError(`Quantity for ${w.name} must be 0 or more`)
+            return
+          }
+          warehouseStock.push({ warehouseId: w.id, quantity })
+        }
+        updateData.warehouseStock = warehouseStock
+      } else if (editFormData.quantity) {
         const quantity = parseInt(editFormData.quantity)
         if (!isNaN(quantity)) {
           updateData.quantity = quantity
@@ -449,8 +649,16 @@ const Inventory = () => {
         updateData.eta = editFormData.eta
       }
       
+      if (editFormData.reason.trim()) {
+        updateData.reason = editFormData.reason.trim()
+      }
+      
       await InventoryService.updateInventory(selectedInventory.id, updateData, state.accessToken)
       
+      if (can('catalog-settings:manage') && inventoryConfig) {
+        await saveSkuOverride(selectedInventory.subSku)
+      }
+      
       // Reload inventory
       await loadInventory()
       
@@ -472,6 +680,145 @@ const Inventory = () => {
     }
   }
   
+  // Save (or clear) the sub-SKU threshold override from the edit form
+  const saveSkuOverride = async (subSku: string) => {
+    if (!state.accessToken || !inventoryConfig) return
+    
+    const parse = (value: string) => value.trim() === '' || isNaN(parseInt(value)) ? null : parseInt(value)
+    const minValue = parse(editFormData.minOverride)
+    const maxValue = parse(editFormData.maxOverride)
+    const current = inventoryConfig.skuOverrides?.[subSku]
+    
+    if ((current?.minValue ?? null) === minValue && (current?.maxValue ?? null) === maxValue) return
+    
+    const skuOverrides = { ...(inventoryConfig.skuOverrides || {}) }
+    if (minValue === null && maxValue === null) {
+      delete skuOverrides[subSku]
+    } else {
+      skuOverrides[subSku] = { minValue, maxValue }
+    }
+    
+    const nextConfig = { ...inventoryConfig, skuOverrides }
+    await updateSettings(nextConfig, state.accessToken)
+    setInventoryConfig(nextConfig)
+  }
+  
+  // Transfer stock between warehouses
+  const handleShowTransfer = (item: InventoryItem) => {
+    setSelectedInventory(item)
+    const source = warehouses.find(w => getWarehouseQuantity(item.warehouseStock, w.id) > 0)
+    setTransferForm({
+      fromWarehouseId: source ? source.id.toString() : '',
+      toWarehouseId: '',
+      quantity: '',
+      reason: ''
+    })
+    setError(null)
+    setShowTransferModal(true)
+    document.body.classList.add('modal-open')
+  }
+  
+  const handleCloseTransfer = () => {
+    setShowTransferModal(false)
+    setSelectedInventory(null)
+    document.body.classList.remove('modal-open')
+  }
+  
+  const handleSaveTransfer = async () => {
+    if (!selectedInventory) return
+    
+    const fromWarehouseId = parseInt(transferForm.fromWarehouseId)
+    const toWarehouseId = parseInt(transferForm.toWarehouseId)
+    const quantity = parseInt(transferForm.quantity)
+    const available = getWarehouseQuantity(selectedInventory.warehouseStock, fromWarehouseId)
+    
+    if (isNaN(fromWarehouseId) || isNaN(toWarehouseId)) {
+      setError('Select both warehouses')
+      return
+    }
+    if (fromWarehouseId === toWarehouseId) {
+      setError('Source and destination warehouses must be different')
+      return
+    }
+    if (isNaN(quantity) || quantity <= 0 || quantity > available) {
+      setError(`Transfer quantity must be between 1 and ${available}`)
+      return
+    }
+    
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      
+      await transferStock({
+        inventoryId: selectedInventory.id,
+        fromWarehouseId,
+        toWarehouseId,
+        quantity,
+        reason: transferForm.reason.trim() || undefined
+      })
+      
+      await loadInventory()
+      handleCloseTransfer()
+      
+      const from = warehouses.find(w => w.id === fromWarehouseId)?.name
+      const to = warehouses.find(w => w.id === toWarehouseId)?.name
+      toast({
+        variant: "success",
+        title: "Transfer Complete",
+        description: `Moved ${quantity} unit(s) of ${selectedInventory.subSku} from ${from} to ${to}`,
+      })
+    } catch (err: any) {
+      console.error('Failed to transfer stock:', err)
+      setError(err.message || 'Failed to transfer stock')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+  
+  // Reorder suggestions: everything below its minimum, grouped by brand
+  const handleShowReorder = async () => {
+    if (!state.accessToken || !inventoryConfig) return
+    
+    setShowReorderModal(true)
+    document.body.classList.add('modal-open')
+    
+    try {
+      setReorderLoading(true)
+      const [lowItems, outItems] = await Promise.all([
+        InventoryService.getAllInventory(state.accessToken, { brandId: filters.brandId, stockStatus: 'low' }),
+        InventoryService.getAllInventory(state.accessToken, { brandId: filters.brandId, stockStatus: 'out' }),
+      ])
+      setReorderGroups(buildReorderSuggestions([...lowItems, ...outItems], inventoryConfig))
+    } catch (err: any) {
+      console.error('Failed to build reorder suggestions:', err)
+      toast({
+        variant: "destructive",
+        title: "Reorder Suggestions Failed",
+        description: err.message || "Failed to load low-stock inventory",
+      })
+    } finally {
+      setReorderLoading(false)
+    }
+  }
+  
+  const handleCloseReorder = () => {
+    setShowReorderModal(false)
+    document.body.classList.remove('modal-open')
+  }
+  
+  // Purchase-order CSV for one brand
+  const handleExportPurchaseOrder = (group: BrandReorderGroup) => {
+    const date = new Date().toISOString().split('T')[0]
+    const brandSlug = group.brandName.replace(/[^a-z0-9]+/gi, '_').toLowerCase()
+    downloadCsv(`purchase_order_${brandSlug}_${date}.csv`, PURCHASE_ORDER_HEADERS, toPurchaseOrderRows(group))
+    
+    toast({
+      variant: "success",
+      title: "Purchase Order Exported",
+      description: `${group.suggestions.length} line(s), ${group.totalUnits} unit(s) for ${group.brandName}`,
+    })
+  }
+  
   // Bulk update handler
   const handleBulkUpdate = () => {
     setShowBulkUpdateModal(true)
@@ -491,6 +838,16 @@ const Inventory = () => {
       setIsSubmitting(true)
       setError(null)
       
+      // Rows update existing stock, so check the brand each sub-SKU belongs to
+      const violations = await checkUpload(bulkFile, {
+        skuOf: row => getImportCell(row, 'subSku', 'sku'),
+        lookupBrands: subSkus => InventoryService.getBrandsBySubSku(state.accessToken || '', subSkus),
+      })
+      if (violations.length > 0) {
+        setAccessReport({ fileName: bulkFile.name, violations })
+        return
+      }
+      
       const response = await InventoryService.bulkUpdateInventoryFile(bulkFile, state.accessToken)
       setBulkResults(response)
       
@@ -524,10 +881,10 @@ const Inventory = () => {
   }
   
   const toggleAllRows = () => {
-    if (selectedRows.size === paginatedInventory.length) {
+    if (selectedRows.size === inventory.length) {
       setSelectedRows(new Set())
     } else {
-      setSelectedRows(new Set(paginatedInventory.map(item => item.id)))
+      setSelectedRows(new Set(inventory.map(item => item.id)))
     }
   }
   
@@ -650,27 +1007,55 @@ const Inventory = () => {
                 variant="outline"
                 size="sm"
                 className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-600"
-                disabled={filteredInventory.length === 0}
-                title={`Export all ${filteredInventory.length} inventory item(s) to CSV`}
+                disabled={pagination.totalCount === 0 || isSubmitting}
+                title={`Export all ${pagination.totalCount} inventory item(s) to CSV`}
               >
                 <Download className="h-4 w-4 mr-2" />
-                Export All ({filteredInventory.length})
+                Export All ({pagination.totalCount})
               </Button>
               
               <Button
-                onClick={handleBulkUpdate}
+                onClick={handleShowReorder}
                 variant="outline"
                 size="sm"
                 className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-600"
+                disabled={!inventoryConfig}
               >
-                <Upload className="h-4 w-4 mr-2" />
-                Bulk Update
+                <ClipboardList className="h-4 w-4 mr-2" />
+                Reorder Suggestions
               </Button>
+              
+              {can('inventory:bulk-update') && (
+                <Button
+                  onClick={handleBulkUpdate}
+                  variant="outline"
+                  size="sm"
+                  className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-600"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Bulk Update
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
         
         <CardContent className="space-y-4">
+          {/* Saved Views */}
+          <div className="flex flex-wrap gap-2">
+            {SAVED_VIEWS.map(view => (
+              <Button
+                key={view.key}
+                onClick={() => handleViewChange(view.stockStatus)}
+                variant={filters.stockStatus === view.stockStatus ? 'default' : 'outline'}
+                size="sm"
+                className={filters.stockStatus === view.stockStatus ? '' : 'dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600'}
+              >
+                {view.label}
+              </Button>
+            ))}
+          </div>
+          
           {/* Search and Filters Row */}
           <div className="flex flex-col md:flex-row gap-3">
             {/* Search Bar */}
@@ -678,7 +1063,7 @@ const Inventory = () => {
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <Input
                 placeholder="Search inventory..."
-                value={filters.search}
+                value={searchInput}
                 onChange={(e) => handleSearch(e.target.value)}
                 className="pl-10 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
               />
@@ -706,13 +1091,13 @@ const Inventory = () => {
                     <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
                       Brand
                     </label>
-                    <Select value={filters.brandId} onValueChange={handleBrandChange}>
+                    <Select value={filters.brandId?.toString() ?? 'all'} onValueChange={handleBrandChange}>
                       <SelectTrigger className="dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500">
                         <SelectValue placeholder="All Brands" />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Brands</SelectItem>
-                        {brands.map(brand => (
+                        {scopeItems('brands', brands).map(brand => (
                           <SelectItem key={brand.id} value={brand.id.toString()}>
                             {brand.name}
                           </SelectItem>
@@ -721,6 +1106,28 @@ const Inventory = () => {
                     </Select>
                   </div>
                   
+                  {/* Warehouse Filter */}
+                  {warehouses.length > 0 && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                        Warehouse
+                      </label>
+                      <Select value={filters.warehouseId?.toString() ?? 'all'} onValueChange={handleWarehouseChange}>
+                        <SelectTrigger className="dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500">
+                          <SelectValue placeholder="All Warehouses" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Warehouses</SelectItem>
+                          {warehouses.map(w => (
+                            <SelectItem key={w.id} value={w.id.toString()}>
+                              {w.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  
                   {/* Min Quantity */}
                   <div>
                     <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
@@ -729,8 +1136,8 @@ const Inventory = () => {
                     <Input
                       type="number"
                       placeholder="0"
-                      value={filters.minQuantity}
-                      onChange={(e) => setFilters(prev => ({ ...prev, minQuantity: e.target.value }))}
+                      value={filters.minQuantity ?? ''}
+                      onChange={(e) => handleQuantityChange('minQuantity', e.target.value)}
                       className="dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500"
                     />
                   </div>
@@ -743,12 +1150,73 @@ const Inventory = () => {
                     <Input
                       type="number"
                       placeholder="999"
-                      value={filters.maxQuantity}
-                      onChange={(e) => setFilters(prev => ({ ...prev, maxQuantity: e.target.value }))}
+                      value={filters.maxQuantity ?? ''}
+                      onChange={(e) => handleQuantityChange('maxQuantity', e.target.value)}
                       className="dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500"
                     />
                   </div>
                   
+                  {/* ETA From */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                      ETA From
+                    </label>
+                    <Input
+                      type="date"
+                      value={filters.etaFrom || ''}
+                      onChange={(e) => handleEtaChange('etaFrom', e.target.value)}
+                      className="dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500"
+                    />
+                  </div>
+                  
+                  {/* ETA To */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                      ETA To
+                    </label>
+                    <Input
+                      type="date"
+                      value={filters.etaTo || ''}
+                      onChange={(e) => handleEtaChange('etaTo', e.target.value)}
+                      className="dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500"
+                    />
+                  </div>
+                  
+                  {/* Sort By */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                      Sort By
+                    </label>
+                    <Select value={filters.sortBy} onValueChange={handleSortChange}>
+                      <SelectTrigger className="dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="subSku">Sub SKU</SelectItem>
+                        <SelectItem value="quantity">Quantity</SelectItem>
+                        <SelectItem value="eta">ETA</SelectItem>
+                        <SelectItem value="updatedAt">Last Updated</SelectItem>
+                        <SelectItem value="createdAt">Created</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
+                  {/* Sort Order */}
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                      Order
+                    </label>
+                    <Select value={filters.sortOrder} onValueChange={handleSortOrderChange}>
+                      <SelectTrigger className="dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="asc">Ascending</SelectItem>
+                        <SelectItem value="desc">Descending</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
                   {/* Clear Filters Button */}
                   <div className="flex items-end">
                     <Button
@@ -774,10 +1242,10 @@ const Inventory = () => {
           
           {/* Results Count */}
           <div className="text-sm text-gray-600 dark:text-slate-400">
-            Showing {startIndex + 1}-{Math.min(endIndex, filteredInventory.length)} of {filteredInventory.length} items
-            {filteredInventory.length > pagination.itemsPerPage && (
+            Showing {firstItem}-{lastItem} of {pagination.totalCount} items
+            {pagination.totalCount > pagination.itemsPerPage && (
               <span className="ml-2 text-blue-600 dark:text-blue-400">
-                (Use Export button to download all {filteredInventory.length} items)
+                (Use Export button to download all {pagination.totalCount} items)
               </span>
             )}
           </div>
@@ -798,7 +1266,7 @@ const Inventory = () => {
                   <TableHead className="w-12">
                     <input
                       type="checkbox"
-                      checked={selectedRows.size === paginatedInventory.length && paginatedInventory.length > 0}
+                      checked={selectedRows.size === inventory.length && inventory.length > 0}
                       onChange={toggleAllRows}
                       className="cursor-pointer"
                     />
@@ -839,9 +1307,22 @@ const Inventory = () => {
                       />
                     </div>
                   </TableHead> */}
+                  {warehouses.map(w => (
+                    <TableHead key={w.id} style={{ width: getColumnWidth(`warehouse-${w.id}`, 110) }}>
+                      <div className="flex items-center justify-between">
+                        <span className={w.isActive ? '' : 'text-gray-400 dark:text-slate-500'} title={w.isActive ? undefined : 'Inactive'}>
+                          {w.name}
+                        </span>
+                        <div
+                          className="resize-handle"
+                          onMouseDown={(e) => handleResizeStart(`warehouse-${w.id}`, e)}
+                        />
+                      </div>
+                    </TableHead>
+                  ))}
                   <TableHead style={{ width: getColumnWidth('quantity', 100) }}>
                     <div className="flex items-center justify-between">
-                      <span>Quantity</span>
+                      <span>{warehouses.length > 0 ? 'Total' : 'Quantity'}</span>
                       <div
                         className="resize-handle"
                         onMouseDown={(e) => handleResizeStart('quantity', e)}
@@ -881,21 +1362,21 @@ const Inventory = () => {
               <TableBody>
                 {loading ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center py-8">
+                    <TableCell colSpan={5 + warehouses.length} className="text-center py-8">
                       <div className="flex items-center justify-center gap-2">
                         <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
                         <span className="text-gray-500 dark:text-slate-400">Loading inventory...</span>
                       </div>
                     </TableCell>
                   </TableRow>
-                ) : paginatedInventory.length === 0 ? (
+                ) : inventory.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center py-8 text-gray-500 dark:text-slate-400">
+                    <TableCell colSpan={5 + warehouses.length} className="text-center py-8 text-gray-500 dark:text-slate-400">
                       No inventory items found
                     </TableCell>
                   </TableRow>
                 ) : (
-                  paginatedInventory.map((item) => (
+                  inventory.map((item) => (
                     <TableRow key={item.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50">
                       <TableCell>
                         <input
@@ -907,6 +1388,9 @@ const Inventory = () => {
                       </TableCell>
                       <TableCell style={{ width: getColumnWidth('subSku', 150) }}>
                         {renderExpandableCell(item.subSku, item.id, 'subSku', 150)}
+                        {item.variant && (
+                          <div className="text-xs text-indigo-600 dark:text-indigo-400">{formatVariantOptions(item.variant.options)}</div>
+                        )}
                       </TableCell>
                       {/* <TableCell style={{ width: getColumnWidth('listingSku', 150) }}>
                         {renderExpandableCell(item.listing.sku, item.id, 'listingSku', 150)}
@@ -919,13 +1403,32 @@ const Inventory = () => {
                           {item.brand.name}
                         </Badge>
                       </TableCell> */}
+                      {warehouses.map(w => (
+                        <TableCell key={w.id} style={{ width: getColumnWidth(`warehouse-${w.id}`, 110) }} className="text-gray-700 dark:text-slate-300">
+                          {getWarehouseQuantity(item.warehouseStock, w.id)}
+                        </TableCell>
+                      ))}
                       <TableCell style={{ width: getColumnWidth('quantity', 100) }}>
-                        <Badge 
-                          variant={item.quantity > 0 ? "default" : "destructive"}
-                          className={item.quantity > 0 ? "bg-green-500" : ""}
-                        >
-                          {item.quantity}
-                        </Badge>
+                        {(() => {
+                          const threshold = inventoryConfig ? resolveThreshold(inventoryConfig, item) : null
+                          const status: StockStatus = threshold
+                            ? getStockStatus(item.quantity, threshold)
+                            : item.quantity > 0 ? 'ok' : 'out'
+                          return (
+                            <Badge 
+                              variant={status === 'out' ? "destructive" : "default"}
+                              className={STOCK_BADGE_CLASSES[status]}
+                              title={threshold
+                                ? `${STOCK_STATUS_LABELS[status]} (min ${threshold.minValue}${threshold.maxValue !== null ? `, max ${threshold.maxValue}` : ''})`
+                                : undefined}
+                            >
+                              {item.quantity}
+                              {(status === 'low' || status === 'over') && (
+                                <span className="ml-1 text-[10px] uppercase">{status}</span>
+                              )}
+                            </Badge>
+                          )
+                        })()}
                       </TableCell>
                       <TableCell style={{ width: getColumnWidth('eta', 150) }}>
                         {item.eta || '-'}
@@ -938,22 +1441,35 @@ const Inventory = () => {
                       </TableCell> */}
                       <TableCell>
                         <div className="flex items-center gap-2">
-                          {/* <Button
+                          <Button
                             onClick={() => handleShowInfo(item)}
                             variant="ghost"
                             size="sm"
-                            title="View Details"
+                            title="View Details & History"
                           >
                             <Info className="h-4 w-4" />
-                          </Button> */}
-                          <Button
-                            onClick={() => handleEditInventory(item)}
-                            variant="ghost"
-                            size="sm"
-                            title="Edit"
-                          >
-                            <Edit className="h-4 w-4" />
                           </Button>
+                          {canEditBrand(item.brand?.name, 'inventory:write') && (
+                            <Button
+                              onClick={() => handleEditInventory(item)}
+                              variant="ghost"
+                              size="sm"
+                              title="Edit"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {warehouses.length > 1 && canEditBrand(item.brand?.name, 'inventory:transfer') && (
+                            <Button
+                              onClick={() => handleShowTransfer(item)}
+                              variant="ghost"
+                              size="sm"
+                              title="Transfer Between Warehouses"
+                              disabled={item.quantity <= 0}
+                            >
+                              <ArrowLeftRight className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -1008,8 +1524,8 @@ const Inventory = () => {
               </Button>
               
               <Select
-                value={pagination.itemsPerPage.toString()}
-                onValueChange={(value) => setPagination(prev => ({ ...prev, itemsPerPage: parseInt(value), currentPage: 1 }))}
+                value={(filters.limit || 20).toString()}
+                onValueChange={(value) => setFilters(prev => ({ ...prev, limit: parseInt(value), page: 1 }))}
               >
                 <SelectTrigger className="w-20 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
                   <SelectValue />
@@ -1029,7 +1545,7 @@ const Inventory = () => {
       {/* Info Modal */}
       {showInfoModal && selectedInventory && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white dark:bg-slate-800 rounded-lg max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+          <div className="bg-white dark:bg-slate-800 rounded-lg max-w-3xl w-full max-h-[85vh] overflow-y-auto">
             <div className="p-6">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Inventory Details</h2>
@@ -1043,6 +1559,9 @@ const Inventory = () => {
                   <div>
                     <label className="text-sm font-medium text-gray-600 dark:text-slate-400">Sub SKU</label>
                     <p className="text-gray-900 dark:text-slate-100">{selectedInventory.subSku}</p>
+                    {selectedInventory.variant && (
+                      <p className="text-xs text-indigo-600 dark:text-indigo-400">Variant: {formatVariantOptions(selectedInventory.variant.options)}</p>
+                    )}
                   </div>
                   <div>
                     <label className="text-sm font-medium text-gray-600 dark:text-slate-400">Listing SKU</label>
@@ -1059,6 +1578,16 @@ const Inventory = () => {
                   <div>
                     <label className="text-sm font-medium text-gray-600 dark:text-slate-400">Quantity</label>
                     <p className="text-gray-900 dark:text-slate-100">{selectedInventory.quantity}</p>
+                    {warehouses.length > 0 && (
+                      <div className="mt-1 space-y-0.5">
+                        {warehouses.map(w => (
+                          <div key={w.id} className="flex justify-between text-xs text-gray-600 dark:text-slate-400 max-w-[200px]">
+                            <span>{w.name}</span>
+                            <span>{getWarehouseQuantity(selectedInventory.warehouseStock, w.id)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div>
                     <label className="text-sm font-medium text-gray-600 dark:text-slate-400">ETA</label>
@@ -1073,6 +1602,146 @@ const Inventory = () => {
                     <p className="text-gray-900 dark:text-slate-100">{new Date(selectedInventory.updatedAt).toLocaleString()}</p>
                   </div>
                 </div>
+                
+                {/* Movement History */}
+                <div className="border-t border-gray-200 dark:border-slate-600 pt-4">
+                  <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-3 mb-3">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 flex items-center gap-2">
+                      <History className="h-5 w-5" />
+                      Movement History
+                    </h3>
+                    <div className="flex items-end gap-2">
+                      <div>
+                        <label className="text-xs text-gray-600 dark:text-slate-400 block">From</label>
+                        <Input
+                          type="date"
+                          value={movementFilters.dateFrom || ''}
+                          onChange={(e) => setMovementFilters(prev => ({ ...prev, dateFrom: e.target.value, page: 1 }))}
+                          className="h-8 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-gray-600 dark:text-slate-400 block">To</label>
+                        <Input
+                          type="date"
+                          value={movementFilters.dateTo || ''}
+                          onChange={(e) => setMovementFilters(prev => ({ ...prev, dateTo: e.target.value, page: 1 }))}
+                          className="h-8 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                        />
+                      </div>
+                      {(movementFilters.dateFrom || movementFilters.dateTo) && (
+                        <Button
+                          onClick={() => setMovementFilters(prev => ({ ...prev, dateFrom: '', dateTo: '', page: 1 }))}
+                          variant="ghost"
+                          size="sm"
+                        >
+                          Clear
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  
+                  {movementsError && (
+                    <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-3 py-2 rounded-md text-sm mb-3">
+                      {movementsError}
+                    </div>
+                  )}
+                  
+                  <div className="border border-gray-200 dark:border-slate-600 rounded-lg overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>When</TableHead>
+                          <TableHead>Who</TableHead>
+                          <TableHead>Source</TableHead>
+                          <TableHead className="text-right">Quantity</TableHead>
+                          <TableHead>ETA</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {movementsLoading ? (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-6 text-gray-500 dark:text-slate-400">
+                              Loading history...
+                            </TableCell>
+                          </TableRow>
+                        ) : movements.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-6 text-gray-500 dark:text-slate-400">
+                              No movements recorded{movementFilters.dateFrom || movementFilters.dateTo ? ' in this date range' : ''}
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          movements.map(movement => (
+                            <TableRow key={movement.id}>
+                              <TableCell className="text-sm whitespace-nowrap">{new Date(movement.createdAt).toLocaleString()}</TableCell>
+                              <TableCell className="text-sm">{movement.user?.username || movement.user?.email || 'System'}</TableCell>
+                              <TableCell className="text-sm">
+                                <div>{INVENTORY_MOVEMENT_SOURCE_LABELS[movement.source] || movement.source}</div>
+                                {movement.warehouseName && (
+                                  <div className="text-xs text-gray-500 dark:text-slate-400">{movement.warehouseName}</div>
+                                )}
+                                {movement.jobId && (
+                                  <a href="/status" className="text-xs text-blue-600 dark:text-blue-400 hover:underline font-mono" title="View upload jobs">
+                                    Job {movement.jobId}
+                                  </a>
+                                )}
+                                {movement.orderNumber && (
+                                  <a
+                                    href={`/orders?search=${encodeURIComponent(movement.orderNumber)}`}
+                                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                                  >
+                                    Order {movement.orderNumber}
+                                  </a>
+                                )}
+                                {movement.reason && (
+                                  <div className="text-xs text-gray-500 dark:text-slate-400">{movement.reason}</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right text-sm whitespace-nowrap">
+                                {movement.previousQuantity} → {movement.newQuantity}
+                                <span className={`ml-2 font-semibold ${movement.change > 0 ? 'text-green-600' : movement.change < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                                  {movement.change > 0 ? '+' : ''}{movement.change}
+                                </span>
+                              </TableCell>
+                              <TableCell className="text-sm whitespace-nowrap">
+                                {movement.previousEta !== movement.newEta
+                                  ? `${movement.previousEta || '-'} → ${movement.newEta || '-'}`
+                                  : movement.newEta || '-'}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  
+                  {movementsPagination && movementsPagination.totalPages > 1 && (
+                    <div className="flex items-center justify-between mt-3 text-sm text-gray-600 dark:text-slate-400">
+                      <span>
+                        Page {movementsPagination.currentPage} of {movementsPagination.totalPages} ({movementsPagination.totalCount} movements)
+                      </span>
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={() => setMovementFilters(prev => ({ ...prev, page: (prev.page || 1) - 1 }))}
+                          disabled={!movementsPagination.hasPrevPage || movementsLoading}
+                          variant="outline"
+                          size="sm"
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          onClick={() => setMovementFilters(prev => ({ ...prev, page: (prev.page || 1) + 1 }))}
+                          disabled={!movementsPagination.hasNextPage || movementsLoading}
+                          variant="outline"
+                          size="sm"
+                        >
+                          <ChevronRight className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
           </div>
@@ -1110,30 +1779,105 @@ const Inventory = () => {
                   />
                 </div>
                 
+                {warehouses.length > 0 ? (
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                      Quantity by Warehouse
+                    </label>
+                    <div className="space-y-2">
+                      {warehouses.map(w => (
+                        <div key={w.id} className="flex items-center gap-2">
+                          <span className="flex-1 text-sm text-gray-700 dark:text-slate-300">{w.name}</span>
+                          <Input
+                            type="number"
+                            min="0"
+                            value={editFormData.warehouseQuantities[w.id] ?? ''}
+                            onChange={(e) => setEditFormData(prev => ({
+                              ...prev,
+                              warehouseQuantities: { ...prev.warehouseQuantities, [w.id]: e.target.value }
+                            }))}
+                            className="w-28 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                      Total: {Object.values(editFormData.warehouseQuantities).reduce((sum, value) => sum + (parseInt(value) || 0), 0)}
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                      Quantity
+                    </label>
+                    <Input
+                      type="number"
+                      value={editFormData.quantity}
+                      onChange={(e) => setEditFormData(prev => ({ ...prev, quantity: e.target.value }))}
+                      className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                    />
+                  </div>
+                )}
+                
                 <div>
                   <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
-                    Quantity
+                    ETA
                   </label>
                   <Input
-                    type="number"
-                    value={editFormData.quantity}
-                    onChange={(e) => setEditFormData(prev => ({ ...prev, quantity: e.target.value }))}
+                    type="date"
+                    value={editFormData.eta}
+                    onChange={(e) => setEditFormData(prev => ({ ...prev, eta: e.target.value }))}
                     className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
                   />
                 </div>
                 
                 <div>
                   <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
-                    ETA
+                    Reason (optional)
                   </label>
                   <Input
-                    type="date"
-                    value={editFormData.eta}
-                    onChange={(e) => setEditFormData(prev => ({ ...prev, eta: e.target.value }))}
+                    placeholder="e.g. Cycle count correction"
+                    value={editFormData.reason}
+                    onChange={(e) => setEditFormData(prev => ({ ...prev, reason: e.target.value }))}
                     className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
                   />
+                  <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                    Saved to this sub SKU's movement history
+                  </p>
                 </div>
                 
+                {can('catalog-settings:manage') && inventoryConfig && (() => {
+                  const inherited = resolveThreshold({ ...inventoryConfig, skuOverrides: {} }, selectedInventory)
+                  return (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                        Stock Thresholds for this Sub SKU
+                      </label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder={`Min (${inherited.minValue})`}
+                          value={editFormData.minOverride}
+                          onChange={(e) => setEditFormData(prev => ({ ...prev, minOverride: e.target.value }))}
+                          className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder={`Max (${inherited.maxValue ?? 'none'})`}
+                          value={editFormData.maxOverride}
+                          onChange={(e) => setEditFormData(prev => ({ ...prev, maxOverride: e.target.value }))}
+                          className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                        Leave blank to use the {inherited.minSource === 'brand' || inherited.maxSource === 'brand' ? 'brand' : 'global'} thresholds
+                      </p>
+                    </div>
+                  )
+                })()}
+                
                 <div className="flex gap-2 justify-end pt-4">
                   <Button
                     onClick={() => {
@@ -1158,6 +1902,206 @@ const Inventory = () => {
         </div>
       )}
       
+      {/* Transfer Modal */}
+      {showTransferModal && selectedInventory && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-lg max-w-md w-full">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Transfer Stock</h2>
+                <Button onClick={handleCloseTransfer} variant="ghost" size="sm">
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+              
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-slate-400">
+                  Sub SKU <span className="font-mono text-gray-900 dark:text-slate-100">{selectedInventory.subSku}</span>, {selectedInventory.quantity} unit(s) in total
+                </p>
+                
+                <div>
+                  <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                    From
+                  </label>
+                  <Select
+                    value={transferForm.fromWarehouseId}
+                    onValueChange={(value) => setTransferForm(prev => ({ ...prev, fromWarehouseId: value }))}
+                  >
+                    <SelectTrigger className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
+                      <SelectValue placeholder="Select warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map(w => (
+                        <SelectItem
+                          key={w.id}
+                          value={w.id.toString()}
+                          disabled={getWarehouseQuantity(selectedInventory.warehouseStock, w.id) <= 0}
+                        >
+                          {w.name} ({getWarehouseQuantity(selectedInventory.warehouseStock, w.id)} available)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div>
+                  <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                    To
+                  </label>
+                  <Select
+                    value={transferForm.toWarehouseId}
+                    onValueChange={(value) => setTransferForm(prev => ({ ...prev, toWarehouseId: value }))}
+                  >
+                    <SelectTrigger className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
+                      <SelectValue placeholder="Select warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses
+                        .filter(w => w.isActive && w.id.toString() !== transferForm.fromWarehouseId)
+                        .map(w => (
+                          <SelectItem key={w.id} value={w.id.toString()}>
+                            {w.name} ({getWarehouseQuantity(selectedInventory.warehouseStock, w.id)} on hand)
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div>
+                  <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                    Quantity
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max={getWarehouseQuantity(selectedInventory.warehouseStock, parseInt(transferForm.fromWarehouseId))}
+                    value={transferForm.quantity}
+                    onChange={(e) => setTransferForm(prev => ({ ...prev, quantity: e.target.value }))}
+                    className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                  />
+                </div>
+                
+                <div>
+                  <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                    Reason (optional)
+                  </label>
+                  <Input
+                    placeholder="e.g. Rebalance for West Coast orders"
+                    value={transferForm.reason}
+                    onChange={(e) => setTransferForm(prev => ({ ...prev, reason: e.target.value }))}
+                    className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                  />
+                </div>
+                
+                {error && (
+                  <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-3 py-2 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+                
+                <div className="flex gap-2 justify-end pt-4">
+                  <Button onClick={handleCloseTransfer} variant="outline" disabled={isSubmitting}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSaveTransfer} disabled={isSubmitting}>
+                    {isSubmitting ? 'Transferring...' : 'Transfer'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Reorder Suggestions Modal */}
+      {showReorderModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-lg max-w-4xl w-full max-h-[85vh] overflow-y-auto">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Reorder Suggestions</h2>
+                  <p className="text-sm text-gray-600 dark:text-slate-400">
+                    Sub SKUs below their minimum, topped up to their maximum (or minimum when no maximum is set)
+                  </p>
+                </div>
+                <Button onClick={handleCloseReorder} variant="ghost" size="sm">
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+              
+              {reorderLoading ? (
+                <div className="flex items-center justify-center gap-2 py-8">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+                  <span className="text-gray-500 dark:text-slate-400">Loading low-stock inventory...</span>
+                </div>
+              ) : reorderGroups.length === 0 ? (
+                <div className="text-center py-8 text-gray-500 dark:text-slate-400">
+                  Nothing to reorder. Every sub SKU is at or above its minimum.
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {reorderGroups.map(group => (
+                    <div key={group.brandId} className="border border-gray-200 dark:border-slate-600 rounded-lg">
+                      <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-slate-700 rounded-t-lg">
+                        <div className="font-semibold text-gray-900 dark:text-slate-100">
+                          {group.brandName}
+                          <span className="ml-2 text-sm font-normal text-gray-600 dark:text-slate-400">
+                            {group.suggestions.length} sub SKU(s), {group.totalUnits} unit(s)
+                          </span>
+                        </div>
+                        <Button
+                          onClick={() => handleExportPurchaseOrder(group)}
+                          variant="outline"
+                          size="sm"
+                          className="dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500"
+                        >
+                          <Download className="h-4 w-4 mr-2" />
+                          Purchase Order CSV
+                        </Button>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Sub SKU</TableHead>
+                            <TableHead>Title</TableHead>
+                            <TableHead className="text-right">On Hand</TableHead>
+                            <TableHead className="text-right">Min</TableHead>
+                            <TableHead className="text-right">Max</TableHead>
+                            <TableHead className="text-right">Order Qty</TableHead>
+                            <TableHead>ETA</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {group.suggestions.map(suggestion => (
+                            <TableRow key={suggestion.inventoryId}>
+                              <TableCell className="font-mono text-sm">{suggestion.subSku}</TableCell>
+                              <TableCell className="text-sm max-w-xs truncate" title={suggestion.title}>{suggestion.title}</TableCell>
+                              <TableCell className="text-right">{suggestion.quantity}</TableCell>
+                              <TableCell className="text-right">{suggestion.minValue}</TableCell>
+                              <TableCell className="text-right">{suggestion.maxValue ?? '-'}</TableCell>
+                              <TableCell className="text-right font-semibold">{suggestion.reorderQuantity}</TableCell>
+                              <TableCell>{suggestion.eta || '-'}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Upload Access Report */}
+      <AccessViolationReport
+        violations={accessReport?.violations || null}
+        fileName={accessReport?.fileName}
+        onClose={() => setAccessReport(null)}
+      />
+      
       {/* Bulk Update Modal */}
       {showBulkUpdateModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -1187,7 +2131,7 @@ const Inventory = () => {
                   </p>
                   <Input
                     type="file"
-                    accept=".csv,.xlsx,.xls"
+                    accept=".csv,.xlsx"
                     onChange={(e) => setBulkFile(e.target.files?.[0] || null)}
                     className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
                   />
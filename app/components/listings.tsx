@@ -18,9 +18,16 @@
  */
 
 import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { useSearchParams } from 'next/navigation'
 import { Search, Download, Plus, Info, X, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Image as ImageIcon, Images, Building2, Package2, Filter, Edit, Trash2, Globe, FileText, Upload, Warehouse, Maximize2, Minimize2, Minus, Link } from 'lucide-react'
 import { useAuth } from '../lib/auth'
+import { useAccessScope, type AccessRowViolation } from '../lib/access-control'
+import { ListingsService, type ListingComponent } from '../lib/listings/api'
+import { toListingComponents } from '../lib/products/variants'
+import { getImportCell } from '../lib/utils/import.utils'
 import { useToast } from '../lib/hooks/use-toast'
+import { PricingService, calculatePrice, resolvePricingRule, PRICE_ROUNDING_LABELS } from '../lib/pricing'
+import type { PricingRule } from '../lib/settings/api'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
@@ -29,6 +36,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Badge } from './ui/badge'
 import { Skeleton } from './ui/skeleton'
 import UnifiedAddNew from './UnifiedAddNew'
+import AccessViolationReport from './AccessViolationReport'
 import './table-scroll.css'
 
 // Types
@@ -55,6 +63,7 @@ interface Listing {
   mainImageUrl: string | null
   galleryImages: string[] | null
   productCounts: number | null
+  components?: ListingComponent[] | null
   attributes: Record<string, any>
   quantity?: number
   status?: string
@@ -80,8 +89,9 @@ interface Pagination {
 }
 
 const Listings = () => {
-  const { state } = useAuth()
+  const { state, can } = useAuth()
   const { toast } = useToast()
+  const { scopeItems, canEditBrand, checkUpload } = useAccessScope()
   
   // Helper function to proxy backend images through Next.js API
   const getProxiedImageUrl = (imageUrl: string | null | undefined): string | null => {
@@ -137,6 +147,7 @@ const Listings = () => {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [brands, setBrands] = useState<Brand[]>([])
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([])
   
   // Pagination
   const [pagination, setPagination] = useState<Pagination>({
@@ -148,9 +159,10 @@ const Listings = () => {
     hasPrevPage: false
   })
   
-  // Filters
+  // Filters (search can be pre-filled from the URL, e.g. /listings?search=SKU)
+  const searchParams = useSearchParams()
   const [filters, setFilters] = useState({
-    search: '',
+    search: searchParams.get('search') || '',
     brandId: '',
     category: '',
     minPrice: '',
@@ -165,6 +177,7 @@ const Listings = () => {
   const [showBulkImagesModal, setShowBulkImagesModal] = useState(false)
   const [bulkImagesFile, setBulkImagesFile] = useState<File | null>(null)
   const [bulkImagesResults, setBulkImagesResults] = useState<any>(null)
+  const [accessReport, setAccessReport] = useState<{ fileName?: string; violations: AccessRowViolation[] } | null>(null)
   
   // Listing form state
   const [listingFormData, setListingFormData] = useState<{
@@ -301,6 +314,58 @@ const Listings = () => {
     }
   }
   
+  const loadPricingRules = async () => {
+    if (!state.accessToken) return
+    try {
+      setPricingRules(await PricingService.getPricingRules(state.accessToken))
+    } catch (err) {
+      console.error('Failed to load pricing rules:', err)
+    }
+  }
+  
+  // Fill commission and profit margin from the brand's pricing rule
+  const applyPricingRuleToForm = () => {
+    const rule = resolvePricingRule(pricingRules, {
+      brandId: listingFormData.brandId ? parseInt(listingFormData.brandId) : null,
+      marketplaceId: null,
+    })
+    if (!rule) {
+      toast({
+        variant: "destructive",
+        title: "No Pricing Rule",
+        description: "No enabled pricing rule matches this brand. Add one under Settings → Pricing Rules.",
+      })
+      return
+    }
+    
+    const calculation = calculatePrice({
+      brandRealPrice: parseFloat(listingFormData.brandRealPrice) || 0,
+      brandMiscellaneous: parseFloat(listingFormData.brandMiscellaneous) || 0,
+      shippingPrice: parseFloat(listingFormData.shippingPrice) || 0,
+      ecommerceMiscellaneous: parseFloat(listingFormData.ecommerceMiscellaneous) || 0,
+      msrp: parseFloat(listingFormData.msrp) || 0,
+    }, rule)
+    if (!calculation) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Pricing Rule",
+        description: `Rule "${rule.name}" has commission + margin of 100% or more.`,
+      })
+      return
+    }
+    
+    setListingFormData({
+      ...listingFormData,
+      commissionPrice: calculation.commissionPrice.toFixed(2),
+      profitMarginPrice: calculation.profitMarginPrice.toFixed(2),
+    })
+    toast({
+      variant: calculation.belowCost ? "destructive" : "success",
+      title: `Priced by "${rule.name}"`,
+      description: `Ecommerce price $${calculation.ecommercePrice.toFixed(2)} (${PRICE_ROUNDING_LABELS[rule.rounding]}${calculation.cappedAtMsrp ? ', capped at MSRP' : ''})${calculation.belowCost ? ' is below cost' : ''}`,
+    })
+  }
+  
   // Load listings
   const loadListings = async (page: number = 1) => {
     if (!state.accessToken) {
@@ -375,6 +440,7 @@ const Listings = () => {
   useEffect(() => {
     if (state.accessToken) {
       loadBrands()
+      loadPricingRules()
       loadListings()
     }
   }, [state.accessToken])
@@ -477,6 +543,16 @@ const Listings = () => {
     try {
       setIsSubmitting(true)
       
+      // Reject rows for listings on brands the user cannot edit before anything is sent
+      const violations = await checkUpload(bulkImagesFile, {
+        skuOf: row => getImportCell(row, 'sku'),
+        lookupBrands: skus => ListingsService.getBrandsBySku(state.accessToken || '', skus),
+      })
+      if (violations.length > 0) {
+        setAccessReport({ fileName: bulkImagesFile.name, violations })
+        return
+      }
+      
       const formData = new FormData()
       formData.append('file', bulkImagesFile)
 
@@ -880,8 +956,10 @@ const Listings = () => {
       attributes: listing.attributes || {}
     })
     
-    // Parse subSkus
-    if (listing.subSku) {
+    // Components carry quantities; older listings only have the sub SKU string
+    if (listing.components && listing.components.length > 0) {
+      setSubSkus(listing.components.map(component => ({ sku: component.subSku, quantity: component.quantity.toString() })))
+    } else if (listing.subSku) {
       setSubSkus(listing.subSku.split(',').map(s => ({ sku: s.trim(), quantity: '0' })))
     } else {
       setSubSkus([{ sku: '', quantity: '0' }])
@@ -1005,6 +1083,8 @@ const Listings = () => {
       // Prepare Sub SKUs (comma-separated)
       const filteredSubSkus = subSkus.filter(item => item.sku.trim() !== '')
       const subSkuString = filteredSubSkus.map(item => item.sku.trim()).join(', ')
+      // A quantity left at 0 still lists the sub SKU once, as the string does
+      const components = toListingComponents(filteredSubSkus.map(item => ({ sku: item.sku, quantity: parseInt(item.quantity) || 1 })))
       
       // Prepare listing features
       const filteredFeatures = listingFeatures.filter(f => f.trim() !== '')
@@ -1066,6 +1146,7 @@ const Listings = () => {
         formData.append('title', listingFormData.title)
         formData.append('sku', listingFormData.sku)
         formData.append('subSku', subSkuString)
+        formData.append('components', JSON.stringify(components))
         formData.append('brandId', listingFormData.brandId)
         formData.append('brand', brand)
         formData.append('category', listingFormData.category || '')
@@ -1128,6 +1209,7 @@ const Listings = () => {
         const payload = {
           sku: listingFormData.sku,
           subSku: subSkuString,
+          components,
           brand: brand,
           title: listingFormData.title,
           category: listingFormData.category,
@@ -1237,6 +1319,10 @@ const Listings = () => {
       // Prepare Sub SKUs
       const filteredSubSkus = subSkus.filter(item => item.sku.trim() !== '')
       const subSkuString = filteredSubSkus.map(item => item.sku.trim()).join(', ')
+      const components = toListingComponents(
+        filteredSubSkus.map(item => ({ sku: item.sku, quantity: parseInt(item.quantity) || 1 })),
+        selectedListing.components || []
+      )
       
       // Prepare attributes
       const filteredFeatures = listingFeatures.filter(f => f.trim() !== '')
@@ -1283,6 +1369,7 @@ const Listings = () => {
         formData.append('title', listingFormData.title)
         formData.append('sku', listingFormData.sku)
         formData.append('subSku', subSkuString)
+        formData.append('components', JSON.stringify(components))
         formData.append('category', listingFormData.category)
         formData.append('collectionName', listingFormData.collectionName || '')
         formData.append('shipTypes', listingFormData.shipTypes || 'Standard Shipping')
@@ -1355,6 +1442,7 @@ const Listings = () => {
           title: listingFormData.title,
           sku: listingFormData.sku,
           subSku: subSkuString,
+          components,
           category: listingFormData.category,
           collectionName: listingFormData.collectionName,
           shipTypes: listingFormData.shipTypes,
@@ -1506,13 +1594,15 @@ const Listings = () => {
                 <Download className="w-4 h-4 mr-2" />
                 Export
               </Button>
-              <UnifiedAddNew
-                platformType="listings"
-                onAddListing={() => handleOpenAddListing()}
-                onBulkAddListing={() => {/* TODO: Add bulk add functionality */}}
-                onImportListing={() => {/* TODO: Add import file functionality */}}
-                onBulkImagesListing={handleBulkImages}
-              />
+              {can('listings:write') && (
+                <UnifiedAddNew
+                  platformType="listings"
+                  onAddListing={() => handleOpenAddListing()}
+                  onBulkAddListing={() => {/* TODO: Add bulk add functionality */}}
+                  onImportListing={() => {/* TODO: Add import file functionality */}}
+                  onBulkImagesListing={handleBulkImages}
+                />
+              )}
             </div>
           </div>
           
@@ -1570,7 +1660,7 @@ const Listings = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="">All Brands</SelectItem>
-                    {brands.map((brand) => (
+                    {scopeItems('brands', brands).map((brand) => (
                       <SelectItem key={brand.id} value={brand.id.toString()}>
                         {brand.name}
                       </SelectItem>
@@ -1873,20 +1963,24 @@ const Listings = () => {
                           >
                             <Info className="w-4 h-4" />
                           </Button>
-                          <Button
-                            onClick={() => handleOpenEditListing(listing)}
-                            variant="ghost"
-                            size="sm"
-                          >
-                            <Edit className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            onClick={() => handleOpenDeleteConfirm(listing)}
-                            variant="ghost"
-                            size="sm"
-                          >
-                            <Trash2 className="w-4 h-4 text-red-500" />
-                          </Button>
+                          {canEditBrand(listing.brand, 'listings:write') && (
+                            <Button
+                              onClick={() => handleOpenEditListing(listing)}
+                              variant="ghost"
+                              size="sm"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canEditBrand(listing.brand, 'listings:write') && (
+                            <Button
+                              onClick={() => handleOpenDeleteConfirm(listing)}
+                              variant="ghost"
+                              size="sm"
+                            >
+                              <Trash2 className="w-4 h-4 text-red-500" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -1970,7 +2064,7 @@ const Listings = () => {
                 <div>
                   <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">File Requirements</h4>
                   <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
-                    <li>• <strong>Supported formats:</strong> CSV, Excel (.xls, .xlsx), JSON</li>
+                    <li>• <strong>Supported formats:</strong> CSV, Excel (.xlsx), JSON</li>
                     <li>• <strong>File size limit:</strong> Unlimited (background processing)</li>
                     <li>• <strong>Required columns:</strong> sku, subSku, mainImageUrl, galleryImages</li>
                     <li>• <strong>Gallery images:</strong> Comma-separated URLs</li>
@@ -1997,7 +2091,7 @@ const Listings = () => {
             <div className="border-2 border-dashed dark:border-slate-600 rounded-lg p-6 text-center">
               <input
                 type="file"
-                accept=".csv,.xls,.xlsx,.json"
+                accept=".csv,.xlsx,.json"
                 onChange={(e) => setBulkImagesFile(e.target.files?.[0] || null)}
                 className="hidden"
                 id="bulk-images-file-upload"
@@ -2023,7 +2117,7 @@ const Listings = () => {
                 <li>• <strong>Required column:</strong> <code>sku</code> (must match existing listing SKUs)</li>
                 <li>• <strong>Optional columns:</strong> <code>mainImageUrl</code>, <code>galleryImages</code></li>
                 <li>• <strong>Gallery images:</strong> Separate multiple URLs with commas</li>
-                <li>• <strong>Supported formats:</strong> CSV, Excel (.xlsx, .xls)</li>
+                <li>• <strong>Supported formats:</strong> CSV, Excel (.xlsx)</li>
               </ul>
               <p className="text-xs text-blue-700 dark:text-blue-300 mt-2">
                 💡 <strong>Tip:</strong> Download the template first to see the correct format!
@@ -2050,6 +2144,13 @@ const Listings = () => {
         </div>
       )}
       
+      {/* Upload Access Report */}
+      <AccessViolationReport
+        violations={accessReport?.violations || null}
+        fileName={accessReport?.fileName}
+        onClose={() => setAccessReport(null)}
+      />
+      
       {/* Bulk Images Results Modal */}
       {bulkImagesResults && (
         <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
@@ -2142,7 +2243,7 @@ const Listings = () => {
                         <SelectValue placeholder="Select Brand" />
                       </SelectTrigger>
                       <SelectContent>
-                        {brands.map((brand) => (
+                        {scopeItems('brands', brands, 'listings:write').map((brand) => (
                           <SelectItem key={brand.id} value={brand.id.toString()}>
                             {brand.name}
                           </SelectItem>
@@ -2301,7 +2402,12 @@ const Listings = () => {
 
               {/* Pricing */}
               <div>
-                <h3 className="text-lg font-semibold mb-4">Pricing</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold">Pricing</h3>
+                  <Button type="button" onClick={applyPricingRuleToForm} variant="outline" size="sm">
+                    Apply Pricing Rule
+                  </Button>
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
                     <label className="block text-sm font-medium mb-1">Brand Real Price</label>
@@ -2711,7 +2817,12 @@ const Listings = () => {
 
               {/* Pricing Information */}
               <div className="border dark:border-slate-700 rounded-lg p-4">
-                <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-slate-100">Pricing Information</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Pricing Information</h3>
+                  <Button type="button" onClick={applyPricingRuleToForm} variant="outline" size="sm">
+                    Apply Pricing Rule
+                  </Button>
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                   <div>
                     <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-slate-300">
@@ -3230,7 +3341,16 @@ const Listings = () => {
                       </TableRow>
                       <TableRow>
                         <TableCell className="font-semibold bg-gray-50 dark:bg-slate-700/50">Sub SKU</TableCell>
-                        <TableCell className="font-mono text-sm">{selectedListingInfo.subSku || '-'}</TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {selectedListingInfo.components && selectedListingInfo.components.length > 0
+                            ? selectedListingInfo.components.map(component => (
+                                <div key={component.subSku}>
+                                  {component.quantity} × {component.subSku}
+                                  {component.variantId !== null && <span className="ml-2 text-xs text-indigo-600 dark:text-indigo-400 font-sans">variant</span>}
+                                </div>
+                              ))
+                            : selectedListingInfo.subSku || '-'}
+                        </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell className="font-semibold bg-gray-50 dark:bg-slate-700/50">Category</TableCell>
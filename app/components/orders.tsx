@@ -0,0 +1,1002 @@
+"use client"
+
+/**
+ * Orders Component
+ *
+ * Orders table with status filters, search (order number, SKU or customer),
+ * server-side pagination and a detail drawer that resolves every order line
+ * back to the listing it was sold from. Marketplace order reports can be
+ * imported; rows whose SKU matches no listing are listed for reconciliation.
+ */
+
+import React, { useState, useEffect, useRef } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Search, X, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Info, RefreshCw, ExternalLink, Package2, Upload, AlertTriangle } from 'lucide-react'
+import { useAuth } from '../lib/auth'
+import { useToast } from '../lib/hooks/use-toast'
+import {
+  OrdersService,
+  ORDER_STATUSES,
+  ORDER_IMPORT_LAYOUTS,
+  ORDER_IMPORT_FIELDS,
+  matchOrderImportColumns,
+  type Order,
+  type OrderLine,
+  type OrderStatus,
+  type OrderImportMarketplace,
+  type OrderImportColumnMapping,
+  type ImportOrdersResponse,
+  type ImportOrdersJobResponse,
+  type UnmatchedOrderRow
+} from '../lib/orders/api'
+import { downloadCsv } from '../lib/utils/export.utils'
+import { readImportRows } from '../lib/utils/import.utils'
+import type { Listing } from '../lib/listings/api'
+import type { Pagination } from '../lib/types/common.types'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Badge } from './ui/badge'
+import './table-scroll.css'
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  processing: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  shipped: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
+  delivered: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  cancelled: 'bg-gray-200 text-gray-700 dark:bg-slate-600 dark:text-slate-200',
+  returned: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+}
+
+// Radix Select items cannot have an empty value
+const UNMAPPED_COLUMN = '__none__'
+
+const formatStatus = (status: string) => status.charAt(0).toUpperCase() + status.slice(1)
+
+const formatMoney = (amount: any, currency: string = 'USD') => {
+  const value = typeof amount === 'number' ? amount : parseFloat(String(amount || 0))
+  return `${currency === 'USD' ? '$' : `${currency} `}${(isNaN(value) ? 0 : value).toFixed(2)}`
+}
+
+const Orders = () => {
+  const { state, can } = useAuth()
+  const { toast } = useToast()
+
+  // State management
+  const [orders, setOrders] = useState<Order[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [statusCounts, setStatusCounts] = useState<Partial<Record<OrderStatus, number>>>({})
+
+  // Filters and pagination (can be pre-filled from the URL, e.g. /orders?status=pending)
+  const params = useSearchParams()
+  const [filters, setFilters] = useState(() => {
+    const status = params.get('status') as OrderStatus | null
+    return {
+      search: params.get('search') || '',
+      status: (status && ORDER_STATUSES.includes(status) ? status : 'all') as OrderStatus | 'all',
+      dateFrom: params.get('dateFrom') || '',
+      dateTo: params.get('dateTo') || ''
+    }
+  })
+  const [searchInput, setSearchInput] = useState(filters.search)
+  const [pagination, setPagination] = useState<Pagination>({
+    totalCount: 0,
+    totalPages: 1,
+    currentPage: 1,
+    itemsPerPage: 20,
+    hasNextPage: false,
+    hasPrevPage: false
+  })
+
+  // Detail drawer state
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
+  const [lineListings, setLineListings] = useState<Record<number, Listing | null>>({})
+  const [resolvingLines, setResolvingLines] = useState(false)
+  // Order whose lines are being resolved; responses for any other order are dropped
+  const openOrderId = useRef<number | null>(null)
+  const [statusUpdate, setStatusUpdate] = useState({ status: '' as OrderStatus | '', trackingNumber: '' })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Import state
+  const [showImportModal, setShowImportModal] = useState(false)
+  const [importMarketplace, setImportMarketplace] = useState<OrderImportMarketplace>('amazon')
+  const [importFile, setImportFile] = useState<File | null>(null)
+  const [importHeaders, setImportHeaders] = useState<string[]>([])
+  const [importMapping, setImportMapping] = useState<OrderImportColumnMapping>({})
+  const [importError, setImportError] = useState<string | null>(null)
+  const [isReadingImportFile, setIsReadingImportFile] = useState(false)
+  const [importResults, setImportResults] = useState<ImportOrdersResponse | ImportOrdersJobResponse | null>(null)
+  const [unmatchedRows, setUnmatchedRows] = useState<UnmatchedOrderRow[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+  const [loadingReconciliation, setLoadingReconciliation] = useState(false)
+
+  const searchTimeout = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Load orders
+  const loadOrders = async (page: number = pagination.currentPage) => {
+    if (!state.accessToken) {
+      setError('No access token available')
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await OrdersService.getOrders(state.accessToken, {
+        page,
+        limit: pagination.itemsPerPage,
+        search: filters.search.trim() || undefined,
+        status: filters.status === 'all' ? undefined : filters.status,
+        dateFrom: filters.dateFrom || undefined,
+        dateTo: filters.dateTo || undefined,
+        sortBy: 'orderDate',
+        sortOrder: 'desc'
+      })
+
+      setOrders(response.orders || [])
+      if (response.pagination) setPagination(response.pagination)
+      if (response.statusCounts) setStatusCounts(response.statusCounts)
+
+      console.log(`✅ Loaded ${response.orders?.length || 0} orders`)
+    } catch (err: any) {
+      console.error('Failed to load orders:', err)
+      setError(err.message || 'Failed to load orders')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Reload whenever filters or page size change
+  useEffect(() => {
+    if (state.accessToken) {
+      loadOrders(1)
+    }
+  }, [state.accessToken, filters, pagination.itemsPerPage])
+
+  // Cleanup modal scroll lock and pending search on unmount
+  useEffect(() => {
+    return () => {
+      document.body.classList.remove('modal-open')
+      if (searchTimeout.current) clearTimeout(searchTimeout.current)
+    }
+  }, [])
+
+  // Debounced search
+  const handleSearch = (value: string) => {
+    setSearchInput(value)
+    if (searchTimeout.current) clearTimeout(searchTimeout.current)
+    searchTimeout.current = setTimeout(() => {
+      setFilters(prev => ({ ...prev, search: value }))
+    }, 400)
+  }
+
+  const handleStatusChange = (status: OrderStatus | 'all') => {
+    setFilters(prev => ({ ...prev, status }))
+  }
+
+  const handleClearFilters = () => {
+    setSearchInput('')
+    setFilters({ search: '', status: 'all', dateFrom: '', dateTo: '' })
+  }
+
+  // Pagination handlers
+  const goToPage = (page: number) => {
+    loadOrders(page)
+  }
+
+  // Drawer handlers
+  const handleOpenOrder = async (order: Order) => {
+    openOrderId.current = order.id
+    setSelectedOrder(order)
+    setLineListings({})
+    setStatusUpdate({ status: order.status, trackingNumber: order.trackingNumber || '' })
+    document.body.classList.add('modal-open')
+
+    if (!state.accessToken) return
+
+    try {
+      setResolvingLines(true)
+      const entries = await Promise.all(
+        order.lines.map(async (line: OrderLine) => [line.id, await OrdersService.getListingForLine(state.accessToken!, line)] as const)
+      )
+      if (openOrderId.current !== order.id) return
+      setLineListings(Object.fromEntries(entries))
+    } finally {
+      if (openOrderId.current === order.id) setResolvingLines(false)
+    }
+  }
+
+  const handleCloseOrder = () => {
+    openOrderId.current = null
+    setSelectedOrder(null)
+    setLineListings({})
+    document.body.classList.remove('modal-open')
+  }
+
+  // Save status / tracking update from the drawer
+  const handleSaveStatus = async () => {
+    if (!state.accessToken || !selectedOrder || !statusUpdate.status || !can('orders:fulfil')) return
+
+    try {
+      setIsSubmitting(true)
+      const response = await OrdersService.updateOrderStatus(state.accessToken, selectedOrder.id, {
+        status: statusUpdate.status,
+        trackingNumber: statusUpdate.trackingNumber.trim() || null
+      })
+
+      setSelectedOrder(prev => prev ? { ...prev, ...response.order, lines: prev.lines } : prev)
+      await loadOrders()
+
+      toast({
+        variant: "success",
+        title: "Order Updated",
+        description: `Order ${selectedOrder.orderNumber} is now ${formatStatus(statusUpdate.status)}`,
+      })
+    } catch (err: any) {
+      console.error('Failed to update order:', err)
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: err.message || 'Failed to update order',
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Import handlers
+  const handleOpenImport = () => {
+    setShowImportModal(true)
+    setImportFile(null)
+    setImportHeaders([])
+    setImportMapping({})
+    setImportError(null)
+    setImportResults(null)
+    setUnmatchedRows([])
+    document.body.classList.add('modal-open')
+  }
+
+  const handleCloseImport = () => {
+    setShowImportModal(false)
+    document.body.classList.remove('modal-open')
+  }
+
+  // Read the header row so the columns can be mapped before uploading
+  const handleImportFileChange = async (file: File | null) => {
+    setImportFile(file)
+    setImportHeaders([])
+    setImportMapping({})
+    setImportError(null)
+    setImportResults(null)
+    setUnmatchedRows([])
+    if (!file) return
+
+    try {
+      setIsReadingImportFile(true)
+      const rows = await readImportRows(file)
+      const headers = Object.keys(rows[0] || {})
+      if (headers.length === 0) {
+        setImportError(`${file.name} has no data rows`)
+        return
+      }
+      setImportHeaders(headers)
+      setImportMapping(matchOrderImportColumns(headers, importMarketplace))
+    } catch (err: any) {
+      console.error('Failed to read order import file:', err)
+      setImportError(`Could not read ${file.name}: ${err.message || 'unknown format'}`)
+    } finally {
+      setIsReadingImportFile(false)
+    }
+  }
+
+  const handleImportMarketplaceChange = (marketplace: OrderImportMarketplace) => {
+    setImportMarketplace(marketplace)
+    if (importHeaders.length > 0) setImportMapping(matchOrderImportColumns(importHeaders, marketplace))
+  }
+
+  const updateImportMapping = (field: keyof OrderImportColumnMapping, header: string) => {
+    setImportMapping(prev => {
+      const next = { ...prev }
+      if (header) next[field] = [header]
+      else delete next[field]
+      return next
+    })
+  }
+
+  const missingImportFields = ORDER_IMPORT_FIELDS.filter(field => field.required && !importMapping[field.key]?.length)
+
+  const handleImportUpload = async () => {
+    if (!importFile || !state.accessToken) {
+      setImportError('Please select a file')
+      return
+    }
+    if (importHeaders.length === 0 || missingImportFields.length > 0) {
+      setImportError(`Map a column for: ${missingImportFields.map(field => field.label).join(', ') || 'every required field'}`)
+      return
+    }
+
+    try {
+      setIsImporting(true)
+      setImportError(null)
+
+      const response = await OrdersService.importOrdersFile(importFile, importMarketplace, state.accessToken, importMapping)
+      setImportResults(response)
+
+      if ('jobId' in response) {
+        toast({
+          variant: "success",
+          title: "Import Started",
+          description: "The file is being processed in the background. Track it on the Status page.",
+        })
+        return
+      }
+
+      setUnmatchedRows(response.results?.unmatched || [])
+      await loadOrders(1)
+
+      toast({
+        variant: response.summary.unmatched > 0 ? "destructive" : "success",
+        title: "Import Complete",
+        description: response.summary.unmatched > 0
+          ? `${response.summary.imported} order(s) imported, ${response.summary.unmatched} row(s) need reconciliation`
+          : `${response.summary.imported} order(s) imported`,
+      })
+    } catch (err: any) {
+      console.error('Failed to import orders:', err)
+      setImportError(err.message || 'Failed to import orders')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  // Fetch the unmatched rows of a background import once it has finished
+  const handleLoadReconciliation = async () => {
+    if (!state.accessToken || !importResults || !('jobId' in importResults)) return
+
+    try {
+      setLoadingReconciliation(true)
+      const response = await OrdersService.getImportReconciliation(state.accessToken, importResults.jobId)
+      setUnmatchedRows(response.unmatched || [])
+      await loadOrders(1)
+    } catch (err: any) {
+      console.error('Failed to load import reconciliation:', err)
+      toast({
+        variant: "destructive",
+        title: "Reconciliation Unavailable",
+        description: err.message || 'Failed to load unmatched rows',
+      })
+    } finally {
+      setLoadingReconciliation(false)
+    }
+  }
+
+  // Export unmatched rows so they can be fixed in the source sheet
+  const handleExportUnmatched = () => {
+    const headers = ['Row', 'Order Number', 'SKU', 'Sub SKU', 'Title', 'Quantity', 'Reason']
+    const rows = unmatchedRows.map(row => [
+      row.row,
+      row.orderNumber,
+      row.sku,
+      row.subSku || '',
+      row.title || '',
+      row.quantity,
+      row.reason || 'No listing matches this SKU'
+    ])
+
+    downloadCsv(`orders_unmatched_${importMarketplace}_${new Date().toISOString().split('T')[0]}.csv`, headers, rows)
+  }
+
+  const totalStatusCount = Object.values(statusCounts).reduce((sum, count) => sum + (count || 0), 0)
+  const startIndex = (pagination.currentPage - 1) * pagination.itemsPerPage
+
+  return (
+    <div className="space-y-6">
+      <Card className="dark:bg-slate-800 dark:border-slate-700">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <CardTitle className="text-2xl font-bold text-gray-900 dark:text-slate-100">
+              Orders
+            </CardTitle>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                onClick={handleOpenImport}
+                variant="outline"
+                size="sm"
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-600"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import Orders
+              </Button>
+
+              <Button
+                onClick={() => loadOrders()}
+                variant="outline"
+                size="sm"
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-600"
+                disabled={loading}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {/* Status Filters */}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              onClick={() => handleStatusChange('all')}
+              variant={filters.status === 'all' ? 'default' : 'outline'}
+              size="sm"
+              className={filters.status === 'all' ? '' : 'dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600'}
+            >
+              All{totalStatusCount > 0 ? ` (${totalStatusCount})` : ''}
+            </Button>
+            {ORDER_STATUSES.map(status => (
+              <Button
+                key={status}
+                onClick={() => handleStatusChange(status)}
+                variant={filters.status === status ? 'default' : 'outline'}
+                size="sm"
+                className={filters.status === status ? '' : 'dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600'}
+              >
+                {formatStatus(status)}
+                {statusCounts[status] !== undefined ? ` (${statusCounts[status]})` : ''}
+              </Button>
+            ))}
+          </div>
+
+          {/* Search and Date Filters Row */}
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search by order number, SKU or customer..."
+                value={searchInput}
+                onChange={(e) => handleSearch(e.target.value)}
+                className="pl-10 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              />
+            </div>
+            <Input
+              type="date"
+              value={filters.dateFrom}
+              onChange={(e) => setFilters(prev => ({ ...prev, dateFrom: e.target.value }))}
+              className="md:w-44 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              title="Order date from"
+            />
+            <Input
+              type="date"
+              value={filters.dateTo}
+              onChange={(e) => setFilters(prev => ({ ...prev, dateTo: e.target.value }))}
+              className="md:w-44 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              title="Order date to"
+            />
+            <Button
+              onClick={handleClearFilters}
+              variant="outline"
+              size="sm"
+              className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+            >
+              Clear Filters
+            </Button>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {/* Results Count */}
+          <div className="text-sm text-gray-600 dark:text-slate-400">
+            {pagination.totalCount === 0
+              ? 'No orders'
+              : `Showing ${startIndex + 1}-${Math.min(startIndex + orders.length, pagination.totalCount)} of ${pagination.totalCount} orders`}
+          </div>
+
+          {/* Orders Table */}
+          <div
+            className="relative overflow-auto border border-gray-200 dark:border-slate-600 rounded-lg"
+            style={{ maxHeight: '600px' }}
+          >
+            <Table>
+              <TableHeader className="sticky top-0 bg-gray-50 dark:bg-slate-700 z-10">
+                <TableRow>
+                  <TableHead>Order #</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Marketplace</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-16">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+                        <span className="text-gray-500 dark:text-slate-400">Loading orders...</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : orders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-gray-500 dark:text-slate-400">
+                      No orders found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  orders.map((order) => (
+                    <TableRow
+                      key={order.id}
+                      className="hover:bg-gray-50 dark:hover:bg-slate-700/50 cursor-pointer"
+                      onClick={() => handleOpenOrder(order)}
+                    >
+                      <TableCell className="font-medium">{order.orderNumber}</TableCell>
+                      <TableCell>{new Date(order.orderDate).toLocaleDateString()}</TableCell>
+                      <TableCell>{order.customerName}</TableCell>
+                      <TableCell>{order.marketplace?.name || '-'}</TableCell>
+                      <TableCell>{order.lines.reduce((sum, line) => sum + line.quantity, 0)}</TableCell>
+                      <TableCell>{formatMoney(order.totalAmount, order.currency)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`border-transparent ${STATUS_STYLES[order.status] || ''}`}>
+                          {formatStatus(order.status)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleOpenOrder(order)
+                          }}
+                          variant="ghost"
+                          size="sm"
+                          title="View Details"
+                        >
+                          <Info className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600 dark:text-slate-400">
+              Page {pagination.currentPage} of {Math.max(1, pagination.totalPages)}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => goToPage(1)}
+                disabled={!pagination.hasPrevPage}
+                variant="outline"
+                size="sm"
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              >
+                <ChevronsLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => goToPage(pagination.currentPage - 1)}
+                disabled={!pagination.hasPrevPage}
+                variant="outline"
+                size="sm"
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => goToPage(pagination.currentPage + 1)}
+                disabled={!pagination.hasNextPage}
+                variant="outline"
+                size="sm"
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => goToPage(pagination.totalPages)}
+                disabled={!pagination.hasNextPage}
+                variant="outline"
+                size="sm"
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              >
+                <ChevronsRight className="h-4 w-4" />
+              </Button>
+
+              <Select
+                value={pagination.itemsPerPage.toString()}
+                onValueChange={(value) => setPagination(prev => ({ ...prev, itemsPerPage: parseInt(value), currentPage: 1 }))}
+              >
+                <SelectTrigger className="w-20 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="10">10</SelectItem>
+                  <SelectItem value="20">20</SelectItem>
+                  <SelectItem value="50">50</SelectItem>
+                  <SelectItem value="100">100</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Order Detail Drawer */}
+      {selectedOrder && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={handleCloseOrder}>
+          <div
+            className="bg-white dark:bg-slate-800 w-full max-w-2xl h-full overflow-y-auto shadow-xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Order {selectedOrder.orderNumber}</h2>
+                  <p className="text-sm text-gray-500 dark:text-slate-400">
+                    {new Date(selectedOrder.orderDate).toLocaleString()}
+                    {selectedOrder.marketplace?.name ? ` • ${selectedOrder.marketplace.name}` : ''}
+                    {selectedOrder.channelOrderId ? ` • ${selectedOrder.channelOrderId}` : ''}
+                  </p>
+                </div>
+                <Button onClick={handleCloseOrder} variant="ghost" size="sm">
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+
+              {/* Customer */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-600 dark:text-slate-400">Customer</label>
+                  <p className="text-gray-900 dark:text-slate-100">{selectedOrder.customerName}</p>
+                  {selectedOrder.customerEmail && (
+                    <p className="text-sm text-gray-500 dark:text-slate-400">{selectedOrder.customerEmail}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600 dark:text-slate-400">Ship To</label>
+                  {selectedOrder.shippingAddress ? (
+                    <p className="text-gray-900 dark:text-slate-100 text-sm">
+                      {[
+                        selectedOrder.shippingAddress.name,
+                        selectedOrder.shippingAddress.line1,
+                        selectedOrder.shippingAddress.line2,
+                        [selectedOrder.shippingAddress.city, selectedOrder.shippingAddress.state, selectedOrder.shippingAddress.postalCode].filter(Boolean).join(', '),
+                        selectedOrder.shippingAddress.country
+                      ].filter(Boolean).map((part, index) => (
+                        <span key={index} className="block">{part}</span>
+                      ))}
+                    </p>
+                  ) : (
+                    <p className="text-gray-500 dark:text-slate-400">-</p>
+                  )}
+                </div>
+              </div>
+
+              {/* Fulfilment */}
+              {can('orders:fulfil') && (
+                <div className="border border-gray-200 dark:border-slate-600 rounded-lg p-4 space-y-3">
+                  <h3 className="font-semibold text-gray-900 dark:text-slate-100">Fulfilment</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <Select
+                      value={statusUpdate.status}
+                      onValueChange={(value) => setStatusUpdate(prev => ({ ...prev, status: value as OrderStatus }))}
+                    >
+                      <SelectTrigger className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
+                        <SelectValue placeholder="Status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ORDER_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{formatStatus(status)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Tracking number"
+                      value={statusUpdate.trackingNumber}
+                      onChange={(e) => setStatusUpdate(prev => ({ ...prev, trackingNumber: e.target.value }))}
+                      className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={handleSaveStatus} disabled={isSubmitting || !statusUpdate.status} size="sm">
+                      {isSubmitting ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* Order Lines */}
+              <div className="space-y-3">
+                <h3 className="font-semibold text-gray-900 dark:text-slate-100">
+                  Items ({selectedOrder.lines.length})
+                  {resolvingLines && (
+                    <span className="ml-2 text-sm font-normal text-gray-500 dark:text-slate-400">Matching listings...</span>
+                  )}
+                </h3>
+                {selectedOrder.lines.map(line => {
+                  const listing = lineListings[line.id]
+                  return (
+                    <div key={line.id} className="border border-gray-200 dark:border-slate-600 rounded-lg p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 dark:text-slate-100">{line.title}</p>
+                          <p className="text-sm text-gray-500 dark:text-slate-400">
+                            SKU: {line.sku}{line.subSku ? ` • Sub SKU: ${line.subSku}` : ''}
+                          </p>
+                        </div>
+                        <div className="text-right text-sm text-gray-900 dark:text-slate-100 whitespace-nowrap">
+                          <p>{line.quantity} × {formatMoney(line.unitPrice, selectedOrder.currency)}</p>
+                          <p className="font-semibold">{formatMoney(line.totalPrice, selectedOrder.currency)}</p>
+                        </div>
+                      </div>
+
+                      {!resolvingLines && (
+                        listing ? (
+                          <div className="mt-3 flex items-center justify-between gap-4 bg-gray-50 dark:bg-slate-700 rounded-md px-3 py-2">
+                            <div className="flex items-center gap-2 min-w-0 text-sm">
+                              <Package2 className="h-4 w-4 text-blue-500 flex-shrink-0" />
+                              <span className="truncate text-gray-700 dark:text-slate-200">
+                                {listing.title} • {listing.brand?.name} • {formatMoney(listing.ecommercePrice)}
+                              </span>
+                            </div>
+                            <Link
+                              href={`/listings?search=${encodeURIComponent(listing.subSku || listing.sku)}`}
+                              className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+                            >
+                              Open listing
+                              <ExternalLink className="h-3 w-3" />
+                            </Link>
+                          </div>
+                        ) : (
+                          <p className="mt-3 text-sm text-red-600 dark:text-red-400">
+                            No listing matches this SKU
+                          </p>
+                        )
+                      )}
+                    </div>
+                  )
+                })}
+
+                <div className="flex justify-end text-lg font-bold text-gray-900 dark:text-slate-100">
+                  Total: {formatMoney(selectedOrder.totalAmount, selectedOrder.currency)}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Import Orders Modal */}
+      {showImportModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-lg max-w-3xl w-full max-h-[85vh] overflow-y-auto">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-slate-100">Import Orders</h2>
+                <Button onClick={handleCloseImport} variant="ghost" size="sm">
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                    Marketplace Report Layout
+                  </label>
+                  <Select
+                    value={importMarketplace}
+                    onValueChange={(value) => handleImportMarketplaceChange(value as OrderImportMarketplace)}
+                  >
+                    <SelectTrigger className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ORDER_IMPORT_LAYOUTS) as OrderImportMarketplace[]).map(key => (
+                        <SelectItem key={key} value={key}>{ORDER_IMPORT_LAYOUTS[key].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-gray-600 dark:text-slate-400 mt-2">
+                    {ORDER_IMPORT_LAYOUTS[importMarketplace].description}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">
+                    Upload Report File
+                  </label>
+                  <Input
+                    type="file"
+                    accept=".csv,.txt,.xlsx"
+                    onChange={(e) => handleImportFileChange(e.target.files?.[0] || null)}
+                    disabled={isImporting}
+                    className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                  />
+                </div>
+
+                {/* Column mapping: the layout's usual columns until a file is chosen, then the file's own headers */}
+                <div className="border border-gray-200 dark:border-slate-600 rounded-md overflow-hidden">
+                  <Table>
+                    <TableHeader className="bg-gray-50 dark:bg-slate-700">
+                      <TableRow>
+                        <TableHead>Order Field</TableHead>
+                        <TableHead>{importHeaders.length > 0 ? 'File Column' : 'Report Column(s)'}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ORDER_IMPORT_FIELDS.map(field => (
+                        <TableRow key={field.key}>
+                          <TableCell className="text-sm">{field.label}{field.required ? ' *' : ''}</TableCell>
+                          <TableCell className="text-sm">
+                            {importHeaders.length > 0 ? (
+                              <Select
+                                value={importMapping[field.key]?.[0] || UNMAPPED_COLUMN}
+                                onValueChange={(value) => updateImportMapping(field.key, value === UNMAPPED_COLUMN ? '' : value)}
+                              >
+                                <SelectTrigger className="h-8 dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={UNMAPPED_COLUMN}>Not in file</SelectItem>
+                                  {importHeaders.map(header => (
+                                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="font-mono">{(ORDER_IMPORT_LAYOUTS[importMarketplace].mapping[field.key] || []).join(' / ') || '-'}</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {isReadingImportFile && (
+                  <p className="text-sm text-gray-600 dark:text-slate-400">Reading columns...</p>
+                )}
+
+                {importHeaders.length > 0 && missingImportFields.length > 0 && (
+                  <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 px-4 py-3 rounded-md text-sm">
+                    Required fields without a column: {missingImportFields.map(field => field.label).join(', ')}
+                  </div>
+                )}
+
+                {importError && (
+                  <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md">
+                    {importError}
+                  </div>
+                )}
+
+                {importResults && 'jobId' in importResults && (
+                  <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300 px-4 py-3 rounded-md space-y-2">
+                    <p className="font-medium">{importResults.message}</p>
+                    <p className="text-sm">
+                      Job {importResults.jobId} • {importResults.totalItems} row(s) • {importResults.estimatedTime}
+                    </p>
+                    <div className="flex items-center gap-3">
+                      <Link href="/status" className="text-sm underline">View on Status page</Link>
+                      <Button
+                        onClick={handleLoadReconciliation}
+                        variant="outline"
+                        size="sm"
+                        disabled={loadingReconciliation}
+                      >
+                        {loadingReconciliation ? 'Loading...' : 'Load Unmatched Rows'}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {importResults && 'summary' in importResults && (
+                  <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-600 dark:text-green-400 px-4 py-3 rounded-md">
+                    <p className="font-medium">{importResults.message}</p>
+                    <ul className="mt-2 text-sm">
+                      <li>Total rows: {importResults.summary.total}</li>
+                      <li>Orders imported: {importResults.summary.imported}</li>
+                      <li>Duplicates: {importResults.summary.duplicates}</li>
+                      <li>Unmatched SKUs: {importResults.summary.unmatched}</li>
+                      <li>Errors: {importResults.summary.errors}</li>
+                    </ul>
+                  </div>
+                )}
+
+                {/* Reconciliation Table */}
+                {unmatchedRows.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-semibold text-gray-900 dark:text-slate-100 flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 text-orange-500" />
+                        Needs Reconciliation ({unmatchedRows.length})
+                      </h3>
+                      <Button
+                        onClick={handleExportUnmatched}
+                        variant="outline"
+                        size="sm"
+                        className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                      >
+                        Export CSV
+                      </Button>
+                    </div>
+                    <div className="border border-orange-200 dark:border-orange-800 rounded-md overflow-auto max-h-72">
+                      <Table>
+                        <TableHeader className="sticky top-0 bg-orange-50 dark:bg-slate-700">
+                          <TableRow>
+                            <TableHead>Row</TableHead>
+                            <TableHead>Order #</TableHead>
+                            <TableHead>SKU</TableHead>
+                            <TableHead>Sub SKU</TableHead>
+                            <TableHead>Qty</TableHead>
+                            <TableHead>Reason</TableHead>
+                            <TableHead></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {unmatchedRows.map(row => (
+                            <TableRow key={`${row.row}-${row.sku}`}>
+                              <TableCell className="text-sm">{row.row}</TableCell>
+                              <TableCell className="text-sm">{row.orderNumber}</TableCell>
+                              <TableCell className="text-sm font-mono">{row.sku}</TableCell>
+                              <TableCell className="text-sm font-mono">{row.subSku || '-'}</TableCell>
+                              <TableCell className="text-sm">{row.quantity}</TableCell>
+                              <TableCell className="text-sm text-gray-600 dark:text-slate-400">
+                                {row.reason || 'No listing matches this SKU'}
+                              </TableCell>
+                              <TableCell>
+                                <Link
+                                  href={`/listings?search=${encodeURIComponent(row.sku)}`}
+                                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+                                >
+                                  Find listing
+                                </Link>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex gap-2 justify-end pt-4">
+                  <Button
+                    onClick={handleCloseImport}
+                    variant="outline"
+                    disabled={isImporting}
+                  >
+                    Close
+                  </Button>
+                  <Button
+                    onClick={handleImportUpload}
+                    disabled={!importFile || isImporting || isReadingImportFile || importHeaders.length === 0 || missingImportFields.length > 0}
+                  >
+                    {isImporting ? 'Uploading...' : 'Import'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Orders
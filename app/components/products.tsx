@@ -10,7 +10,8 @@
  * - Create Product: FormData with files OR JSON with URLs
  * - Update Product: FormData with files OR JSON with URLs
  * - Bulk Create: JSON array with URLs only
- * - File Import: FormData (CSV/Excel file upload only)
+ * - File Import: FormData (CSV/Excel file upload only), mapped to the template
+ *   layout in the browser by ProductImportWizard
  * 
  * Image Handling:
  * - If user uploads file: Send as FormData (multipart/form-data)
@@ -19,11 +20,15 @@
  */
 
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react'
-import { Search, Download, Plus, Info, X, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, ChevronDown, Image as ImageIcon, Images, Building2, Package2, Filter, Maximize2, Minimize2, Upload, Edit, Trash2, Minus, Link } from 'lucide-react'
+import { Search, Download, Plus, Info, X, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, ChevronDown, Image as ImageIcon, Images, Building2, Package2, Filter, Maximize2, Minimize2, Upload, Edit, Trash2, Minus, Link, Layers } from 'lucide-react'
 import { useAuth } from '../lib/auth'
+import { useAccessScope, type AccessRowViolation } from '../lib/access-control'
+import { getImportCell } from '../lib/utils/import.utils'
 import { ProductsService, type Product, type ProductsFilters, type Brand, type ProductAttributes } from '../lib/products/api'
 import { BrandsService } from '../lib/brands/api'
 import { useToast } from '../lib/hooks/use-toast'
+import { PricingService, calculatePrice, resolvePricingRule, PRICE_ROUNDING_LABELS } from '../lib/pricing'
+import type { PricingRule } from '../lib/settings/api'
 import { API_CONFIG } from '../lib/config/api.config'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
@@ -36,10 +41,41 @@ import UnifiedAddNew from './UnifiedAddNew'
 // import ListingsModal from './ListingsModal'
 import './table-scroll.css'
 import AddToListings from './AddToListings'
+import AccessViolationReport from './AccessViolationReport'
+import ProductImportWizard from './ProductImportWizard'
+import AttributeSchemaFields from './AttributeSchemaFields'
+import ProductVariantsEditor from './ProductVariantsEditor'
+import type { ProductImportPlan } from '../lib/products/import'
+import {
+  AttributeSchemasService,
+  normalizeAttributeValue,
+  resolveAttributeSchema,
+  validateAttributes,
+  type AttributeSchema,
+  type AttributeSchemaField,
+  toAttributeKey,
+} from '../lib/products/attribute-schemas'
+import {
+  formatVariantOptions,
+  getProductSubSkus,
+  getVariantPrice,
+  toListingComponents,
+  type ProductVariant,
+  type ProductVariantSet,
+} from '../lib/products/variants'
+import type { ListingBundle } from '../lib/listings/bundles'
+
+// Attribute keys the product forms have their own inputs for
+const FORM_ATTRIBUTE_KEYS = [
+  'origin', 'weight_lb', 'sub_category', 'volume_cuft', 'short_description', 'description',
+  'shipping_width_in', 'shipping_height_in', 'shipping_length_in',
+  'color', 'style', 'material', 'product_dimension_inch',
+]
 
 const Products = () => {
-  const { state } = useAuth()
+  const { state, can } = useAuth()
   const { toast } = useToast()
+  const { scope, scopeItems, canEditBrand, checkRows, checkUpload } = useAccessScope()
   
   // Helper function to proxy backend images through Next.js API
   const getImageUrl = (imageUrl: string | null | undefined): string | null => {
@@ -180,10 +216,10 @@ const Products = () => {
   const [showImportModal, setShowImportModal] = useState(false)
   const [showBulkImagesModal, setShowBulkImagesModal] = useState(false)
   const [bulkProducts, setBulkProducts] = useState<Array<any>>([])
-  const [importFile, setImportFile] = useState<File | null>(null)
   const [bulkImagesFile, setBulkImagesFile] = useState<File | null>(null)
   const [bulkResults, setBulkResults] = useState<any>(null)
   const [bulkImagesResults, setBulkImagesResults] = useState<any>(null)
+  const [accessReport, setAccessReport] = useState<{ fileName?: string; violations: AccessRowViolation[] } | null>(null)
   
   // Bulk forms management
   const [bulkForms, setBulkForms] = useState<Array<{
@@ -196,12 +232,15 @@ const Products = () => {
   }>>([])
   const [bulkFormIdCounter, setBulkFormIdCounter] = useState(0)
   
+  // Variant matrix editor
+  const [variantsProduct, setVariantsProduct] = useState<Product | null>(null)
+  
   // Listings modal state
   const [showListingsModal, setShowListingsModal] = useState(false)
   const [listingsData, setListingsData] = useState<Array<any>>([])
   const [isSubmittingListings, setIsSubmittingListings] = useState(false)
-  const [combinationSuggestions, setCombinationSuggestions] = useState<Array<any>>([])
-  const [selectedCombination, setSelectedCombination] = useState<number | null>(null)
+  const [individualListingsData, setIndividualListingsData] = useState<Array<any>>([])
+  const [appliedBundle, setAppliedBundle] = useState<ListingBundle | null>(null)
   const buttonClickCooldown = useRef<Set<string>>(new Set())
   const lastClickTimestamp = useRef<Map<string, number>>(new Map())
   const executingRef = useRef<Set<string>>(new Set()) // Track currently executing operations
@@ -389,6 +428,9 @@ const Products = () => {
   // Filter options
   const [categories, setCategories] = useState<string[]>([])
   const [brands, setBrands] = useState<Brand[]>([])
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([])
+  const [attributeSchemas, setAttributeSchemas] = useState<AttributeSchema[]>([])
+  const [showAttributeErrors, setShowAttributeErrors] = useState(false)
   
   // Load products
   const loadProducts = async () => {
@@ -457,6 +499,94 @@ const Products = () => {
     }
   }
   
+  const loadPricingRules = async () => {
+    if (!state.accessToken) return
+    try {
+      setPricingRules(await PricingService.getPricingRules(state.accessToken))
+    } catch (err) {
+      console.error('Failed to load pricing rules:', err)
+    }
+  }
+  
+  // Forms fall back to free-form attributes when schemas cannot be loaded
+  const loadAttributeSchemas = async () => {
+    if (!state.accessToken) return
+    try {
+      setAttributeSchemas(await AttributeSchemasService.getSchemas(state.accessToken))
+    } catch (err) {
+      console.error('Failed to load attribute schemas:', err)
+    }
+  }
+  
+  const getSchemaFields = (category: string, subCategory?: string) =>
+    resolveAttributeSchema(attributeSchemas, category, subCategory)
+  
+  // Typed values for schema fields the form has no fixed input for
+  const buildSchemaAttributes = (fields: AttributeSchemaField[] | null, attributes: Record<string, any>) => {
+    const result: Record<string, any> = {}
+    fields?.forEach(field => {
+      if (FORM_ATTRIBUTE_KEYS.includes(field.key)) return
+      const value = normalizeAttributeValue(field, attributes[field.key])
+      if (value !== null) result[field.key] = value
+    })
+    return result
+  }
+  
+  // Flag attribute errors inline and surface the first one above the open modal
+  const reportAttributeErrors = (errors: string[]) => {
+    setShowAttributeErrors(true)
+    setError(errors[0])
+    toast({
+      variant: "destructive",
+      title: "Invalid Attributes",
+      description: errors.length > 1 ? `${errors[0]} (and ${errors.length - 1} more)` : errors[0],
+    })
+  }
+  
+  // Fill commission and profit margin from the brand's pricing rule
+  const applyPricingRuleToForm = () => {
+    const rule = resolvePricingRule(pricingRules, {
+      brandId: productFormData.brandId ? parseInt(productFormData.brandId) : null,
+      marketplaceId: null,
+    })
+    if (!rule) {
+      toast({
+        variant: "destructive",
+        title: "No Pricing Rule",
+        description: "No enabled pricing rule matches this brand. Add one under Settings → Pricing Rules.",
+      })
+      return
+    }
+    
+    const calculation = calculatePrice({
+      brandRealPrice: parseFloat(productFormData.brandRealPrice) || 0,
+      brandMiscellaneous: parseFloat(productFormData.brandMiscellaneous) || 0,
+      shippingPrice: parseFloat(productFormData.shippingPrice) || 0,
+      ecommerceMiscellaneous: parseFloat(productFormData.ecommerceMiscellaneous) || 0,
+      msrp: parseFloat(productFormData.msrp) || 0,
+    }, rule)
+    if (!calculation) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Pricing Rule",
+        description: `Rule "${rule.name}" has commission + margin of 100% or more.`,
+      })
+      return
+    }
+    
+    setProductFormData({
+      ...productFormData,
+      commissionPrice: calculation.commissionPrice.toFixed(2),
+      profitMarginPrice: calculation.profitMarginPrice.toFixed(2),
+      ecommercePrice: calculation.ecommercePrice.toFixed(2),
+    })
+    toast({
+      variant: calculation.belowCost ? "destructive" : "success",
+      title: `Priced by "${rule.name}"`,
+      description: `Ecommerce price $${calculation.ecommercePrice.toFixed(2)} (${PRICE_ROUNDING_LABELS[rule.rounding]}${calculation.cappedAtMsrp ? ', capped at MSRP' : ''})${calculation.belowCost ? ' is below cost' : ''}`,
+    })
+  }
+  
   // Test API connectivity on mount
   useEffect(() => {
     const testConnection = async () => {
@@ -483,6 +613,8 @@ const Products = () => {
   useEffect(() => {
     if (state.accessToken) {
       loadFilterOptions()
+      loadPricingRules()
+      loadAttributeSchemas()
     }
   }, [state.accessToken])
   
@@ -831,6 +963,17 @@ const Products = () => {
     
     try {
       setIsSubmitting(true)
+      
+      // Reject rows for brands the user cannot edit before anything is sent
+      const violations = await checkUpload(bulkImagesFile, {
+        skuOf: row => getImportCell(row, 'subSku') || getImportCell(row, 'groupSku'),
+        lookupBrands: skus => ProductsService.getBrandsBySku(state.accessToken || '', skus),
+      })
+      if (violations.length > 0) {
+        setAccessReport({ fileName: bulkImagesFile.name, violations })
+        return
+      }
+      
       const result = await ProductsService.bulkUploadImages(state.accessToken || '', bulkImagesFile)
       setBulkImagesResults(result)
       
@@ -848,129 +991,49 @@ const Products = () => {
     }
   }
   
-  // Generate combination suggestions
-  const generateCombinations = (products: Product[]) => {
-    const combinations = []
-    
-    // If only one product, return individual listing
-    if (products.length === 1) {
-      return []
-    }
-    
-    // Generate all combinations (from 2 products to all products)
-    for (let size = 2; size <= products.length; size++) {
-      const combs = getCombinations(products, size)
-      combinations.push(...combs)
-    }
-    
-    return combinations.map((combination, index) => {
-      // Combine group SKUs
-      const groupSku = combination.map(p => p.groupSku || '').filter(s => s).join('-')
-      
-      // Combine sub SKUs
-      const allSubSkus = combination.flatMap(p => 
-        p.subSku ? p.subSku.split(',').map(s => s.trim()) : []
-      )
-      
-      // Combine titles
-      const combinedTitle = combination.map(p => p.title).join(' + ')
-      
-      // Sum prices
-      const totalBrandRealPrice = combination.reduce((sum, p) => {
-        const price = typeof p.brandRealPrice === 'string' ? parseFloat(p.brandRealPrice) : p.brandRealPrice
-        return sum + (price || 0)
-      }, 0)
-      const totalBrandMiscellaneous = combination.reduce((sum, p) => {
-        const price = typeof p.brandMiscellaneous === 'string' ? parseFloat(p.brandMiscellaneous) : p.brandMiscellaneous
-        return sum + (price || 0)
-      }, 0)
-      const totalMsrp = combination.reduce((sum, p) => {
-        const price = typeof p.msrp === 'string' ? parseFloat(p.msrp) : p.msrp
-        return sum + (price || 0)
-      }, 0)
-      const totalShippingPrice = combination.reduce((sum, p) => {
-        const price = typeof p.shippingPrice === 'string' ? parseFloat(p.shippingPrice) : p.shippingPrice
-        return sum + (price || 0)
-      }, 0)
-      
-      return {
-        id: index,
-        products: combination,
-        groupSku,
-        subSkus: allSubSkus,
-        title: combinedTitle,
-        brandRealPrice: totalBrandRealPrice,
-        brandMiscellaneous: totalBrandMiscellaneous,
-        msrp: totalMsrp,
-        shippingPrice: totalShippingPrice,
-        productCount: combination.length
-      }
-    })
-  }
-  
-  // Helper function to get combinations
-  const getCombinations = (arr: Product[], size: number): Product[][] => {
-    if (size === 1) return arr.map(item => [item])
-    if (size === arr.length) return [arr]
-    
-    const result: Product[][] = []
-    
-    const combine = (start: number, combo: Product[]) => {
-      if (combo.length === size) {
-        result.push([...combo])
-        return
-      }
-      
-      for (let i = start; i < arr.length; i++) {
-        combo.push(arr[i])
-        combine(i + 1, combo)
-        combo.pop()
-      }
-    }
-    
-    combine(0, [])
-    return result
-  }
-  
   // Add to Listings handler
   const handleAddToListings = () => {
     // Use selectedProducts state instead of filtering from current page
+    setAppliedBundle(null)
     
-    // Generate combination suggestions
-    const suggestions = generateCombinations(selectedProducts)
-    setCombinationSuggestions(suggestions)
-    setSelectedCombination(null)
-    
-    // Initialize listings data for each selected product
-    const initialListingsData = selectedProducts.map(product => {
-      const subSkuArray = product.subSku ? product.subSku.split(',').map(s => s.trim()) : []
+    // Initialize listings data: one per variant, or one per product without variants
+    const toListingData = (product: Product, variant: ProductVariant | null) => {
+      const subSkuArray = variant ? [variant.subSku] : getProductSubSkus(product)
+      const sku = variant ? variant.subSku : product.groupSku || ''
+      // Option values become attributes, e.g. Color -> color
+      const optionAttributes = Object.fromEntries(
+        Object.entries(variant?.options || {}).map(([name, value]) => [toAttributeKey(name), value])
+      )
       
       return {
         productId: product.id,
-        Sku: product.groupSku || '',
-        originalGroupSku: product.groupSku || '', // Store original for protection
+        variantId: variant?.id ?? null,
+        Sku: sku,
+        originalGroupSku: sku, // Store original for protection
         customSku: '',
-        subSkus: subSkuArray.map(sku => ({
-          sku: sku,
-          quantity: 1
+        subSkus: subSkuArray.map(subSku => ({
+          sku: subSku,
+          quantity: 1,
+          productId: product.id,
+          variantId: variant?.id ?? null
         })),
         brandName: product.brand?.name || '',
         brandId: product.brand?.id || '',
-        title: product.title || '',
+        title: variant ? `${product.title} - ${formatVariantOptions(variant.options)}` : product.title || '',
         category: product.category || '',
         collectionName: product.collectionName || '',
         // shipTypes: product.shipTypes || '',
         singleSetItem: product.singleSetItem || '',
-        brandRealPrice: product.brandRealPrice || 0,
+        brandRealPrice: getVariantPrice(product, variant, 'brandRealPrice'),
         brandMiscellaneous: product.brandMiscellaneous || 0,
-        msrp: product.msrp || 0,
-        shippingPrice: product.shippingPrice || 0,
+        msrp: getVariantPrice(product, variant, 'msrp'),
+        shippingPrice: getVariantPrice(product, variant, 'shippingPrice'),
         commissionPrice: product.commissionPrice || 0,
         profitMarginPrice: product.profitMarginPrice || 0,
         ecommerceMiscellaneous: product.ecommerceMiscellaneous || 0,
-        ecommercePrice: product.ecommercePrice || 0,
-        mainImageUrl: product.mainImageUrl || '',
-        galleryImages: product.galleryImages || [],
+        ecommercePrice: getVariantPrice(product, variant, 'ecommercePrice'),
+        mainImageUrl: variant?.mainImageUrl || product.mainImageUrl || '',
+        galleryImages: variant?.galleryImages?.length ? variant.galleryImages : product.galleryImages || [],
         attributes: {
           subCategory: product.attributes?.subCategory || product.attributes?.sub_category || '',
           shortDescription: product.attributes?.shortDescription || product.attributes?.short_description || '',
@@ -993,81 +1056,103 @@ const Products = () => {
             product.attributes?.feature_5,
             product.attributes?.feature_6,
             product.attributes?.feature_7
-          ].filter(f => f) || []
+          ].filter(f => f) || [],
+          ...optionAttributes
         }
       }
-    })
+    }
+    const initialListingsData = selectedProducts.flatMap(product =>
+      product.variants && product.variants.length > 0
+        ? product.variants.map(variant => toListingData(product, variant))
+        : [toListingData(product, null)]
+    )
     
     setListingsData(initialListingsData)
+    setIndividualListingsData(initialListingsData)
     setShowListingsModal(true)
     document.body.classList.add('modal-open')
   }
   
+  // Variants replace the product's sub-SKU list, so keep the row in sync
+  const handleVariantsSaved = (set: ProductVariantSet) => {
+    if (!variantsProduct) return
+    const productId = variantsProduct.id
+    const withVariants = (product: Product): Product => product.id === productId
+      ? { ...product, variantAxes: set.axes, variants: set.variants, subSku: set.variants.map(variant => variant.subSku).join(', ') || product.subSku }
+      : product
+    setProducts(prev => prev.map(withVariants))
+    setSelectedProduct(prev => prev ? withVariants(prev) : prev)
+    toast({
+      variant: "success",
+      title: "Variants Saved",
+      description: `${variantsProduct.groupSku} now has ${set.variants.length} variant(s)`,
+    })
+    setVariantsProduct(null)
+  }
+  
   // Close listings modal
   const handleCloseListings = () => {
     setShowListingsModal(false)
     setListingsData([])
-    setCombinationSuggestions([])
-    setSelectedCombination(null)
+    setIndividualListingsData([])
+    setAppliedBundle(null)
     document.body.classList.remove('modal-open')
   }
   
-  // Handle combination selection
-  const handleSelectCombination = (combinationId: number) => {
-    const combination = combinationSuggestions.find(c => c.id === combinationId)
-    if (!combination) return
-    
-    setSelectedCombination(combinationId)
+  // Replace the individual listings with one listing for the bundle
+  const handleApplyBundle = (bundle: ListingBundle) => {
+    const { components, prices } = bundle
+    const products = components.map(component => component.product)
+    const first = products[0]
+    // Sums over every unit in the bundle, e.g. the weight of 4 chairs
+    const sumPerUnit = (value: (product: Product) => number) =>
+      components.reduce((sum, component) => sum + (Number(value(component.product)) || 0) * component.quantity, 0)
+    const distinct = (values: any[]) => Array.from(new Set(values.filter(Boolean)))
     
-    // Create a single listing from the combination
-    const combinedListing = {
-      productId: combination.products.map((p: Product) => p.id).join('-'),
-      Sku: combination.groupSku,
-      originalGroupSku: combination.groupSku, // Store original for protection
+    const bundleListing = {
+      productId: distinct(products.map(p => p.id)).join('-'),
+      Sku: bundle.sku,
+      originalGroupSku: bundle.sku, // Store original for protection
       customSku: '',
-      subSkus: combination.subSkus.map((sku: string) => ({
-        sku: sku,
-        quantity: 1
-      })),
-      brandName: combination.products[0].brand?.name || '',
-      title: combination.title,
-      category: combination.products[0].category || '',
-      collectionName: combination.products[0].collectionName || '',
-      shipTypes: combination.products[0].shipTypes || '',
+      // One entry per unit, as the sub-SKU editor counts them
+      subSkus: components.flatMap(component =>
+        component.subSkus.flatMap(sku => Array.from({ length: component.quantity }, () => ({
+          sku,
+          quantity: 1,
+          productId: component.product.id,
+          variantId: component.variant?.id ?? null
+        })))
+      ),
+      brandName: first.brand?.name || '',
+      brandId: first.brand?.id || '',
+      title: components.map(component => {
+        const title = component.variant
+          ? `${component.product.title} - ${formatVariantOptions(component.variant.options)}`
+          : component.product.title
+        return component.quantity > 1 ? `${component.quantity} x ${title}` : title
+      }).join(' + '),
+      category: first.category || '',
+      collectionName: first.collectionName || '',
+      shipTypes: first.shipTypes || '',
       singleSetItem: 'Set',
-      brandRealPrice: combination.brandRealPrice,
-      brandMiscellaneous: combination.brandMiscellaneous,
-      msrp: combination.msrp,
-      shippingPrice: combination.shippingPrice,
-      commissionPrice: combination.products.reduce((sum: number, p: Product) => {
-        const price = typeof p.commissionPrice === 'string' ? parseFloat(p.commissionPrice) : p.commissionPrice
-        return sum + (price || 0)
-      }, 0),
-      profitMarginPrice: combination.products.reduce((sum: number, p: Product) => {
-        const price = typeof p.profitMarginPrice === 'string' ? parseFloat(p.profitMarginPrice) : p.profitMarginPrice
-        return sum + (price || 0)
-      }, 0),
-      ecommerceMiscellaneous: combination.products.reduce((sum: number, p: Product) => {
-        const price = typeof p.ecommerceMiscellaneous === 'string' ? parseFloat(p.ecommerceMiscellaneous) : p.ecommerceMiscellaneous
-        return sum + (price || 0)
-      }, 0),
-      mainImageUrl: combination.products[0].mainImageUrl || '',
-      galleryImages: combination.products.flatMap((p: Product) => p.galleryImages || []),
+      ...prices,
+      mainImageUrl: components[0].variant?.mainImageUrl || first.mainImageUrl || '',
+      galleryImages: distinct(products.flatMap(p => p.galleryImages || [])),
       attributes: {
-        subCategory: combination.products.map((p: Product) => p.attributes?.sub_category).filter(Boolean).join(', '),
-        shortDescription: combination.products.map((p: Product) => p.attributes?.short_description).filter(Boolean).join(' + '),
-        description: combination.products.map((p: Product) => p.attributes?.description).filter(Boolean).join(' + '),
-        origin: combination.products[0].attributes?.origin || '',
-        shippingLength: Math.max(...combination.products.map((p: Product) => p.attributes?.shipping_length_in || 0)),
-        shippingWidth: Math.max(...combination.products.map((p: Product) => p.attributes?.shipping_width_in || 0)),
-        shippingHeight: combination.products.reduce((sum: number, p: Product) => sum + (p.attributes?.shipping_height_in || 0), 0),
-        volume: combination.products.reduce((sum: number, p: Product) => sum + (p.attributes?.volume_cuft || 0), 0),
-        weight: combination.products.reduce((sum: number, p: Product) => sum + (p.attributes?.weight_lb || 0), 0),
-        productDimension: combination.products.map((p: Product) => p.attributes?.product_dimension_inch).filter(Boolean).join(' + '),
-        style: combination.products[0].attributes?.style || '',
-        material: combination.products[0].attributes?.material || '',
-        color: combination.products[0].attributes?.color || '',
-        features: combination.products.flatMap((p: Product) => [
+        subCategory: distinct(products.map(p => p.attributes?.sub_category)).join(', '),
+        shortDescription: distinct(products.map(p => p.attributes?.short_description)).join(' + '),
+        description: distinct(products.map(p => p.attributes?.description)).join(' + '),
+        origin: first.attributes?.origin || '',
+        shippingLength: Math.max(...products.map(p => p.attributes?.shipping_length_in || 0)),
+        shippingWidth: Math.max(...products.map(p => p.attributes?.shipping_width_in || 0)),
+        shippingHeight: sumPerUnit(p => p.attributes?.shipping_height_in || 0),
+        volume: sumPerUnit(p => p.attributes?.volume_cuft || 0),
+        weight: sumPerUnit(p => p.attributes?.weight_lb || 0),
+        productDimension: distinct(products.map(p => p.attributes?.product_dimension_inch)).join(' + '),
+        style: first.attributes?.style || '',
+        material: first.attributes?.material || '',
+        color: first.attributes?.color || '',
+        features: distinct(products.flatMap(p => [
           p.attributes?.feature_1,
           p.attributes?.feature_2,
           p.attributes?.feature_3,
@@ -1075,11 +1160,18 @@ const Products = () => {
           p.attributes?.feature_5,
           p.attributes?.feature_6,
           p.attributes?.feature_7
-        ]).filter(Boolean)
+        ]))
       }
     }
     
-    setListingsData([combinedListing])
+    setAppliedBundle(bundle)
+    setListingsData([bundleListing])
+  }
+  
+  // Go back to one listing per product or variant
+  const handleClearBundle = () => {
+    setAppliedBundle(null)
+    setListingsData(individualListingsData)
   }
   
   // Update listing data
@@ -1178,7 +1270,9 @@ const Products = () => {
         newData[listingIndex].subSkus.push({
           sku: firstInstance.sku,
           quantity: firstInstance.quantity || 1,
-          isCustom: firstInstance.isCustom
+          isCustom: firstInstance.isCustom,
+          productId: firstInstance.productId,
+          variantId: firstInstance.variantId
         })
         console.log('NEW COUNT:', newData[listingIndex].subSkus.filter((s: any) => s.sku === sku).length)
       }
@@ -1235,6 +1329,7 @@ const Products = () => {
           return {
             Sku: finalSku,
             subSku: selectedSubSkus || listing.subSkus.map((ss: any) => ss.sku).join(','),
+            components: toListingComponents(listing.subSkus),
             brandName: listing.brandName,
             brandId: listing.brandId,
             title: listing.title,
@@ -1306,6 +1401,7 @@ const Products = () => {
           return {
             Sku: finalSku,
             subSku: selectedSubSkus || listing.subSkus.map((ss: any) => ss.sku).join(','),
+            components: toListingComponents(listing.subSkus),
             brandName: listing.brandName,
             brandId: listing.brandId,
             title: listing.title,
@@ -1336,6 +1432,7 @@ const Products = () => {
           formData.append('title', listing.title)
           formData.append('sku', listing.Sku)
           formData.append('subSku', listing.subSku)
+          formData.append('components', JSON.stringify(listing.components))
           formData.append('category', listing.category)
           formData.append('collectionName', listing.collectionName)
           formData.append('shipTypes', listing.shipTypes)
@@ -1410,6 +1507,7 @@ const Products = () => {
   
   // Reset product form
   const resetProductForm = () => {
+    setShowAttributeErrors(false)
     setSubSkus([{ sku: '', quantity: '0' }])
     setProductFeatures([''])
     setCustomTypes([])
@@ -1496,6 +1594,14 @@ const Products = () => {
       return
     }
     
+    const schemaFields = getSchemaFields(productFormData.category, productFormData.attributes.sub_category)
+    const attributeErrors = validateAttributes(schemaFields, productFormData.attributes)
+    if (Object.keys(attributeErrors).length > 0) {
+      reportAttributeErrors(Object.values(attributeErrors))
+      console.error('❌ Invalid attributes:', attributeErrors)
+      return
+    }
+    
     console.log('✅ All required fields validated')
     
     try {
@@ -1559,6 +1665,7 @@ const Products = () => {
           attributesTemp[type.key] = type.value
         }
       })
+      Object.assign(attributesTemp, buildSchemaAttributes(schemaFields, productFormData.attributes))
       
       // Create a clean plain object (fixes hasOwnProperty issues)
       const attributesPayload = JSON.parse(JSON.stringify(attributesTemp))
@@ -1905,13 +2012,13 @@ const Products = () => {
     setBulkFormIdCounter(0)
     setBulkMainImageFiles({})
     setBulkGalleryImageFiles({})
+    setShowAttributeErrors(false)
     document.body.classList.remove('modal-open')
   }
   
   // Close import modal
   const handleCloseImportModal = () => {
     setShowImportModal(false)
-    setImportFile(null)
     document.body.classList.remove('modal-open')
   }
   
@@ -1944,6 +2051,24 @@ const Products = () => {
       setIsSubmitting(true)
       setError(null)
       
+      const violations = checkRows(bulkForms, form => ({
+        sku: form.data.groupSku,
+        brand: brands.find(b => b.id.toString() === form.data.brandId)?.name || null,
+      }), 1)
+      if (violations.length > 0) {
+        setAccessReport({ violations })
+        return
+      }
+      
+      const attributeErrors = bulkForms.flatMap((form, index) =>
+        Object.values(validateAttributes(getSchemaFields(form.data.category, form.data.attributes.sub_category), form.data.attributes))
+          .map(error => `Product ${index + 1}: ${error}`)
+      )
+      if (attributeErrors.length > 0) {
+        reportAttributeErrors(attributeErrors)
+        return
+      }
+      
       const results = {
         created: [] as any[],
         errors: [] as Array<{product: string, error: string}>,
@@ -1981,6 +2106,10 @@ const Products = () => {
               attributesTemp[type.key] = type.value
             }
           })
+          Object.assign(attributesTemp, buildSchemaAttributes(
+            getSchemaFields(form.data.category, form.data.attributes.sub_category),
+            form.data.attributes
+          ))
           
           // Check if we have files to upload for this form
           const hasMainImageFile = bulkMainImageFiles[form.id] !== null
@@ -2114,85 +2243,110 @@ const Products = () => {
   }
   
   // Handle file import (CSV/Excel file upload - requires FormData)
-  const handleFileImport = async () => {
-    if (!state.accessToken || !importFile) return
+  // The wizard hands over the reviewed plan: new rows as a template-layout file
+  // plus per-product field updates. Errors are shown in the wizard.
+  const handleFileImport = async (plan: ProductImportPlan) => {
+    if (!state.accessToken) return
+    const importFile = plan.createFile
 
     try {
       setIsSubmitting(true)
       setError(null)
       
-      // Note: File upload MUST use FormData (this is an exception to JSON-only rule)
-      const formData = new FormData()
-      formData.append('file', importFile)
-      
-      console.log('📁 Importing file:', importFile.name)
+      // New products must name their brand so access can be checked before upload
+      const violations = [
+        ...(importFile ? await checkUpload(importFile, {
+          skuOf: row => getImportCell(row, 'subSku') || getImportCell(row, 'groupSku'),
+          brandOf: row => getImportCell(row, 'brand', 'brandName'),
+        }) : []),
+        ...checkRows(plan.updates, update => ({
+          sku: update.product.subSku || update.product.groupSku,
+          brand: update.product.brand?.name || null,
+        }), 0).map(violation => ({ ...violation, row: plan.updates[violation.row].row })),
+      ]
+      if (violations.length > 0) {
+        setAccessReport({ fileName: importFile?.name, violations })
+        return
+      }
       
-       const response = await fetch(`${API_CONFIG.BASE_URL}/products/import`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${state.accessToken}`,
-          // Note: Do NOT set Content-Type header - browser will set it with boundary for multipart/form-data
-        },
-        body: formData
-      })
+      let data: any = null
+      if (importFile) {
+        // Note: File upload MUST use FormData (this is an exception to JSON-only rule)
+        const formData = new FormData()
+        formData.append('file', importFile)
+        
+        console.log('📁 Importing file:', importFile.name)
+        
+        const response = await fetch(`${API_CONFIG.BASE_URL}/products/import`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${state.accessToken}`,
+            // Note: Do NOT set Content-Type header - browser will set it with boundary for multipart/form-data
+          },
+          body: formData
+        })
+        
+        if (!response.ok) {
+          let errorData: any = {}
+          try {
+            const text = await response.text()
+            console.error('Import Error Response (raw):', text)
+            if (text) {
+              errorData = JSON.parse(text)
+            }
+          } catch (e) {
+            console.error('Could not parse import error response')
+          }
+          throw new Error(errorData.message || errorData.error || `Failed to import products (${response.status})`)
+        }
+        
+        data = await response.json()
+      }
       
-      if (!response.ok) {
-        let errorData: any = {}
+      // Existing products are updated one by one with only the chosen fields
+      const updated: any[] = []
+      const updateErrors: Array<{product: string, error: string}> = []
+      for (const update of plan.updates) {
         try {
-          const text = await response.text()
-          console.error('Import Error Response (raw):', text)
-          if (text) {
-            errorData = JSON.parse(text)
-          }
-        } catch (e) {
-          console.error('Could not parse import error response')
+          const result = await ProductsService.updateProduct(state.accessToken, update.product.id, update.data)
+          updated.push(result.product || { ...update.product, ...update.data })
+        } catch (err: any) {
+          updateErrors.push({ product: `Row ${update.row}: ${update.product.title}`, error: err.message || 'Update failed' })
         }
-        throw new Error(errorData.message || errorData.error || `Failed to import products (${response.status})`)
       }
       
-      const data = await response.json()
-      setBulkResults(data)
+      const created = data?.results?.created || []
+      const createErrors = data?.results?.errors || []
+      setBulkResults({
+        ...data,
+        summary: {
+          total: (data?.summary?.total ?? plan.createCount) + plan.updates.length,
+          created: data?.summary?.created ?? created.length,
+          updated: updated.length,
+          duplicates: data?.summary?.duplicates ?? 0,
+          errors: (data?.summary?.errors ?? createErrors.length) + updateErrors.length,
+        },
+        results: {
+          ...data?.results,
+          created,
+          updated,
+          errors: [...createErrors, ...updateErrors],
+        },
+      })
       handleCloseImportModal()
       loadProducts()
       
     } catch (err: any) {
       console.error('Failed to import products:', err)
-      setError(err.message || 'Failed to import products')
+      throw err
     } finally {
       setIsSubmitting(false)
     }
   }
   
-  // Handle file selection for import
-  const handleImportFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      // Validate file type
-      const allowedTypes = [
-        'text/csv',
-        'application/vnd.ms-excel',
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-      ]
-      
-      if (!allowedTypes.includes(file.type) && !file.name.match(/\.(csv|xls|xlsx)$/i)) {
-        setError('Please select a valid CSV or Excel file (.csv, .xls, .xlsx)')
-        return
-      }
-      
-      // Validate file size (10MB limit)
-      if (file.size > 10 * 1024 * 1024) {
-        setError('File size must be less than 10MB')
-        return
-      }
-      
-      setImportFile(file)
-      setError(null)
-    }
-  }
-  
   // Download sample CSV
   const downloadSampleCSV = () => {
-    const csvContent = "title,groupSku,subSku,category,collectionName,singleSetItem,brandRealPrice,brandMiscellaneous,msrp,shippingPrice,commissionPrice,profitMarginPrice,ecommerceMiscellaneous,origin,weight_lb,sub_category,volume_cuft,short_description,shipping_width_in,shipping_height_in,shipping_length_in,color,style,material,feature_1,feature_2,feature_3,feature_4,feature_5,feature_6,feature_7,product_dimension_inch\nSample Product,SKU-001,SUB-001,Furniture,Modern,Single Item,100.00,10.00,150.00,15.00,5.00,25.00,8.00,USA,50.0,Chair,2.5,Comfortable office chair,24.0,30.0,20.0,Brown,Modern,Wood,Ergonomic,Adjustable,Swivel,Sturdy,Comfortable,Modern,24x30x20"
+    const csvContent = "title,brand,groupSku,subSku,category,collectionName,singleSetItem,brandRealPrice,brandMiscellaneous,msrp,shippingPrice,commissionPrice,profitMarginPrice,ecommerceMiscellaneous,origin,weight_lb,sub_category,volume_cuft,short_description,shipping_width_in,shipping_height_in,shipping_length_in,color,style,material,feature_1,feature_2,feature_3,feature_4,feature_5,feature_6,feature_7,product_dimension_inch\nSample Product,Sample Brand,SKU-001,SUB-001,Furniture,Modern,Single Item,100.00,10.00,150.00,15.00,5.00,25.00,8.00,USA,50.0,Chair,2.5,Comfortable office chair,24.0,30.0,20.0,Brown,Modern,Wood,Ergonomic,Adjustable,Swivel,Sturdy,Comfortable,Modern,24x30x20"
     const blob = new Blob([csvContent], { type: 'text/csv' })
     const url = window.URL.createObjectURL(blob)
     const a = document.createElement('a')
@@ -2335,6 +2489,13 @@ const Products = () => {
   const handleEditProduct = (product: Product) => {
     setSelectedProduct(product)
     
+    // Values for schema fields without a fixed input, as form strings
+    const schemaValues: Record<string, string> = {}
+    getSchemaFields(product.category, product.attributes?.sub_category?.toString())?.forEach(field => {
+      const value = (product.attributes as Record<string, any> | undefined)?.[field.key]
+      if (!FORM_ATTRIBUTE_KEYS.includes(field.key) && value != null) schemaValues[field.key] = value.toString()
+    })
+    
     // Populate form with product data
     setProductFormData({
       brandId: product.brand?.id?.toString() || '',
@@ -2357,6 +2518,7 @@ const Products = () => {
       mainImageUrl: product.mainImageUrl || '',
       galleryImages: (product.galleryImages && product.galleryImages.length > 0) ? product.galleryImages : [''],
       attributes: {
+        ...schemaValues,
         origin: product.attributes?.origin?.toString() || '',
         weight_lb: product.attributes?.weight_lb?.toString() || '',
         sub_category: product.attributes?.sub_category?.toString() || '',
@@ -2420,6 +2582,13 @@ const Products = () => {
       return
     }
     
+    const schemaFields = getSchemaFields(productFormData.category, productFormData.attributes.sub_category)
+    const attributeErrors = validateAttributes(schemaFields, productFormData.attributes)
+    if (Object.keys(attributeErrors).length > 0) {
+      reportAttributeErrors(Object.values(attributeErrors))
+      return
+    }
+    
     try {
       setIsSubmitting(true)
       setError(null)
@@ -2458,6 +2627,7 @@ const Products = () => {
           attributesPayload[type.key] = type.value
         }
       })
+      Object.assign(attributesPayload, buildSchemaAttributes(schemaFields, productFormData.attributes))
       
       // Check if we have files to upload
       const hasMainImageFile = mainImageFile !== null
@@ -2889,13 +3059,15 @@ const Products = () => {
                 Export
               </Button>
               
-              <UnifiedAddNew
-                platformType="products"
-                onAddProduct={handleAddProduct}
-                onBulkAddProduct={handleBulkAddProducts}
-                onImportProduct={handleImportProducts}
-                onBulkImagesProduct={handleBulkImages}
-              />
+              {(can('products:write') || can('products:import')) && (
+                <UnifiedAddNew
+                  platformType="products"
+                  onAddProduct={can('products:write') ? handleAddProduct : undefined}
+                  onBulkAddProduct={can('products:write') ? handleBulkAddProducts : undefined}
+                  onImportProduct={can('products:import') ? handleImportProducts : undefined}
+                  onBulkImagesProduct={can('products:import') ? handleBulkImages : undefined}
+                />
+              )}
             </div>
           </div>
         </CardHeader>
@@ -2952,7 +3124,7 @@ const Products = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Brands</SelectItem>
-                  {brands.map((brand) => (
+                  {scopeItems('brands', brands).map((brand) => (
                     <SelectItem key={brand.id} value={brand.id.toString()}>
                       {brand.name}
                     </SelectItem>
@@ -3151,7 +3323,10 @@ const Products = () => {
                           {renderExpandableCell(product.groupSku, product.id, 'groupSku', 170)}
                         </TableCell>
                         <TableCell className="text-center" style={{ width: `${getColumnWidth('subSku', 170)}px` }}>
-                          {renderExpandableCell(product.subSku || '', product.id, 'subSku', 170)}
+                          {renderExpandableCell(getProductSubSkus(product).join(', '), product.id, 'subSku', 170)}
+                          {product.variants && product.variants.length > 0 && (
+                            <div className="text-xs text-indigo-600 dark:text-indigo-400">{product.variants.length} variant{product.variants.length !== 1 ? 's' : ''}</div>
+                          )}
                         </TableCell>
                         <TableCell className="text-center" style={{ width: `${getColumnWidth('category', 170)}px` }}>
                           <Badge variant="outline" className="whitespace-nowrap bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300 border-purple-300 dark:border-purple-700">
@@ -3266,24 +3441,39 @@ const Products = () => {
                         </TableCell>
                         <TableCell className="text-center" style={{ width: `${getColumnWidth('actions', 170)}px` }}>
                           <div className="flex items-center justify-center gap-2">
-                            <Button
-                              onClick={() => handleEditProduct(product)}
-                              variant="ghost"
-                              size="sm"
-                              className="h-8 w-8 p-0 hover:bg-amber-100 dark:hover:bg-amber-900/30 text-center"
-                              title="Edit Product"
-                            >
-                              <Edit className="h-4 w-4 text-amber-600 dark:text-amber-400" />
-                            </Button>
-                            <Button
-                              onClick={() => handleDeleteClick(product)}
-                              variant="ghost"
-                              size="sm"
-                              className="h-8 w-8 p-0 hover:bg-rose-100 dark:hover:bg-rose-900/30"
-                              title="Delete Product"
-                            >
-                              <Trash2 className="h-4 w-4 text-rose-600 dark:text-rose-400" />
-                            </Button>
+                            {canEditBrand(product.brand?.name, 'products:write') && (
+                              <Button
+                                onClick={() => handleEditProduct(product)}
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 w-8 p-0 hover:bg-amber-100 dark:hover:bg-amber-900/30 text-center"
+                                title="Edit Product"
+                              >
+                                <Edit className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+                              </Button>
+                            )}
+                            {canEditBrand(product.brand?.name, 'products:write') && (
+                              <Button
+                                onClick={() => setVariantsProduct(product)}
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 w-8 p-0 hover:bg-indigo-100 dark:hover:bg-indigo-900/30"
+                                title="Variants"
+                              >
+                                <Layers className="h-4 w-4 text-indigo-600 dark:text-indigo-400" />
+                              </Button>
+                            )}
+                            {canEditBrand(product.brand?.name, 'products:delete') && (
+                              <Button
+                                onClick={() => handleDeleteClick(product)}
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 w-8 p-0 hover:bg-rose-100 dark:hover:bg-rose-900/30"
+                                title="Delete Product"
+                              >
+                                <Trash2 className="h-4 w-4 text-rose-600 dark:text-rose-400" />
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -3786,13 +3976,15 @@ const Products = () => {
                         <SelectValue placeholder="Select Brand" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="add_new" className="text-blue-600 font-semibold">
-                          <div className="flex items-center gap-2">
-                            <Plus className="h-4 w-4" />
-                            Add New Brand
-                          </div>
-                        </SelectItem>
-                        {brands.map((brand) => (
+                        {scope.unrestricted && (
+                          <SelectItem value="add_new" className="text-blue-600 font-semibold">
+                            <div className="flex items-center gap-2">
+                              <Plus className="h-4 w-4" />
+                              Add New Brand
+                            </div>
+                          </SelectItem>
+                        )}
+                        {scopeItems('brands', brands, 'products:write').map((brand) => (
                           <SelectItem key={brand.id} value={brand.id.toString()}>
                             {brand.name}
                           </SelectItem>
@@ -3931,7 +4123,12 @@ const Products = () => {
               
               {/* Pricing Information */}
               <div className="border dark:border-slate-700 rounded-lg p-4">
-                <h4 className="font-semibold text-lg text-gray-900 dark:text-slate-100 mb-4">Pricing Information</h4>
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="font-semibold text-lg text-gray-900 dark:text-slate-100">Pricing Information</h4>
+                  <Button type="button" onClick={applyPricingRuleToForm} variant="outline" size="sm">
+                    Apply Pricing Rule
+                  </Button>
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
@@ -4224,6 +4421,15 @@ const Products = () => {
                     </div>
                   </div>
                   
+                  <AttributeSchemaFields
+                    fields={getSchemaFields(productFormData.category, productFormData.attributes.sub_category)}
+                    values={productFormData.attributes}
+                    onChange={(key, value) => setProductFormData(prev => ({ ...prev, attributes: { ...prev.attributes, [key]: value } }))}
+                    skipKeys={FORM_ATTRIBUTE_KEYS}
+                    customKeys={customTypes.map(type => type.key)}
+                    showRequired={showAttributeErrors}
+                  />
+                  
                   {/* Custom Types (Key-Value Pairs) */}
                   <div className="md:col-span-3">
                     <div className="flex items-center justify-between mb-3">
@@ -4579,13 +4785,15 @@ const Products = () => {
                         <SelectValue placeholder="Select Brand" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="add_new" className="text-blue-600 font-semibold">
-                          <div className="flex items-center gap-2">
-                            <Plus className="h-4 w-4" />
-                            Add New Brand
-                          </div>
-                        </SelectItem>
-                        {brands.map((brand) => (
+                        {scope.unrestricted && (
+                          <SelectItem value="add_new" className="text-blue-600 font-semibold">
+                            <div className="flex items-center gap-2">
+                              <Plus className="h-4 w-4" />
+                              Add New Brand
+                            </div>
+                          </SelectItem>
+                        )}
+                        {scopeItems('brands', brands, 'products:write').map((brand) => (
                           <SelectItem key={brand.id} value={brand.id.toString()}>
                             {brand.name}
                           </SelectItem>
@@ -4624,53 +4832,72 @@ const Products = () => {
                     <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
                       Sub SKU <span className="text-red-500">*</span>
                     </label>
-                    <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">Edit sub SKUs with their respective quantities</p>
-                    <div className="flex gap-3 mb-2">
-                      <div className="flex-1">
-                        <label className="text-xs font-medium text-gray-500 dark:text-gray-400">Sub SKU</label>
+                    {selectedProduct?.variants && selectedProduct.variants.length > 0 ? (
+                      <div className="text-sm text-gray-700 dark:text-slate-300 space-y-2">
+                        <p>
+                          Sub SKUs come from {selectedProduct.variants.length} variant{selectedProduct.variants.length !== 1 ? 's' : ''}:{' '}
+                          <span className="font-mono">{getProductSubSkus(selectedProduct).join(', ')}</span>
+                        </p>
+                        <Button
+                          type="button"
+                          onClick={() => setVariantsProduct(selectedProduct)}
+                          size="sm"
+                          className="bg-indigo-500 hover:bg-indigo-600 text-white shadow-sm"
+                        >
+                          <Layers className="h-4 w-4 mr-1" /> Edit Variants
+                        </Button>
                       </div>
+                    ) : (
+                      <>
+                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">Edit sub SKUs with their respective quantities</p>
+                      <div className="flex gap-3 mb-2">
+                        <div className="flex-1">
+                          <label className="text-xs font-medium text-gray-500 dark:text-gray-400">Sub SKU</label>
+                        </div>
                      
                       
-                    </div>
-                    <div className="space-y-2">
-                      {subSkus.map((item, index) => (
-                        <div key={index} className="flex gap-3">
-                          <div className="flex-1">
-                            <Input
-                              type="text"
-                              value={item.sku}
-                              onChange={(e) => updateSubSku(index, e.target.value)}
-                              className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
-                              placeholder={`Sub SKU ${index + 1}`}
-                              required={index === 0}
-                            />
-                          </div>
+                      </div>
+                      <div className="space-y-2">
+                        {subSkus.map((item, index) => (
+                          <div key={index} className="flex gap-3">
+                            <div className="flex-1">
+                              <Input
+                                type="text"
+                                value={item.sku}
+                                onChange={(e) => updateSubSku(index, e.target.value)}
+                                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+                                placeholder={`Sub SKU ${index + 1}`}
+                                required={index === 0}
+                              />
+                            </div>
                           
-                          <div className="w-24 flex gap-2">
-                            {index === subSkus.length - 1 && (
-                              <Button
-                                type="button"
-                                onClick={addSubSku}
-                                size="sm"
-                                className="bg-emerald-500 hover:bg-emerald-600 text-white shadow-sm flex-1"
-                              >
-                                <Plus className="h-4 w-4" />
-                              </Button>
-                            )}
-                            {index > 0 && (
-                              <Button
-                                type="button"
-                                onClick={() => removeSubSku(index)}
-                                size="sm"
-                                className="bg-rose-500 hover:bg-rose-600 text-white shadow-sm flex-1"
-                              >
-                                <X className="h-4 w-4" />
-                              </Button>
-                            )}
+                            <div className="w-24 flex gap-2">
+                              {index === subSkus.length - 1 && (
+                                <Button
+                                  type="button"
+                                  onClick={addSubSku}
+                                  size="sm"
+                                  className="bg-emerald-500 hover:bg-emerald-600 text-white shadow-sm flex-1"
+                                >
+                                  <Plus className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {index > 0 && (
+                                <Button
+                                  type="button"
+                                  onClick={() => removeSubSku(index)}
+                                  size="sm"
+                                  className="bg-rose-500 hover:bg-rose-600 text-white shadow-sm flex-1"
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                      ))}
-                    </div>
+                        ))}
+                      </div>
+                      </>
+                    )}
                   </div>
                   
                   <div>
@@ -4724,7 +4951,12 @@ const Products = () => {
               
               {/* Pricing Information */}
               <div className="border dark:border-slate-700 rounded-lg p-4">
-                <h4 className="font-semibold text-lg text-gray-900 dark:text-slate-100 mb-4">Pricing Information</h4>
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="font-semibold text-lg text-gray-900 dark:text-slate-100">Pricing Information</h4>
+                  <Button type="button" onClick={applyPricingRuleToForm} variant="outline" size="sm">
+                    Apply Pricing Rule
+                  </Button>
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
@@ -5013,6 +5245,15 @@ const Products = () => {
                     </div>
                   </div>
                   
+                  <AttributeSchemaFields
+                    fields={getSchemaFields(productFormData.category, productFormData.attributes.sub_category)}
+                    values={productFormData.attributes}
+                    onChange={(key, value) => setProductFormData(prev => ({ ...prev, attributes: { ...prev.attributes, [key]: value } }))}
+                    skipKeys={FORM_ATTRIBUTE_KEYS}
+                    customKeys={customTypes.map(type => type.key)}
+                    showRequired={showAttributeErrors}
+                  />
+                  
                   {/* Custom Types (Key-Value Pairs) */}
                   <div className="md:col-span-3">
                     <div className="flex items-center justify-between mb-3">
@@ -5481,7 +5722,7 @@ const Products = () => {
                                 <SelectValue placeholder="Select Brand" />
                               </SelectTrigger>
                               <SelectContent>
-                                {brands.map((brand) => (
+                                {scopeItems('brands', brands, 'products:write').map((brand) => (
                                   <SelectItem key={brand.id} value={brand.id.toString()}>
                                     {brand.name}
                                   </SelectItem>
@@ -5896,6 +6137,15 @@ const Products = () => {
                             </div>
                           </div>
                           
+                          <AttributeSchemaFields
+                            fields={getSchemaFields(form.data.category, form.data.attributes.sub_category)}
+                            values={form.data.attributes}
+                            onChange={(key, value) => updateBulkFormData(form.id, 'attributes', { ...form.data.attributes, [key]: value })}
+                            skipKeys={FORM_ATTRIBUTE_KEYS}
+                            customKeys={form.customTypes.map(type => type.key)}
+                            showRequired={showAttributeErrors}
+                          />
+                          
                           {/* Custom Types */}
                           <div className="md:col-span-3">
                             <div className="flex items-center justify-between mb-3">
@@ -6155,95 +6405,24 @@ const Products = () => {
         </div>
       )}
       
-      {/* Import Products Modal */}
+      {/* Variant Matrix Editor */}
+      {variantsProduct && (
+        <ProductVariantsEditor
+          product={variantsProduct}
+          onClose={() => setVariantsProduct(null)}
+          onSaved={handleVariantsSaved}
+        />
+      )}
+      
+      {/* Import Products Wizard */}
       {showImportModal && (
-        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
-          <div className="bg-white dark:bg-slate-800 rounded-lg p-6 w-full max-w-2xl">
-            <div className="flex items-center justify-between mb-6">
-              <h3 className="text-2xl font-semibold text-gray-900 dark:text-slate-100">
-                Import Products from File
-              </h3>
-              <Button
-                onClick={handleCloseImportModal}
-                variant="ghost"
-                size="sm"
-                className="h-8 w-8 p-0"
-              >
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-            
-            {/* File Requirements */}
-            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 mb-4">
-              <div className="flex items-start gap-3">
-                <Info className="h-5 w-5 text-blue-500 flex-shrink-0 mt-0.5" />
-                <div>
-                  <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">File Requirements</h4>
-                  <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
-                    <li>• <strong>Supported formats:</strong> CSV, Excel (.xls, .xlsx)</li>
-                    <li>• <strong>File size limit:</strong> 10MB maximum</li>
-                    <li>• <strong>Required columns:</strong> title, groupSku, subSku, category, brandRealPrice, msrp</li>
-                    <li>• <strong>CSV format:</strong> First row should contain column headers</li>
-                    <li>• <strong>Excel format:</strong> Column headers in first row</li>
-                  </ul>
-                </div>
-              </div>
-            </div>
-
-            {/* Sample Download */}
-            <div className="mb-4">
-              <Button
-                onClick={downloadSampleCSV}
-                variant="outline"
-                size="sm"
-                className="text-indigo-600 hover:text-indigo-700"
-              >
-                <Download className="h-4 w-4 mr-2" />
-                Download Sample CSV
-              </Button>
-            </div>
-
-            {/* File Upload */}
-            <div className="border-2 border-dashed dark:border-slate-600 rounded-lg p-6 text-center">
-              <input
-                type="file"
-                accept=".csv,.xls,.xlsx"
-                onChange={handleImportFileSelect}
-                className="hidden"
-                id="import-file-upload"
-              />
-              <label
-                htmlFor="import-file-upload"
-                className="cursor-pointer flex flex-col items-center gap-2"
-              >
-                <Upload className="h-8 w-8 text-gray-400" />
-                <span className="text-gray-600 dark:text-slate-400">
-                  {importFile ? importFile.name : 'Click to select file or drag and drop'}
-                </span>
-                <span className="text-sm text-gray-500 dark:text-slate-500">
-                  CSV, Excel files up to 10MB
-                </span>
-              </label>
-            </div>
-
-            <div className="flex gap-2 justify-end mt-6">
-              <Button
-                onClick={handleCloseImportModal}
-                variant="outline"
-                disabled={isSubmitting}
-              >
-                Cancel
-              </Button>
-              <Button
-                onClick={handleFileImport}
-                disabled={isSubmitting || !importFile}
-                className="bg-purple-600 hover:bg-purple-700 text-white"
-              >
-                {isSubmitting ? 'Importing...' : 'Import File'}
-              </Button>
-            </div>
-          </div>
-        </div>
+        <ProductImportWizard
+          brands={brands}
+          isSubmitting={isSubmitting}
+          onSubmit={handleFileImport}
+          onClose={handleCloseImportModal}
+          onDownloadSample={downloadSampleCSV}
+        />
       )}
       
       {/* Bulk Images Modal */}
@@ -6271,7 +6450,7 @@ const Products = () => {
                 <div>
                   <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">File Requirements</h4>
                   <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
-                    <li>• <strong>Supported formats:</strong> CSV, Excel (.xls, .xlsx), JSON</li>
+                    <li>• <strong>Supported formats:</strong> CSV, Excel (.xlsx), JSON</li>
                     <li>• <strong>File size limit:</strong> Unlimited (background processing)</li>
                     <li>• <strong>Required columns:</strong> groupSku, subSku, mainImageUrl, galleryImages</li>
                     <li>• <strong>Gallery images:</strong> Comma-separated URLs</li>
@@ -6298,7 +6477,7 @@ const Products = () => {
             <div className="border-2 border-dashed dark:border-slate-600 rounded-lg p-6 text-center">
               <input
                 type="file"
-                accept=".csv,.xls,.xlsx,.json"
+                accept=".csv,.xlsx,.json"
                 onChange={(e) => setBulkImagesFile(e.target.files?.[0] || null)}
                 className="hidden"
                 id="bulk-images-file-upload"
@@ -6337,6 +6516,13 @@ const Products = () => {
         </div>
       )}
       
+      {/* Upload Access Report */}
+      <AccessViolationReport
+        violations={accessReport?.violations || null}
+        fileName={accessReport?.fileName}
+        onClose={() => setAccessReport(null)}
+      />
+      
       {/* Bulk Images Results Modal */}
       {bulkImagesResults && (
         <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
@@ -6425,6 +6611,12 @@ const Products = () => {
                   <span className="text-gray-600 dark:text-slate-400">Created:</span>
                   <span className="ml-1 font-medium text-green-600">{bulkResults.summary.created}</span>
                 </div>
+                {bulkResults.summary.updated !== undefined && (
+                  <div>
+                    <span className="text-gray-600 dark:text-slate-400">Updated:</span>
+                    <span className="ml-1 font-medium text-blue-600">{bulkResults.summary.updated}</span>
+                  </div>
+                )}
                 <div>
                   <span className="text-gray-600 dark:text-slate-400">Duplicates:</span>
                   <span className="ml-1 font-medium text-yellow-600">{bulkResults.summary.duplicates}</span>
@@ -6451,6 +6643,21 @@ const Products = () => {
               </div>
             )}
 
+            {/* Updated Products */}
+            {bulkResults.results.updated?.length > 0 && (
+              <div className="mb-4">
+                <h4 className="font-medium text-gray-900 dark:text-slate-100 mb-2">Successfully Updated</h4>
+                <div className="space-y-2 max-h-32 overflow-y-auto">
+                  {bulkResults.results.updated.map((product: any, index: number) => (
+                    <div key={index} className="flex items-center justify-between bg-blue-50 dark:bg-blue-900/20 p-2 rounded">
+                      <span className="text-blue-800 dark:text-blue-200">{product.title}</span>
+                      <span className="text-xs text-blue-600 dark:text-blue-400">✓ Updated</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Errors */}
             {bulkResults.results.errors.length > 0 && (
               <div className="mb-4">
@@ -6705,9 +6912,10 @@ const Products = () => {
           onClose={handleCloseListings}
           listingsData={listingsData}
           setListingsData={setListingsData}
-          combinationSuggestions={combinationSuggestions}
-          selectedCombination={selectedCombination}
-          onSelectCombination={handleSelectCombination}
+          bundleProducts={selectedProducts}
+          appliedBundle={appliedBundle}
+          onApplyBundle={handleApplyBundle}
+          onClearBundle={handleClearBundle}
           error={error}
           isSubmitting={isSubmittingListings}
           onSubmit={handleSubmitListings}
@@ -6715,6 +6923,7 @@ const Products = () => {
           setPreviewImageUrl={setPreviewImageUrl}
           setPreviewImageTitle={setPreviewImageTitle}
           setShowImagePreview={setShowImagePreview}
+          pricingRules={pricingRules}
         />
       )}
       
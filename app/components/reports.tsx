@@ -0,0 +1,434 @@
+"use client"
+
+/**
+ * Reports Component
+ *
+ * Built-in margin, pricing and catalog-health reports aggregated by the
+ * backend from the pricing fields on products and listings, with date-range
+ * filters and CSV / XLSX export.
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { Download, RefreshCw, FileSpreadsheet } from 'lucide-react'
+import { useAuth } from '../lib/auth'
+import { useToast } from '../lib/hooks/use-toast'
+import {
+  ReportsService,
+  CATALOG_HEALTH_LABELS,
+  toMarginRows,
+  listingsBelowCost,
+  catalogHealth,
+  type DateRange,
+  type MarginGroupRow,
+  type MarginSource
+} from '../lib/reports'
+import { exportRows, type ExportCell, type ExportFormat } from '../lib/utils/export.utils'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs'
+
+type ReportKey = 'marginByBrand' | 'marginByCategory' | 'belowCost' | 'catalogHealth'
+
+type ColumnFormat = 'text' | 'number' | 'currency' | 'percent'
+
+interface ReportColumn {
+  label: string
+  format: ColumnFormat
+}
+
+interface ReportData {
+  key: ReportKey
+  source: MarginSource
+  rows: ExportCell[][]
+  total: number // rows the backend found, more than rows.length when capped
+}
+
+interface ReportTable {
+  title: string
+  description: string
+  columns: ReportColumn[]
+  rows: ExportCell[][]
+}
+
+const REPORT_TABS: Array<{ key: ReportKey; label: string }> = [
+  { key: 'marginByBrand', label: 'Margin by Brand' },
+  { key: 'marginByCategory', label: 'Margin by Category' },
+  { key: 'belowCost', label: 'Priced Below Cost' },
+  { key: 'catalogHealth', label: 'Catalog Health' },
+]
+
+const MARGIN_COLUMNS: ReportColumn[] = [
+  { label: 'Items', format: 'number' },
+  { label: 'Total Ecommerce Price', format: 'currency' },
+  { label: 'Total Cost', format: 'currency' },
+  { label: 'Total Margin', format: 'currency' },
+  { label: 'Avg Margin', format: 'currency' },
+  { label: 'Avg Margin %', format: 'percent' },
+  { label: 'Below Cost', format: 'number' },
+]
+
+const marginRows = (rows: MarginGroupRow[]): ExportCell[][] =>
+  rows.map(row => [
+    row.key,
+    row.itemCount,
+    row.totalEcommercePrice,
+    row.totalCost,
+    row.totalMargin,
+    row.averageMargin,
+    row.averageMarginPercent,
+    row.belowCostCount
+  ])
+
+// Fetch one report and flatten it into table rows
+const fetchReport = async (
+  accessToken: string,
+  key: ReportKey,
+  source: MarginSource,
+  range: DateRange
+): Promise<ReportData> => {
+  switch (key) {
+    case 'marginByBrand':
+    case 'marginByCategory': {
+      const response = await ReportsService.getMarginReport(accessToken, key === 'marginByBrand' ? 'brand' : 'category', source, range)
+      const rows = marginRows(toMarginRows(response.groups || []))
+      return { key, source, rows, total: rows.length }
+    }
+    case 'belowCost': {
+      const response = await ReportsService.getBelowCostReport(accessToken, range)
+      const rows = listingsBelowCost(response.listings || []).map(row => [
+        row.sku, row.subSku, row.title, row.brand, row.ecommercePrice, row.cost, row.shortfall
+      ])
+      return { key, source, rows, total: Math.max(response.total ?? 0, rows.length) }
+    }
+    case 'catalogHealth': {
+      const response = await ReportsService.getCatalogHealthReport(accessToken, range)
+      const rows = catalogHealth(response.products || []).map(row => [
+        row.groupSku,
+        row.subSku,
+        row.title,
+        row.brand,
+        row.issues.map(issue => CATALOG_HEALTH_LABELS[issue]).join('; '),
+        row.missingFeatures.join(', '),
+        row.missingDimensions.join(', ')
+      ])
+      return { key, source, rows, total: Math.max(response.total ?? 0, rows.length) }
+    }
+  }
+}
+
+const formatCell = (value: ExportCell, format: ColumnFormat) => {
+  if (value === null || value === undefined || value === '') return '-'
+  if (typeof value !== 'number') return String(value)
+
+  switch (format) {
+    case 'currency':
+      return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    case 'percent':
+      return `${value.toFixed(2)}%`
+    default:
+      return value.toLocaleString()
+  }
+}
+
+const Reports = () => {
+  const { state } = useAuth()
+  const { toast } = useToast()
+
+  const [data, setData] = useState<ReportData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [activeReport, setActiveReport] = useState<ReportKey>('marginByBrand')
+  const [marginSource, setMarginSource] = useState<MarginSource>('listings')
+  const [dateRange, setDateRange] = useState({ from: '', to: '' })
+  // Only the latest request may update the table when filters change quickly
+  const latestRequest = useRef(0)
+
+  const loadReport = async () => {
+    if (!state.accessToken) {
+      setError('No access token available')
+      return
+    }
+
+    const request = ++latestRequest.current
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetchReport(state.accessToken, activeReport, marginSource, dateRange)
+      if (request === latestRequest.current) setData(response)
+    } catch (err: any) {
+      console.error('Failed to load report data:', err)
+      if (request === latestRequest.current) setError(err.message || 'Failed to load report data')
+    } finally {
+      if (request === latestRequest.current) setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (state.accessToken) {
+      loadReport()
+    }
+  }, [state.accessToken, activeReport, marginSource, dateRange.from, dateRange.to])
+
+  const report = useMemo<ReportTable>(() => {
+    const sourceLabel = marginSource === 'listings' ? 'listings' : 'products'
+    const rows = data && data.key === activeReport && data.source === marginSource ? data.rows : []
+
+    switch (activeReport) {
+      case 'marginByBrand':
+        return {
+          title: 'Margin by Brand',
+          description: `Ecommerce price minus brand, shipping, commission and miscellaneous costs, grouped by brand (${sourceLabel}).`,
+          columns: [{ label: 'Brand', format: 'text' }, ...MARGIN_COLUMNS],
+          rows
+        }
+      case 'marginByCategory':
+        return {
+          title: 'Margin by Category',
+          description: `Ecommerce price minus brand, shipping, commission and miscellaneous costs, grouped by category (${sourceLabel}).`,
+          columns: [{ label: 'Category', format: 'text' }, ...MARGIN_COLUMNS],
+          rows
+        }
+      case 'belowCost':
+        return {
+          title: 'Listings Priced Below Cost',
+          description: 'Listings whose ecommerce price does not cover brand, shipping, commission and miscellaneous costs.',
+          columns: [
+            { label: 'SKU', format: 'text' },
+            { label: 'Sub SKU', format: 'text' },
+            { label: 'Title', format: 'text' },
+            { label: 'Brand', format: 'text' },
+            { label: 'Ecommerce Price', format: 'currency' },
+            { label: 'Cost', format: 'currency' },
+            { label: 'Shortfall', format: 'currency' }
+          ],
+          rows
+        }
+      case 'catalogHealth':
+        return {
+          title: 'Catalog Health',
+          description: 'Products missing a main image, gallery images, feature bullets (feature_1 to feature_7) or shipping dimensions.',
+          columns: [
+            { label: 'Group SKU', format: 'text' },
+            { label: 'Sub SKU', format: 'text' },
+            { label: 'Title', format: 'text' },
+            { label: 'Brand', format: 'text' },
+            { label: 'Issues', format: 'text' },
+            { label: 'Missing Features', format: 'text' },
+            { label: 'Missing Dimensions', format: 'text' }
+          ],
+          rows
+        }
+    }
+  }, [activeReport, data, marginSource])
+
+  const handleExport = async (format: ExportFormat) => {
+    if (report.rows.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "No Data",
+        description: "This report has no rows to export",
+      })
+      return
+    }
+
+    const range = [dateRange.from, dateRange.to].filter(Boolean).join('_to_')
+    const fileName = `report_${activeReport}${range ? `_${range}` : ''}_${new Date().toISOString().split('T')[0]}`
+    try {
+      await exportRows(format, fileName, report.columns.map(column => column.label), report.rows, report.title)
+
+      toast({
+        variant: "success",
+        title: "Export Complete",
+        description: `Exported ${report.rows.length} row(s) to ${format.toUpperCase()}`,
+      })
+    } catch (error) {
+      console.error('Failed to export report:', error)
+      toast({
+        variant: "destructive",
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not create the export file",
+      })
+    }
+  }
+
+  const isMarginReport = activeReport === 'marginByBrand' || activeReport === 'marginByCategory'
+
+  return (
+    <div className="space-y-6">
+      <Card className="dark:bg-slate-800 dark:border-slate-700">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <CardTitle className="text-2xl font-bold text-gray-900 dark:text-slate-100">
+              Reports
+            </CardTitle>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                onClick={() => handleExport('csv')}
+                variant="outline"
+                size="sm"
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-600"
+                disabled={loading || report.rows.length === 0}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+              <Button
+                onClick={() => handleExport('xlsx')}
+                variant="outline"
+                size="sm"
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-600"
+                disabled={loading || report.rows.length === 0}
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                XLSX
+              </Button>
+              <Button
+                onClick={loadReport}
+                variant="outline"
+                size="sm"
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-600"
+                disabled={loading}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <Tabs value={activeReport} onValueChange={(value) => setActiveReport(value as ReportKey)}>
+            <TabsList className="flex-wrap h-auto dark:bg-slate-700">
+              {REPORT_TABS.map(tab => (
+                <TabsTrigger key={tab.key} value={tab.key}>{tab.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {/* Filters */}
+          <div className="flex flex-col md:flex-row md:items-end gap-3">
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">Created From</label>
+              <Input
+                type="date"
+                value={dateRange.from}
+                onChange={(e) => setDateRange(prev => ({ ...prev, from: e.target.value }))}
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">Created To</label>
+              <Input
+                type="date"
+                value={dateRange.to}
+                onChange={(e) => setDateRange(prev => ({ ...prev, to: e.target.value }))}
+                className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              />
+            </div>
+            {isMarginReport && (
+              <div className="md:w-48">
+                <label className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2 block">Source</label>
+                <Select value={marginSource} onValueChange={(value) => setMarginSource(value as MarginSource)}>
+                  <SelectTrigger className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="listings">Listings</SelectItem>
+                    <SelectItem value="products">Products</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Button
+              onClick={() => setDateRange({ from: '', to: '' })}
+              variant="outline"
+              size="sm"
+              className="dark:bg-slate-700 dark:text-slate-100 dark:border-slate-600"
+              disabled={!dateRange.from && !dateRange.to}
+            >
+              Clear Dates
+            </Button>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-slate-100">{report.title}</h2>
+            <p className="text-sm text-gray-600 dark:text-slate-400">{report.description}</p>
+            {!loading && data && report.rows.length > 0 && (
+              <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">
+                {report.rows.length < data.total
+                  ? `Showing the first ${report.rows.length} of ${data.total} row(s); narrow the date range to see the rest`
+                  : `${report.rows.length} row(s)`}
+              </p>
+            )}
+          </div>
+
+          {/* Report Table */}
+          <div className="relative overflow-auto border border-gray-200 dark:border-slate-600 rounded-lg" style={{ maxHeight: '600px' }}>
+            <Table>
+              <TableHeader className="sticky top-0 bg-gray-50 dark:bg-slate-700 z-10">
+                <TableRow>
+                  {report.columns.map(column => (
+                    <TableHead
+                      key={column.label}
+                      className={column.format === 'text' ? '' : 'text-right'}
+                    >
+                      {column.label}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={report.columns.length} className="text-center py-8">
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+                        <span className="text-gray-500 dark:text-slate-400">Loading report data...</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : report.rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={report.columns.length} className="text-center py-8 text-gray-500 dark:text-slate-400">
+                      Nothing to report for this range
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  report.rows.map((row, rowIndex) => (
+                    <TableRow key={rowIndex} className="hover:bg-gray-50 dark:hover:bg-slate-700/50">
+                      {row.map((cell, cellIndex) => {
+                        const column = report.columns[cellIndex]
+                        const isNegative = typeof cell === 'number' && cell < 0
+                        return (
+                          <TableCell
+                            key={cellIndex}
+                            className={`${column.format === 'text' ? '' : 'text-right whitespace-nowrap'} ${isNegative ? 'text-red-600 dark:text-red-400' : ''}`}
+                          >
+                            {formatCell(cell, column.format)}
+                          </TableCell>
+                        )
+                      })}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default Reports
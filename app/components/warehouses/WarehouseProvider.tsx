@@ -1,15 +1,19 @@
 "use client";
 import React from "react";
 import { useWarehousesStore, Warehouse } from '../../lib/stores/warehousesStore';
+import { WarehousesService, WarehouseInput, StockTransferRequest, StockTransferResponse } from '../../lib/warehouses';
+import { useAuth } from '../../lib/auth';
 
 interface WarehouseContextType {
   warehouses: Warehouse[];
+  activeWarehouses: Warehouse[];
   loading: boolean;
   error: string | null;
   refresh: () => Promise<void>;
-  addWarehouse: (data: Omit<Warehouse, "id">) => Promise<void>;
-  updateWarehouse: (id: string, data: Omit<Warehouse, "id">) => Promise<void>;
-  deleteWarehouse: (id: string) => Promise<void>;
+  addWarehouse: (data: WarehouseInput) => Promise<void>;
+  updateWarehouse: (id: number, data: WarehouseInput) => Promise<void>;
+  deleteWarehouse: (id: number) => Promise<void>;
+  transferStock: (data: StockTransferRequest) => Promise<StockTransferResponse>;
 }
 
 const WarehouseContext = React.createContext<WarehouseContextType | null>(null);
@@ -20,89 +24,109 @@ export function useWarehouses() {
   return ctx;
 }
 
+const getErrorMessage = (e: any, fallback: string) => e?.message || fallback;
+
 export function WarehouseProvider({ children }: { children: React.ReactNode }) {
-  const { 
-    warehouses, 
-    loading, 
-    error, 
-    addWarehouse: addWarehouseToStore, 
-    removeWarehouse, 
-    updateWarehouse: updateWarehouseInStore, 
-    setLoading, 
-    setError 
+  const { state: authState } = useAuth();
+  const {
+    warehouses,
+    loading,
+    error,
+    setWarehouses,
+    upsertWarehouse,
+    removeWarehouse,
+    clearWarehouses,
+    setLoading,
+    setError
   } = useWarehousesStore();
 
-  const refresh = async () => {
+  const requireToken = () => {
+    if (!authState.accessToken) throw new Error("No access token available");
+    return authState.accessToken;
+  };
+
+  const refresh = React.useCallback(async () => {
+    if (!authState.accessToken) return;
     setLoading(true);
     setError(null);
     try {
-      // Example placeholder:
-      // const res = await fetch(`/api/warehouses`);
-      // const data = await res.json();
-      // setWarehouses(data);
-      // No need to load from storage - Zustand handles state
+      const response = await WarehousesService.getWarehouses(authState.accessToken);
+      setWarehouses(response.warehouses || []);
     } catch (e: any) {
-      setError(e?.message || "Failed to load warehouses");
+      setError(getErrorMessage(e, "Failed to load warehouses"));
     } finally {
       setLoading(false);
     }
-  };
+  }, [authState.accessToken, setWarehouses, setLoading, setError]);
+
+  React.useEffect(() => {
+    if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      refresh();
+    } else if (!authState.isAuthenticated && !authState.isLoading) {
+      clearWarehouses();
+    }
+  }, [refresh, clearWarehouses, authState.isAuthenticated, authState.accessToken, authState.isLoading]);
 
-  const addWarehouse = async (data: Omit<Warehouse, "id">) => {
+  // Mutations record the error for display and rethrow so callers can keep their form open
+  const addWarehouse = async (data: WarehouseInput) => {
     setLoading(true);
     setError(null);
     try {
-      // API: POST /warehouses with body `data`
-      // const res = await fetch(`/api/warehouses`, { method: 'POST', body: JSON.stringify(data) })
-      // const created = await res.json();
-      // addWarehouseToStore(created)
-      addWarehouseToStore(data);
+      const response = await WarehousesService.createWarehouse(requireToken(), data);
+      upsertWarehouse(response.warehouse);
     } catch (e: any) {
-      setError(e?.message || "Failed to add warehouse");
+      setError(getErrorMessage(e, "Failed to add warehouse"));
+      throw e;
     } finally {
       setLoading(false);
     }
   };
 
-  const updateWarehouse = async (id: string, data: Omit<Warehouse, "id">) => {
+  const updateWarehouse = async (id: number, data: WarehouseInput) => {
     setLoading(true);
     setError(null);
     try {
-      // API: PUT /warehouses/:id with body `data`
-      // const res = await fetch(`/api/warehouses/${id}`, { method: 'PUT', body: JSON.stringify(data) })
-      // const updated = await res.json();
-      // updateWarehouseInStore(id, updated)
-      updateWarehouseInStore(id, data);
+      const response = await WarehousesService.updateWarehouse(requireToken(), id, data);
+      upsertWarehouse(response.warehouse);
     } catch (e: any) {
-      setError(e?.message || "Failed to update warehouse");
+      setError(getErrorMessage(e, "Failed to update warehouse"));
+      throw e;
     } finally {
       setLoading(false);
     }
   };
 
-  const deleteWarehouse = async (id: string) => {
+  const deleteWarehouse = async (id: number) => {
     setLoading(true);
     setError(null);
     try {
-      // API: DELETE /warehouses/:id
-      // await fetch(`/api/warehouses/${id}`, { method: 'DELETE' })
-      // removeWarehouse(id)
+      await WarehousesService.deleteWarehouse(requireToken(), id);
       removeWarehouse(id);
     } catch (e: any) {
-      setError(e?.message || "Failed to delete warehouse");
+      setError(getErrorMessage(e, "Failed to delete warehouse"));
+      throw e;
     } finally {
       setLoading(false);
     }
   };
 
+  // Transfers change stock totals per warehouse, so the list is refreshed afterwards
+  const transferStock = async (data: StockTransferRequest) => {
+    const response = await WarehousesService.transferStock(requireToken(), data);
+    refresh();
+    return response;
+  };
+
   const value: WarehouseContextType = {
     warehouses,
+    activeWarehouses: warehouses.filter((w) => w.isActive),
     loading,
     error,
     refresh,
     addWarehouse,
     updateWarehouse,
     deleteWarehouse,
+    transferStock,
   };
 
   return (
@@ -110,4 +134,4 @@ export function WarehouseProvider({ children }: { children: React.ReactNode }) {
       {children}
     </WarehouseContext.Provider>
   );
-}
\ No newline at end of file
+}
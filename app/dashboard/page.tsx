@@ -1,9 +1,140 @@
 "use client";
 
-import React from 'react';
-import { ProtectedRoute } from '../lib/auth';
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Package, ShoppingCart, DollarSign, Users, BarChart3, Database, AlertTriangle, XCircle, Activity } from 'lucide-react';
+import { ProtectedRoute, useAuth } from '../lib/auth';
+import { ProductsService } from '../lib/products/api';
+import { ListingsService } from '../lib/listings/api';
+import { InventoryService } from '../lib/inventory/api';
+import { OrdersService } from '../lib/orders/api';
+import { AdminService } from '../lib/admin/api';
+import { statusApi } from '../lib/status/api';
+import { getSettings } from '../lib/settings/api';
+
+interface DashboardMetrics {
+  products: number | null;
+  listings: number | null;
+  orders: number | null;
+  revenue: number | null;
+  users: number | null;
+  totalUsers: number | null;
+  inventoryItems: number | null;
+  inventoryUnits: number | null;
+  lowStock: number | null;
+  outOfStock: number | null;
+  jobsRunning: number | null;
+  minValue: number | null;
+}
+
+const EMPTY_METRICS: DashboardMetrics = {
+  products: null,
+  listings: null,
+  orders: null,
+  revenue: null,
+  users: null,
+  totalUsers: null,
+  inventoryItems: null,
+  inventoryUnits: null,
+  lowStock: null,
+  outOfStock: null,
+  jobsRunning: null,
+  minValue: null,
+};
+
+// Resolve a settled promise to its value, or null when the call failed
+const valueOf = <T,>(result: PromiseSettledResult<T>): T | null =>
+  result.status === 'fulfilled' ? result.value : null;
+
+interface MetricTileProps {
+  title: string;
+  value: string;
+  caption: string;
+  href: string;
+  icon: React.ComponentType<{ className?: string }>;
+  accent: string;
+  loading: boolean;
+}
+
+const MetricTile = ({ title, value, caption, href, icon: Icon, accent, loading }: MetricTileProps) => (
+  <Link
+    href={href}
+    className="block bg-white dark:bg-slate-800 p-6 rounded-lg shadow border border-gray-200 dark:border-slate-600 hover:shadow-md hover:border-blue-300 dark:hover:border-blue-500 transition-all"
+  >
+    <div className="flex items-center justify-between">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">{title}</h3>
+      <Icon className={`h-5 w-5 ${accent}`} />
+    </div>
+    {loading ? (
+      <div className="h-9 w-20 my-1 bg-gray-200 dark:bg-slate-700 rounded animate-pulse" />
+    ) : (
+      <p className={`text-3xl font-bold ${accent}`}>{value}</p>
+    )}
+    <p className="text-sm text-gray-500 dark:text-slate-400">{caption}</p>
+  </Link>
+);
 
 export default function DashboardPage() {
+  const { state } = useAuth();
+  const [metrics, setMetrics] = useState<DashboardMetrics>(EMPTY_METRICS);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = state.user?.role === 'ADMIN';
+
+  useEffect(() => {
+    if (state.isLoading || !state.accessToken) {
+      return;
+    }
+
+    const accessToken = state.accessToken;
+
+    const loadMetrics = async () => {
+      setLoading(true);
+
+      const [products, listings, orderStats, userStats, inventory, jobs, settings] = await Promise.allSettled([
+        ProductsService.getProducts(accessToken, { page: 1, limit: 1 }),
+        ListingsService.getListings(accessToken, { page: 1, limit: 1 }),
+        OrdersService.getOrderStats(accessToken),
+        isAdmin ? AdminService.getUserStatistics(accessToken) : Promise.reject(new Error('Admin only')),
+        InventoryService.getInventoryStats(accessToken),
+        statusApi.getAllStatus(accessToken),
+        getSettings(accessToken),
+      ]);
+
+      const inventoryConfig = valueOf(settings)?.settings?.inventoryConfig ?? null;
+      const minValue = inventoryConfig?.minValue ?? null;
+      const inventoryStats = valueOf(inventory);
+      const allJobs = valueOf(jobs);
+      const users = valueOf(userStats);
+      const stats = valueOf(orderStats);
+
+      setMetrics({
+        products: valueOf(products)?.pagination?.totalCount ?? null,
+        listings: valueOf(listings)?.pagination?.totalCount ?? null,
+        orders: stats?.totalOrders ?? null,
+        revenue: stats?.totalRevenue ?? null,
+        users: users?.activeUsers ?? null,
+        totalUsers: users?.totalUsers ?? null,
+        inventoryItems: inventoryStats?.totalItems ?? null,
+        inventoryUnits: inventoryStats?.totalUnits ?? null,
+        lowStock: inventoryStats?.lowStock ?? null,
+        outOfStock: inventoryStats?.outOfStock ?? null,
+        jobsRunning: allJobs
+          ? [...allJobs.products, ...allJobs.listings, ...allJobs.inventory, ...allJobs.orders]
+              .filter(job => job.status === 'processing' || job.status === 'pending').length
+          : null,
+        minValue,
+      });
+      setLoading(false);
+    };
+
+    loadMetrics();
+  }, [state.accessToken, state.isLoading, isAdmin]);
+
+  const formatCount = (value: number | null) => value === null ? '—' : value.toLocaleString();
+  const formatCurrency = (value: number | null) =>
+    value === null ? '—' : `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
   return (
     <ProtectedRoute>
       <div className="p-4">
@@ -12,31 +143,91 @@ export default function DashboardPage() {
             <h1 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Dashboard</h1>
             <p className="text-gray-600 dark:text-slate-300">Welcome to your FHS Tech dashboard</p>
           </div>
-          
+
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow border border-gray-200 dark:border-slate-600">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Products</h3>
-              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">0</p>
-              <p className="text-sm text-gray-500 dark:text-slate-400">Total products</p>
-            </div>
-            
-            <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow border border-gray-200 dark:border-slate-600">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Orders</h3>
-              <p className="text-3xl font-bold text-green-600 dark:text-green-400">0</p>
-              <p className="text-sm text-gray-500 dark:text-slate-400">Total orders</p>
-            </div>
-            
-            <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow border border-gray-200 dark:border-slate-600">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Revenue</h3>
-              <p className="text-3xl font-bold text-purple-600 dark:text-purple-400">$0</p>
-              <p className="text-sm text-gray-500 dark:text-slate-400">Total revenue</p>
-            </div>
-            
-            <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow border border-gray-200 dark:border-slate-600">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Users</h3>
-              <p className="text-3xl font-bold text-orange-600 dark:text-orange-400">0</p>
-              <p className="text-sm text-gray-500 dark:text-slate-400">Active users</p>
-            </div>
+            <MetricTile
+              title="Products"
+              value={formatCount(metrics.products)}
+              caption="Total products"
+              href="/products"
+              icon={Package}
+              accent="text-blue-600 dark:text-blue-400"
+              loading={loading}
+            />
+            <MetricTile
+              title="Orders"
+              value={formatCount(metrics.orders)}
+              caption="Total orders"
+              href="/orders"
+              icon={ShoppingCart}
+              accent="text-green-600 dark:text-green-400"
+              loading={loading}
+            />
+            <MetricTile
+              title="Revenue"
+              value={formatCurrency(metrics.revenue)}
+              caption="Total revenue"
+              href="/orders"
+              icon={DollarSign}
+              accent="text-purple-600 dark:text-purple-400"
+              loading={loading}
+            />
+            {isAdmin && (
+              <MetricTile
+                title="Users"
+                value={formatCount(metrics.users)}
+                caption={metrics.totalUsers !== null ? `Active users of ${metrics.totalUsers}` : 'Active users'}
+                href="/settings/manage-users"
+                icon={Users}
+                accent="text-orange-600 dark:text-orange-400"
+                loading={loading}
+              />
+            )}
+            <MetricTile
+              title="Listings"
+              value={formatCount(metrics.listings)}
+              caption="Total listings"
+              href="/listings"
+              icon={BarChart3}
+              accent="text-indigo-600 dark:text-indigo-400"
+              loading={loading}
+            />
+            <MetricTile
+              title="Inventory"
+              value={formatCount(metrics.inventoryUnits)}
+              caption={metrics.inventoryItems !== null ? `Units across ${metrics.inventoryItems.toLocaleString()} sub-SKUs` : 'Units in stock'}
+              href="/inventory"
+              icon={Database}
+              accent="text-teal-600 dark:text-teal-400"
+              loading={loading}
+            />
+            <MetricTile
+              title="Low Stock"
+              value={formatCount(metrics.lowStock)}
+              caption={metrics.minValue !== null ? `Below minimum (default ${metrics.minValue})` : 'Set a minimum in Settings'}
+              href="/inventory?view=low-stock"
+              icon={AlertTriangle}
+              accent="text-yellow-600 dark:text-yellow-400"
+              loading={loading}
+            />
+            <MetricTile
+              title="Out of Stock"
+              value={formatCount(metrics.outOfStock)}
+              caption="Sub-SKUs with zero quantity"
+              href="/inventory?view=out-of-stock"
+              icon={XCircle}
+              accent="text-red-600 dark:text-red-400"
+              loading={loading}
+            />
+            <MetricTile
+              title="Jobs Running"
+              value={formatCount(metrics.jobsRunning)}
+              caption="Pending or processing uploads"
+              href="/status"
+              icon={Activity}
+              accent="text-sky-600 dark:text-sky-400"
+              loading={loading}
+            />
           </div>
         </div>
       </div>
@@ -0,0 +1,85 @@
+"use client";
+import Link from "next/link";
+import React from "react";
+import { AlertCircle, CheckCircle } from "lucide-react";
+import { PasswordResetService } from "../lib/auth/invitations";
+import AuthPageShell from "../components/AuthPageShell";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = React.useState("");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSent, setIsSent] = React.useState(false);
+
+  /**
+   * Request a reset link. The confirmation is the same whether or not the account exists.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting || !email.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await PasswordResetService.requestReset(email.trim());
+      setIsSent(true);
+    } catch (error) {
+      console.error('Password reset request failed:', error);
+      setError(error instanceof Error ? error.message : 'Unable to send the reset link. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthPageShell>
+      <div className="text-xl font-semibold text-white">Forgot your password?</div>
+      <div className="text-sm text-white/80 mb-6">Enter your account email and we&apos;ll send you a link to choose a new one.</div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/40 rounded-lg flex items-center gap-2">
+          <AlertCircle size={16} className="text-red-400 flex-shrink-0" />
+          <span className="text-red-200 text-sm">{error}</span>
+        </div>
+      )}
+
+      {isSent ? (
+        <div className="p-3 bg-green-500/20 border border-green-500/40 rounded-lg flex items-start gap-2">
+          <CheckCircle size={16} className="text-green-300 flex-shrink-0 mt-0.5" />
+          <span className="text-green-100 text-sm">
+            If an account exists for {email.trim()}, a reset link is on its way. The link works once and expires soon, so use it shortly.
+          </span>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="text-xs text-white/80">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-1 w-full border border-white/20 bg-white/10 text-white placeholder-white/60 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-400 transition-colors"
+              placeholder="you@company.com"
+              required
+              disabled={isSubmitting}
+              autoComplete="email"
+              autoFocus
+            />
+          </div>
+          <button
+            type="submit"
+            className="w-full btn-primary py-3 text-sm flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={isSubmitting || !email.trim()}
+          >
+            {isSubmitting && <div className="loader w-4 h-4"></div>}
+            {isSubmitting ? 'Sending...' : 'Send Reset Link'}
+          </button>
+        </form>
+      )}
+
+      <div className="text-xs text-white/80 mt-6">
+        Remembered it? <Link href="/login" className="text-blue-200 hover:underline">Back to login</Link>
+      </div>
+    </AuthPageShell>
+  );
+}
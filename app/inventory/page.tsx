@@ -6,9 +6,11 @@ import { ProtectedRoute } from '../lib/auth';
 
 export default function InventoryPage() {
   return (
-    <ProtectedRoute>
+    <ProtectedRoute requiredRolePermissions={['inventory:read']}>
       <div className="p-4">
-        <Inventory />
+        <React.Suspense fallback={<div className="flex justify-center py-6"><div className="loader w-6 h-6"></div></div>}>
+          <Inventory />
+        </React.Suspense>
       </div>
     </ProtectedRoute>
   );
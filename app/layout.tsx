@@ -4,6 +4,7 @@ import "./globals.css";
 import AppShell from "./components/AppShell";
 import { WarehouseProvider } from "./components/warehouses/WarehouseProvider";
 import { AuthProvider } from "./lib/auth/context";
+import { AccessScopeProvider } from "./lib/access-control/context";
 import { SidebarProvider } from "./components/SidebarContext";
 import { ThemeProvider } from "./components/theme-provider";
 import { Toaster } from "./components/ui/toaster";
@@ -40,13 +41,15 @@ export default function RootLayout({
           disableTransitionOnChange
         >
           <AuthProvider>
-            <SidebarProvider>
-              <WarehouseProvider>
-                <AppShell>
-                  {children}
-                </AppShell>
-              </WarehouseProvider>
-            </SidebarProvider>
+            <AccessScopeProvider>
+              <SidebarProvider>
+                <WarehouseProvider>
+                  <AppShell>
+                    {children}
+                  </AppShell>
+                </WarehouseProvider>
+              </SidebarProvider>
+            </AccessScopeProvider>
           </AuthProvider>
           <Toaster />
         </ThemeProvider>
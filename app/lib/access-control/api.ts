@@ -4,6 +4,10 @@
  * This service handles all access control related API calls including
  * fetching brands, marketplaces, shipping platforms, and toggling user access.
  * 
+ * The toggle and schedule endpoints write the audit entry for each grant,
+ * revoke and window change themselves (acting admin from the token, target
+ * user, item, old and new state), so callers do not log anything.
+ * 
  * Base URL: http://localhost:5000/api
  */
 
@@ -77,6 +81,41 @@ export interface ToggleResponse {
   success: boolean;
 }
 
+/**
+ * A single brand, marketplace or shipping grant held by a user
+ */
+export interface AccessGrant {
+  id: number;
+  name: string;
+  description: string;
+  isActive: boolean;
+  grantedAt: string;
+  startsAt?: string | null;  // scheduled grants stay inactive until this time
+  expiresAt?: string | null; // revoked by the backend's schedule job once this time passes
+}
+
+export type AccessGrantType = 'brand' | 'marketplace' | 'shipping';
+
+/**
+ * Desired state of a grant. The backend sets isActive from the window,
+ * so a future start date keeps the grant inactive until then.
+ */
+export interface GrantScheduleRequest {
+  enabled: boolean;
+  startsAt: string | null;
+  expiresAt: string | null;
+}
+
+/**
+ * API response for the current user's own access grants
+ */
+export interface MyAccessResponse {
+  message: string;
+  brandAccess: AccessGrant[];
+  marketplaceAccess: AccessGrant[];
+  shippingAccess: AccessGrant[];
+}
+
 /**
  * Custom error class for access control API
  */
@@ -202,6 +241,13 @@ async function accessControlApiRequest<T>(url: string, options: RequestInit = {}
   }
 }
 
+// URL segment for each grant type
+const GRANT_PATHS: Record<AccessGrantType, string> = {
+  brand: 'brands',
+  marketplace: 'marketplaces',
+  shipping: 'shipping',
+};
+
 /**
  * Access Control Service
  */
@@ -249,7 +295,23 @@ export class AccessControlService {
   }
 
   /**
-   * Toggle marketplace access for a user
+   * Get the signed-in user's own brand, marketplace and shipping access.
+   * The backend applies grant windows here and on every scoped request, so
+   * a grant outside its window never counts even before the job revokes it.
+   * 
+   * @param accessToken - User access token
+   * @returns Promise<MyAccessResponse> - The user's access grants
+   */
+  static async getMyAccess(accessToken: string): Promise<MyAccessResponse> {
+    console.log('🔍 Fetching current user access from: /api/users/me/access');
+    
+    return accessControlApiRequest<MyAccessResponse>(`${API_BASE_URL}/users/me/access`, {
+      method: 'GET',
+    }, accessToken);
+  }
+
+  /**
+   * Toggle marketplace access for a user; the backend audits the grant or revoke
    * 
    * @param userId - User ID
    * @param marketplaceId - Marketplace ID
@@ -273,7 +335,7 @@ export class AccessControlService {
   }
 
   /**
-   * Toggle brand access for a user
+   * Toggle brand access for a user; the backend audits the grant or revoke
    * 
    * @param userId - User ID
    * @param brandId - Brand ID
@@ -297,7 +359,7 @@ export class AccessControlService {
   }
 
   /**
-   * Toggle shipping platform access for a user
+   * Toggle shipping platform access for a user; the backend audits the grant or revoke
    * 
    * @param userId - User ID
    * @param shippingId - Shipping platform ID
@@ -319,6 +381,36 @@ export class AccessControlService {
       accessToken
     );
   }
+
+  /**
+   * Set a grant's start and expiry dates, creating the grant if needed.
+   * The backend audits the old and new window along with the state.
+   * 
+   * @param userId - User ID
+   * @param type - Brand, marketplace or shipping grant
+   * @param itemId - Brand, marketplace or shipping platform ID
+   * @param schedule - Desired state and window
+   * @param accessToken - User access token
+   * @returns Promise<ToggleResponse> - Update result
+   */
+  static async setGrantSchedule(
+    userId: string,
+    type: AccessGrantType,
+    itemId: number,
+    schedule: GrantScheduleRequest,
+    accessToken: string
+  ): Promise<ToggleResponse> {
+    console.log(`🔍 Scheduling ${type} access for user ${userId}, ${type} ${itemId}`, schedule);
+    
+    return accessControlApiRequest<ToggleResponse>(
+      `${API_BASE_URL}/users/${userId}/${GRANT_PATHS[type]}/${itemId}/schedule`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(schedule),
+      },
+      accessToken
+    );
+  }
 }
 
 /**
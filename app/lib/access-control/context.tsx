@@ -0,0 +1,183 @@
+"use client";
+
+/**
+ * Access Scope Context
+ *
+ * Loads the signed-in user's brand, marketplace and shipping access once and
+ * exposes checks the catalog pages use to scope brand pickers, hide actions
+ * on brands the user cannot edit and reject unauthorized upload rows.
+ * Admins are unrestricted and never trigger a fetch.
+ */
+
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useAuth } from '../auth/context';
+import { useAuthStore } from '../stores/authStore';
+import { usePermissionsStore } from '../stores/permissionsStore';
+import type { RolePermission } from '../roles/api';
+import { AccessControlService } from './api';
+import { readImportRows, type ImportRow } from '../utils/import.utils';
+import {
+  buildAccessScope,
+  findAccessViolations,
+  resolveBrandsBySku,
+  isInScope,
+  EMPTY_ACCESS_SCOPE,
+  UNRESTRICTED_ACCESS_SCOPE,
+  type AccessScope,
+  type AccessScopeType,
+  type AccessRowSubject,
+  type AccessRowViolation,
+} from './scope';
+
+interface AccessScopeContextType {
+  scope: AccessScope;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  canView: (type: AccessScopeType, name: string | null | undefined) => boolean;
+  canEditBrand: (brand: string | null | undefined, permission: RolePermission) => boolean;
+  scopeItems: <T extends { name: string }>(type: AccessScopeType, items: T[], permission?: RolePermission) => T[];
+  checkRows: <T>(rows: T[], subjectOf: (row: T, index: number) => AccessRowSubject, firstRow?: number) => AccessRowViolation[];
+  checkUpload: (file: File, options: UploadCheckOptions) => Promise<AccessRowViolation[]>;
+}
+
+/**
+ * How to read an upload file's rows for the access check
+ */
+export interface UploadCheckOptions {
+  skuOf: (row: ImportRow) => string;
+  // Brand named in the file, for uploads that create new records
+  brandOf?: (row: ImportRow) => string;
+  marketplaceOf?: (row: ImportRow) => string;
+  // Brands of existing records for many SKUs at once, for uploads that update
+  // them; when set, rows are checked against these and brandOf is ignored
+  lookupBrands?: (skus: string[]) => Promise<Record<string, string | null | undefined>>;
+}
+
+const CLOCK_INTERVAL_MS = 60 * 1000;
+
+const AccessScopeContext = createContext<AccessScopeContextType | undefined>(undefined);
+
+/**
+ * Access Scope Provider Component
+ *
+ * Must be rendered inside AuthProvider.
+ */
+export function AccessScopeProvider({ children }: { children: ReactNode }) {
+  const { isAdmin, can } = useAuth();
+  const { user, accessToken, isAuthenticated, isLoading: authLoading } = useAuthStore();
+  const { userPermissions, updateUserPermissions } = usePermissionsStore();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Re-evaluated every minute so grants drop out of scope the moment they expire
+  const [now, setNow] = useState(() => Date.now());
+
+  const userId = user ? String(user.id) : null;
+  const unrestricted = isAdmin();
+
+  const refresh = useCallback(async () => {
+    if (!accessToken || !userId || unrestricted) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await AccessControlService.getMyAccess(accessToken);
+      updateUserPermissions(userId, {
+        brandAccess: response.brandAccess || [],
+        marketplaceAccess: response.marketplaceAccess || [],
+        shippingAccess: response.shippingAccess || [],
+      });
+    } catch (err: any) {
+      // Deny by default: the scope stays empty until access loads
+      console.error('❌ Access scope: Failed to load user access:', err);
+      setError(err.message || 'Failed to load your access');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [accessToken, userId, unrestricted, updateUserPermissions]);
+
+  useEffect(() => {
+    if (isAuthenticated && accessToken && !authLoading) {
+      refresh();
+    }
+  }, [refresh, isAuthenticated, accessToken, authLoading]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const grants = userId ? userPermissions[userId] : undefined;
+  const scope = useMemo<AccessScope>(() => {
+    if (unrestricted) return UNRESTRICTED_ACCESS_SCOPE;
+    return grants ? buildAccessScope(grants, now) : EMPTY_ACCESS_SCOPE;
+  }, [unrestricted, grants, now]);
+
+  const canView = (type: AccessScopeType, name: string | null | undefined) => isInScope(scope, type, name);
+
+  const canEditBrand = (brand: string | null | undefined, permission: RolePermission) =>
+    can(permission) && isInScope(scope, 'brands', brand);
+
+  const scopeItems = <T extends { name: string }>(type: AccessScopeType, items: T[], permission?: RolePermission) => {
+    if (permission && !can(permission)) return [];
+    return scope.unrestricted ? items : items.filter(item => isInScope(scope, type, item.name));
+  };
+
+  const checkRows = <T,>(rows: T[], subjectOf: (row: T, index: number) => AccessRowSubject, firstRow?: number) =>
+    findAccessViolations(rows, scope, subjectOf, firstRow);
+
+  const accessLoading = !unrestricted && (isLoading || (isAuthenticated && !grants && !error));
+
+  const checkUpload = async (file: File, options: UploadCheckOptions) => {
+    if (scope.unrestricted) return [];
+    if (accessLoading) {
+      throw new Error('Your access is still loading, please try again in a moment');
+    }
+
+    const rows = await readImportRows(file);
+    const skus = rows.map(options.skuOf);
+    // A brand column cannot vouch for a SKU that belongs to another brand
+    const resolved = options.lookupBrands ? await resolveBrandsBySku(skus, options.lookupBrands) : null;
+
+    return findAccessViolations(rows, scope, (row, index) => ({
+      sku: skus[index],
+      brand: resolved ? resolved.get(skus[index]) ?? null : options.brandOf?.(row) || null,
+      marketplace: options.marketplaceOf?.(row) || undefined,
+    }));
+  };
+
+  const contextValue: AccessScopeContextType = {
+    scope,
+    isLoading: accessLoading,
+    error,
+    refresh,
+    canView,
+    canEditBrand,
+    scopeItems,
+    checkRows,
+    checkUpload,
+  };
+
+  return (
+    <AccessScopeContext.Provider value={contextValue}>
+      {children}
+    </AccessScopeContext.Provider>
+  );
+}
+
+/**
+ * Hook to use the access scope context
+ *
+ * Usage:
+ * ```tsx
+ * const { scopeItems, canEditBrand } = useAccessScope();
+ * const editableBrands = scopeItems('brands', brands, 'products:write');
+ * ```
+ */
+export function useAccessScope(): AccessScopeContextType {
+  const context = useContext(AccessScopeContext);
+  if (context === undefined) {
+    throw new Error('useAccessScope must be used within an AccessScopeProvider');
+  }
+  return context;
+}
@@ -15,5 +15,51 @@ export {
   type BrandsResponse,
   type MarketplacesResponse,
   type ShippingPlatformsResponse,
-  type ToggleResponse
+  type ToggleResponse,
+  type AccessGrant,
+  type AccessGrantType,
+  type GrantScheduleRequest,
+  type MyAccessResponse
 } from './api';
+
+export {
+  AccessScopeProvider,
+  useAccessScope,
+  type UploadCheckOptions
+} from './context';
+
+export {
+  buildAccessScope,
+  isInScope,
+  findAccessViolations,
+  resolveBrandsBySku,
+  normalizeAccessName,
+  type AccessScope,
+  type AccessScopeType,
+  type AccessRowSubject,
+  type AccessRowViolation
+} from './scope';
+
+export {
+  isGrantEffective,
+  isGrantPending,
+  getUpcomingGrantEvents,
+  formatTimeUntil,
+  type ScheduledGrant,
+  type UpcomingGrantEvent
+} from './schedule';
+
+export {
+  AccessTemplatesService,
+  diffTemplateAccess,
+  diffTemplateUpdate,
+  applyAccessChanges,
+  ACCESS_TEMPLATE_MODE_LABELS,
+  type AccessTemplate,
+  type AccessTemplateInput,
+  type AccessTemplateMode,
+  type AccessChange,
+  type AccessItemType,
+  type AccessCatalog,
+  type UserAccessSnapshot
+} from './templates';
@@ -0,0 +1,109 @@
+/**
+ * Access Grant Schedules
+ *
+ * Helpers for time-limited and scheduled grants. A grant with a future
+ * `startsAt` stays inactive until then; a grant past its `expiresAt` is
+ * revoked. Windows are enforced by the backend: access checks ignore grants
+ * outside their window, and a scheduled job starts and revokes due grants and
+ * records each change in the audit log. The client only uses these helpers
+ * to display grants, treating them as inactive as soon as their window closes.
+ */
+
+import type { AccessGrantType } from './api';
+
+export interface ScheduledGrant {
+  id: number;
+  name: string;
+  isActive: boolean;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+}
+
+export interface UserGrants {
+  id: number;
+  username?: string;
+  email: string;
+  brandAccess: ScheduledGrant[];
+  marketplaceAccess: ScheduledGrant[];
+  shippingAccess: ScheduledGrant[];
+}
+
+/**
+ * A grant starting or expiring soon, for the upcoming expirations list
+ */
+export interface UpcomingGrantEvent {
+  userId: number;
+  user: string;
+  type: AccessGrantType;
+  itemId: number;
+  itemName: string;
+  kind: 'starts' | 'expires';
+  at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a grant is active right now, honouring its window
+ */
+export function isGrantEffective(grant: Omit<ScheduledGrant, 'id' | 'name'>, now: number = Date.now()): boolean {
+  if (grant.startsAt && new Date(grant.startsAt).getTime() > now) return false;
+  if (grant.expiresAt && new Date(grant.expiresAt).getTime() <= now) return false;
+  return grant.isActive;
+}
+
+/**
+ * Whether a grant is waiting for its start date
+ */
+export function isGrantPending(grant: Omit<ScheduledGrant, 'id' | 'name'>, now: number = Date.now()): boolean {
+  return !!grant.startsAt && new Date(grant.startsAt).getTime() > now
+    && (!grant.expiresAt || new Date(grant.expiresAt).getTime() > now);
+}
+
+/**
+ * Grants starting or expiring within the next `withinDays` days, soonest first
+ */
+export function getUpcomingGrantEvents(
+  users: UserGrants[],
+  withinDays: number = 14,
+  now: number = Date.now()
+): UpcomingGrantEvent[] {
+  const horizon = now + withinDays * DAY_MS;
+  const events: UpcomingGrantEvent[] = [];
+
+  for (const user of users) {
+    const lists: Array<[AccessGrantType, ScheduledGrant[]]> = [
+      ['brand', user.brandAccess || []],
+      ['marketplace', user.marketplaceAccess || []],
+      ['shipping', user.shippingAccess || []],
+    ];
+    for (const [type, grants] of lists) {
+      for (const grant of grants) {
+        const base = { userId: user.id, user: user.username || user.email, type, itemId: grant.id, itemName: grant.name };
+        const startsAt = grant.startsAt ? new Date(grant.startsAt).getTime() : null;
+        const expiresAt = grant.expiresAt ? new Date(grant.expiresAt).getTime() : null;
+
+        if (startsAt !== null && startsAt > now && startsAt <= horizon) {
+          events.push({ ...base, kind: 'starts', at: grant.startsAt! });
+        }
+        if (expiresAt !== null && expiresAt > now && expiresAt <= horizon && (grant.isActive || startsAt !== null)) {
+          events.push({ ...base, kind: 'expires', at: grant.expiresAt! });
+        }
+      }
+    }
+  }
+
+  return events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+/**
+ * Human-readable time until a date, e.g. "in 3 days" or "in 5 hours"
+ */
+export function formatTimeUntil(date: string, now: number = Date.now()): string {
+  const diff = new Date(date).getTime() - now;
+  if (diff <= 0) return 'now';
+  const days = Math.floor(diff / DAY_MS);
+  if (days >= 1) return `in ${days} day${days !== 1 ? 's' : ''}`;
+  const hours = Math.max(1, Math.floor(diff / (60 * 60 * 1000)));
+  return `in ${hours} hour${hours !== 1 ? 's' : ''}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Access Scope Helpers
+ *
+ * Pure functions for checking the signed-in user's brand, marketplace and
+ * shipping access on the client. The backend stays authoritative; these
+ * checks let the catalog UI hide what the user cannot touch and reject
+ * bulk uploads before they are sent.
+ */
+
+import { isGrantEffective } from './schedule';
+
+export type AccessScopeType = 'brands' | 'marketplaces' | 'shipping';
+
+/**
+ * Names the user holds an active grant for, normalized for comparison
+ */
+export interface AccessScope {
+  unrestricted: boolean; // admins see and edit everything
+  brands: string[];
+  marketplaces: string[];
+  shipping: string[];
+}
+
+/**
+ * What a single upload row touches. `null` means the row could not be
+ * matched to a brand; `undefined` skips that check.
+ */
+export interface AccessRowSubject {
+  sku?: string | null;
+  brand: string | null;
+  marketplace?: string | null;
+}
+
+/**
+ * A row rejected by the access check
+ */
+export interface AccessRowViolation {
+  row: number; // spreadsheet row number, header is row 1
+  sku: string | null;
+  brand: string | null;
+  marketplace: string | null;
+  reason: string;
+}
+
+export const EMPTY_ACCESS_SCOPE: AccessScope = {
+  unrestricted: false,
+  brands: [],
+  marketplaces: [],
+  shipping: [],
+};
+
+export const UNRESTRICTED_ACCESS_SCOPE: AccessScope = {
+  ...EMPTY_ACCESS_SCOPE,
+  unrestricted: true,
+};
+
+export function normalizeAccessName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+type ScopeGrant = { name: string; isActive: boolean; startsAt?: string | null; expiresAt?: string | null };
+
+const activeNames = (grants: ScopeGrant[] = [], now: number) =>
+  grants.filter(grant => isGrantEffective(grant, now)).map(grant => normalizeAccessName(grant.name));
+
+/**
+ * Build a scope from the user's access grants. Grants outside their
+ * start/expiry window are left out even if the backend has not revoked them yet.
+ */
+export function buildAccessScope(access: {
+  brandAccess?: ScopeGrant[];
+  marketplaceAccess?: ScopeGrant[];
+  shippingAccess?: ScopeGrant[];
+}, now: number = Date.now()): AccessScope {
+  return {
+    unrestricted: false,
+    brands: activeNames(access.brandAccess, now),
+    marketplaces: activeNames(access.marketplaceAccess, now),
+    shipping: activeNames(access.shippingAccess, now),
+  };
+}
+
+/**
+ * Check whether the scope includes a brand, marketplace or shipping platform
+ */
+export function isInScope(scope: AccessScope, type: AccessScopeType, name: string | null | undefined): boolean {
+  if (scope.unrestricted) return true;
+  if (!name) return false;
+  return scope[type].includes(normalizeAccessName(name));
+}
+
+/**
+ * Check upload rows against the scope and report every rejected row
+ *
+ * @param rows - Parsed rows or bulk form entries
+ * @param scope - The user's access scope
+ * @param subjectOf - Extracts the brand/marketplace a row touches
+ * @param firstRow - Row number of the first entry (2 for files with a header row)
+ */
+export function findAccessViolations<T>(
+  rows: T[],
+  scope: AccessScope,
+  subjectOf: (row: T, index: number) => AccessRowSubject,
+  firstRow: number = 2
+): AccessRowViolation[] {
+  if (scope.unrestricted) return [];
+
+  const violations: AccessRowViolation[] = [];
+  rows.forEach((row, index) => {
+    const subject = subjectOf(row, index);
+    const base = {
+      row: index + firstRow,
+      sku: subject.sku || null,
+      brand: subject.brand,
+      marketplace: subject.marketplace ?? null,
+    };
+
+    if (!subject.brand) {
+      violations.push({ ...base, reason: 'Row could not be matched to a brand you have access to' });
+    } else if (!isInScope(scope, 'brands', subject.brand)) {
+      violations.push({ ...base, reason: `You do not have access to brand "${subject.brand}"` });
+    } else if (subject.marketplace && !isInScope(scope, 'marketplaces', subject.marketplace)) {
+      violations.push({ ...base, reason: `You do not have access to marketplace "${subject.marketplace}"` });
+    }
+  });
+  return violations;
+}
+
+/**
+ * Look up the brand of each distinct SKU, one request per batch of SKUs.
+ * SKUs the lookup leaves out (unknown, or outside the user's access) resolve
+ * to null; SKUs are matched case-insensitively.
+ */
+export async function resolveBrandsBySku(
+  skus: string[],
+  lookup: (skus: string[]) => Promise<Record<string, string | null | undefined>>,
+  batchSize: number = 100
+): Promise<Map<string, string | null>> {
+  const result = new Map<string, string | null>();
+  const distinct = Array.from(new Set(skus.filter(Boolean)));
+
+  for (let start = 0; start < distinct.length; start += batchSize) {
+    const batch = distinct.slice(start, start + batchSize);
+    const brands = await lookup(batch);
+    const found = new Map(Object.entries(brands).map(([sku, brand]) => [sku.toLowerCase(), brand || null]));
+    batch.forEach(sku => result.set(sku, found.get(sku.toLowerCase()) ?? null));
+  }
+  return result;
+}
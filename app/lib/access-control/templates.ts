@@ -0,0 +1,246 @@
+/**
+ * Access Templates
+ *
+ * Named bundles of brand, marketplace and shipping access (e.g. "Brand X team",
+ * "Walmart ops") that admins apply to many users at once. The backend stores
+ * templates and which users they were applied to; the actual grants are still
+ * made through the per-item toggle endpoints, one toggle per changed item.
+ */
+
+import { HttpClient } from '../auth/httpClient';
+import { AccessControlService } from './api';
+
+export type AccessItemType = 'brand' | 'marketplace' | 'shipping';
+
+/**
+ * How a template is applied to a user
+ * - merge: grant everything in the template, keep the user's other access
+ * - replace: the user ends up with exactly the template's access
+ */
+export type AccessTemplateMode = 'merge' | 'replace';
+
+export interface AccessTemplate {
+  id: number;
+  name: string;
+  description: string;
+  brandIds: number[];
+  marketplaceIds: number[];
+  shippingIds: number[];
+  assignedUserIds: number[];
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+export interface AccessTemplateInput {
+  name: string;
+  description: string;
+  brandIds: number[];
+  marketplaceIds: number[];
+  shippingIds: number[];
+}
+
+/**
+ * A single grant or revoke, expressed as the desired end state
+ */
+export interface AccessChange {
+  type: AccessItemType;
+  id: number;
+  name: string;
+  enabled: boolean;
+}
+
+/**
+ * The access a user currently holds, in the shape the admin APIs return
+ */
+export interface UserAccessSnapshot {
+  id: number;
+  brandAccess: Array<{ id: number; isActive: boolean }>;
+  marketplaceAccess: Array<{ id: number; isActive: boolean }>;
+  shippingAccess: Array<{ id: number; isActive: boolean }>;
+}
+
+/**
+ * Everything a template can grant, used to name items in diffs
+ */
+export interface AccessCatalog {
+  brands: Array<{ id: number; name: string }>;
+  marketplaces: Array<{ id: number; name: string }>;
+  shipping: Array<{ id: number; name: string }>;
+}
+
+export const ACCESS_TEMPLATE_MODE_LABELS: Record<AccessTemplateMode, string> = {
+  merge: 'Add to existing access',
+  replace: 'Replace existing access',
+};
+
+const activeIds = (items: Array<{ id: number; isActive: boolean }> = []) =>
+  new Set(items.filter(item => item.isActive).map(item => item.id));
+
+const typeEntries = (template: AccessTemplateInput, catalog: AccessCatalog) => [
+  { type: 'brand' as const, wanted: template.brandIds, items: catalog.brands },
+  { type: 'marketplace' as const, wanted: template.marketplaceIds, items: catalog.marketplaces },
+  { type: 'shipping' as const, wanted: template.shippingIds, items: catalog.shipping },
+];
+
+const currentIds = (user: UserAccessSnapshot, type: AccessItemType) =>
+  activeIds(type === 'brand' ? user.brandAccess : type === 'marketplace' ? user.marketplaceAccess : user.shippingAccess);
+
+/**
+ * Changes needed to bring a user in line with a template
+ */
+export function diffTemplateAccess(
+  user: UserAccessSnapshot,
+  template: AccessTemplateInput,
+  catalog: AccessCatalog,
+  mode: AccessTemplateMode
+): AccessChange[] {
+  const changes: AccessChange[] = [];
+
+  for (const { type, wanted, items } of typeEntries(template, catalog)) {
+    const current = currentIds(user, type);
+    const wantedSet = new Set(wanted);
+    for (const item of items) {
+      const has = current.has(item.id);
+      if (wantedSet.has(item.id) && !has) {
+        changes.push({ type, id: item.id, name: item.name, enabled: true });
+      } else if (mode === 'replace' && !wantedSet.has(item.id) && has) {
+        changes.push({ type, id: item.id, name: item.name, enabled: false });
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Changes needed to carry a template edit over to a user who already has it:
+ * grant what was added and revoke what was removed, leaving the user's
+ * other access alone.
+ */
+export function diffTemplateUpdate(
+  user: UserAccessSnapshot,
+  before: AccessTemplateInput,
+  after: AccessTemplateInput,
+  catalog: AccessCatalog
+): AccessChange[] {
+  const changes: AccessChange[] = [];
+  const beforeEntries = typeEntries(before, catalog);
+
+  typeEntries(after, catalog).forEach(({ type, wanted, items }, index) => {
+    const current = currentIds(user, type);
+    const previous = new Set(beforeEntries[index].wanted);
+    const next = new Set(wanted);
+    for (const item of items) {
+      if (next.has(item.id) && !previous.has(item.id) && !current.has(item.id)) {
+        changes.push({ type, id: item.id, name: item.name, enabled: true });
+      } else if (previous.has(item.id) && !next.has(item.id) && current.has(item.id)) {
+        changes.push({ type, id: item.id, name: item.name, enabled: false });
+      }
+    }
+  });
+  return changes;
+}
+
+/**
+ * Apply changes to one user through the toggle endpoints.
+ * Every change must differ from the user's current state, since each call flips it.
+ */
+export async function applyAccessChanges(
+  accessToken: string,
+  userId: number,
+  changes: AccessChange[]
+): Promise<void> {
+  const id = userId.toString();
+  await Promise.all(changes.map(change => {
+    switch (change.type) {
+      case 'brand':
+        return AccessControlService.toggleBrandAccess(id, change.id, accessToken);
+      case 'marketplace':
+        return AccessControlService.toggleMarketplaceAccess(id, change.id, accessToken);
+      case 'shipping':
+        return AccessControlService.toggleShippingAccess(id, change.id, accessToken);
+    }
+  }));
+}
+
+export class AccessTemplatesService {
+  /**
+   * Get all access templates
+   */
+  static async getTemplates(accessToken: string): Promise<AccessTemplate[]> {
+    try {
+      console.log('🔍 Access Templates API: Fetching templates...');
+      const response = await HttpClient.get<{ templates: AccessTemplate[] }>('/access-templates', {}, accessToken);
+      console.log('✅ Access Templates API: Retrieved templates successfully');
+      return response.templates || [];
+    } catch (error) {
+      console.error('❌ Access Templates API: Error fetching templates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a template
+   */
+  static async createTemplate(accessToken: string, data: AccessTemplateInput): Promise<AccessTemplate> {
+    try {
+      console.log('📝 Access Templates API: Creating template...');
+      const response = await HttpClient.post<{ template: AccessTemplate }>('/access-templates', data, {}, accessToken);
+      console.log('✅ Access Templates API: Template created successfully');
+      return response.template;
+    } catch (error) {
+      console.error('❌ Access Templates API: Error creating template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a template's name, description or bundled access
+   */
+  static async updateTemplate(accessToken: string, templateId: number, data: AccessTemplateInput): Promise<AccessTemplate> {
+    try {
+      console.log('🔄 Access Templates API: Updating template:', templateId);
+      const response = await HttpClient.put<{ template: AccessTemplate }>(`/access-templates/${templateId}`, data, {}, accessToken);
+      console.log('✅ Access Templates API: Template updated successfully');
+      return response.template;
+    } catch (error) {
+      console.error('❌ Access Templates API: Error updating template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a template. Access already granted from it is kept.
+   */
+  static async deleteTemplate(accessToken: string, templateId: number): Promise<{ message: string }> {
+    try {
+      console.log('🗑️ Access Templates API: Deleting template:', templateId);
+      const response = await HttpClient.delete<{ message: string }>(`/access-templates/${templateId}`, {}, accessToken);
+      console.log('✅ Access Templates API: Template deleted successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Access Templates API: Error deleting template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that a template was applied to users, so later edits can propagate to them
+   */
+  static async assignTemplate(accessToken: string, templateId: number, userIds: number[]): Promise<AccessTemplate> {
+    try {
+      console.log(`📦 Access Templates API: Assigning template ${templateId} to ${userIds.length} user(s)`);
+      const response = await HttpClient.post<{ template: AccessTemplate }>(
+        `/access-templates/${templateId}/assignments`,
+        { userIds },
+        {},
+        accessToken
+      );
+      console.log('✅ Access Templates API: Template assigned successfully');
+      return response.template;
+    } catch (error) {
+      console.error('❌ Access Templates API: Error assigning template:', error);
+      throw error;
+    }
+  }
+}
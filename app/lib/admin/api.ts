@@ -3,7 +3,8 @@
  * 
  * This service handles all admin-specific API calls for user management,
  * including fetching users, updating user details, and managing permissions.
- * All endpoints require admin authentication.
+ * All endpoints require admin authentication, and each mutation writes its
+ * own audit entry on the server.
  */
 
 // Note: AuthService dependency removed - tokens will be passed directly
@@ -20,6 +21,7 @@ import {
 } from './types';
 import { AuthService, ensureValidToken } from '../auth/api';
 import { HttpClient } from '../auth/httpClient';
+import type { UserRole } from '../auth/types';
 
 // Base API configuration
 // const API_BASE_URL = 'http://localhost:5000/api';
@@ -222,14 +224,14 @@ export class AdminService {
   }
 
   /**
-   * Update a user's role (USER or ADMIN)
+   * Update a user's role (USER, ADMIN or a custom role key)
    * 
    * @param userId - The user ID to update
-   * @param role - New role (USER or ADMIN)
+   * @param role - New role key
    * @param accessToken - Admin access token
    * @returns Promise<UpdateUserResponse> - Updated user information
    */
-  static async updateUserRole(userId: number, role: 'ADMIN' | 'USER', accessToken: string): Promise<UpdateUserResponse> {
+  static async updateUserRole(userId: number, role: UserRole, accessToken: string): Promise<UpdateUserResponse> {
     const requestData: UpdateRoleRequest = { role };
     
     return adminApiRequest<UpdateUserResponse>(ADMIN_ENDPOINTS.UPDATE_ROLE(userId), {
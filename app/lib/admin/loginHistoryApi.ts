@@ -163,6 +163,8 @@ export interface DetailedUserLoginHistory {
     description: string;
     isActive: boolean;
     grantedAt: string;
+    startsAt?: string | null;
+    expiresAt?: string | null;
   }>;
   marketplaceAccess: Array<{
     id: number;
@@ -170,6 +172,8 @@ export interface DetailedUserLoginHistory {
     description: string;
     isActive: boolean;
     grantedAt: string;
+    startsAt?: string | null;
+    expiresAt?: string | null;
   }>;
   shippingAccess: Array<{
     id: number;
@@ -177,6 +181,8 @@ export interface DetailedUserLoginHistory {
     description: string;
     isActive: boolean;
     grantedAt: string;
+    startsAt?: string | null;
+    expiresAt?: string | null;
   }>;
   loginHistory: LoginHistoryEntry[];
 }
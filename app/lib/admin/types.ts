@@ -5,12 +5,14 @@
  * operations including user management and detailed user information.
  */
 
+import type { UserRole } from '../auth/types';
+
 // Base admin user interface
 export interface AdminUser {
   id: number;
   username: string;
   email: string;
-  role: 'ADMIN' | 'USER';
+  role: UserRole;
   createdAt: string;
   updatedAt: string;
 }
@@ -51,6 +53,8 @@ export interface AccessPermission {
   description: string;
   isActive: boolean;
   grantedAt: string;
+  startsAt?: string | null;
+  expiresAt?: string | null;
 }
 
 
@@ -77,6 +81,7 @@ export interface DetailedUser extends AdminUser {
   marketplaceAccess: AccessPermission[];
   shippingAccess: AccessPermission[];
   accessSummary: AccessSummary;
+  twoFactorEnabled?: boolean;
 }
 
 // API Response types
@@ -119,7 +124,7 @@ export interface UpdatePasswordRequest {
 }
 
 export interface UpdateRoleRequest {
-  role: 'ADMIN' | 'USER';
+  role: UserRole;
 }
 
 // Error response interface
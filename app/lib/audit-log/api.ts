@@ -0,0 +1,126 @@
+import { HttpClient } from '../auth/httpClient';
+import type { Pagination } from '../types/common.types';
+import type { AuditEntityRef, CatalogEntityType } from './catalog';
+
+export type { Pagination } from '../types/common.types';
+
+export type AuditLogType = 'user_edit' | 'permission' | 'login' | 'system' | CatalogEntityType;
+
+/**
+ * A persisted activity log entry. Entries are written by the backend inside
+ * the endpoint that makes the change, stamped with the token's user (or
+ * "system" for scheduled jobs); the client can only read them. The backend
+ * also assigns the sequence number and hash; each hash covers the entry and
+ * the previous entry's hash, so editing or deleting any entry breaks every
+ * hash after it.
+ */
+export interface AuditLogEntry {
+  id: number;
+  sequence: number;
+  type: AuditLogType;
+  action: string;
+  description: string;
+  timestamp: string;
+  user: {
+    id?: number;
+    email: string;
+    username?: string;
+  };
+  entity?: AuditEntityRef | null; // catalog entries only
+  details?: any;
+  prevHash: string | null; // null only for the first entry
+  hash: string;
+}
+
+export interface AuditLogFilters {
+  page?: number;
+  limit?: number;
+  search?: string;     // action / description
+  type?: AuditLogType;
+  userEmail?: string;  // who made the change
+  targetUser?: string; // whose account or access was changed (details.targetUser)
+  entityType?: CatalogEntityType;
+  entityId?: number;
+  sku?: string;        // entity.sku or one of details.skus (bulk entries), for the entity timeline
+  dateFrom?: string;   // YYYY-MM-DD, inclusive
+  dateTo?: string;     // YYYY-MM-DD, inclusive
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface AuditLogResponse {
+  logs: AuditLogEntry[];
+  pagination: Pagination;
+  timestamp: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedCount: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  brokenAtSequence: number | null; // first entry whose hash does not match
+  reason: string | null;
+  verifiedAt: string;
+}
+
+export const AUDIT_LOG_TYPE_LABELS: Record<AuditLogType, string> = {
+  user_edit: 'User edit',
+  permission: 'Permission',
+  login: 'Login',
+  system: 'System',
+  product: 'Product',
+  listing: 'Listing',
+  brand: 'Brand',
+  marketplace: 'Marketplace',
+  shipping: 'Shipping',
+  inventory: 'Inventory',
+};
+
+export class AuditLogService {
+  /**
+   * Get audit log entries with pagination and filters
+   */
+  static async getLogs(accessToken: string, filters: AuditLogFilters = {}): Promise<AuditLogResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+    if (filters.search) params.append('search', filters.search);
+    if (filters.type) params.append('type', filters.type);
+    if (filters.userEmail) params.append('userEmail', filters.userEmail);
+    if (filters.targetUser) params.append('targetUser', filters.targetUser);
+    if (filters.entityType) params.append('entityType', filters.entityType);
+    if (filters.entityId) params.append('entityId', filters.entityId.toString());
+    if (filters.sku) params.append('sku', filters.sku);
+    if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
+    if (filters.dateTo) params.append('dateTo', filters.dateTo);
+    if (filters.sortOrder) params.append('sortOrder', filters.sortOrder);
+
+    const endpoint = `/audit-logs${params.toString() ? `?${params.toString()}` : ''}`;
+
+    try {
+      console.log('📜 Audit Log API: Fetching logs...', endpoint);
+      const response = await HttpClient.get<AuditLogResponse>(endpoint, {}, accessToken);
+      console.log('✅ Audit Log API: Retrieved logs successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Audit Log API: Error fetching logs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the server to re-hash the whole chain and report the first broken link
+   */
+  static async verifyChain(accessToken: string): Promise<AuditChainVerification> {
+    try {
+      console.log('🔐 Audit Log API: Verifying hash chain...');
+      const response = await HttpClient.get<AuditChainVerification>('/audit-logs/verify', {}, accessToken);
+      console.log(response.valid ? '✅ Audit Log API: Chain intact' : '⚠️ Audit Log API: Chain broken');
+      return response;
+    } catch (error) {
+      console.error('❌ Audit Log API: Error verifying chain:', error);
+      throw error;
+    }
+  }
+}
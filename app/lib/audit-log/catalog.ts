@@ -0,0 +1,52 @@
+/**
+ * Catalog Audit
+ *
+ * Field-level before/after diffs for catalog mutations (products, listings,
+ * brands, marketplaces, shipping companies and inventory). The backend builds
+ * these entries inside each mutation endpoint; this module only describes
+ * their shape for display.
+ */
+
+export type CatalogEntityType = 'product' | 'listing' | 'brand' | 'marketplace' | 'shipping' | 'inventory';
+
+export type CatalogAction = 'created' | 'updated' | 'deleted' | 'bulk';
+
+export interface FieldChange {
+  field: string; // nested attributes use dot paths, e.g. "attributes.color"
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Which record an entry belongs to; sku drives the per-SKU entity timeline
+export interface AuditEntityRef {
+  type: CatalogEntityType;
+  id: number | null; // null for bulk operations
+  sku: string | null;
+  label: string | null;
+}
+
+export const CATALOG_ENTITY_LABELS: Record<CatalogEntityType, string> = {
+  product: 'Product',
+  listing: 'Listing',
+  brand: 'Brand',
+  marketplace: 'Marketplace',
+  shipping: 'Shipping company',
+  inventory: 'Inventory',
+};
+
+export const CATALOG_ACTION_LABELS: Record<CatalogAction, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  deleted: 'Deleted',
+  bulk: 'Bulk change',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+export const formatFieldChange = (change: FieldChange) =>
+  `${change.field}: ${formatValue(change.oldValue)} → ${formatValue(change.newValue)}`;
+
@@ -0,0 +1,84 @@
+/**
+ * Audit Log Hash Chain
+ *
+ * Re-computes entry hashes in the browser so a page of logs can be checked
+ * without trusting the server's verify endpoint. Must match the backend:
+ *
+ *   hash = sha256_hex( (prevHash ?? '') + '|' + canonicalJson(payload) )
+ *   payload = { sequence, type, action, description, timestamp, user, entity, details }
+ *
+ * canonicalJson sorts object keys recursively and drops undefined values.
+ */
+
+import type { AuditLogEntry } from './api';
+
+export type AuditLinkStatus = 'valid' | 'hashMismatch' | 'chainGap' | 'unchecked';
+
+export interface AuditPageVerification {
+  valid: boolean;
+  statuses: Record<number, AuditLinkStatus>; // by entry id
+}
+
+export const AUDIT_LINK_STATUS_LABELS: Record<AuditLinkStatus, string> = {
+  valid: 'Hash verified',
+  hashMismatch: 'Entry was modified after it was written',
+  chainGap: 'Previous entry is missing or was modified',
+  unchecked: 'Not verified',
+};
+
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+}
+
+export async function computeEntryHash(entry: AuditLogEntry): Promise<string> {
+  const payload = {
+    sequence: entry.sequence,
+    type: entry.type,
+    action: entry.action,
+    description: entry.description,
+    timestamp: entry.timestamp,
+    user: entry.user,
+    entity: entry.entity ?? undefined,
+    details: entry.details,
+  };
+  const data = new TextEncoder().encode(`${entry.prevHash ?? ''}|${canonicalJson(payload)}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Verify each entry's own hash and, where consecutive sequence numbers are on
+ * the page, that each entry links to the one before it
+ */
+export async function verifyAuditPage(entries: AuditLogEntry[]): Promise<AuditPageVerification> {
+  const statuses: Record<number, AuditLinkStatus> = {};
+  const bySequence = new Map(entries.map(entry => [entry.sequence, entry]));
+
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    entries.forEach(entry => { statuses[entry.id] = 'unchecked'; });
+    return { valid: true, statuses };
+  }
+
+  for (const entry of entries) {
+    if (await computeEntryHash(entry) !== entry.hash) {
+      statuses[entry.id] = 'hashMismatch';
+      continue;
+    }
+    const previous = bySequence.get(entry.sequence - 1);
+    statuses[entry.id] = previous && previous.hash !== entry.prevHash ? 'chainGap' : 'valid';
+  }
+
+  return {
+    valid: Object.values(statuses).every(status => status === 'valid' || status === 'unchecked'),
+    statuses,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Audit Log API Module
+ * 
+ * Central export point for the server-persisted, hash-chained activity log
+ */
+
+// Core audit log service
+export { AuditLogService, AUDIT_LOG_TYPE_LABELS } from './api';
+
+// Hash chain verification
+export { AUDIT_LINK_STATUS_LABELS, canonicalJson, computeEntryHash, verifyAuditPage } from './chain';
+
+// Server-side retention policies, notifications and archives
+export { LogRetentionService, RETENTION_ARCHIVE_FORMAT_LABELS } from './retention';
+
+// Catalog field diffs
+export { CATALOG_ENTITY_LABELS, CATALOG_ACTION_LABELS, formatFieldChange } from './catalog';
+
+// TypeScript types and interfaces
+export type {
+  AuditLogEntry,
+  AuditLogType,
+  AuditLogFilters,
+  AuditLogResponse,
+  AuditChainVerification,
+} from './api';
+
+export type { AuditLinkStatus, AuditPageVerification } from './chain';
+
+export type { AuditEntityRef, CatalogAction, CatalogEntityType, FieldChange } from './catalog';
+
+export type {
+  LogRetentionPolicy,
+  UpdateLogRetentionPolicyRequest,
+  RetentionArchive,
+  RetentionArchiveFormat,
+  RetentionAdminAction,
+  RetentionNotification,
+  RetentionPurgeResult,
+  RetentionDecisionResponse,
+} from './retention';
@@ -0,0 +1,266 @@
+import { HttpClient } from '../auth/httpClient';
+import { API_CONFIG } from '../config/api.config';
+import type { AuditLogType } from './api';
+
+/**
+ * Retention is enforced by the backend: a nightly job compares every log type
+ * against its policy, raises one shared notification per type for all admins
+ * and, when autoDelete is on, purges expired entries. A purge always writes
+ * the entries to an archive first. Purged entries leave a (sequence, hash)
+ * tombstone so the remaining hash chain still verifies.
+ */
+
+export type RetentionArchiveFormat = 'jsonl' | 'csv';
+
+export type RetentionAdminAction = 'keep' | 'delete' | 'pending';
+
+export interface LogRetentionPolicy {
+  logType: AuditLogType;
+  retentionMonths: number;
+  notificationThreshold: number; // Days before expiration to notify
+  autoDelete: boolean;           // purge on schedule without waiting for an admin decision
+  archiveFormat: RetentionArchiveFormat;
+  updatedAt: string | null;
+  updatedBy: string | null;      // admin email
+}
+
+export type UpdateLogRetentionPolicyRequest = Partial<
+  Pick<LogRetentionPolicy, 'retentionMonths' | 'notificationThreshold' | 'autoDelete' | 'archiveFormat'>
+>;
+
+export interface RetentionNotification {
+  id: number;
+  type: 'retention_warning' | 'retention_expired';
+  logType: AuditLogType;
+  message: string;
+  logsCount: number;
+  expirationDate: string;
+  createdAt: string;
+  isRead: boolean; // for the requesting admin
+  adminAction: RetentionAdminAction;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  archiveId: number | null; // archive written when the decision was "delete"
+}
+
+export interface RetentionArchive {
+  id: number;
+  logType: AuditLogType;
+  format: RetentionArchiveFormat;
+  entryCount: number;
+  fromSequence: number | null;
+  toSequence: number | null;
+  fromTimestamp: string | null;
+  toTimestamp: string | null;
+  sizeBytes: number;
+  createdAt: string;
+  createdBy: string; // admin email, or "system" for scheduled purges
+  purgedAt: string | null; // null for export-only archives
+}
+
+export interface RetentionPurgeResult {
+  archive: RetentionArchive;
+  purgedCount: number;
+}
+
+export interface RetentionDecisionResponse {
+  notification: RetentionNotification;
+  purge: RetentionPurgeResult | null; // set when the decision was "delete"
+}
+
+export const RETENTION_ARCHIVE_FORMAT_LABELS: Record<RetentionArchiveFormat, string> = {
+  jsonl: 'JSON Lines (.jsonl)',
+  csv: 'CSV (.csv)',
+};
+
+export class LogRetentionService {
+  /**
+   * Get the retention policy for every log type
+   */
+  static async getPolicies(accessToken: string): Promise<LogRetentionPolicy[]> {
+    try {
+      console.log('🔍 Retention API: Fetching policies...');
+      const response = await HttpClient.get<{ policies: LogRetentionPolicy[] }>('/audit-logs/retention/policies', {}, accessToken);
+      console.log('✅ Retention API: Retrieved policies successfully');
+      return response.policies || [];
+    } catch (error) {
+      console.error('❌ Retention API: Error fetching policies:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the policy for one log type (Admin only)
+   */
+  static async updatePolicy(
+    accessToken: string,
+    logType: AuditLogType,
+    data: UpdateLogRetentionPolicyRequest
+  ): Promise<LogRetentionPolicy> {
+    try {
+      console.log('🔄 Retention API: Updating policy:', logType);
+      const response = await HttpClient.put<{ policy: LogRetentionPolicy }>(
+        `/audit-logs/retention/policies/${logType}`,
+        data,
+        {},
+        accessToken
+      );
+      console.log('✅ Retention API: Policy updated successfully');
+      return response.policy;
+    } catch (error) {
+      console.error('❌ Retention API: Error updating policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the shared retention notifications, newest first
+   */
+  static async getNotifications(accessToken: string): Promise<RetentionNotification[]> {
+    try {
+      console.log('🔍 Retention API: Fetching notifications...');
+      const response = await HttpClient.get<{ notifications: RetentionNotification[] }>(
+        '/audit-logs/retention/notifications',
+        {},
+        accessToken
+      );
+      console.log('✅ Retention API: Retrieved notifications successfully');
+      return response.notifications || [];
+    } catch (error) {
+      console.error('❌ Retention API: Error fetching notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a notification as read for the current admin
+   */
+  static async markNotificationRead(accessToken: string, notificationId: number): Promise<RetentionNotification> {
+    const response = await HttpClient.post<{ notification: RetentionNotification }>(
+      `/audit-logs/retention/notifications/${notificationId}/read`,
+      {},
+      {},
+      accessToken
+    );
+    return response.notification;
+  }
+
+  /**
+   * Record the admin decision for a notification. "keep" extends the affected
+   * entries by one retention period; "delete" archives and purges them.
+   */
+  static async decide(
+    accessToken: string,
+    notificationId: number,
+    action: 'keep' | 'delete'
+  ): Promise<RetentionDecisionResponse> {
+    try {
+      console.log('📝 Retention API: Recording decision:', notificationId, action);
+      const response = await HttpClient.post<RetentionDecisionResponse>(
+        `/audit-logs/retention/notifications/${notificationId}/decision`,
+        { action },
+        {},
+        accessToken
+      );
+      console.log('✅ Retention API: Decision recorded');
+      return response;
+    } catch (error) {
+      console.error('❌ Retention API: Error recording decision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive the expired entries of one log type without purging them
+   */
+  static async exportExpired(
+    accessToken: string,
+    logType: AuditLogType,
+    format: RetentionArchiveFormat
+  ): Promise<RetentionArchive> {
+    try {
+      console.log('📦 Retention API: Exporting expired logs:', logType);
+      const response = await HttpClient.post<{ archive: RetentionArchive }>(
+        '/audit-logs/retention/archives',
+        { logType, format },
+        {},
+        accessToken
+      );
+      console.log('✅ Retention API: Archive created');
+      return response.archive;
+    } catch (error) {
+      console.error('❌ Retention API: Error exporting logs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive and then purge the expired entries of one log type (Admin only)
+   */
+  static async purge(accessToken: string, logType: AuditLogType): Promise<RetentionPurgeResult> {
+    try {
+      console.log('🗑️ Retention API: Purging expired logs:', logType);
+      const response = await HttpClient.post<RetentionPurgeResult>(
+        '/audit-logs/retention/purge',
+        { logType },
+        {},
+        accessToken
+      );
+      console.log(`✅ Retention API: Purged ${response.purgedCount} entries`);
+      return response;
+    } catch (error) {
+      console.error('❌ Retention API: Error purging logs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List archives, newest first
+   */
+  static async getArchives(accessToken: string): Promise<RetentionArchive[]> {
+    try {
+      console.log('🔍 Retention API: Fetching archives...');
+      const response = await HttpClient.get<{ archives: RetentionArchive[] }>('/audit-logs/retention/archives', {}, accessToken);
+      console.log('✅ Retention API: Retrieved archives successfully');
+      return response.archives || [];
+    } catch (error) {
+      console.error('❌ Retention API: Error fetching archives:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download an archive file in its stored format
+   */
+  static async downloadArchive(accessToken: string, archive: RetentionArchive): Promise<void> {
+    console.log('📥 Retention API: Downloading archive', archive.id);
+
+    try {
+      const response = await fetch(`${API_CONFIG.BASE_URL}/audit-logs/retention/archives/${archive.id}/download`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to download archive: ${response.statusText}`);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${archive.logType}-${archive.createdAt.split('T')[0]}-${archive.id}.${archive.format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      console.log('✅ Retention API: Archive downloaded successfully');
+    } catch (error) {
+      console.error('❌ Retention API: Failed to download archive:', error);
+      throw error;
+    }
+  }
+}
@@ -11,6 +11,7 @@ import React, { ReactNode } from 'react';
 import { redirect } from 'next/navigation';
 import { useAuth } from './context';
 import { UserRole } from './types';
+import type { RolePermission } from '../roles/api';
 
 interface ProtectedRouteProps {
   children: ReactNode;
@@ -27,6 +28,11 @@ interface ProtectedRouteProps {
     type: 'brands' | 'marketplaces' | 'shipping';
     names: string[];
   }[];
+  /**
+   * Required action permissions from the user's role
+   * User must have all of them (admins always do)
+   */
+  requiredRolePermissions?: RolePermission[];
   /**
    * Redirect path for unauthenticated users
    * Defaults to '/login'
@@ -86,11 +92,12 @@ export function ProtectedRoute({
   children,
   requiredRole,
   requiredPermissions,
+  requiredRolePermissions,
   redirectTo = '/login',
   loadingComponent = <DefaultLoader />,
   unauthorizedComponent = <DefaultUnauthorized />,
 }: ProtectedRouteProps) {
-  const { state, hasPermission } = useAuth();
+  const { state, hasPermission, can } = useAuth();
 
   // Show loading while checking authentication
   if (state.isLoading) {
@@ -121,6 +128,11 @@ export function ProtectedRoute({
     }
   }
 
+  // Check role permission requirements
+  if (requiredRolePermissions && !requiredRolePermissions.every(permission => can(permission))) {
+    return <>{unauthorizedComponent}</>;
+  }
+
   // User is authenticated and authorized
   return <>{children}</>;
 }
@@ -170,8 +182,14 @@ export function AdminRoute({ children, ...props }: Omit<ProtectedRouteProps, 're
  * 
  * Useful for conditionally rendering navigation items or content
  * 
+ * Usage:
+ * ```tsx
+ * const canImport = useCanAccess(undefined, undefined, ['products:import']);
+ * ```
+ * 
  * @param requiredRole - Required role
  * @param requiredPermissions - Required permissions
+ * @param requiredRolePermissions - Required action permissions (all of them)
  * @returns boolean - True if user can access
  */
 export function useCanAccess(
@@ -179,9 +197,10 @@ export function useCanAccess(
   requiredPermissions?: {
     type: 'brands' | 'marketplaces' | 'shipping';
     names: string[];
-  }[]
+  }[],
+  requiredRolePermissions?: RolePermission[]
 ): boolean {
-  const { state, hasPermission } = useAuth();
+  const { state, hasPermission, can } = useAuth();
 
   // Must be authenticated
   if (!state.isAuthenticated || !state.user) {
@@ -206,5 +225,10 @@ export function useCanAccess(
     }
   }
 
+  // Check role permission requirements
+  if (requiredRolePermissions && !requiredRolePermissions.every(permission => can(permission))) {
+    return false;
+  }
+
   return true;
 }
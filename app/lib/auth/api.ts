@@ -16,6 +16,7 @@ import {
   LoginRequest,
   RegisterRequest,
   LoginResponse,
+  LoginResult,
   RegisterResponse,
   ProfileResponse,
   RefreshResponse,
@@ -173,9 +174,10 @@ export class AuthService {
    * Authenticate user with email and password
    * 
    * @param credentials - User login credentials
-   * @returns Promise<LoginResponse> - Login response with access token and user data
+   * @returns Promise<LoginResult> - Login response with access token and user data,
+   *          or a 2FA challenge to complete with TwoFactorService
    */
-  static async login(credentials: LoginRequest): Promise<LoginResponse> {
+  static async login(credentials: LoginRequest): Promise<LoginResult> {
     const loginData = {
       ...credentials,
       networkType: credentials.networkType || detectNetworkType(),
@@ -190,9 +192,13 @@ export class AuthService {
     });
 
     try {
-      const response = await HttpClient.post<LoginResponse>('/auth/login', loginData);
+      const response = await HttpClient.post<LoginResult>('/auth/login', loginData);
+      if ('twoFactorRequired' in response && response.twoFactorRequired) {
+        console.log('🔐 Auth: Password accepted - second factor required', response.setupRequired ? '(enrollment needed)' : '');
+        return response;
+      }
       console.log('✅ Auth: Login successful - received access token');
-      console.log('🔑 Auth: Access token received:', response.accessToken ? 'Yes' : 'No');
+      console.log('🔑 Auth: Access token received:', 'accessToken' in response && response.accessToken ? 'Yes' : 'No');
       
       // Check if refresh token cookie was set by backend
       console.log('🍪 Auth: Checking if refresh token cookie was set...');
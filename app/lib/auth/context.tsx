@@ -9,20 +9,25 @@
  */
 
 import React, { createContext, useContext, useEffect, ReactNode } from 'react';
-import { User, UserProfile } from './types';
+import { User, UserProfile, UserRole, LoginResponse, TwoFactorChallengeResponse, TwoFactorMethod } from './types';
+import { roleHasPermission, type RolePermission } from '../roles/api';
 import { AuthService, ensureValidToken, AuthApiError } from './api';
 import { HttpClient } from './httpClient';
+import { TwoFactorService, isTwoFactorChallenge } from './twoFactor';
+import { SessionsService } from './sessions';
 import { useAuthStore } from '../stores/authStore';
-import { activityLogger } from '../activity-logger';
 
 // No reducer needed - using Zustand store directly
 
 // Context type definition
 interface AuthContextType {
   // Actions (state is accessed directly via Zustand hooks)
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<TwoFactorChallengeResponse | null>;
+  verifyTwoFactor: (challengeToken: string, code: string, method?: TwoFactorMethod) => Promise<void>;
+  completeLogin: (loginResponse: LoginResponse) => Promise<void>;
   logout: () => Promise<void>;
-  register: (username: string, email: string, password: string, role: 'ADMIN' | 'USER') => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
+  register: (username: string, email: string, password: string, role: UserRole) => Promise<void>;
   refreshAuth: () => Promise<void>;
   restoreSession: () => Promise<void>;
   testSessionRestoration: () => Promise<void>;
@@ -31,6 +36,7 @@ interface AuthContextType {
   // Utilities
   isAdmin: () => boolean;
   hasPermission: (type: 'brands' | 'marketplaces' | 'shipping', name: string) => boolean;
+  can: (permission: RolePermission) => boolean;
 }
 
 // Create authentication context
@@ -210,18 +216,35 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
 
   /**
-   * Login user with email and password
+   * Turn a login error into a message for the login form
+   */
+  const setLoginError = (error: unknown) => {
+    let errorMessage = 'Login failed';
+    
+    if (error instanceof AuthApiError) {
+      errorMessage = error.message;
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+    } else if (typeof error === 'string') {
+      errorMessage = error;
+    }
+    
+    // Provide fallback error message if none is available
+    if (!errorMessage || errorMessage === 'Login failed') {
+      errorMessage = 'Unable to connect to the server. Please check your internet connection and try again.';
+    }
+    
+    setError(errorMessage);
+  };
+
+  /**
+   * Finish a login once tokens were issued (after the password, or after the second factor)
    * 
-   * @param email - User's email address
-   * @param password - User's password
+   * @param loginResponse - Response carrying the new access token
    */
-  const login = async (email: string, password: string): Promise<void> => {
+  const completeLogin = async (loginResponse: LoginResponse): Promise<void> => {
     try {
       setLoading(true);
-      clearError();
-
-      // Perform login and get access token
-      const loginResponse = await AuthService.login({ email, password });
       console.log('✅ Login: Received access token');
       
       // Get detailed user profile using the access token
@@ -234,35 +257,66 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user: profileResponse.user,
         accessToken: loginResponse.accessToken,
       });
+    } catch (error) {
+      console.error('❌ Login error in context:', error);
+      setLoginError(error);
+      throw error;
+    }
+  };
 
-      // Log the login activity
-      if (profileResponse.user) {
-        activityLogger.logUserLogin(
-          profileResponse.user.email,
-          profileResponse.user.username
-        );
-      }
+  /**
+   * Login user with email and password
+   * 
+   * @param email - User's email address
+   * @param password - User's password
+   * @returns The 2FA challenge when a second factor is required, otherwise null
+   */
+  const login = async (email: string, password: string): Promise<TwoFactorChallengeResponse | null> => {
+    let loginResult;
+    try {
+      setLoading(true);
+      clearError();
+
+      // Perform login and get access token
+      loginResult = await AuthService.login({ email, password });
     } catch (error) {
       console.error('❌ Login error in context:', error);
-      
-      let errorMessage = 'Login failed';
-      
-      if (error instanceof AuthApiError) {
-        errorMessage = error.message;
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      // Provide fallback error message if none is available
-      if (!errorMessage || errorMessage === 'Login failed') {
-        errorMessage = 'Unable to connect to the server. Please check your internet connection and try again.';
-      }
-      
-      setError(errorMessage);
+      setLoginError(error);
+      throw error;
+    }
+
+    // Password accepted but a second factor is needed; the login page takes over
+    if (isTwoFactorChallenge(loginResult)) {
+      setLoading(false);
+      return loginResult;
+    }
+
+    await completeLogin(loginResult);
+    return null;
+  };
+
+  /**
+   * Complete a 2FA login challenge
+   * 
+   * @param challengeToken - Token from the login response
+   * @param code - Authenticator or recovery code
+   * @param method - Which kind of code was entered
+   */
+  const verifyTwoFactor = async (
+    challengeToken: string,
+    code: string,
+    method: TwoFactorMethod = 'totp'
+  ): Promise<void> => {
+    let loginResponse;
+    try {
+      clearError();
+      loginResponse = await TwoFactorService.verifyLogin(challengeToken, code, method);
+    } catch (error) {
+      setLoginError(error);
       throw error;
     }
+
+    await completeLogin(loginResponse);
   };
 
   /**
@@ -302,6 +356,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Sign out of every device, including this one
+   * 
+   * Revokes all of the user's sessions (and their refresh cookies) on the server,
+   * then clears local state. Unlike logout, a server failure is reported and the
+   * user stays signed in, since other devices would otherwise remain active.
+   * The revoke endpoint records the audit entry itself, while the token is still valid.
+   */
+  const signOutEverywhere = async (): Promise<void> => {
+    if (!accessToken) return;
+
+    console.log('🚪 Logout: Signing out of all sessions...');
+    const response = await SessionsService.revokeAllMySessions(accessToken);
+    console.log(`✅ Logout: Revoked ${response.revokedCount} session(s)`);
+
+    console.log('🧹 Logout: Clearing local authentication state...');
+    logoutStore();
+    if (typeof window !== 'undefined') {
+      window.location.href = '/login';
+    }
+  };
+
   /**
    * Register a new user
    * 
@@ -309,13 +385,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
    * 
    * @param email - New user's email
    * @param password - New user's password
-   * @param role - User role (ADMIN or USER)
+   * @param role - User role (ADMIN, USER or a custom role key)
    */
   const register = async (
     username: string,
     email: string,
     password: string,
-    role: 'ADMIN' | 'USER'
+    role: UserRole
   ): Promise<void> => {
     try {
       setLoading(true);
@@ -511,10 +587,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return false;
   };
 
+  /**
+   * Check if the current user's role grants an action permission
+   * 
+   * @param permission - Action permission, e.g. 'products:write'
+   * @returns boolean - True for admins and for roles that include the permission
+   */
+  const can = (permission: RolePermission): boolean => {
+    return roleHasPermission(user?.role, user?.permissions, permission);
+  };
+
   // Context value
   const contextValue: AuthContextType = {
     login,
+    verifyTwoFactor,
+    completeLogin,
     logout,
+    signOutEverywhere,
     register,
     refreshAuth,
     restoreSession,
@@ -522,6 +611,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     testCookieConfiguration,
     isAdmin,
     hasPermission,
+    can,
   };
 
   return (
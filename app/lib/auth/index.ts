@@ -8,6 +8,24 @@
 // Core authentication service
 export { AuthService, AuthApiError, ensureValidToken } from './api';
 
+// Two-factor authentication
+export { TwoFactorService, isTwoFactorChallenge, normalizeTwoFactorCode } from './twoFactor';
+
+// Active sessions and remote sign-out
+export { SessionsService, describeUserAgent } from './sessions';
+export type { ActiveSession, RevokeSessionsResponse } from './sessions';
+
+// Invitations and password reset links
+export { InvitationsService, PasswordResetService, INVITATION_TTL_HOURS } from './invitations';
+export type {
+  Invitation,
+  InvitationInput,
+  InvitationStatus,
+  PasswordTokenInfo,
+  PasswordTokenPurpose,
+  SetPasswordInput,
+} from './invitations';
+
 // Authentication context and hooks
 export { AuthProvider, useAuth, useUser, useIsAuthenticated } from './context';
 
@@ -19,12 +37,21 @@ export type {
   User,
   UserProfile,
   UserRole,
+  BuiltInRole,
   NetworkType,
   Permission,
   AuthTokens,
   LoginRequest,
   RegisterRequest,
   LoginResponse,
+  LoginResult,
+  TwoFactorChallengeResponse,
+  TwoFactorMethod,
+  TwoFactorSetupResponse,
+  TwoFactorStatus,
+  TwoFactorEnrollLoginResponse,
+  TwoFactorPolicy,
+  RecoveryCodesResponse,
   RegisterResponse,
   ProfileResponse,
   RefreshResponse,
@@ -0,0 +1,190 @@
+/**
+ * Invitations and Password Reset API Service
+ *
+ * Admins invite users by email and role instead of choosing their password.
+ * The backend issues a one-time, expiring token and emails a link to
+ * /reset-password through the app's mail relay (/api/mail). The same page
+ * handles "forgot password" links, so both flows share the token endpoints.
+ */
+
+import { HttpClient } from './httpClient';
+import type { UserRole } from './types';
+
+export type PasswordTokenPurpose = 'invite' | 'reset';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export interface Invitation {
+  id: number;
+  email: string;
+  role: UserRole;
+  status: InvitationStatus;
+  invitedBy: string | null;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+}
+
+export interface InvitationInput {
+  email: string;
+  role: UserRole;
+}
+
+// What a link is for, returned when the set-password page opens it
+export interface PasswordTokenInfo {
+  purpose: PasswordTokenPurpose;
+  email: string;
+  role?: UserRole;
+  expiresAt: string;
+}
+
+export interface SetPasswordInput {
+  password: string;
+  username?: string; // chosen by invited users
+}
+
+// Invitation links stay valid this long unless the backend says otherwise
+export const INVITATION_TTL_HOURS = 72;
+
+export class InvitationsService {
+  /**
+   * Get invitations, newest first (Admin only)
+   */
+  static async getInvitations(accessToken: string): Promise<Invitation[]> {
+    try {
+      console.log('🔍 Invitations API: Fetching invitations...');
+      const response = await HttpClient.get<{ invitations: Invitation[] }>('/admin/invitations', {}, accessToken);
+      console.log('✅ Invitations API: Retrieved invitations successfully');
+      return response.invitations || [];
+    } catch (error) {
+      console.error('❌ Invitations API: Error fetching invitations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invite a user by email; the backend emails a set-password link (Admin only)
+   */
+  static async createInvitation(data: InvitationInput, accessToken: string): Promise<Invitation> {
+    try {
+      console.log('📝 Invitations API: Inviting', data.email);
+      const response = await HttpClient.post<{ invitation: Invitation }>(
+        '/admin/invitations',
+        { ...data, expiresInHours: INVITATION_TTL_HOURS },
+        {},
+        accessToken
+      );
+      console.log('✅ Invitations API: Invitation sent');
+      return response.invitation;
+    } catch (error) {
+      console.error('❌ Invitations API: Error creating invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a fresh link; the previous one stops working (Admin only)
+   */
+  static async resendInvitation(invitationId: number, accessToken: string): Promise<Invitation> {
+    try {
+      console.log('🔄 Invitations API: Resending invitation:', invitationId);
+      const response = await HttpClient.post<{ invitation: Invitation }>(
+        `/admin/invitations/${invitationId}/resend`,
+        { expiresInHours: INVITATION_TTL_HOURS },
+        {},
+        accessToken
+      );
+      console.log('✅ Invitations API: Invitation resent');
+      return response.invitation;
+    } catch (error) {
+      console.error('❌ Invitations API: Error resending invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a pending invitation so its link no longer works (Admin only)
+   */
+  static async revokeInvitation(invitationId: number, accessToken: string): Promise<{ message: string }> {
+    try {
+      console.log('🗑️ Invitations API: Revoking invitation:', invitationId);
+      const response = await HttpClient.delete<{ message: string }>(`/admin/invitations/${invitationId}`, {}, accessToken);
+      console.log('✅ Invitations API: Invitation revoked');
+      return response;
+    } catch (error) {
+      console.error('❌ Invitations API: Error revoking invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Email a user a password reset link instead of choosing a password for them (Admin only)
+   */
+  static async sendPasswordReset(userId: number, accessToken: string): Promise<{ message: string; expiresAt: string }> {
+    try {
+      console.log('📝 Invitations API: Sending password reset link to user:', userId);
+      const response = await HttpClient.post<{ message: string; expiresAt: string }>(
+        `/admin/users/${userId}/password-reset`,
+        {},
+        {},
+        accessToken
+      );
+      console.log('✅ Invitations API: Password reset link sent');
+      return response;
+    } catch (error) {
+      console.error('❌ Invitations API: Error sending password reset link:', error);
+      throw error;
+    }
+  }
+}
+
+export class PasswordResetService {
+  /**
+   * Ask for a reset link. The backend answers the same way whether or not the
+   * email exists, so the response never reveals which accounts are registered.
+   */
+  static async requestReset(email: string): Promise<{ message: string }> {
+    try {
+      console.log('📝 Password Reset API: Requesting reset link...');
+      const response = await HttpClient.post<{ message: string }>('/auth/forgot-password', { email });
+      console.log('✅ Password Reset API: Reset request accepted');
+      return response;
+    } catch (error) {
+      console.error('❌ Password Reset API: Error requesting reset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that a link is still valid before showing the form
+   */
+  static async validateToken(token: string): Promise<PasswordTokenInfo> {
+    try {
+      console.log('🔍 Password Reset API: Validating link...');
+      const response = await HttpClient.get<{ token: PasswordTokenInfo }>(`/auth/password-tokens/${encodeURIComponent(token)}`);
+      console.log('✅ Password Reset API: Link is valid');
+      return response.token;
+    } catch (error) {
+      console.error('❌ Password Reset API: Invalid or expired link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the password and use up the link. Accepting an invitation also creates the account.
+   */
+  static async setPassword(token: string, data: SetPasswordInput): Promise<{ message: string; email: string }> {
+    try {
+      console.log('🔄 Password Reset API: Setting password...');
+      const response = await HttpClient.post<{ message: string; email: string }>(
+        `/auth/password-tokens/${encodeURIComponent(token)}`,
+        data
+      );
+      console.log('✅ Password Reset API: Password set');
+      return response;
+    } catch (error) {
+      console.error('❌ Password Reset API: Error setting password:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Active Sessions API Service
+ *
+ * Every login creates a session on the backend, tied to the refresh token
+ * cookie it issued. Revoking a session deletes that refresh token, so the
+ * device cannot call /auth/refresh again, and the backend rejects access
+ * tokens that carry the revoked session id.
+ *
+ * Each revoke endpoint writes its own audit entry (acting user, target user,
+ * revoked sessions) before the tokens are invalidated, so nothing is logged
+ * from the client.
+ */
+
+import { HttpClient } from './httpClient';
+import type { NetworkType } from './types';
+
+export interface ActiveSession {
+  id: string;
+  loginTime: string;
+  lastActiveAt: string;
+  ipAddress: string;
+  networkType: NetworkType | string;
+  userAgent: string;
+  isCurrent: boolean; // the session making this request
+}
+
+export interface RevokeSessionsResponse {
+  message: string;
+  revokedCount: number;
+}
+
+/**
+ * Short device label from a user agent, e.g. "Chrome on macOS"
+ */
+export function describeUserAgent(userAgent: string): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Browser';
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    'unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+export class SessionsService {
+  /**
+   * Get the signed-in user's active sessions
+   */
+  static async getMySessions(accessToken: string): Promise<ActiveSession[]> {
+    try {
+      console.log('🔍 Sessions API: Fetching active sessions...');
+      const response = await HttpClient.get<{ sessions: ActiveSession[] }>('/auth/sessions', {}, accessToken);
+      console.log('✅ Sessions API: Retrieved sessions successfully');
+      return response.sessions || [];
+    } catch (error) {
+      console.error('❌ Sessions API: Error fetching sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign out one of the signed-in user's devices
+   */
+  static async revokeMySession(sessionId: string, accessToken: string): Promise<RevokeSessionsResponse> {
+    try {
+      console.log('🗑️ Sessions API: Revoking session:', sessionId);
+      const response = await HttpClient.delete<RevokeSessionsResponse>(`/auth/sessions/${sessionId}`, {}, accessToken);
+      console.log('✅ Sessions API: Session revoked');
+      return response;
+    } catch (error) {
+      console.error('❌ Sessions API: Error revoking session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign the signed-in user out everywhere, including this device
+   */
+  static async revokeAllMySessions(accessToken: string): Promise<RevokeSessionsResponse> {
+    try {
+      console.log('🗑️ Sessions API: Revoking all sessions...');
+      const response = await HttpClient.delete<RevokeSessionsResponse>('/auth/sessions', {}, accessToken);
+      console.log(`✅ Sessions API: Revoked ${response.revokedCount} session(s)`);
+      return response;
+    } catch (error) {
+      console.error('❌ Sessions API: Error revoking all sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get any user's active sessions (Admin only)
+   */
+  static async getUserSessions(userId: number, accessToken: string): Promise<ActiveSession[]> {
+    try {
+      console.log('🔍 Sessions API: Fetching sessions for user:', userId);
+      const response = await HttpClient.get<{ sessions: ActiveSession[] }>(`/admin/users/${userId}/sessions`, {}, accessToken);
+      console.log('✅ Sessions API: Retrieved user sessions successfully');
+      return response.sessions || [];
+    } catch (error) {
+      console.error('❌ Sessions API: Error fetching user sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign out one of a user's devices (Admin only)
+   */
+  static async revokeUserSession(userId: number, sessionId: string, accessToken: string): Promise<RevokeSessionsResponse> {
+    try {
+      console.log(`🗑️ Sessions API: Revoking session ${sessionId} for user ${userId}`);
+      const response = await HttpClient.delete<RevokeSessionsResponse>(`/admin/users/${userId}/sessions/${sessionId}`, {}, accessToken);
+      console.log('✅ Sessions API: User session revoked');
+      return response;
+    } catch (error) {
+      console.error('❌ Sessions API: Error revoking user session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign a user out of every device, e.g. for a departing employee (Admin only)
+   */
+  static async revokeAllUserSessions(userId: number, accessToken: string): Promise<RevokeSessionsResponse> {
+    try {
+      console.log('🗑️ Sessions API: Revoking all sessions for user:', userId);
+      const response = await HttpClient.delete<RevokeSessionsResponse>(`/admin/users/${userId}/sessions`, {}, accessToken);
+      console.log(`✅ Sessions API: Revoked ${response.revokedCount} session(s)`);
+      return response;
+    } catch (error) {
+      console.error('❌ Sessions API: Error revoking user sessions:', error);
+      throw error;
+    }
+  }
+}
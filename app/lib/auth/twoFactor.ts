@@ -0,0 +1,248 @@
+/**
+ * Two-Factor Authentication API Service
+ *
+ * TOTP-based second factor for login. When 2FA is enabled for a user (or the
+ * admin policy requires it), /auth/login returns a short-lived challenge token
+ * instead of tokens; the challenge is completed here with an authenticator
+ * code or a one-time recovery code, which sets the refresh cookie as a normal
+ * login would.
+ *
+ * Invalid codes are reported as 400 errors so the HttpClient does not treat
+ * them as an expired session.
+ */
+
+import { HttpClient } from './httpClient';
+import { AuthApiError } from './api';
+import type {
+  LoginResponse,
+  LoginResult,
+  RecoveryCodesResponse,
+  TwoFactorChallengeResponse,
+  TwoFactorEnrollLoginResponse,
+  TwoFactorMethod,
+  TwoFactorPolicy,
+  TwoFactorSetupResponse,
+  TwoFactorStatus,
+} from './types';
+
+/**
+ * Check whether a login response is a 2FA challenge rather than a completed login
+ */
+export function isTwoFactorChallenge(response: LoginResult): response is TwoFactorChallengeResponse {
+  return (response as TwoFactorChallengeResponse).twoFactorRequired === true;
+}
+
+/**
+ * Strip spaces and dashes users paste from authenticator apps or recovery code sheets
+ */
+export function normalizeTwoFactorCode(code: string): string {
+  return code.replace(/[\s-]+/g, '').trim();
+}
+
+/**
+ * Map expired challenges to a message that tells the user to start over
+ */
+function toChallengeError(error: unknown): unknown {
+  if (error instanceof AuthApiError && (error.statusCode === 401 || error.statusCode === 410)) {
+    return new AuthApiError('Your sign-in attempt expired. Please enter your email and password again.', error.statusCode, 'TWO_FACTOR_CHALLENGE_EXPIRED');
+  }
+  return error;
+}
+
+export class TwoFactorService {
+  /**
+   * Complete a login challenge with an authenticator code or a recovery code
+   */
+  static async verifyLogin(challengeToken: string, code: string, method: TwoFactorMethod = 'totp'): Promise<LoginResponse> {
+    try {
+      console.log(`🔐 2FA: Verifying login challenge with ${method === 'recovery' ? 'recovery code' : 'authenticator code'}...`);
+      const response = await HttpClient.post<LoginResponse>('/auth/2fa/verify', {
+        challengeToken,
+        code: normalizeTwoFactorCode(code),
+        method,
+      });
+      console.log('✅ 2FA: Login challenge verified');
+      return response;
+    } catch (error) {
+      console.error('❌ 2FA: Login verification failed:', error);
+      throw toChallengeError(error);
+    }
+  }
+
+  /**
+   * Start enrollment during login, for users the policy requires to set up 2FA
+   */
+  static async startLoginEnrollment(challengeToken: string): Promise<TwoFactorSetupResponse> {
+    try {
+      console.log('🔐 2FA: Starting enrollment from login challenge...');
+      const response = await HttpClient.post<TwoFactorSetupResponse>('/auth/2fa/enroll', { challengeToken });
+      console.log('✅ 2FA: Enrollment secret received');
+      return response;
+    } catch (error) {
+      console.error('❌ 2FA: Failed to start enrollment:', error);
+      throw toChallengeError(error);
+    }
+  }
+
+  /**
+   * Confirm enrollment during login; completes the login and returns recovery codes
+   */
+  static async confirmLoginEnrollment(challengeToken: string, code: string): Promise<TwoFactorEnrollLoginResponse> {
+    try {
+      console.log('🔐 2FA: Confirming enrollment from login challenge...');
+      const response = await HttpClient.post<TwoFactorEnrollLoginResponse>('/auth/2fa/enroll/confirm', {
+        challengeToken,
+        code: normalizeTwoFactorCode(code),
+      });
+      console.log('✅ 2FA: Enrollment confirmed, login complete');
+      return response;
+    } catch (error) {
+      console.error('❌ 2FA: Failed to confirm enrollment:', error);
+      throw toChallengeError(error);
+    }
+  }
+
+  /**
+   * Get the current user's 2FA status
+   */
+  static async getStatus(accessToken: string): Promise<TwoFactorStatus> {
+    try {
+      console.log('🔍 2FA: Fetching status...');
+      const response = await HttpClient.get<{ twoFactor: TwoFactorStatus }>('/auth/2fa', {}, accessToken);
+      console.log('✅ 2FA: Status retrieved');
+      return response.twoFactor;
+    } catch (error) {
+      console.error('❌ 2FA: Error fetching status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a new secret and QR code for the signed-in user.
+   * 2FA is not enabled until the first code is confirmed.
+   */
+  static async startEnrollment(accessToken: string): Promise<TwoFactorSetupResponse> {
+    try {
+      console.log('📝 2FA: Starting enrollment...');
+      const response = await HttpClient.post<TwoFactorSetupResponse>('/auth/2fa/setup', {}, {}, accessToken);
+      console.log('✅ 2FA: Enrollment secret received');
+      return response;
+    } catch (error) {
+      console.error('❌ 2FA: Error starting enrollment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app; returns recovery codes
+   */
+  static async confirmEnrollment(code: string, accessToken: string): Promise<RecoveryCodesResponse> {
+    try {
+      console.log('📝 2FA: Confirming enrollment...');
+      const response = await HttpClient.post<RecoveryCodesResponse>(
+        '/auth/2fa/setup/confirm',
+        { code: normalizeTwoFactorCode(code) },
+        {},
+        accessToken
+      );
+      console.log('✅ 2FA: Enrollment confirmed');
+      return response;
+    } catch (error) {
+      console.error('❌ 2FA: Error confirming enrollment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace all recovery codes; requires a current authenticator code
+   */
+  static async regenerateRecoveryCodes(code: string, accessToken: string): Promise<RecoveryCodesResponse> {
+    try {
+      console.log('🔄 2FA: Regenerating recovery codes...');
+      const response = await HttpClient.post<RecoveryCodesResponse>(
+        '/auth/2fa/recovery-codes',
+        { code: normalizeTwoFactorCode(code) },
+        {},
+        accessToken
+      );
+      console.log('✅ 2FA: Recovery codes regenerated');
+      return response;
+    } catch (error) {
+      console.error('❌ 2FA: Error regenerating recovery codes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn off 2FA for the signed-in user; requires a current authenticator code.
+   * The backend refuses while the admin policy requires 2FA.
+   */
+  static async disable(code: string, accessToken: string): Promise<{ message: string }> {
+    try {
+      console.log('🗑️ 2FA: Disabling two-factor authentication...');
+      const response = await HttpClient.post<{ message: string }>(
+        '/auth/2fa/disable',
+        { code: normalizeTwoFactorCode(code) },
+        {},
+        accessToken
+      );
+      console.log('✅ 2FA: Two-factor authentication disabled');
+      return response;
+    } catch (error) {
+      console.error('❌ 2FA: Error disabling two-factor authentication:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the organisation-wide 2FA policy (Admin only)
+   */
+  static async getPolicy(accessToken: string): Promise<TwoFactorPolicy> {
+    try {
+      console.log('🔍 2FA: Fetching policy...');
+      const response = await HttpClient.get<{ policy: TwoFactorPolicy }>('/admin/security/two-factor', {}, accessToken);
+      console.log('✅ 2FA: Policy retrieved');
+      return response.policy;
+    } catch (error) {
+      console.error('❌ 2FA: Error fetching policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Require or stop requiring 2FA for every user (Admin only).
+   * Users without 2FA are asked to enroll at their next login.
+   */
+  static async updatePolicy(required: boolean, accessToken: string): Promise<TwoFactorPolicy> {
+    try {
+      console.log('🔄 2FA: Updating policy, required =', required);
+      const response = await HttpClient.put<{ policy: TwoFactorPolicy }>(
+        '/admin/security/two-factor',
+        { required },
+        {},
+        accessToken
+      );
+      console.log('✅ 2FA: Policy updated');
+      return response.policy;
+    } catch (error) {
+      console.error('❌ 2FA: Error updating policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user's authenticator and recovery codes, e.g. after a lost phone (Admin only).
+   * If the policy requires 2FA, the user enrolls again at their next login.
+   */
+  static async resetForUser(userId: number, accessToken: string): Promise<{ message: string }> {
+    try {
+      console.log('🗑️ 2FA: Resetting two-factor authentication for user:', userId);
+      const response = await HttpClient.delete<{ message: string }>(`/admin/users/${userId}/2fa`, {}, accessToken);
+      console.log('✅ 2FA: Two-factor authentication reset');
+      return response;
+    } catch (error) {
+      console.error('❌ 2FA: Error resetting two-factor authentication:', error);
+      throw error;
+    }
+  }
+}
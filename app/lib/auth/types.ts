@@ -5,8 +5,13 @@
  * the authentication system, ensuring type safety and consistency.
  */
 
-// User role enumeration matching backend
-export type UserRole = 'ADMIN' | 'USER';
+import type { RolePermission } from '../roles/api';
+
+// Built-in roles; admins can add custom roles (e.g. "CATALOG_EDITOR") in the role editor
+export type BuiltInRole = 'ADMIN' | 'USER';
+
+// User role key matching backend
+export type UserRole = BuiltInRole | (string & {});
 
 // Network type for login tracking
 export type NetworkType = 'wifi' | 'cellular' | 'ethernet' | 'unknown';
@@ -17,6 +22,7 @@ export interface User {
   username: string;
   email: string;
   role: UserRole;
+  permissions?: RolePermission[]; // resolved from the role by the backend
   createdAt: string;
   updatedAt: string;
 }
@@ -62,6 +68,53 @@ export interface LoginResponse {
   user: User;
 }
 
+// Returned by /auth/login instead of tokens when a second factor is needed.
+// `setupRequired` means the 2FA policy applies but the user has not enrolled yet.
+export interface TwoFactorChallengeResponse {
+  message: string;
+  twoFactorRequired: true;
+  setupRequired: boolean;
+  challengeToken: string;
+  expiresAt: string;
+}
+
+export type LoginResult = LoginResponse | TwoFactorChallengeResponse;
+
+// Second factor accepted at login
+export type TwoFactorMethod = 'totp' | 'recovery';
+
+// Secret and QR code for enrolling an authenticator app
+export interface TwoFactorSetupResponse {
+  message: string;
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data URL of the otpauth QR code
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enrolledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean; // enforced by the admin policy
+}
+
+export interface RecoveryCodesResponse {
+  message: string;
+  recoveryCodes: string[];
+}
+
+// Login completed by enrolling during sign-in; recovery codes are shown once
+export interface TwoFactorEnrollLoginResponse extends LoginResponse {
+  recoveryCodes: string[];
+}
+
+// Admin policy for 2FA enforcement
+export interface TwoFactorPolicy {
+  required: boolean;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
 export interface RegisterResponse {
   message: string;
   user: User;
@@ -41,6 +41,17 @@ export const API_ENDPOINTS = {
     RESET_PASSWORD: (id: number) => `/admin/users/${id}/reset-password`,
   },
   
+  // Roles
+  ROLES: {
+    LIST: '/roles',
+    BY_ID: (id: number) => `/roles/${id}`,
+  },
+  ACCESS_TEMPLATES: {
+    LIST: '/access-templates',
+    BY_ID: (id: number) => `/access-templates/${id}`,
+    ASSIGNMENTS: (id: number) => `/access-templates/${id}/assignments`,
+  },
+  
   // Brands
   BRANDS: {
     LIST: '/brands',
@@ -87,11 +98,51 @@ export const API_ENDPOINTS = {
   INVENTORY: {
     LIST: '/inventory',
     BY_ID: (id: number) => `/inventory/${id}`,
+    MOVEMENTS: (id: number) => `/inventory/${id}/movements`,
     STATUS: '/inventory/status',
     CANCEL: (jobId: string) => `/inventory/cancel/${jobId}`,
     BULK_UPDATE: '/inventory/bulk/inventory/updates',
   },
   
+  // Warehouses
+  WAREHOUSES: {
+    LIST: '/warehouses',
+    BY_ID: (id: number) => `/warehouses/${id}`,
+    TRANSFERS: '/warehouses/transfers',
+  },
+  
+  // Sales channels
+  CHANNELS: {
+    LIST: '/channels',
+    BY_ID: (id: number) => `/channels/${id}`,
+    TEST: '/channels/test',
+    TEST_BY_ID: (id: number) => `/channels/${id}/test`,
+    SYNC: (id: number) => `/channels/${id}/sync`,
+  },
+  
+  // Orders
+  ORDERS: {
+    LIST: '/orders',
+    BY_ID: (id: number) => `/orders/${id}`,
+    UPDATE_STATUS: (id: number) => `/orders/${id}/status`,
+    STATS: '/orders/stats',
+    IMPORT: '/orders/import',
+    IMPORT_UNMATCHED: (jobId: string) => `/orders/import/${jobId}/unmatched`,
+    STATUS: '/orders/status',
+    CANCEL: (jobId: string) => `/orders/cancel/${jobId}`,
+  },
+  
+  // Audit log
+  AUDIT_LOGS: {
+    LIST: '/audit-logs',
+    VERIFY: '/audit-logs/verify',
+    RETENTION_POLICIES: '/audit-logs/retention/policies',
+    RETENTION_POLICY: (logType: string) => `/audit-logs/retention/policies/${logType}`,
+    RETENTION_NOTIFICATIONS: '/audit-logs/retention/notifications',
+    RETENTION_ARCHIVES: '/audit-logs/retention/archives',
+    RETENTION_PURGE: '/audit-logs/retention/purge',
+  },
+  
   // Settings
   SETTINGS: {
     LIST: '/settings',
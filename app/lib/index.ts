@@ -88,8 +88,14 @@ export {
   withAuth,
   AdminRoute,
   useCanAccess,
+  TwoFactorService,
+  isTwoFactorChallenge,
+  SessionsService,
+  describeUserAgent,
 } from './auth';
 
+export type { ActiveSession } from './auth';
+
 export type {
   User,
   UserProfile,
@@ -99,6 +105,10 @@ export type {
   LoginRequest,
   RegisterRequest,
   LoginResponse,
+  LoginResult,
+  TwoFactorChallengeResponse,
+  TwoFactorStatus,
+  TwoFactorPolicy,
   RegisterResponse,
   ProfileResponse,
   RefreshResponse,
@@ -132,6 +142,19 @@ export type {
   UpdateRoleRequest,
 } from './admin/types';
 
+// ============================================================================
+// Roles
+// ============================================================================
+export {
+  RolesService,
+  ROLE_PERMISSION_GROUPS,
+  ALL_ROLE_PERMISSIONS,
+  ROLE_TEMPLATES,
+  DEFAULT_USER_PERMISSIONS,
+  roleHasPermission,
+} from './roles';
+export type { Role, RoleInput, RolePermission } from './roles';
+
 // ============================================================================
 // Brands
 // ============================================================================
@@ -166,6 +189,52 @@ export type {
   ProductsResponse,
   ProductsFilters,
 } from './products/api';
+export {
+  ProductImportMappingsService,
+  PRODUCT_IMPORT_FIELDS,
+  suggestProductImportMapping,
+  buildProductImportPreview,
+  buildProductImportDiff,
+  buildProductImportUpdate,
+  PRODUCT_IMPORT_MODE_LABELS,
+} from './products/import';
+export type {
+  ProductImportField,
+  ProductImportMapping,
+  SavedProductImportMapping,
+  ProductImportPreviewRow,
+  ProductImportMode,
+  ProductImportDiffRow,
+  ProductImportPlan,
+} from './products/import';
+export {
+  AttributeSchemasService,
+  ATTRIBUTE_FIELD_TYPE_LABELS,
+  resolveAttributeSchema,
+  validateAttributes,
+  normalizeAttributeValue,
+} from './products/attribute-schemas';
+export type {
+  AttributeFieldType,
+  AttributeSchemaField,
+  AttributeSchema,
+  AttributeSchemaInput,
+} from './products/attribute-schemas';
+export {
+  ProductVariantsService,
+  VARIANT_PRICE_FIELDS,
+  buildVariantMatrix,
+  mergeVariantMatrix,
+  getProductSubSkus,
+  getVariantPrice,
+  toListingComponents,
+} from './products/variants';
+export type {
+  VariantOptionAxis,
+  ProductVariant,
+  ProductVariantInput,
+  ProductVariantSet,
+} from './products/variants';
 
 // ============================================================================
 // Listings
@@ -173,12 +242,30 @@ export type {
 export { ListingsService } from './listings/api';
 export type {
   Listing,
+  ListingComponent,
   ListingsResponse,
   ListingsFilters,
   ImageTemplateData,
   ImageTemplateResponse,
   BulkImageUploadResponse,
 } from './listings/api';
+export {
+  ListingBundlesService,
+  BUNDLE_PRICING_LABELS,
+  BUNDLE_SKU_TOKENS,
+  DEFAULT_BUNDLE_SKU_PATTERN,
+  buildBundleSku,
+  calculateBundlePrices,
+  toBundleListingComponents,
+  findDuplicateBundle,
+} from './listings/bundles';
+export type {
+  BundleComponent,
+  BundlePricingMode,
+  BundlePricingRule,
+  BundlePrices,
+  ListingBundle,
+} from './listings/bundles';
 
 // ============================================================================
 // Inventory
@@ -187,11 +274,80 @@ export { InventoryService } from './inventory/api';
 export type {
   InventoryItem,
   InventoryResponse,
+  InventoryFilters,
+  InventoryStatsResponse,
   UpdateInventoryRequest,
+  InventoryMovement,
+  InventoryMovementFilters,
+  InventoryMovementsResponse,
   BulkUpdateInventoryRequest,
   BulkUpdateInventoryResponse,
   BulkUpdateInventoryJobResponse,
 } from './inventory/api';
+export { getItemStockStatus, buildReorderSuggestions } from './inventory/stock-levels';
+export type { StockStatus, BrandReorderGroup } from './inventory/stock-levels';
+
+// ============================================================================
+// Warehouses
+// ============================================================================
+export { WarehousesService, getWarehouseQuantity } from './warehouses';
+export type {
+  Warehouse,
+  WarehouseInput,
+  WarehouseStock,
+  StockTransferRequest,
+  StockTransferResponse,
+} from './warehouses';
+
+// ============================================================================
+// Orders
+// ============================================================================
+export { OrdersService, ORDER_STATUSES, ORDER_IMPORT_LAYOUTS, ORDER_IMPORT_FIELDS, matchOrderImportColumns } from './orders/api';
+export type {
+  Order,
+  OrderLine,
+  OrderStatus,
+  OrdersResponse,
+  OrdersFilters,
+  OrderStatsResponse,
+  UpdateOrderStatusRequest,
+  OrderImportMarketplace,
+  OrderImportColumnMapping,
+  UnmatchedOrderRow,
+  ImportOrdersResponse,
+  ImportOrdersJobResponse,
+} from './orders/api';
+
+// ============================================================================
+// Sales Channels
+// ============================================================================
+export { SalesChannelsService, CHANNEL_CREDENTIAL_FIELDS } from './sales-channels';
+export type {
+  SalesChannel,
+  SalesChannelInput,
+  ChannelCredentialField,
+  ChannelTestResult,
+} from './sales-channels';
+
+// ============================================================================
+// Reports
+// ============================================================================
+export { ReportsService } from './reports';
+export type {
+  MarginReportResponse,
+  BelowCostReportResponse,
+  CatalogHealthReportResponse,
+  DateRange,
+  MarginGroupRow,
+  BelowCostRow,
+  CatalogHealthRow,
+} from './reports';
+
+// ============================================================================
+// Pricing
+// ============================================================================
+export { PricingService, calculatePrice, resolvePricingRule, buildRepricePreview } from './pricing';
+export type { PriceCalculation, RepriceRow, RepriceResult } from './pricing';
 
 // ============================================================================
 // Status
@@ -205,6 +361,8 @@ export type { StatusResponse } from './status/api';
 export { 
   getSettings, 
   updateSettings, 
+  updatePricingRules,
+  updateBundleSkuPattern,
   getBrands, 
   updateBrandMapping 
 } from './settings/api';
@@ -212,6 +370,9 @@ export {
 export type {
   Setting,
   InventoryConfig,
+  InventoryThreshold,
+  PricingRule,
+  PriceRounding,
   SettingsResponse,
   BrandMapping,
   BrandsResponse,
@@ -225,15 +386,26 @@ export { useAuthStore } from './stores/authStore';
 export { useAdminStore } from './stores/adminStore';
 export { usePermissionsStore } from './stores/permissionsStore';
 export { useUsersStore } from './stores/usersStore';
-export { useActivityStore } from './stores/activityStore';
 export { useRetentionStore } from './stores/retentionStore';
 export { useSalesChannelsStore } from './stores/salesChannelsStore';
 export { useWarehousesStore } from './stores/warehousesStore';
 
 // ============================================================================
-// Activity Logger
+// Audit Log
 // ============================================================================
-export { activityLogger } from './activity-logger';
+export { AuditLogService, LogRetentionService, verifyAuditPage } from './audit-log';
+export { logRetentionManager } from './log-retention';
+export type {
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogResponse,
+  AuditChainVerification,
+  AuditEntityRef,
+  FieldChange,
+  LogRetentionPolicy,
+  RetentionArchive,
+  RetentionNotification,
+} from './audit-log';
 
 // ============================================================================
 // Access Control
@@ -242,5 +414,19 @@ export {
   AccessControlService,
   AccessControlUtils,
   AccessControlApiError,
+  AccessScopeProvider,
+  useAccessScope,
+  findAccessViolations,
+  resolveBrandsBySku,
+  AccessTemplatesService,
+  diffTemplateAccess,
+  applyAccessChanges,
+} from './access-control';
+
+export type {
+  AccessScope,
+  AccessRowViolation,
+  AccessTemplate,
+  AccessChange,
 } from './access-control';
 
@@ -1,6 +1,7 @@
 import { HttpClient } from '../auth/httpClient';
 import { API_CONFIG } from '../config/api.config';
 import type { Brand } from '../types/common.types';
+import type { WarehouseStock } from '../warehouses/api';
 
 export interface Listing {
   id: number;
@@ -13,7 +14,15 @@ export interface InventoryItem {
   listingId: number;
   brandId: number;
   subSku: string;
-  quantity: number;
+  variantId: number | null; // null for products without variants
+  variant?: {
+    id: number;
+    productId: number;
+    subSku: string;
+    options: Record<string, string>;
+  } | null;
+  quantity: number; // total across all warehouses
+  warehouseStock?: WarehouseStock[];
   eta: string | null;
   createdAt: string;
   updatedAt: string;
@@ -33,6 +42,7 @@ export interface Pagination {
 export interface InventoryResponse {
   inventory: InventoryItem[];
   totalItems: number;
+  pagination?: Pagination;
   userAccess?: {
     userId: number;
     role: string;
@@ -41,11 +51,87 @@ export interface InventoryResponse {
   timestamp: string;
 }
 
+// Counts over every item the user can access; low/out use the same
+// server-side thresholds as the stockStatus filter
+export interface InventoryStatsResponse {
+  totalItems: number;
+  totalUnits: number;
+  lowStock: number;
+  outOfStock: number;
+  timestamp: string;
+}
+
+export interface InventoryFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  brandId?: number;
+  warehouseId?: number; // items with stock in this warehouse
+  minQuantity?: number;
+  maxQuantity?: number;
+  etaFrom?: string; // YYYY-MM-DD, inclusive
+  etaTo?: string;   // YYYY-MM-DD, inclusive
+  stockStatus?: 'out' | 'low' | 'over'; // evaluated server-side against inventoryConfig thresholds
+  sortBy?: 'subSku' | 'quantity' | 'eta' | 'createdAt' | 'updatedAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
 export interface UpdateInventoryRequest {
   quantity?: number;
+  warehouseStock?: WarehouseStock[]; // per-warehouse quantities; the total becomes their sum
   eta?: string | null;
+  reason?: string; // stored on the ledger entry for manual edits
+}
+
+export type InventoryMovementSource = 'manual' | 'bulk_file' | 'bulk_json' | 'order' | 'transfer';
+
+// One ledger entry, written by the backend whenever quantity or eta changes
+export interface InventoryMovement {
+  id: number;
+  inventoryId: number;
+  subSku: string;
+  previousQuantity: number;
+  newQuantity: number;
+  change: number;
+  previousEta: string | null;
+  newEta: string | null;
+  source: InventoryMovementSource;
+  warehouseId: number | null;   // set when one warehouse changed; quantities are then that warehouse's
+  warehouseName: string | null;
+  jobId: string | null;   // bulk updates
+  orderId: number | null; // order deductions
+  orderNumber: string | null;
+  reason: string | null;
+  user: {
+    id: number;
+    email: string;
+    username?: string;
+  } | null;
+  createdAt: string;
+}
+
+export interface InventoryMovementFilters {
+  page?: number;
+  limit?: number;
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string;   // YYYY-MM-DD, inclusive
+  source?: InventoryMovementSource;
 }
 
+export interface InventoryMovementsResponse {
+  movements: InventoryMovement[];
+  pagination: Pagination;
+  timestamp: string;
+}
+
+export const INVENTORY_MOVEMENT_SOURCE_LABELS: Record<InventoryMovementSource, string> = {
+  manual: 'Manual edit',
+  bulk_file: 'Bulk file',
+  bulk_json: 'Bulk update',
+  order: 'Order deduction',
+  transfer: 'Warehouse transfer',
+};
+
 export interface BulkUpdateInventoryRequest {
   inventoryData: Array<{
     subSku: string;
@@ -88,12 +174,33 @@ export interface BulkUpdateInventoryJobResponse {
 
 export class InventoryService {
   /**
-   * Get all inventory items (based on user access)
+   * Get inventory items (based on user access).
+   * Without a page the backend returns every item the user can access.
    */
-  static async getInventory(accessToken: string): Promise<InventoryResponse> {
+  static async getInventory(
+    accessToken: string,
+    filters: InventoryFilters = {}
+  ): Promise<InventoryResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+    if (filters.search) params.append('search', filters.search);
+    if (filters.brandId) params.append('brandId', filters.brandId.toString());
+    if (filters.warehouseId) params.append('warehouseId', filters.warehouseId.toString());
+    if (filters.minQuantity !== undefined) params.append('minQuantity', filters.minQuantity.toString());
+    if (filters.maxQuantity !== undefined) params.append('maxQuantity', filters.maxQuantity.toString());
+    if (filters.etaFrom) params.append('etaFrom', filters.etaFrom);
+    if (filters.etaTo) params.append('etaTo', filters.etaTo);
+    if (filters.stockStatus) params.append('stockStatus', filters.stockStatus);
+    if (filters.sortBy) params.append('sortBy', filters.sortBy);
+    if (filters.sortOrder) params.append('sortOrder', filters.sortOrder);
+
+    const endpoint = `/inventory${params.toString() ? `?${params.toString()}` : ''}`;
+
     try {
-      console.log('🔍 Inventory API: Fetching inventory...');
-      const response = await HttpClient.get<InventoryResponse>('/inventory', {}, accessToken);
+      console.log('🔍 Inventory API: Fetching inventory...', endpoint);
+      const response = await HttpClient.get<InventoryResponse>(endpoint, {}, accessToken);
       console.log('✅ Inventory API: Retrieved inventory successfully');
       return response;
     } catch (error) {
@@ -102,6 +209,59 @@ export class InventoryService {
     }
   }
 
+  /**
+   * Brand of each sub-SKU, in one request for many sub-SKUs.
+   * Sub-SKUs that do not exist or are outside the user's access are left out.
+   */
+  static async getBrandsBySubSku(accessToken: string, subSkus: string[]): Promise<Record<string, string>> {
+    const params = new URLSearchParams({ subSkus: subSkus.join(',') });
+
+    try {
+      console.log(`🔍 Inventory API: Looking up brands for ${subSkus.length} sub-SKU(s)...`);
+      const response = await HttpClient.get<{ brands: Record<string, string> }>(`/inventory/brands?${params.toString()}`, {}, accessToken);
+      return response.brands || {};
+    } catch (error) {
+      console.error('❌ Inventory API: Error looking up brands by sub-SKU:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get inventory totals (items, units, low and out of stock) for dashboards
+   */
+  static async getInventoryStats(accessToken: string): Promise<InventoryStatsResponse> {
+    try {
+      console.log('🔍 Inventory API: Fetching inventory stats...');
+      const response = await HttpClient.get<InventoryStatsResponse>('/inventory/stats', {}, accessToken);
+      console.log('✅ Inventory API: Retrieved inventory stats successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Inventory API: Error fetching inventory stats:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load every inventory item matching the filters, page by page
+   */
+  static async getAllInventory(
+    accessToken: string,
+    filters: Omit<InventoryFilters, 'page' | 'limit'> = {}
+  ): Promise<InventoryItem[]> {
+    const items: InventoryItem[] = [];
+    let page = 1;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const response = await this.getInventory(accessToken, { ...filters, page, limit: 500 });
+      items.push(...(response.inventory || []));
+      hasNextPage = !!response.pagination?.hasNextPage;
+      page++;
+    }
+
+    return items;
+  }
+
   /**
    * Update a single inventory item
    */
@@ -126,6 +286,35 @@ export class InventoryService {
     }
   }
 
+  /**
+   * Get the movement ledger for one inventory item, newest first
+   */
+  static async getInventoryMovements(
+    accessToken: string,
+    inventoryId: number,
+    filters: InventoryMovementFilters = {}
+  ): Promise<InventoryMovementsResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+    if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
+    if (filters.dateTo) params.append('dateTo', filters.dateTo);
+    if (filters.source) params.append('source', filters.source);
+
+    const endpoint = `/inventory/${inventoryId}/movements${params.toString() ? `?${params.toString()}` : ''}`;
+
+    try {
+      console.log('📜 Inventory API: Fetching movements...', endpoint);
+      const response = await HttpClient.get<InventoryMovementsResponse>(endpoint, {}, accessToken);
+      console.log('✅ Inventory API: Retrieved movements successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Inventory API: Error fetching movements:', error);
+      throw error;
+    }
+  }
+
   /**
    * Bulk update inventory - JSON format
    */
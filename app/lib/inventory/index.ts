@@ -5,16 +5,41 @@
  */
 
 // Core inventory service
-export { InventoryService } from './api';
+export { InventoryService, INVENTORY_MOVEMENT_SOURCE_LABELS } from './api';
 
 // TypeScript types and interfaces
 export type {
   Listing,
   InventoryItem,
   InventoryResponse,
+  InventoryFilters,
+  InventoryStatsResponse,
   UpdateInventoryRequest,
+  InventoryMovement,
+  InventoryMovementSource,
+  InventoryMovementFilters,
+  InventoryMovementsResponse,
   BulkUpdateInventoryRequest,
   BulkUpdateInventoryResponse,
   BulkUpdateInventoryJobResponse,
 } from './api';
 
+
+// Stock levels, thresholds and reorder suggestions
+export {
+  STOCK_STATUS_LABELS,
+  PURCHASE_ORDER_HEADERS,
+  resolveThreshold,
+  getStockStatus,
+  getItemStockStatus,
+  buildReorderSuggestions,
+  toPurchaseOrderRows,
+} from './stock-levels';
+
+export type {
+  StockStatus,
+  ThresholdSource,
+  ResolvedThreshold,
+  ReorderSuggestion,
+  BrandReorderGroup,
+} from './stock-levels';
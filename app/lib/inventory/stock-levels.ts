@@ -0,0 +1,162 @@
+/**
+ * Stock Levels
+ *
+ * Pure functions that compare inventory quantities with the thresholds in
+ * Setting.inventoryConfig. Thresholds resolve most-specific first:
+ *
+ *   sub-SKU override -> brand override -> global minValue / maxValue
+ *
+ * Reorder suggestions top an item up to its max (or its min when no max is set).
+ */
+
+import type { InventoryItem } from './api';
+import type { InventoryConfig } from '../settings/api';
+
+export type StockStatus = 'out' | 'low' | 'ok' | 'over';
+
+export type ThresholdSource = 'sku' | 'brand' | 'global';
+
+export interface ResolvedThreshold {
+  minValue: number;
+  maxValue: number | null;
+  minSource: ThresholdSource;
+  maxSource: ThresholdSource;
+}
+
+export interface ReorderSuggestion {
+  inventoryId: number;
+  subSku: string;
+  listingSku: string;
+  title: string;
+  quantity: number;
+  minValue: number;
+  maxValue: number | null;
+  reorderQuantity: number;
+  eta: string | null;
+}
+
+export interface BrandReorderGroup {
+  brandId: number;
+  brandName: string;
+  totalUnits: number;
+  suggestions: ReorderSuggestion[];
+}
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  out: 'Out of stock',
+  low: 'Low stock',
+  ok: 'In stock',
+  over: 'Overstocked',
+};
+
+const isSet = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined && !isNaN(value);
+
+/**
+ * Resolve the min/max thresholds that apply to one inventory item
+ */
+export function resolveThreshold(
+  config: InventoryConfig,
+  item: Pick<InventoryItem, 'brandId' | 'subSku'>
+): ResolvedThreshold {
+  const skuOverride = config.skuOverrides?.[item.subSku];
+  const brandOverride = config.brandOverrides?.[String(item.brandId)];
+
+  let minValue = config.minValue;
+  let minSource: ThresholdSource = 'global';
+  if (isSet(skuOverride?.minValue)) {
+    minValue = skuOverride.minValue;
+    minSource = 'sku';
+  } else if (isSet(brandOverride?.minValue)) {
+    minValue = brandOverride.minValue;
+    minSource = 'brand';
+  }
+
+  let maxValue = isSet(config.maxValue) ? config.maxValue : null;
+  let maxSource: ThresholdSource = 'global';
+  if (isSet(skuOverride?.maxValue)) {
+    maxValue = skuOverride.maxValue;
+    maxSource = 'sku';
+  } else if (isSet(brandOverride?.maxValue)) {
+    maxValue = brandOverride.maxValue;
+    maxSource = 'brand';
+  }
+
+  return { minValue, maxValue, minSource, maxSource };
+}
+
+/**
+ * Classify a quantity against its thresholds
+ */
+export function getStockStatus(quantity: number, threshold: Pick<ResolvedThreshold, 'minValue' | 'maxValue'>): StockStatus {
+  if (quantity <= 0) return 'out';
+  if (quantity < threshold.minValue) return 'low';
+  if (threshold.maxValue !== null && quantity > threshold.maxValue) return 'over';
+  return 'ok';
+}
+
+export const getItemStockStatus = (config: InventoryConfig, item: InventoryItem): StockStatus =>
+  getStockStatus(item.quantity, resolveThreshold(config, item));
+
+/**
+ * Items below their minimum (including out of stock), grouped by brand,
+ * with the quantity needed to reach the target level
+ */
+export function buildReorderSuggestions(items: InventoryItem[], config: InventoryConfig): BrandReorderGroup[] {
+  const groups = new Map<number, BrandReorderGroup>();
+
+  items.forEach(item => {
+    const threshold = resolveThreshold(config, item);
+    const status = getStockStatus(item.quantity, threshold);
+    if (status !== 'low' && status !== 'out') return;
+
+    const target = threshold.maxValue ?? threshold.minValue;
+    const reorderQuantity = Math.max(0, Math.ceil(target - Math.max(0, item.quantity)));
+    if (reorderQuantity === 0) return;
+
+    const group = groups.get(item.brandId) || {
+      brandId: item.brandId,
+      brandName: item.brand?.name || `Brand #${item.brandId}`,
+      totalUnits: 0,
+      suggestions: [],
+    };
+
+    group.suggestions.push({
+      inventoryId: item.id,
+      subSku: item.subSku,
+      listingSku: item.listing?.sku || '',
+      title: item.listing?.title || '',
+      quantity: item.quantity,
+      minValue: threshold.minValue,
+      maxValue: threshold.maxValue,
+      reorderQuantity,
+      eta: item.eta,
+    });
+    group.totalUnits += reorderQuantity;
+    groups.set(item.brandId, group);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, suggestions: group.suggestions.sort((a, b) => a.subSku.localeCompare(b.subSku)) }))
+    .sort((a, b) => a.brandName.localeCompare(b.brandName));
+}
+
+export const PURCHASE_ORDER_HEADERS = [
+  'Brand', 'Sub SKU', 'Listing SKU', 'Title', 'On Hand', 'Min', 'Max', 'Order Quantity', 'ETA'
+];
+
+/**
+ * Purchase-order rows for one brand, in PURCHASE_ORDER_HEADERS order
+ */
+export const toPurchaseOrderRows = (group: BrandReorderGroup) =>
+  group.suggestions.map(suggestion => [
+    group.brandName,
+    suggestion.subSku,
+    suggestion.listingSku,
+    suggestion.title,
+    suggestion.quantity,
+    suggestion.minValue,
+    suggestion.maxValue ?? '',
+    suggestion.reorderQuantity,
+    suggestion.eta || '',
+  ]);
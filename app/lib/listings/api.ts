@@ -4,6 +4,16 @@ import type { Brand, Pagination } from '../types/common.types';
 // Re-export types for external use
 export type { Brand, Pagination } from '../types/common.types';
 
+/**
+ * One product or variant a listing sells, with how many units go in it
+ */
+export interface ListingComponent {
+  productId: number | null;
+  variantId: number | null; // null for products without variants
+  subSku: string;
+  quantity: number;
+}
+
 export interface Listing {
   id: number;
   productId: number;
@@ -27,6 +37,7 @@ export interface Listing {
   mainImageUrl: string | null;
   galleryImages: string[] | null;
   productCounts: Record<string, number> | null;
+  components?: ListingComponent[] | null; // explicit references; subSku is kept for older listings
   attributes: Record<string, any>;
   quantity?: number;
   status?: string;
@@ -170,6 +181,19 @@ export class ListingsService {
     return response;
   }
 
+  /**
+   * Brand of each listing SKU, in one request for many SKUs.
+   * SKUs that do not exist or are outside the user's access are left out.
+   */
+  static async getBrandsBySku(accessToken: string, skus: string[]): Promise<Record<string, string>> {
+    const params = new URLSearchParams({ skus: skus.join(',') });
+
+    console.log(`🔍 Listings API: Looking up brands for ${skus.length} SKU(s)...`);
+    const response = await HttpClient.get<{ brands: Record<string, string> }>(`/listings/brands?${params.toString()}`, {}, accessToken);
+
+    return response.brands || {};
+  }
+
   /**
    * Create a new listing
    */
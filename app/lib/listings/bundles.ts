@@ -0,0 +1,214 @@
+/**
+ * Listing Bundles
+ *
+ * A bundle is a single listing that sells several products or variants
+ * together, each with its own quantity (e.g. 1 table + 4 chairs). The bundle
+ * price follows a pricing rule and its SKU comes from the naming pattern in
+ * settings. A bundle is identified by its components, so the same set cannot
+ * be listed twice under different SKUs.
+ */
+
+import { ListingsService, type Listing, type ListingComponent } from './api';
+import type { Product } from '../products/api';
+import { getVariantPrice, toListingComponents, type ProductVariant, type VariantPriceField } from '../products/variants';
+
+export interface BundleComponent {
+  product: Product;
+  variant: ProductVariant | null; // null for products without variants
+  subSkus: string[]; // what one unit ships as: the variant's sub-SKU, or every legacy sub-SKU of the product
+  quantity: number;
+}
+
+export type BundlePricingMode = 'sum' | 'discount' | 'fixed';
+
+export interface BundlePricingRule {
+  mode: BundlePricingMode;
+  discountPercent: number; // 'discount' only, off the summed e-commerce price
+  fixedPrice: number; // 'fixed' only, the bundle's e-commerce price
+}
+
+export const BUNDLE_PRICING_LABELS: Record<BundlePricingMode, string> = {
+  sum: 'Sum of components',
+  discount: 'Discount %',
+  fixed: 'Fixed price',
+};
+
+export const DEFAULT_BUNDLE_PRICING: BundlePricingRule = { mode: 'sum', discountPercent: 0, fixedPrice: 0 };
+
+export const BUNDLE_SKU_TOKENS: Array<{ token: string; description: string }> = [
+  { token: '{groupSkus}', description: 'Group SKUs of the bundled products, joined with dashes' },
+  { token: '{first}', description: 'Group SKU of the first component' },
+  { token: '{skus}', description: 'Sub-SKU of each component, with X and the quantity when more than one' },
+  { token: '{brand}', description: 'Brand name of the first component' },
+  { token: '{count}', description: 'Number of different components' },
+  { token: '{units}', description: 'Total number of units' },
+];
+
+export const DEFAULT_BUNDLE_SKU_PATTERN = '{groupSkus}-SET{units}';
+
+export type BundlePrices = Record<
+  | 'brandRealPrice'
+  | 'brandMiscellaneous'
+  | 'msrp'
+  | 'shippingPrice'
+  | 'commissionPrice'
+  | 'profitMarginPrice'
+  | 'ecommerceMiscellaneous'
+  | 'ecommercePrice',
+  number
+>;
+
+export interface ListingBundle {
+  sku: string;
+  components: BundleComponent[];
+  pricing: BundlePricingRule;
+  prices: BundlePrices;
+}
+
+type ProductPriceField = Exclude<keyof BundlePrices, VariantPriceField>;
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+
+/**
+ * Check a SKU pattern before it is saved or used
+ *
+ * @returns an error message, or null when the pattern is usable
+ */
+export function validateBundleSkuPattern(pattern: string): string | null {
+  if (!pattern.trim()) return 'SKU pattern is required';
+  const tokens = pattern.match(/\{[^}]*\}/g) || [];
+  const unknown = tokens.find(token => !BUNDLE_SKU_TOKENS.some(known => known.token === token));
+  if (unknown) return `Unknown token ${unknown}`;
+  if (tokens.length === 0) return 'SKU pattern needs at least one token, otherwise every bundle gets the same SKU';
+  return null;
+}
+
+/**
+ * SKU for a bundle from the naming pattern, cleaned up to the characters
+ * listing SKUs allow (A-Z, 0-9 and dashes)
+ */
+export function buildBundleSku(
+  pattern: string,
+  components: Array<Pick<BundleComponent, 'subSkus' | 'quantity'> & { product: { groupSku: string; brand?: { name: string } | null } }>
+): string {
+  const values: Record<string, string> = {
+    '{groupSkus}': unique(components.map(component => component.product.groupSku || '')).join('-'),
+    '{first}': components[0]?.product.groupSku || '',
+    '{skus}': components
+      .map(component => component.subSkus.join('-') + (component.quantity > 1 ? `X${component.quantity}` : ''))
+      .join('-'),
+    '{brand}': components[0]?.product.brand?.name || '',
+    '{count}': String(components.length),
+    '{units}': String(components.reduce((sum, component) => sum + component.quantity, 0)),
+  };
+
+  return (pattern || DEFAULT_BUNDLE_SKU_PATTERN)
+    .replace(/\{[^}]*\}/g, token => values[token] ?? '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Bundle prices: every price is the sum over the components times their
+ * quantity, then the rule sets the e-commerce price. MSRP stays the summed
+ * value so the saving shows against it.
+ */
+export function calculateBundlePrices(components: BundleComponent[], rule: BundlePricingRule): BundlePrices {
+  const sumVariantField = (field: VariantPriceField) =>
+    components.reduce((sum, component) => sum + getVariantPrice(component.product, component.variant, field) * component.quantity, 0);
+  const sumProductField = (field: ProductPriceField) =>
+    components.reduce((sum, component) => sum + (Number(component.product[field]) || 0) * component.quantity, 0);
+
+  const summedEcommerce = sumVariantField('ecommercePrice');
+  let ecommercePrice = summedEcommerce;
+  if (rule.mode === 'discount') {
+    ecommercePrice = summedEcommerce * (1 - Math.min(Math.max(rule.discountPercent, 0), 100) / 100);
+  } else if (rule.mode === 'fixed') {
+    ecommercePrice = Math.max(rule.fixedPrice, 0);
+  }
+
+  return {
+    brandRealPrice: roundPrice(sumVariantField('brandRealPrice')),
+    brandMiscellaneous: roundPrice(sumProductField('brandMiscellaneous')),
+    msrp: roundPrice(sumVariantField('msrp')),
+    shippingPrice: roundPrice(sumVariantField('shippingPrice')),
+    commissionPrice: roundPrice(sumProductField('commissionPrice')),
+    profitMarginPrice: roundPrice(sumProductField('profitMarginPrice')),
+    ecommerceMiscellaneous: roundPrice(sumProductField('ecommerceMiscellaneous')),
+    ecommercePrice: roundPrice(ecommercePrice),
+  };
+}
+
+/**
+ * Listing components of a bundle, one per sub-SKU
+ */
+export function toBundleListingComponents(components: BundleComponent[]): ListingComponent[] {
+  return toListingComponents(components.flatMap(component =>
+    component.subSkus.map(sku => ({
+      sku,
+      quantity: component.quantity,
+      productId: component.product.id,
+      variantId: component.variant?.id ?? null,
+    }))
+  ));
+}
+
+/**
+ * Identity of a bundle: its sub-SKUs and quantities, independent of order and case
+ */
+export function bundleComponentKey(components: Array<Pick<ListingComponent, 'subSku' | 'quantity'>>): string {
+  const quantities = new Map<string, number>();
+  components.forEach(component => {
+    const sku = component.subSku.trim().toLowerCase();
+    if (sku && component.quantity > 0) quantities.set(sku, (quantities.get(sku) || 0) + component.quantity);
+  });
+  return Array.from(quantities.entries())
+    .map(([sku, quantity]) => `${sku}x${quantity}`)
+    .sort()
+    .join('|');
+}
+
+/**
+ * Components of an existing listing; older listings only have the
+ * comma-separated subSku, where a repeated entry is one more unit
+ */
+export function getListingComponents(listing: Pick<Listing, 'subSku' | 'components'>): ListingComponent[] {
+  if (listing.components && listing.components.length > 0) return listing.components;
+  return toListingComponents((listing.subSku || '').split(',').map(sku => ({ sku, quantity: 1 })));
+}
+
+/**
+ * Listing among the given ones that already sells exactly these components
+ */
+export function findDuplicateBundle<T extends Pick<Listing, 'subSku' | 'components'>>(
+  components: Array<Pick<ListingComponent, 'subSku' | 'quantity'>>,
+  listings: T[]
+): T | null {
+  const key = bundleComponentKey(components);
+  if (!key) return null;
+  return listings.find(listing => bundleComponentKey(getListingComponents(listing)) === key) || null;
+}
+
+export class ListingBundlesService {
+  /**
+   * Find an existing listing with the same components and quantities. Only
+   * listings containing the first component's sub-SKU can match, so those
+   * are the ones fetched.
+   */
+  static async findExistingBundle(accessToken: string, components: BundleComponent[]): Promise<Listing | null> {
+    const listingComponents = toBundleListingComponents(components);
+    if (listingComponents.length === 0) return null;
+    try {
+      console.log('🔍 Listings API: Checking for an existing bundle...');
+      const response = await ListingsService.getListings(accessToken, { subSku: listingComponents[0].subSku, limit: 100 });
+      return findDuplicateBundle(listingComponents, response.listings || []);
+    } catch (error) {
+      console.error('❌ Listings API: Error checking for an existing bundle:', error);
+      throw error;
+    }
+  }
+}
@@ -1,32 +1,26 @@
 /**
  * Log Retention Management Utility
- * 
- * This utility handles the 6-month log retention policy with admin notifications
- * for log cleanup decisions. Now uses Zustand stores instead of localStorage.
+ *
+ * This utility loads the per-log-type retention policies, the admin
+ * notifications and the purge archives from the server (LogRetentionService)
+ * and keeps the retention store in sync. Expiry checks and purges run on the
+ * server, so every admin sees the same notifications and decisions.
  */
 
+import { LogRetentionService } from './audit-log/retention';
+import type {
+  LogRetentionPolicy,
+  RetentionArchive,
+  RetentionArchiveFormat,
+  RetentionNotification,
+  RetentionPurgeResult,
+  UpdateLogRetentionPolicyRequest,
+} from './audit-log/retention';
+import type { AuditLogType } from './audit-log/api';
+import { useAuthStore } from './stores/authStore';
 import { useRetentionStore } from './stores/retentionStore';
-import { useActivityStore } from './stores/activityStore';
-
-export interface LogRetentionPolicy {
-  retentionMonths: number;
-  notificationThreshold: number; // Days before expiration to notify
-  autoDelete: boolean;
-  lastNotificationDate?: string;
-  adminDecision?: 'keep' | 'delete' | 'pending';
-  adminDecisionDate?: string;
-}
 
-export interface RetentionNotification {
-  id: string;
-  type: 'retention_warning' | 'retention_expired';
-  message: string;
-  logsCount: number;
-  expirationDate: string;
-  createdAt: string;
-  isRead: boolean;
-  adminAction?: 'keep' | 'delete' | 'pending';
-}
+export type { LogRetentionPolicy, RetentionNotification } from './audit-log/retention';
 
 class LogRetentionManager {
   private static instance: LogRetentionManager;
@@ -40,103 +34,116 @@ class LogRetentionManager {
     return LogRetentionManager.instance;
   }
 
-  /**
-   * Get the current retention policy from Zustand store
-   */
-  getPolicy(): LogRetentionPolicy {
-    const store = useRetentionStore.getState();
-    return store.policy;
+  private getToken(): string {
+    const accessToken = useAuthStore.getState().accessToken;
+    if (!accessToken) {
+      throw new Error('Authentication required');
+    }
+    return accessToken;
   }
 
   /**
-   * Update the retention policy in Zustand store
+   * Load policies, notifications and archives into the retention store
    */
-  updatePolicy(policy: Partial<LogRetentionPolicy>): void {
+  async refresh(): Promise<void> {
     const store = useRetentionStore.getState();
-    store.updatePolicy(policy);
+    const accessToken = this.getToken();
+
+    try {
+      store.setLoading(true);
+      store.setError(null);
+      const [policies, notifications, archives] = await Promise.all([
+        LogRetentionService.getPolicies(accessToken),
+        LogRetentionService.getNotifications(accessToken),
+        LogRetentionService.getArchives(accessToken),
+      ]);
+      store.setPolicies(policies);
+      store.setNotifications(notifications);
+      store.setArchives(archives);
+    } catch (error: any) {
+      store.setError(error.message || 'Failed to load retention settings');
+      throw error;
+    } finally {
+      store.setLoading(false);
+    }
   }
 
   /**
-   * Check if logs need retention notification
+   * Get the cached retention policy for a log type
    */
-  checkRetentionStatus(): {
-    needsNotification: boolean;
-    expiredLogs: number;
-    expiringSoonLogs: number;
-    expirationDate: string;
-  } {
-    const store = useRetentionStore.getState();
-    return store.checkRetentionStatus();
+  getPolicy(logType: AuditLogType): LogRetentionPolicy | undefined {
+    return useRetentionStore.getState().getPolicy(logType);
   }
 
   /**
-   * Create a retention notification
+   * Update the retention policy for a log type
    */
-  createRetentionNotification(): RetentionNotification | null {
-    const store = useRetentionStore.getState();
-    return store.createRetentionNotification();
+  async updatePolicy(logType: AuditLogType, policy: UpdateLogRetentionPolicyRequest): Promise<LogRetentionPolicy> {
+    const updated = await LogRetentionService.updatePolicy(this.getToken(), logType, policy);
+    useRetentionStore.getState().upsertPolicy(updated);
+    return updated;
   }
 
   /**
    * Get all retention notifications
    */
   getNotifications(): RetentionNotification[] {
-    const store = useRetentionStore.getState();
-    return store.notifications;
+    return useRetentionStore.getState().notifications;
   }
 
   /**
    * Mark a notification as read
    */
-  markNotificationAsRead(id: string): void {
-    const store = useRetentionStore.getState();
-    store.markAsRead(id);
+  async markNotificationAsRead(id: number): Promise<void> {
+    const notification = await LogRetentionService.markNotificationRead(this.getToken(), id);
+    useRetentionStore.getState().upsertNotification(notification);
   }
 
   /**
-   * Set admin action for a notification
+   * Set admin action for a notification; "delete" archives before purging
    */
-  setAdminAction(id: string, action: 'keep' | 'delete'): void {
+  async setAdminAction(id: number, action: 'keep' | 'delete'): Promise<RetentionPurgeResult | null> {
+    const response = await LogRetentionService.decide(this.getToken(), id, action);
     const store = useRetentionStore.getState();
-    store.setAdminAction(id, action);
+    store.upsertNotification(response.notification);
+    if (response.purge) {
+      store.addArchive(response.purge.archive);
+    }
+    return response.purge;
   }
 
   /**
-   * Get unread notification count
+   * Write the expired entries of a log type to a downloadable archive
    */
-  getUnreadCount(): number {
-    const store = useRetentionStore.getState();
-    return store.getUnreadCount();
+  async exportExpired(logType: AuditLogType, format: RetentionArchiveFormat): Promise<RetentionArchive> {
+    const archive = await LogRetentionService.exportExpired(this.getToken(), logType, format);
+    useRetentionStore.getState().addArchive(archive);
+    return archive;
   }
 
   /**
-   * Clean up old logs based on retention policy
+   * Archive and purge the expired entries of a log type now, instead of waiting for the schedule
    */
-  cleanupOldLogs(): void {
-    const activityStore = useActivityStore.getState();
-    const policy = this.getPolicy();
-    
-    // Clean up logs older than retention period
-    activityStore.cleanupOldLogs(policy.retentionMonths);
+  async purge(logType: AuditLogType): Promise<RetentionPurgeResult> {
+    const result = await LogRetentionService.purge(this.getToken(), logType);
+    useRetentionStore.getState().addArchive(result.archive);
+    return result;
   }
 
   /**
-   * Process retention notifications and cleanup
+   * Download a previously written archive
    */
-  processRetention(): void {
-    const status = this.checkRetentionStatus();
-    
-    if (status.needsNotification) {
-      this.createRetentionNotification();
-    }
-    
-    // If auto-delete is enabled and there are expired logs, clean them up
-    const policy = this.getPolicy();
-    if (policy.autoDelete && status.expiredLogs > 0) {
-      this.cleanupOldLogs();
-    }
+  async downloadArchive(archive: RetentionArchive): Promise<void> {
+    await LogRetentionService.downloadArchive(this.getToken(), archive);
+  }
+
+  /**
+   * Get unread notification count
+   */
+  getUnreadCount(): number {
+    return useRetentionStore.getState().getUnreadCount();
   }
 }
 
 // Export singleton instance
-export const logRetentionManager = LogRetentionManager.getInstance();
\ No newline at end of file
+export const logRetentionManager = LogRetentionManager.getInstance();
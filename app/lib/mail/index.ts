@@ -0,0 +1,12 @@
+/**
+ * Mail Module Index (server-side only)
+ *
+ * Used by the /api/mail route; not exported from lib/index.ts because the
+ * transports need Node's fs module.
+ */
+
+export { getMailTransport, registerMailTransport, readMailbox, getMailConfigProblem } from './transport';
+export type { MailMessage, StoredMailMessage, MailTransport } from './transport';
+
+export { renderAccountMail, buildPasswordLink } from './templates';
+export type { MailTemplate, AccountMailData } from './templates';
@@ -0,0 +1,86 @@
+/**
+ * Mail Templates
+ *
+ * Account emails sent on behalf of the backend. Links point at this app's
+ * /reset-password page, which handles both invitations and password resets.
+ */
+
+import type { MailMessage } from './transport';
+
+export type MailTemplate = 'invitation' | 'password-reset';
+
+export interface AccountMailData {
+  token: string;
+  expiresAt: string;
+  role?: string;
+  invitedBy?: string;
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatExpiry = (expiresAt: string) => new Date(expiresAt).toLocaleString('en-US', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+/**
+ * One-time link for setting a password
+ */
+export function buildPasswordLink(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/$/, '')}/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+const layout = (heading: string, body: string, link: string, cta: string, footer: string) => `
+<div style="font-family: Arial, sans-serif; max-width: 520px; margin: 0 auto; color: #1f2937;">
+  <h2 style="color: #4f46e5;">${heading}</h2>
+  <p>${body}</p>
+  <p style="margin: 24px 0;">
+    <a href="${escapeHtml(link)}" style="background: #4f46e5; color: #fff; padding: 10px 18px; border-radius: 6px; text-decoration: none;">${cta}</a>
+  </p>
+  <p style="font-size: 12px; color: #6b7280;">${footer}</p>
+  <p style="font-size: 12px; color: #6b7280;">If the button does not work, copy this link into your browser:<br>${escapeHtml(link)}</p>
+</div>`;
+
+/**
+ * Render an account email
+ */
+export function renderAccountMail(template: MailTemplate, to: string, data: AccountMailData, appUrl: string): MailMessage {
+  const link = buildPasswordLink(appUrl, data.token);
+  const expiry = formatExpiry(data.expiresAt);
+
+  if (template === 'invitation') {
+    const inviter = data.invitedBy ? `${data.invitedBy} has invited you` : 'You have been invited';
+    const role = data.role ? ` as ${data.role}` : '';
+    return {
+      to,
+      subject: 'You have been invited to FHS Tech',
+      text: `${inviter} to FHS Tech${role}.\n\nSet your password to activate your account:\n${link}\n\nThis link works once and expires on ${expiry}.`,
+      html: layout(
+        'Welcome to FHS Tech',
+        `${escapeHtml(inviter)} to FHS Tech${escapeHtml(role)}. Choose a password to activate your account.`,
+        link,
+        'Set Your Password',
+        `This link works once and expires on ${escapeHtml(expiry)}.`
+      ),
+      tags: ['invitation'],
+    };
+  }
+
+  return {
+    to,
+    subject: 'Reset your FHS Tech password',
+    text: `We received a request to reset your FHS Tech password.\n\nChoose a new password here:\n${link}\n\nThis link works once and expires on ${expiry}. If you did not ask for this, you can ignore this email.`,
+    html: layout(
+      'Reset your password',
+      'We received a request to reset your FHS Tech password.',
+      link,
+      'Choose a New Password',
+      `This link works once and expires on ${escapeHtml(expiry)}. If you did not ask for this, you can ignore this email.`
+    ),
+    tags: ['password-reset'],
+  };
+}
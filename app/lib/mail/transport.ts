@@ -0,0 +1,158 @@
+/**
+ * Mail Transports (server-side only)
+ *
+ * Outgoing mail goes through a transport picked by the MAIL_TRANSPORT env var:
+ * - mailbox: writes each message as JSON to MAILBOX_DIR (default ./.mailbox), for local development only
+ * - console: logs messages to the server console
+ * - webhook: POSTs messages as JSON to MAIL_WEBHOOK_URL (e.g. a provider's HTTP API or relay)
+ *
+ * Other transports can be added with registerMailTransport(). In production
+ * MAIL_TRANSPORT must be set and cannot be the mailbox.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  tags?: string[];
+}
+
+export interface StoredMailMessage extends MailMessage {
+  id: string;
+  sentAt: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<{ id: string }>;
+}
+
+type MailTransportFactory = () => MailTransport;
+
+const DEFAULT_TRANSPORT = 'mailbox';
+
+const mailboxDir = () => path.resolve(process.env.MAILBOX_DIR || '.mailbox');
+
+const newMessageId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const mailboxTransport: MailTransportFactory = () => ({
+  name: 'mailbox',
+  async send(message) {
+    const stored: StoredMailMessage = { ...message, id: newMessageId(), sentAt: new Date().toISOString() };
+    await fs.mkdir(mailboxDir(), { recursive: true });
+    await fs.writeFile(path.join(mailboxDir(), `${stored.id}.json`), JSON.stringify(stored, null, 2));
+    console.log(`📬 Mail: Delivered "${message.subject}" to local mailbox for ${message.to}`);
+    return { id: stored.id };
+  },
+});
+
+const consoleTransport: MailTransportFactory = () => ({
+  name: 'console',
+  async send(message) {
+    const id = newMessageId();
+    console.log(`📬 Mail [${id}] to ${message.to}: ${message.subject}\n${message.text}`);
+    return { id };
+  },
+});
+
+const webhookTransport: MailTransportFactory = () => {
+  const url = process.env.MAIL_WEBHOOK_URL;
+  if (!url) {
+    throw new Error('MAIL_WEBHOOK_URL must be set to use the webhook mail transport');
+  }
+  return {
+    name: 'webhook',
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.MAIL_WEBHOOK_TOKEN ? { Authorization: `Bearer ${process.env.MAIL_WEBHOOK_TOKEN}` } : {}),
+        },
+        body: JSON.stringify(message),
+      });
+      if (!response.ok) {
+        throw new Error(`Mail webhook responded with ${response.status}`);
+      }
+      const data = await response.json().catch(() => ({}));
+      return { id: String(data?.id || newMessageId()) };
+    },
+  };
+};
+
+const transports: Record<string, MailTransportFactory> = {
+  mailbox: mailboxTransport,
+  console: consoleTransport,
+  webhook: webhookTransport,
+};
+
+/**
+ * Add or replace a transport, selectable through MAIL_TRANSPORT
+ */
+export function registerMailTransport(name: string, factory: MailTransportFactory): void {
+  transports[name] = factory;
+}
+
+/**
+ * The transport configured for this server
+ */
+export function getMailTransport(): MailTransport {
+  const isProduction = process.env.NODE_ENV === 'production';
+  const name = process.env.MAIL_TRANSPORT || (isProduction ? '' : DEFAULT_TRANSPORT);
+  if (!name) {
+    throw new Error('MAIL_TRANSPORT must be set in production');
+  }
+  if (isProduction && name === 'mailbox') {
+    throw new Error('The mailbox mail transport is for development only and cannot be used in production');
+  }
+  const factory = transports[name];
+  if (!factory) {
+    throw new Error(`Unknown mail transport "${name}". Available: ${Object.keys(transports).join(', ')}`);
+  }
+  return factory();
+}
+
+/**
+ * Why this server cannot send mail, or null when it can. A production server
+ * never relays mail without a secret, with links built from request headers,
+ * or into the development mailbox; it still starts, with mail disabled.
+ */
+export function getMailConfigProblem(): string | null {
+  if (process.env.NODE_ENV !== 'production') return null;
+  const missing = ['MAIL_RELAY_SECRET', 'APP_URL'].filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    return `${missing.join(' and ')} must be set in production`;
+  }
+  try {
+    getMailTransport();
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return null;
+}
+
+/**
+ * Messages in the local mailbox, newest first
+ */
+export async function readMailbox(limit: number = 50): Promise<StoredMailMessage[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(mailboxDir())).filter(file => file.endsWith('.json'));
+  } catch {
+    return [];
+  }
+
+  const newest = files.sort().reverse().slice(0, limit);
+  const messages = await Promise.all(newest.map(async file => {
+    try {
+      return JSON.parse(await fs.readFile(path.join(mailboxDir(), file), 'utf8')) as StoredMailMessage;
+    } catch {
+      return null;
+    }
+  }));
+  return messages.filter((message): message is StoredMailMessage => message !== null);
+}
@@ -0,0 +1,422 @@
+import { HttpClient } from '../auth/httpClient';
+import { API_CONFIG } from '../config/api.config';
+import { ListingsService, type Listing } from '../listings/api';
+import type { Marketplace, Pagination } from '../types/common.types';
+import { normalizeImportHeader } from '../utils/import.utils';
+
+// Re-export types for external use
+export type { Marketplace, Pagination } from '../types/common.types';
+
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'returned';
+
+export const ORDER_STATUSES: OrderStatus[] = ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'returned'];
+
+export interface OrderLine {
+  id: number;
+  orderId: number;
+  listingId: number | null;
+  sku: string;
+  subSku: string | null;
+  title: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  listing?: Listing | null;
+}
+
+export interface OrderShippingAddress {
+  name?: string;
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  phone?: string;
+}
+
+export interface Order {
+  id: number;
+  orderNumber: string;
+  marketplaceId: number | null;
+  channelOrderId: string | null;
+  status: OrderStatus;
+  customerName: string;
+  customerEmail: string | null;
+  shippingAddress: OrderShippingAddress | null;
+  orderDate: string;
+  totalAmount: number;
+  currency: string;
+  trackingNumber: string | null;
+  lines: OrderLine[];
+  createdAt: string;
+  updatedAt: string;
+  marketplace?: Marketplace | null;
+}
+
+export interface OrdersResponse {
+  orders: Order[];
+  pagination: Pagination;
+  statusCounts?: Partial<Record<OrderStatus, number>>;
+}
+
+export interface OrdersFilters {
+  page?: number;
+  limit?: number;
+  search?: string; // Order number, SKU / sub SKU or customer name
+  status?: OrderStatus;
+  marketplaceId?: number;
+  dateFrom?: string;
+  dateTo?: string;
+  sortBy?: 'orderNumber' | 'orderDate' | 'customerName' | 'totalAmount' | 'status' | 'createdAt' | 'updatedAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface UpdateOrderStatusRequest {
+  status: OrderStatus;
+  trackingNumber?: string | null;
+}
+
+export interface OrderStatsResponse {
+  totalOrders: number;
+  totalRevenue: number;
+  currency: string;
+  statusCounts?: Partial<Record<OrderStatus, number>>;
+  timestamp: string;
+}
+
+export type OrderImportMarketplace = 'amazon' | 'walmart' | 'ebay';
+
+export type OrderImportField =
+  | 'orderNumber'
+  | 'orderDate'
+  | 'status'
+  | 'customerName'
+  | 'customerEmail'
+  | 'sku'
+  | 'subSku'
+  | 'title'
+  | 'quantity'
+  | 'unitPrice'
+  | 'currency';
+
+/**
+ * Maps each order field to the column header(s) it can appear under in a
+ * marketplace export. Headers are matched case-insensitively by the backend.
+ */
+export type OrderImportColumnMapping = Partial<Record<OrderImportField, string[]>>;
+
+export interface OrderImportLayout {
+  label: string;
+  description: string;
+  mapping: OrderImportColumnMapping;
+}
+
+/**
+ * Default column mappings for the order report layouts we import
+ */
+export const ORDER_IMPORT_LAYOUTS: Record<OrderImportMarketplace, OrderImportLayout> = {
+  amazon: {
+    label: 'Amazon',
+    description: 'Seller Central "All Orders" or "Unshipped Orders" report (tab-delimited .txt or .csv)',
+    mapping: {
+      orderNumber: ['amazon-order-id', 'order-id'],
+      orderDate: ['purchase-date'],
+      status: ['order-status'],
+      customerName: ['recipient-name', 'buyer-name'],
+      customerEmail: ['buyer-email'],
+      sku: ['sku'],
+      title: ['product-name'],
+      quantity: ['quantity', 'quantity-purchased'],
+      unitPrice: ['item-price'],
+      currency: ['currency'],
+    },
+  },
+  walmart: {
+    label: 'Walmart',
+    description: 'Seller Center order export (.csv or .xlsx)',
+    mapping: {
+      orderNumber: ['PO#', 'Order#'],
+      orderDate: ['Order Date'],
+      status: ['Status'],
+      customerName: ['Customer Name'],
+      sku: ['SKU'],
+      title: ['Item Description'],
+      quantity: ['Qty'],
+      unitPrice: ['Item Cost'],
+    },
+  },
+  ebay: {
+    label: 'eBay',
+    description: 'Seller Hub "Orders" download (.csv)',
+    mapping: {
+      orderNumber: ['Order Number'],
+      orderDate: ['Sale Date'],
+      customerName: ['Buyer Name', 'Ship To Name'],
+      customerEmail: ['Buyer Email'],
+      sku: ['Custom Label'],
+      title: ['Item Title'],
+      quantity: ['Quantity'],
+      unitPrice: ['Sold For'],
+    },
+  },
+};
+
+/**
+ * Order fields offered in the import column mapping, in display order
+ */
+export const ORDER_IMPORT_FIELDS: Array<{ key: OrderImportField; label: string; required: boolean }> = [
+  { key: 'orderNumber', label: 'Order Number', required: true },
+  { key: 'orderDate', label: 'Order Date', required: false },
+  { key: 'status', label: 'Status', required: false },
+  { key: 'customerName', label: 'Customer Name', required: false },
+  { key: 'customerEmail', label: 'Customer Email', required: false },
+  { key: 'sku', label: 'SKU', required: true },
+  { key: 'subSku', label: 'Sub SKU', required: false },
+  { key: 'title', label: 'Title', required: false },
+  { key: 'quantity', label: 'Quantity', required: true },
+  { key: 'unitPrice', label: 'Unit Price', required: false },
+  { key: 'currency', label: 'Currency', required: false },
+];
+
+/**
+ * Match the headers of an uploaded report to order fields using the
+ * layout's known column names, then the field names themselves. Fields
+ * without a matching header are left out.
+ */
+export function matchOrderImportColumns(headers: string[], marketplace: OrderImportMarketplace): OrderImportColumnMapping {
+  const byName = new Map(headers.map(header => [normalizeImportHeader(header), header]));
+  const mapping: OrderImportColumnMapping = {};
+
+  ORDER_IMPORT_FIELDS.forEach(field => {
+    const candidates = [...(ORDER_IMPORT_LAYOUTS[marketplace].mapping[field.key] || []), field.key, field.label];
+    const header = candidates.map(candidate => byName.get(normalizeImportHeader(candidate))).find(Boolean);
+    if (header) mapping[field.key] = [header];
+  });
+
+  return mapping;
+}
+
+/**
+ * Order import row whose SKU could not be resolved to a listing
+ */
+export interface UnmatchedOrderRow {
+  row: number;
+  orderNumber: string;
+  sku: string;
+  subSku: string | null;
+  title: string | null;
+  quantity: number;
+  reason?: string;
+}
+
+export interface ImportOrdersResponse {
+  message: string;
+  marketplace: OrderImportMarketplace;
+  summary: {
+    total: number;
+    imported: number;
+    duplicates: number;
+    unmatched: number;
+    errors: number;
+  };
+  results: {
+    imported: Array<{ orderNumber: string; orderId: number; lines: number }>;
+    duplicates: Array<{ row: number; orderNumber: string; error: string }>;
+    unmatched: UnmatchedOrderRow[];
+    errors: Array<{ row: number; error: string }>;
+  };
+  timestamp: string;
+}
+
+export interface ImportOrdersJobResponse {
+  message: string;
+  jobId: string;
+  status: string;
+  totalItems: number;
+  estimatedTime: string;
+  note: string;
+  timestamp: string;
+  fileInfo?: {
+    originalName: string;
+    storedName: string;
+    path: string;
+    size: number;
+  };
+}
+
+export interface OrderImportReconciliationResponse {
+  jobId: string;
+  status: string;
+  unmatched: UnmatchedOrderRow[];
+  timestamp: string;
+}
+
+export class OrdersService {
+  /**
+   * Get orders with pagination and filters
+   */
+  static async getOrders(
+    accessToken: string,
+    filters: OrdersFilters = {}
+  ): Promise<OrdersResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+    if (filters.search) params.append('search', filters.search);
+    if (filters.status) params.append('status', filters.status);
+    if (filters.marketplaceId) params.append('marketplaceId', filters.marketplaceId.toString());
+    if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
+    if (filters.dateTo) params.append('dateTo', filters.dateTo);
+    if (filters.sortBy) params.append('sortBy', filters.sortBy);
+    if (filters.sortOrder) params.append('sortOrder', filters.sortOrder);
+
+    const endpoint = `/orders${params.toString() ? `?${params.toString()}` : ''}`;
+
+    console.log('🔍 Orders API: Making request to endpoint:', endpoint);
+
+    const response = await HttpClient.get<OrdersResponse>(endpoint, {}, accessToken);
+
+    return response;
+  }
+
+  /**
+   * Get a single order (with its lines) by ID
+   */
+  static async getOrder(accessToken: string, orderId: number): Promise<Order> {
+    const response = await HttpClient.get<{ order: Order }>(`/orders/${orderId}`, {}, accessToken);
+
+    return response.order;
+  }
+
+  /**
+   * Get order totals (count and revenue) for dashboards
+   */
+  static async getOrderStats(accessToken: string): Promise<OrderStatsResponse> {
+    const response = await HttpClient.get<OrderStatsResponse>('/orders/stats', {}, accessToken);
+
+    return response;
+  }
+
+  /**
+   * Update the fulfilment status of an order
+   */
+  static async updateOrderStatus(
+    accessToken: string,
+    orderId: number,
+    data: UpdateOrderStatusRequest
+  ): Promise<{ message: string; order: Order; timestamp: string }> {
+    console.log('🔄 Orders API: Updating order status...');
+
+    const response = await HttpClient.put<{ message: string; order: Order; timestamp: string }>(
+      `/orders/${orderId}/status`,
+      data,
+      {},
+      accessToken
+    );
+
+    console.log('✅ Orders API: Order status updated successfully');
+    return response;
+  }
+
+  /**
+   * Import orders from a marketplace export - File upload (CSV/TXT/Excel)
+   * Rows are resolved to listings by sku / subSku; unmatched rows are
+   * returned for reconciliation instead of being dropped.
+   */
+  static async importOrdersFile(
+    file: File,
+    marketplace: OrderImportMarketplace,
+    accessToken: string,
+    mapping: OrderImportColumnMapping = ORDER_IMPORT_LAYOUTS[marketplace].mapping
+  ): Promise<ImportOrdersResponse | ImportOrdersJobResponse> {
+    try {
+      console.log('📦 Orders API: Uploading order import file...');
+
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('marketplace', marketplace);
+      formData.append('columnMapping', JSON.stringify(mapping));
+
+      const response = await fetch(`${API_CONFIG.BASE_URL}/orders/import`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Upload failed' }));
+        throw new Error(errorData.error || `Upload failed with status ${response.status}`);
+      }
+
+      const result = await response.json();
+      console.log('✅ Orders API: Order import upload successful');
+      return result;
+    } catch (error) {
+      console.error('❌ Orders API: Error uploading order import file:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the unmatched rows of a background import job
+   */
+  static async getImportReconciliation(
+    accessToken: string,
+    jobId: string
+  ): Promise<OrderImportReconciliationResponse> {
+    console.log('🔍 Orders API: Getting import reconciliation...');
+
+    const response = await HttpClient.get<OrderImportReconciliationResponse>(
+      `/orders/import/${jobId}/unmatched`,
+      {},
+      accessToken
+    );
+
+    console.log('✅ Orders API: Import reconciliation retrieved');
+    return response;
+  }
+
+  /**
+   * Get bulk processing status
+   */
+  static async getBulkStatus(
+    accessToken: string,
+    jobId?: string
+  ): Promise<any> {
+    console.log('📊 Orders API: Getting bulk status...');
+
+    const endpoint = jobId ? `/orders/status?jobId=${jobId}` : '/orders/status';
+    const response = await HttpClient.get<any>(endpoint, {}, accessToken);
+
+    console.log('✅ Orders API: Bulk status retrieved');
+    return response;
+  }
+
+  /**
+   * Resolve the listing an order line was sold from.
+   * Uses the listing already joined by the backend when present, otherwise
+   * looks the listing up by sku / subSku.
+   */
+  static async getListingForLine(
+    accessToken: string,
+    line: OrderLine
+  ): Promise<Listing | null> {
+    if (line.listing) return line.listing;
+
+    try {
+      const response = await ListingsService.getListings(accessToken, {
+        sku: line.sku,
+        subSku: line.subSku || undefined,
+        limit: 1,
+      });
+      return response.listings[0] || null;
+    } catch (error) {
+      console.error('❌ Orders API: Failed to resolve listing for line:', error);
+      return null;
+    }
+  }
+}
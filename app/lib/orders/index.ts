@@ -0,0 +1,28 @@
+/**
+ * Orders API Module
+ * 
+ * Central export point for order-related functionality
+ */
+
+// Core orders service
+export { OrdersService, ORDER_STATUSES, ORDER_IMPORT_LAYOUTS, ORDER_IMPORT_FIELDS, matchOrderImportColumns } from './api';
+
+// TypeScript types and interfaces
+export type {
+  Order,
+  OrderLine,
+  OrderStatus,
+  OrderShippingAddress,
+  OrdersResponse,
+  OrdersFilters,
+  OrderStatsResponse,
+  UpdateOrderStatusRequest,
+  OrderImportMarketplace,
+  OrderImportField,
+  OrderImportColumnMapping,
+  OrderImportLayout,
+  UnmatchedOrderRow,
+  ImportOrdersResponse,
+  ImportOrdersJobResponse,
+  OrderImportReconciliationResponse,
+} from './api';
@@ -0,0 +1,64 @@
+import { ListingsService } from '../listings/api';
+import { getSettings, updatePricingRules, type PricingRule } from '../settings/api';
+import type { RepriceRow } from './engine';
+
+export interface RepriceResult {
+  updated: number;
+  failed: Array<{ listingId: number; sku: string; error: string }>;
+}
+
+export class PricingService {
+  /**
+   * Load pricing rules stored alongside the inventory config
+   */
+  static async getPricingRules(accessToken: string): Promise<PricingRule[]> {
+    const response = await getSettings(accessToken);
+    return response.settings.pricingRules || [];
+  }
+
+  /**
+   * Replace the full set of pricing rules (Admin only)
+   */
+  static async savePricingRules(accessToken: string, rules: PricingRule[]): Promise<PricingRule[]> {
+    console.log('💲 Pricing API: Saving pricing rules...');
+    const response = await updatePricingRules(rules, accessToken);
+    return response.settings.pricingRules || rules;
+  }
+
+  /**
+   * Write previewed prices to their listings, one listing at a time
+   */
+  static async applyReprice(
+    accessToken: string,
+    rows: RepriceRow[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<RepriceResult> {
+    const applicable = rows.filter(row => row.calculation);
+    const result: RepriceResult = { updated: 0, failed: [] };
+
+    console.log(`💲 Pricing API: Applying ${applicable.length} price changes...`);
+
+    for (const [index, row] of applicable.entries()) {
+      const calculation = row.calculation!;
+      try {
+        await ListingsService.updateListing(accessToken, row.listingId, {
+          commissionPrice: calculation.commissionPrice,
+          profitMarginPrice: calculation.profitMarginPrice,
+          ecommercePrice: calculation.ecommercePrice,
+        });
+        result.updated++;
+      } catch (error: any) {
+        result.failed.push({ listingId: row.listingId, sku: row.subSku || row.sku, error: error.message || 'Update failed' });
+      }
+      onProgress?.(index + 1, applicable.length);
+    }
+
+    console.log(`✅ Pricing API: ${result.updated} updated, ${result.failed.length} failed`);
+    return result;
+  }
+}
+
+/**
+ * Create an id for a new pricing rule
+ */
+export const createPricingRuleId = () => crypto.randomUUID();
@@ -0,0 +1,187 @@
+/**
+ * Pricing Rules Engine
+ *
+ * Pure functions that calculate an ecommerce price from a pricing rule.
+ * Commission and target margin are percentages of the final price:
+ *
+ *   cost  = brandRealPrice + brandMiscellaneous + shippingPrice + ecommerceMiscellaneous
+ *   price = cost / (1 - commission% - margin%)
+ *
+ * The price is then rounded and, when the rule asks for it, capped at MSRP.
+ * Commission and profit margin amounts are derived from the final price so
+ * that cost + commissionPrice + profitMarginPrice === ecommercePrice.
+ */
+
+import type { Listing } from '../listings/api';
+import type { PricingRule, PriceRounding } from '../settings/api';
+import { toAmount } from '../reports/calculations';
+
+export interface PriceInputs {
+  brandRealPrice: number;
+  brandMiscellaneous: number;
+  shippingPrice: number;
+  ecommerceMiscellaneous: number;
+  msrp: number;
+}
+
+export interface PriceCalculation {
+  cost: number;
+  commissionPrice: number;
+  profitMarginPrice: number;
+  ecommercePrice: number;
+  cappedAtMsrp: boolean;
+  belowCost: boolean;
+}
+
+export interface PricingScope {
+  brandId: number | null;
+  marketplaceId: number | null;
+}
+
+export type RepriceSkipReason = 'noRule' | 'invalidRule';
+
+export interface RepriceRow {
+  listingId: number;
+  sku: string;
+  subSku: string | null;
+  title: string;
+  brand: string;
+  ruleId: string | null;
+  ruleName: string | null;
+  oldPrice: number;
+  newPrice: number | null;
+  change: number | null;
+  calculation: PriceCalculation | null;
+  skipReason: RepriceSkipReason | null;
+}
+
+export const PRICE_ROUNDING_LABELS: Record<PriceRounding, string> = {
+  none: 'No rounding',
+  up_99: 'Round up to .99',
+  nearest_99: 'Nearest .99',
+};
+
+export const REPRICE_SKIP_LABELS: Record<RepriceSkipReason, string> = {
+  noRule: 'No matching rule',
+  invalidRule: 'Commission + margin must be below 100%',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Apply a rounding mode to a price
+ */
+export function roundPrice(value: number, rounding: PriceRounding): number {
+  if (value <= 0) return 0;
+
+  switch (rounding) {
+    case 'up_99':
+      // 12.34 -> 12.99, 12.99 -> 12.99, 13.00 -> 13.99
+      return round2(Math.ceil(round2(value) + 0.01) - 0.01);
+    case 'nearest_99':
+      return round2(Math.max(1, Math.round(value)) - 0.01);
+    default:
+      return round2(value);
+  }
+}
+
+export const isValidRule = (rule: Pick<PricingRule, 'commissionPercent' | 'targetMarginPercent'>) =>
+  rule.commissionPercent >= 0 &&
+  rule.targetMarginPercent >= -100 &&
+  rule.commissionPercent + rule.targetMarginPercent < 100;
+
+/**
+ * Calculate commission, margin and ecommerce price for one item.
+ * Returns null when the rule cannot produce a price.
+ */
+export function calculatePrice(inputs: PriceInputs, rule: PricingRule): PriceCalculation | null {
+  if (!isValidRule(rule)) return null;
+
+  const cost = inputs.brandRealPrice + inputs.brandMiscellaneous + inputs.shippingPrice + inputs.ecommerceMiscellaneous;
+  const rawPrice = cost / (1 - (rule.commissionPercent + rule.targetMarginPercent) / 100);
+
+  let ecommercePrice = roundPrice(rawPrice, rule.rounding);
+  let cappedAtMsrp = false;
+
+  if (rule.capAtMsrp && inputs.msrp > 0 && ecommercePrice > inputs.msrp) {
+    ecommercePrice = round2(inputs.msrp);
+    cappedAtMsrp = true;
+  }
+
+  const commissionPrice = round2(ecommercePrice * rule.commissionPercent / 100);
+  const profitMarginPrice = round2(ecommercePrice - cost - commissionPrice);
+
+  return {
+    cost: round2(cost),
+    commissionPrice,
+    profitMarginPrice,
+    ecommercePrice,
+    cappedAtMsrp,
+    belowCost: profitMarginPrice < 0,
+  };
+}
+
+/**
+ * Pick the most specific enabled rule for a brand/marketplace.
+ * Brand + marketplace beats brand only, which beats marketplace only,
+ * which beats a catch-all rule. Ties go to the rule listed first.
+ */
+export function resolvePricingRule(rules: PricingRule[], scope: PricingScope): PricingRule | null {
+  let best: PricingRule | null = null;
+  let bestScore = -1;
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    if (rule.brandId !== null && rule.brandId !== scope.brandId) continue;
+    if (rule.marketplaceId !== null && rule.marketplaceId !== scope.marketplaceId) continue;
+
+    const score = (rule.brandId !== null ? 2 : 0) + (rule.marketplaceId !== null ? 1 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Read pricing inputs from a listing or product (prices may arrive as strings)
+ */
+export const getPriceInputs = (item: Pick<Listing, keyof PriceInputs>): PriceInputs => ({
+  brandRealPrice: toAmount(item.brandRealPrice),
+  brandMiscellaneous: toAmount(item.brandMiscellaneous),
+  shippingPrice: toAmount(item.shippingPrice),
+  ecommerceMiscellaneous: toAmount(item.ecommerceMiscellaneous),
+  msrp: toAmount(item.msrp),
+});
+
+/**
+ * Build the old vs new price preview for a reprice run. Nothing is applied.
+ */
+export function buildRepricePreview(
+  listings: Listing[],
+  rules: PricingRule[],
+  marketplaceId: number | null
+): RepriceRow[] {
+  return listings.map(listing => {
+    const oldPrice = round2(toAmount(listing.ecommercePrice));
+    const rule = resolvePricingRule(rules, { brandId: listing.brandId, marketplaceId });
+    const calculation = rule ? calculatePrice(getPriceInputs(listing), rule) : null;
+
+    return {
+      listingId: listing.id,
+      sku: listing.sku,
+      subSku: listing.subSku,
+      title: listing.title,
+      brand: listing.customBrandName || listing.brand?.name || '',
+      ruleId: rule?.id ?? null,
+      ruleName: rule?.name ?? null,
+      oldPrice,
+      newPrice: calculation ? calculation.ecommercePrice : null,
+      change: calculation ? round2(calculation.ecommercePrice - oldPrice) : null,
+      calculation,
+      skipReason: !rule ? 'noRule' : !calculation ? 'invalidRule' : null,
+    };
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Pricing Module
+ * 
+ * Central export point for pricing rules and reprice runs
+ */
+
+export { PricingService, createPricingRuleId } from './api';
+export type { RepriceResult } from './api';
+
+export {
+  PRICE_ROUNDING_LABELS,
+  REPRICE_SKIP_LABELS,
+  roundPrice,
+  isValidRule,
+  calculatePrice,
+  resolvePricingRule,
+  getPriceInputs,
+  buildRepricePreview,
+} from './engine';
+
+export type {
+  PriceInputs,
+  PriceCalculation,
+  PricingScope,
+  RepriceSkipReason,
+  RepriceRow,
+} from './engine';
@@ -1,5 +1,6 @@
 import { HttpClient } from '../auth/httpClient';
 import type { Brand, Pagination } from '../types/common.types';
+import type { ProductVariant, VariantOptionAxis } from './variants';
 
 // Re-export types for external use
 export type { Brand, Pagination } from '../types/common.types';
@@ -49,6 +50,8 @@ export interface Product {
   mainImageUrl: string | null;
   galleryImages: string[] | null;
   attributes: ProductAttributes;
+  variantAxes?: VariantOptionAxis[];
+  variants?: ProductVariant[]; // when present, subSku is derived from them
   createdAt: string;
   updatedAt: string;
   brand: Brand;
@@ -434,6 +437,19 @@ export class ProductsService {
     return response;
   }
 
+  /**
+   * Brand of each product SKU (group or sub-SKU), in one request for many SKUs.
+   * SKUs that do not exist or are outside the user's access are left out.
+   */
+  static async getBrandsBySku(accessToken: string, skus: string[]): Promise<Record<string, string>> {
+    const params = new URLSearchParams({ skus: skus.join(',') });
+
+    console.log(`🔍 Products API: Looking up brands for ${skus.length} SKU(s)...`);
+    const response = await HttpClient.get<{ brands: Record<string, string> }>(`/products/brands?${params.toString()}`, {}, accessToken);
+
+    return response.brands || {};
+  }
+
   /**
    * Get product by SKU
    */
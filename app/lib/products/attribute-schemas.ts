@@ -0,0 +1,237 @@
+/**
+ * Attribute Schemas
+ *
+ * Admin-defined attribute fields per product category, optionally narrowed by
+ * sub category. The product form, bulk forms and import validator render
+ * and validate attributes from the schema that applies to a product instead
+ * of free-form keys.
+ */
+
+import { HttpClient } from '../auth/httpClient';
+
+export type AttributeFieldType = 'number' | 'enum' | 'text' | 'boolean';
+
+export interface AttributeSchemaField {
+  key: string; // attribute key stored on Product.attributes
+  label: string;
+  type: AttributeFieldType;
+  required: boolean;
+  unit?: string | null; // number fields, e.g. "in" or "lb"
+  allowedValues?: string[]; // enum fields
+  min?: number | null;
+  max?: number | null;
+}
+
+export interface AttributeSchema {
+  id: number;
+  category: string;
+  subCategory: string | null; // null applies to the whole category
+  fields: AttributeSchemaField[];
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+export type AttributeSchemaInput = Pick<AttributeSchema, 'category' | 'subCategory' | 'fields'>;
+
+export const ATTRIBUTE_FIELD_TYPE_LABELS: Record<AttributeFieldType, string> = {
+  number: 'Number',
+  enum: 'Choice',
+  text: 'Text',
+  boolean: 'Yes / No',
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+const sameName = (a: string | null | undefined, b: string | null | undefined) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Attribute key in the form the backend stores, e.g. "Seat Height" -> "seat_height"
+ */
+export function toAttributeKey(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Fields that apply to a product: the category schema, with the sub category
+ * schema adding fields and overriding same-key ones. Null when neither exists.
+ */
+export function resolveAttributeSchema(
+  schemas: AttributeSchema[],
+  category: string | null | undefined,
+  subCategory?: string | null
+): AttributeSchemaField[] | null {
+  if (!category?.trim()) return null;
+  const base = schemas.find(schema => sameName(schema.category, category) && !schema.subCategory);
+  const specific = subCategory?.trim()
+    ? schemas.find(schema => sameName(schema.category, category) && sameName(schema.subCategory, subCategory))
+    : undefined;
+  if (!base && !specific) return null;
+
+  const fields = new Map<string, AttributeSchemaField>();
+  [...(base?.fields || []), ...(specific?.fields || [])].forEach(field => fields.set(field.key, field));
+  return Array.from(fields.values());
+}
+
+/**
+ * Check one value against its field. Empty values only fail required fields.
+ *
+ * @returns an error message, or null when the value is valid
+ */
+export function validateAttributeValue(field: AttributeSchemaField, raw: unknown): string | null {
+  const value = raw == null ? '' : String(raw).trim();
+  if (!value) return field.required ? `${field.label} is required` : null;
+
+  switch (field.type) {
+    case 'number': {
+      const parsed = Number(value.replace(/,/g, ''));
+      if (isNaN(parsed)) return `${field.label} must be a number${field.unit ? ` (${field.unit})` : ''}`;
+      if (field.min != null && parsed < field.min) return `${field.label} must be at least ${field.min}${field.unit ? ` ${field.unit}` : ''}`;
+      if (field.max != null && parsed > field.max) return `${field.label} must be at most ${field.max}${field.unit ? ` ${field.unit}` : ''}`;
+      return null;
+    }
+    case 'enum':
+      return (field.allowedValues || []).some(allowed => sameName(allowed, value))
+        ? null
+        : `${field.label} must be one of: ${(field.allowedValues || []).join(', ')}`;
+    case 'boolean':
+      return [...TRUE_VALUES, ...FALSE_VALUES].includes(value.toLowerCase()) ? null : `${field.label} must be yes or no`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Typed value to store for a valid cell: numbers as numbers, enum values in
+ * the schema's spelling and booleans as true / false
+ */
+export function normalizeAttributeValue(field: AttributeSchemaField, raw: unknown): string | number | boolean | null {
+  const value = raw == null ? '' : String(raw).trim();
+  if (!value) return null;
+
+  switch (field.type) {
+    case 'number':
+      return Number(value.replace(/,/g, ''));
+    case 'enum':
+      return (field.allowedValues || []).find(allowed => sameName(allowed, value)) || value;
+    case 'boolean':
+      return TRUE_VALUES.includes(value.toLowerCase());
+    default:
+      return value;
+  }
+}
+
+/**
+ * Validate a product's attributes against its schema fields
+ *
+ * @returns errors keyed by attribute key
+ */
+export function validateAttributes(
+  fields: AttributeSchemaField[] | null,
+  attributes: Record<string, unknown>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  (fields || []).forEach(field => {
+    const error = validateAttributeValue(field, attributes[field.key]);
+    if (error) errors[field.key] = error;
+  });
+  return errors;
+}
+
+const editDistance = (a: string, b: string) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+/**
+ * Schema field a free-form key was probably meant to be, e.g. "seat_hieght"
+ * -> seat_height. Null when the key is a field or nothing is close.
+ */
+export function suggestAttributeField(
+  fields: AttributeSchemaField[] | null,
+  key: string
+): AttributeSchemaField | null {
+  const normalized = toAttributeKey(key);
+  if (!normalized || !fields || fields.some(field => field.key === normalized)) return null;
+
+  let best: AttributeSchemaField | null = null;
+  let bestDistance = 3; // more than two edits is a different word
+  for (const field of fields) {
+    const distance = Math.min(editDistance(normalized, field.key), editDistance(normalized, toAttributeKey(field.label)));
+    if (distance < bestDistance) {
+      best = field;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export class AttributeSchemasService {
+  /**
+   * Get every attribute schema
+   */
+  static async getSchemas(accessToken: string): Promise<AttributeSchema[]> {
+    try {
+      console.log('🔍 Products API: Getting attribute schemas...');
+      const response = await HttpClient.get<{ schemas: AttributeSchema[] }>('/products/attribute-schemas', {}, accessToken);
+      return response.schemas || [];
+    } catch (error) {
+      console.error('❌ Products API: Error getting attribute schemas:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a schema for a category or category + sub category
+   */
+  static async createSchema(accessToken: string, data: AttributeSchemaInput): Promise<AttributeSchema> {
+    try {
+      console.log('📝 Products API: Creating attribute schema...');
+      const response = await HttpClient.post<{ schema: AttributeSchema }>('/products/attribute-schemas', data, {}, accessToken);
+      console.log('✅ Products API: Attribute schema created');
+      return response.schema;
+    } catch (error) {
+      console.error('❌ Products API: Error creating attribute schema:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a schema's category and fields
+   */
+  static async updateSchema(accessToken: string, id: number, data: AttributeSchemaInput): Promise<AttributeSchema> {
+    try {
+      console.log('🔄 Products API: Updating attribute schema...');
+      const response = await HttpClient.put<{ schema: AttributeSchema }>(`/products/attribute-schemas/${id}`, data, {}, accessToken);
+      console.log('✅ Products API: Attribute schema updated');
+      return response.schema;
+    } catch (error) {
+      console.error('❌ Products API: Error updating attribute schema:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a schema. Existing product attributes are kept.
+   */
+  static async deleteSchema(accessToken: string, id: number): Promise<void> {
+    try {
+      console.log('🗑️ Products API: Deleting attribute schema...');
+      await HttpClient.delete(`/products/attribute-schemas/${id}`, {}, accessToken);
+      console.log('✅ Products API: Attribute schema deleted');
+    } catch (error) {
+      console.error('❌ Products API: Error deleting attribute schema:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,565 @@
+/**
+ * Product Import Mapping
+ *
+ * Maps the column headers of a supplier file onto product fields and
+ * attributes in the browser, validates every mapped cell and rebuilds the
+ * file in the import template layout the backend expects. Mappings are
+ * saved per brand because each supplier keeps sending the same sheet.
+ * Attributes are also checked against the schema for each row's category.
+ *
+ * Re-imports are compared with the catalog first: rows are matched to
+ * existing products on groupSku + subSku, and the user picks which new rows
+ * and which changed fields to apply.
+ */
+
+import { HttpClient } from '../auth/httpClient';
+import { toCsv } from '../utils/export.utils';
+import { normalizeImportHeader, type ImportRow } from '../utils/import.utils';
+import type { Brand } from '../types/common.types';
+import type { Product } from './api';
+import {
+  normalizeAttributeValue,
+  resolveAttributeSchema,
+  validateAttributeValue,
+  type AttributeSchema,
+  type AttributeSchemaField,
+} from './attribute-schemas';
+import { getProductSubSkus } from './variants';
+
+export type ProductImportFieldKind = 'text' | 'number';
+
+export interface ProductImportField {
+  key: string;
+  label: string;
+  kind: ProductImportFieldKind;
+  required: boolean;
+  attribute: boolean; // stored under Product.attributes
+  aliases: string[]; // other supplier headers that usually mean this field
+}
+
+/**
+ * Columns of the import template, in template order
+ */
+export const PRODUCT_IMPORT_FIELDS: ProductImportField[] = [
+  { key: 'title', label: 'Title', kind: 'text', required: true, attribute: false, aliases: ['name', 'product name', 'product title', 'item name', 'description'] },
+  { key: 'brand', label: 'Brand', kind: 'text', required: true, attribute: false, aliases: ['brand name', 'manufacturer', 'vendor', 'supplier'] },
+  { key: 'groupSku', label: 'Group SKU', kind: 'text', required: true, attribute: false, aliases: ['sku', 'parent sku', 'model', 'model number', 'item number', 'item #'] },
+  { key: 'subSku', label: 'Sub SKU', kind: 'text', required: true, attribute: false, aliases: ['child sku', 'variant sku', 'component sku', 'box sku'] },
+  { key: 'category', label: 'Category', kind: 'text', required: true, attribute: false, aliases: ['product type', 'type', 'department'] },
+  { key: 'collectionName', label: 'Collection', kind: 'text', required: false, attribute: false, aliases: ['collection', 'series', 'group'] },
+  { key: 'shipTypes', label: 'Ship Type', kind: 'text', required: false, attribute: false, aliases: ['ship type', 'shipping type', 'ship method', 'ship via'] },
+  { key: 'singleSetItem', label: 'Single/Set', kind: 'text', required: false, attribute: false, aliases: ['single set', 'set', 'pack type'] },
+  { key: 'brandRealPrice', label: 'Brand Real Price', kind: 'number', required: true, attribute: false, aliases: ['cost', 'unit cost', 'wholesale', 'wholesale price', 'price', 'dealer price'] },
+  { key: 'brandMiscellaneous', label: 'Brand Misc.', kind: 'number', required: false, attribute: false, aliases: ['brand misc', 'handling', 'handling fee'] },
+  { key: 'msrp', label: 'MSRP', kind: 'number', required: true, attribute: false, aliases: ['retail', 'retail price', 'list price', 'map', 'map price'] },
+  { key: 'shippingPrice', label: 'Shipping Price', kind: 'number', required: false, attribute: false, aliases: ['shipping', 'shipping cost', 'freight'] },
+  { key: 'commissionPrice', label: 'Commission', kind: 'number', required: false, attribute: false, aliases: ['commission'] },
+  { key: 'profitMarginPrice', label: 'Profit Margin', kind: 'number', required: false, attribute: false, aliases: ['profit', 'margin', 'profit margin'] },
+  { key: 'ecommerceMiscellaneous', label: 'E-commerce Misc.', kind: 'number', required: false, attribute: false, aliases: ['ecommerce misc'] },
+  { key: 'origin', label: 'Origin', kind: 'text', required: false, attribute: true, aliases: ['country of origin', 'coo', 'made in'] },
+  { key: 'weight_lb', label: 'Weight (lb)', kind: 'number', required: false, attribute: true, aliases: ['weight', 'weight lbs', 'gross weight', 'net weight'] },
+  { key: 'sub_category', label: 'Sub Category', kind: 'text', required: false, attribute: true, aliases: ['subcategory', 'sub type'] },
+  { key: 'volume_cuft', label: 'Volume (cu ft)', kind: 'number', required: false, attribute: true, aliases: ['volume', 'cubic feet', 'cuft', 'cube'] },
+  { key: 'short_description', label: 'Short Description', kind: 'text', required: false, attribute: true, aliases: ['short desc', 'summary'] },
+  { key: 'shipping_width_in', label: 'Shipping Width (in)', kind: 'number', required: false, attribute: true, aliases: ['carton width', 'box width', 'package width'] },
+  { key: 'shipping_height_in', label: 'Shipping Height (in)', kind: 'number', required: false, attribute: true, aliases: ['carton height', 'box height', 'package height'] },
+  { key: 'shipping_length_in', label: 'Shipping Length (in)', kind: 'number', required: false, attribute: true, aliases: ['carton length', 'box length', 'package length', 'carton depth'] },
+  { key: 'color', label: 'Color', kind: 'text', required: false, attribute: true, aliases: ['colour', 'finish color'] },
+  { key: 'style', label: 'Style', kind: 'text', required: false, attribute: true, aliases: [] },
+  { key: 'material', label: 'Material', kind: 'text', required: false, attribute: true, aliases: ['materials', 'main material'] },
+  { key: 'feature_1', label: 'Feature 1', kind: 'text', required: false, attribute: true, aliases: ['bullet 1', 'bullet point 1', 'feature1'] },
+  { key: 'feature_2', label: 'Feature 2', kind: 'text', required: false, attribute: true, aliases: ['bullet 2', 'bullet point 2', 'feature2'] },
+  { key: 'feature_3', label: 'Feature 3', kind: 'text', required: false, attribute: true, aliases: ['bullet 3', 'bullet point 3', 'feature3'] },
+  { key: 'feature_4', label: 'Feature 4', kind: 'text', required: false, attribute: true, aliases: ['bullet 4', 'bullet point 4', 'feature4'] },
+  { key: 'feature_5', label: 'Feature 5', kind: 'text', required: false, attribute: true, aliases: ['bullet 5', 'bullet point 5', 'feature5'] },
+  { key: 'feature_6', label: 'Feature 6', kind: 'text', required: false, attribute: true, aliases: ['bullet 6', 'bullet point 6', 'feature6'] },
+  { key: 'feature_7', label: 'Feature 7', kind: 'text', required: false, attribute: true, aliases: ['bullet 7', 'bullet point 7', 'feature7'] },
+  { key: 'product_dimension_inch', label: 'Product Dimensions (in)', kind: 'text', required: false, attribute: true, aliases: ['dimensions', 'product dimensions', 'assembled dimensions', 'size'] },
+];
+
+/**
+ * Mapping target that drops a column from the import
+ */
+export const IGNORE_IMPORT_COLUMN = '';
+
+const CUSTOM_ATTRIBUTE_PREFIX = 'attribute:';
+
+/**
+ * Source header -> target. A target is a field key, IGNORE_IMPORT_COLUMN, or
+ * a custom attribute created with customAttributeTarget().
+ */
+export type ProductImportMapping = Record<string, string>;
+
+/**
+ * Mapping saved for a brand's supplier files
+ */
+export interface SavedProductImportMapping {
+  brandId: number;
+  columns: ProductImportMapping;
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+/**
+ * One file row after mapping. Errors are keyed by mapping target.
+ */
+export interface ProductImportPreviewRow {
+  row: number; // spreadsheet row number, header is row 1
+  values: Record<string, string>;
+  errors: Record<string, string>;
+}
+
+const FIELDS_BY_KEY = new Map(PRODUCT_IMPORT_FIELDS.map(field => [field.key, field]));
+
+export function getProductImportField(target: string): ProductImportField | undefined {
+  return FIELDS_BY_KEY.get(target);
+}
+
+/**
+ * Target for keeping a column as a free-form attribute, named after the header
+ */
+export function customAttributeTarget(header: string): string {
+  const name = header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${CUSTOM_ATTRIBUTE_PREFIX}${name}`;
+}
+
+/**
+ * Target an attribute schema field imports into: the template column when
+ * there is one, otherwise an attribute named after the field key
+ */
+export function attributeSchemaTarget(key: string): string {
+  return FIELDS_BY_KEY.has(key) ? key : `${CUSTOM_ATTRIBUTE_PREFIX}${key}`;
+}
+
+export function isCustomAttributeTarget(target: string): boolean {
+  return target.startsWith(CUSTOM_ATTRIBUTE_PREFIX);
+}
+
+/**
+ * Column header the target is written under in the rebuilt template file
+ */
+export function importTargetColumn(target: string): string {
+  return isCustomAttributeTarget(target) ? target.slice(CUSTOM_ATTRIBUTE_PREFIX.length) : target;
+}
+
+export function importTargetLabel(target: string): string {
+  if (isCustomAttributeTarget(target)) return `Attribute: ${importTargetColumn(target)}`;
+  return getProductImportField(target)?.label || target;
+}
+
+/**
+ * Headers of a parsed file, in first-seen order
+ */
+export function getImportHeaders(rows: ImportRow[]): string[] {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(header => headers.add(header)));
+  return Array.from(headers);
+}
+
+/**
+ * Suggest a target for every header: the brand's saved mapping first, then
+ * exact field names, then common supplier aliases. A field is only used once.
+ */
+export function suggestProductImportMapping(
+  headers: string[],
+  saved?: ProductImportMapping | null,
+  attributeFields: AttributeSchemaField[] = []
+): ProductImportMapping {
+  const savedByHeader = new Map(
+    Object.entries(saved || {}).map(([header, target]) => [normalizeImportHeader(header), target])
+  );
+  const mapping: ProductImportMapping = {};
+  const used = new Set<string>();
+
+  headers.forEach(header => {
+    const target = savedByHeader.get(normalizeImportHeader(header));
+    if (target !== undefined && (target === IGNORE_IMPORT_COLUMN || isCustomAttributeTarget(target) || FIELDS_BY_KEY.has(target)) && !used.has(target)) {
+      mapping[header] = target;
+      if (target) used.add(target);
+    }
+  });
+
+  const match = (header: string, byAlias: boolean) => {
+    const normalized = normalizeImportHeader(header);
+    return PRODUCT_IMPORT_FIELDS.find(field =>
+      !used.has(field.key) &&
+      (byAlias
+        ? field.aliases.some(alias => normalizeImportHeader(alias) === normalized)
+        : normalizeImportHeader(field.key) === normalized || normalizeImportHeader(field.label) === normalized)
+    );
+  };
+
+  [false, true].forEach(byAlias => {
+    headers.forEach(header => {
+      if (header in mapping) return;
+      const field = match(header, byAlias);
+      if (field) {
+        mapping[header] = field.key;
+        used.add(field.key);
+      }
+    });
+  });
+
+  headers.forEach(header => {
+    if (header in mapping) return;
+    const normalized = normalizeImportHeader(header);
+    const field = attributeFields.find(field =>
+      !used.has(attributeSchemaTarget(field.key)) &&
+      (normalizeImportHeader(field.key) === normalized || normalizeImportHeader(field.label) === normalized)
+    );
+    if (field) {
+      mapping[header] = attributeSchemaTarget(field.key);
+      used.add(mapping[header]);
+    }
+  });
+
+  headers.forEach(header => {
+    if (!(header in mapping)) mapping[header] = IGNORE_IMPORT_COLUMN;
+  });
+  return mapping;
+}
+
+/**
+ * Required fields no column is mapped to
+ */
+export function getUnmappedRequiredFields(
+  mapping: ProductImportMapping,
+  defaults: Record<string, string> = {}
+): ProductImportField[] {
+  const mapped = new Set(Object.values(mapping));
+  return PRODUCT_IMPORT_FIELDS.filter(field => field.required && !mapped.has(field.key) && !defaults[field.key]);
+}
+
+/**
+ * Targets in use, template fields first, then custom attributes
+ */
+export function getMappedTargets(mapping: ProductImportMapping, defaults: Record<string, string> = {}): string[] {
+  const targets = new Set(Object.values(mapping).filter(Boolean));
+  Object.keys(defaults).forEach(key => { if (defaults[key]) targets.add(key); });
+  return [
+    ...PRODUCT_IMPORT_FIELDS.map(field => field.key).filter(key => targets.has(key)),
+    ...Array.from(targets).filter(isCustomAttributeTarget).sort(),
+  ];
+}
+
+const parseImportNumber = (value: string) => Number(value.replace(/[$,\s]/g, ''));
+
+/**
+ * Apply a mapping to parsed rows and validate every mapped cell
+ *
+ * @param defaults - Values for empty cells, e.g. the brand the file is imported for
+ * @param brands - Known brands; brand cells must name one of them
+ * @param schemas - Attribute schemas; each row is checked against the one for its category
+ */
+export function buildProductImportPreview(
+  rows: ImportRow[],
+  mapping: ProductImportMapping,
+  defaults: Record<string, string> = {},
+  brands: Brand[] = [],
+  schemas: AttributeSchema[] = []
+): ProductImportPreviewRow[] {
+  const targets = getMappedTargets(mapping, defaults);
+  const brandNames = new Set(brands.map(brand => brand.name.trim().toLowerCase()));
+  const firstRowBySku = new Map<string, number>();
+
+  return rows.map((source, index) => {
+    const values: Record<string, string> = {};
+    const errors: Record<string, string> = {};
+
+    Object.entries(mapping).forEach(([header, target]) => {
+      if (!target) return;
+      const value = String(source[header] ?? '').trim();
+      // When two columns share a target the first non-empty one wins
+      if (value && !values[target]) values[target] = value;
+    });
+    targets.forEach(target => {
+      if (!values[target]) values[target] = defaults[target] || '';
+    });
+
+    targets.forEach(target => {
+      const field = getProductImportField(target);
+      const value = values[target];
+      if (!field) return;
+      if (!value) {
+        if (field.required) errors[target] = `${field.label} is required`;
+        return;
+      }
+      if (field.kind === 'number') {
+        const parsed = parseImportNumber(value);
+        if (isNaN(parsed)) {
+          errors[target] = `${field.label} must be a number`;
+        } else if (parsed < 0) {
+          errors[target] = `${field.label} cannot be negative`;
+        } else {
+          values[target] = String(parsed);
+        }
+      }
+    });
+
+    resolveAttributeSchema(schemas, values.category, values.sub_category)?.forEach(field => {
+      const target = attributeSchemaTarget(field.key);
+      if (errors[target]) return;
+      const error = validateAttributeValue(field, values[target]);
+      if (error) {
+        errors[target] = error;
+      } else if (values[target]) {
+        values[target] = String(normalizeAttributeValue(field, values[target]));
+      }
+    });
+
+    if (values.brand && brandNames.size > 0 && !brandNames.has(values.brand.trim().toLowerCase())) {
+      errors.brand = `Unknown brand "${values.brand}"`;
+    }
+
+    const row = index + 2;
+    if (values.groupSku && values.subSku && !errors.subSku) {
+      const key = `${values.groupSku}|${values.subSku}`.toLowerCase();
+      const first = firstRowBySku.get(key);
+      if (first) {
+        errors.subSku = `Same Group SKU and Sub SKU as row ${first}`;
+      } else {
+        firstRowBySku.set(key, row);
+      }
+    }
+
+    return { row, values, errors };
+  });
+}
+
+/**
+ * Rebuild mapped rows as a CSV file in the import template layout
+ */
+export function buildProductImportFile(
+  rows: ProductImportPreviewRow[],
+  targets: string[],
+  fileName: string
+): File {
+  const csv = toCsv(
+    targets.map(importTargetColumn),
+    rows.map(row => targets.map(target => row.values[target] || ''))
+  );
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  return new File([csv], `${baseName}_mapped.csv`, { type: 'text/csv' });
+}
+
+/**
+ * How rows that match an existing product are handled
+ * - create: only add new products, skip rows that already exist
+ * - update: only change existing products, skip rows not in the catalog
+ * - upsert: add new products and change existing ones
+ */
+export type ProductImportMode = 'create' | 'update' | 'upsert';
+
+export const PRODUCT_IMPORT_MODE_LABELS: Record<ProductImportMode, string> = {
+  create: 'Create only',
+  update: 'Update only',
+  upsert: 'Create and update',
+};
+
+export type ProductImportDiffStatus = 'new' | 'changed' | 'unchanged' | 'skipped';
+
+export interface ProductImportChange {
+  target: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Dry-run result for one mapped row
+ */
+export interface ProductImportDiffRow {
+  preview: ProductImportPreviewRow;
+  status: ProductImportDiffStatus;
+  product: Product | null; // the existing product the row matched
+  changes: ProductImportChange[];
+  reason?: string; // why a row is skipped
+}
+
+export interface ProductImportUpdate {
+  row: number;
+  product: Product;
+  data: Partial<Product>;
+}
+
+/**
+ * What the user chose to apply after reviewing the diff
+ */
+export interface ProductImportPlan {
+  mode: ProductImportMode;
+  createFile: File | null;
+  createCount: number;
+  updates: ProductImportUpdate[];
+}
+
+const splitSkus = (value: string | null | undefined) =>
+  (value || '').split(',').map(sku => sku.trim().toLowerCase()).filter(Boolean);
+
+const sameSku = (a: string | null | undefined, b: string | null | undefined) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Current value of a mapping target on a product, as a string
+ */
+export function getProductImportValue(product: Product, target: string): string {
+  const field = getProductImportField(target);
+  const value = field && !field.attribute
+    ? (product as any)[target]
+    : product.attributes?.[importTargetColumn(target)];
+  if (value == null) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+const isSameImportValue = (target: string, before: string, after: string) => {
+  if (getProductImportField(target)?.kind === 'number' && before.trim() !== '') {
+    return Number(before) === Number(after);
+  }
+  return before.trim() === after.trim();
+};
+
+/**
+ * Match a row to an existing product, the way getProductBySku resolves SKUs:
+ * look up each sub SKU, then the group SKU. A match must share the row's
+ * group SKU and at least one sub SKU.
+ *
+ * @returns the product, null when the row is new, or a conflict reason
+ */
+async function matchImportRow(
+  values: Record<string, string>,
+  lookup: (sku: string) => Promise<Product | null>
+): Promise<{ product: Product | null; conflict?: string }> {
+  const subSkus = splitSkus(values.subSku);
+  for (const sku of [...subSkus, (values.groupSku || '').trim().toLowerCase()]) {
+    if (!sku) continue;
+    const product = await lookup(sku);
+    if (!product) continue;
+
+    if (!sameSku(product.groupSku, values.groupSku)) {
+      return { product: null, conflict: `SKU ${sku} already belongs to group ${product.groupSku}` };
+    }
+    const existing = getProductSubSkus(product).map(sku => sku.toLowerCase());
+    if (existing.length === 0 && subSkus.length === 0) return { product };
+    if (subSkus.some(subSku => existing.includes(subSku))) return { product };
+  }
+  return { product: null };
+}
+
+/**
+ * Compare mapped rows with the catalog without changing anything
+ *
+ * Empty cells never clear an existing value. Rows for another brand than the
+ * matched product are skipped rather than moving the product.
+ *
+ * @param lookup - Resolves a SKU to a product, null when there is none
+ * @param concurrency - Lookups in flight at once
+ */
+export async function buildProductImportDiff(
+  rows: ProductImportPreviewRow[],
+  mode: ProductImportMode,
+  lookup: (sku: string) => Promise<Product | null>,
+  concurrency: number = 6
+): Promise<ProductImportDiffRow[]> {
+  const result: ProductImportDiffRow[] = new Array(rows.length);
+  let next = 0;
+
+  const diffRow = async (preview: ProductImportPreviewRow): Promise<ProductImportDiffRow> => {
+    const base = { preview, product: null, changes: [] };
+    const { product, conflict } = await matchImportRow(preview.values, lookup);
+    if (conflict) return { ...base, status: 'skipped', reason: conflict };
+
+    if (!product) {
+      return mode === 'update'
+        ? { ...base, status: 'skipped', reason: 'Not in the catalog' }
+        : { ...base, status: 'new' };
+    }
+    if (mode === 'create') {
+      return { ...base, product, status: 'skipped', reason: `Already exists as ${product.title}` };
+    }
+    if (preview.values.brand && product.brand?.name && !sameSku(preview.values.brand, product.brand.name)) {
+      return { ...base, product, status: 'skipped', reason: `Existing product belongs to ${product.brand.name}` };
+    }
+
+    const changes = Object.entries(preview.values)
+      .filter(([target, after]) => target !== 'brand' && after !== '')
+      .map(([target, after]) => ({ target, before: getProductImportValue(product, target), after }))
+      .filter(change => !isSameImportValue(change.target, change.before, change.after));
+    return { ...base, product, changes, status: changes.length > 0 ? 'changed' : 'unchanged' };
+  };
+
+  const worker = async () => {
+    while (next < rows.length) {
+      const index = next++;
+      result[index] = await diffRow(rows[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, worker));
+  return result;
+}
+
+/**
+ * Update payload applying the chosen changes to a product
+ */
+export function buildProductImportUpdate(product: Product, changes: ProductImportChange[]): Partial<Product> {
+  const data: Record<string, any> = {};
+  const attributes: Record<string, any> = {};
+
+  changes.forEach(({ target, after }) => {
+    const field = getProductImportField(target);
+    const value = field?.kind === 'number' ? Number(after) : after;
+    if (field && !field.attribute) {
+      data[target] = value;
+    } else {
+      attributes[importTargetColumn(target)] = value;
+    }
+  });
+
+  if (Object.keys(attributes).length > 0) {
+    data.attributes = { ...product.attributes, ...attributes };
+  }
+  return data as Partial<Product>;
+}
+
+export class ProductImportMappingsService {
+  /**
+   * Get the import mapping saved for a brand, or null if there is none
+   */
+  static async getMapping(accessToken: string, brandId: number): Promise<SavedProductImportMapping | null> {
+    try {
+      console.log('🔍 Products API: Getting import mapping for brand', brandId);
+      const response = await HttpClient.get<{ mapping: SavedProductImportMapping | null }>(
+        `/brands/${brandId}/import-mapping`,
+        {},
+        accessToken
+      );
+      return response.mapping || null;
+    } catch (error) {
+      // No saved mapping yet; the wizard falls back to suggestions
+      console.warn('⚠️ Products API: No import mapping for brand', brandId);
+      return null;
+    }
+  }
+
+  /**
+   * Save the import mapping for a brand, replacing the previous one
+   */
+  static async saveMapping(
+    accessToken: string,
+    brandId: number,
+    columns: ProductImportMapping
+  ): Promise<SavedProductImportMapping> {
+    try {
+      console.log('📝 Products API: Saving import mapping for brand', brandId);
+      const response = await HttpClient.put<{ mapping: SavedProductImportMapping }>(
+        `/brands/${brandId}/import-mapping`,
+        { columns },
+        {},
+        accessToken
+      );
+      console.log('✅ Products API: Import mapping saved');
+      return response.mapping;
+    } catch (error) {
+      console.error('❌ Products API: Error saving import mapping:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Product Variants
+ *
+ * A parent product owns child variants defined by option axes such as color,
+ * size or finish. Each variant has its own sub-SKU, optional price overrides,
+ * images and inventory row. Listings and inventory reference variants by id;
+ * the comma-separated Product.subSku is only read for products without
+ * variants.
+ */
+
+import { HttpClient } from '../auth/httpClient';
+import type { ListingComponent } from '../listings/api';
+import type { Product } from './api';
+
+export interface VariantOptionAxis {
+  name: string; // e.g. "Color"
+  values: string[]; // e.g. ["Black", "White"]
+}
+
+export type VariantPriceField = 'brandRealPrice' | 'msrp' | 'shippingPrice' | 'ecommercePrice';
+
+export const VARIANT_PRICE_FIELDS: Array<{ key: VariantPriceField; label: string }> = [
+  { key: 'brandRealPrice', label: 'Cost' },
+  { key: 'msrp', label: 'MSRP' },
+  { key: 'shippingPrice', label: 'Shipping' },
+  { key: 'ecommercePrice', label: 'E-commerce' },
+];
+
+export const VARIANT_AXIS_PRESETS = ['Color', 'Size', 'Finish'];
+
+export interface ProductVariant {
+  id: number;
+  productId: number;
+  subSku: string;
+  options: Record<string, string>; // axis name -> value
+  priceOverrides: Partial<Record<VariantPriceField, number>>; // missing fields use the parent's price
+  mainImageUrl: string | null;
+  galleryImages: string[] | null;
+  inventory: { id: number; quantity: number } | null; // created by the backend with the variant
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Variant as edited in the matrix; id is null until the backend creates it
+ */
+export interface ProductVariantInput {
+  id: number | null;
+  subSku: string;
+  options: Record<string, string>;
+  priceOverrides: Partial<Record<VariantPriceField, number>>;
+  mainImageUrl: string | null;
+  galleryImages: string[];
+}
+
+export interface ProductVariantSet {
+  axes: VariantOptionAxis[];
+  variants: ProductVariant[];
+}
+
+const usableAxes = (axes: VariantOptionAxis[]) =>
+  axes.filter(axis => axis.name.trim() && axis.values.some(value => value.trim()));
+
+/**
+ * Every combination of the axis values, in axis order
+ */
+export function buildVariantMatrix(axes: VariantOptionAxis[]): Array<Record<string, string>> {
+  const usable = usableAxes(axes);
+  if (usable.length === 0) return [];
+
+  return usable.reduce<Array<Record<string, string>>>(
+    (combinations, axis) => combinations.flatMap(options =>
+      axis.values
+        .map(value => value.trim())
+        .filter(Boolean)
+        .map(value => ({ ...options, [axis.name.trim()]: value }))
+    ),
+    [{}]
+  );
+}
+
+/**
+ * Identity of a variant within its parent, independent of key order and case
+ */
+export function variantOptionKey(options: Record<string, string>): string {
+  return Object.keys(options)
+    .map(name => `${name.trim().toLowerCase()}=${(options[name] || '').trim().toLowerCase()}`)
+    .sort()
+    .join('|');
+}
+
+export function formatVariantOptions(options: Record<string, string> | null | undefined): string {
+  return Object.values(options || {}).filter(Boolean).join(' / ');
+}
+
+// "Dark Walnut" -> "DW", "Black" -> "BLC", "XL" -> "XL", "12 in" -> "12I"
+const skuPart = (value: string) => {
+  const words = value.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+  if (words.length > 1) return words.map(word => /^\d+$/.test(word) ? word : word[0]).join('');
+  const word = words[0] || '';
+  if (word.length <= 3 || /^\d+$/.test(word)) return word;
+  return (word[0] + word.slice(1).replace(/[AEIOU]/g, '')).slice(0, 3);
+};
+
+/**
+ * Sub-SKU for a new variant: the parent's group SKU followed by a short
+ * code per option, e.g. "AM-BK300" + Black / Queen -> "AM-BK300-BLC-QN"
+ */
+export function suggestVariantSku(groupSku: string, options: Record<string, string>): string {
+  return [groupSku.trim(), ...Object.values(options).map(skuPart)].filter(Boolean).join('-');
+}
+
+/**
+ * Regenerate the variant list from the axes. Variants whose options still
+ * exist keep their sub-SKU, prices and images; new combinations get a
+ * suggested sub-SKU. Variants that no longer fit the axes are returned
+ * separately so the editor can warn before they are deleted.
+ */
+export function mergeVariantMatrix(
+  current: ProductVariantInput[],
+  axes: VariantOptionAxis[],
+  groupSku: string
+): { variants: ProductVariantInput[]; removed: ProductVariantInput[] } {
+  const byKey = new Map(current.map(variant => [variantOptionKey(variant.options), variant]));
+  const variants = buildVariantMatrix(axes).map(options => {
+    const existing = byKey.get(variantOptionKey(options));
+    byKey.delete(variantOptionKey(options));
+    return existing
+      ? { ...existing, options }
+      : { id: null, subSku: suggestVariantSku(groupSku, options), options, priceOverrides: {}, mainImageUrl: null, galleryImages: [] };
+  });
+  return { variants, removed: Array.from(byKey.values()) };
+}
+
+export function toVariantInput(variant: ProductVariant): ProductVariantInput {
+  return {
+    id: variant.id,
+    subSku: variant.subSku,
+    options: { ...variant.options },
+    priceOverrides: { ...variant.priceOverrides },
+    mainImageUrl: variant.mainImageUrl,
+    galleryImages: variant.galleryImages || [],
+  };
+}
+
+/**
+ * Problems that block saving, keyed by variant index
+ */
+export function validateVariants(variants: ProductVariantInput[]): Record<number, string> {
+  const errors: Record<number, string> = {};
+  const firstBySku = new Map<string, number>();
+
+  variants.forEach((variant, index) => {
+    const sku = variant.subSku.trim().toLowerCase();
+    if (!sku) {
+      errors[index] = 'Sub-SKU is required';
+    } else if (/[,\s]/.test(variant.subSku.trim())) {
+      errors[index] = 'Sub-SKU cannot contain spaces or commas';
+    } else if (firstBySku.has(sku)) {
+      errors[index] = `Same sub-SKU as row ${firstBySku.get(sku)! + 1}`;
+    } else {
+      firstBySku.set(sku, index);
+    }
+
+    const negative = VARIANT_PRICE_FIELDS.find(field => (variant.priceOverrides[field.key] ?? 0) < 0);
+    if (!errors[index] && negative) errors[index] = `${negative.label} cannot be negative`;
+  });
+  return errors;
+}
+
+/**
+ * Price of a variant, falling back to the parent product's
+ */
+export function getVariantPrice(
+  product: Pick<Product, VariantPriceField>,
+  variant: Pick<ProductVariant, 'priceOverrides'> | null | undefined,
+  field: VariantPriceField
+): number {
+  const override = variant?.priceOverrides?.[field];
+  return override ?? (Number(product[field]) || 0);
+}
+
+/**
+ * Sub-SKUs of a product: its variants' when it has any, otherwise the legacy
+ * comma-separated subSku
+ */
+export function getProductSubSkus(product: Pick<Product, 'subSku' | 'variants'>): string[] {
+  if (product.variants && product.variants.length > 0) return product.variants.map(variant => variant.subSku);
+  return product.subSku ? product.subSku.split(',').map(sku => sku.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Product and variant a sub-SKU belongs to, among the given products
+ */
+export function findSubSkuOwner(
+  products: Array<Pick<Product, 'id' | 'subSku' | 'variants'>>,
+  sku: string
+): { productId: number | null; variantId: number | null } {
+  const target = sku.trim().toLowerCase();
+  for (const product of products) {
+    const variant = product.variants?.find(v => v.subSku.toLowerCase() === target);
+    if (variant) return { productId: product.id, variantId: variant.id };
+    if (getProductSubSkus(product).some(subSku => subSku.toLowerCase() === target)) return { productId: product.id, variantId: null };
+  }
+  return { productId: null, variantId: null };
+}
+
+/**
+ * Collapse a listing's sub-SKU entries into components. Entries with the
+ * same sub-SKU add up, since the listing editors may add one entry per unit.
+ *
+ * @param known - Components the entries came from, used to keep variant ids
+ */
+export function toListingComponents(
+  entries: Array<{ sku: string; quantity: number | string; variantId?: number | null; productId?: number | null }>,
+  known: ListingComponent[] = []
+): ListingComponent[] {
+  const components = new Map<string, ListingComponent>();
+  entries
+    .filter(entry => entry.sku.trim() && Number(entry.quantity) > 0)
+    .forEach(entry => {
+      const sku = entry.sku.trim();
+      const existing = components.get(sku.toLowerCase());
+      if (existing) {
+        existing.quantity += Number(entry.quantity);
+        return;
+      }
+      const source = known.find(component => component.subSku.toLowerCase() === sku.toLowerCase());
+      components.set(sku.toLowerCase(), {
+        productId: entry.productId ?? source?.productId ?? null,
+        variantId: entry.variantId ?? source?.variantId ?? null,
+        subSku: sku,
+        quantity: Number(entry.quantity),
+      });
+    });
+  return Array.from(components.values());
+}
+
+export class ProductVariantsService {
+  /**
+   * Get a product's option axes and variants
+   */
+  static async getVariants(accessToken: string, productId: number): Promise<ProductVariantSet> {
+    try {
+      console.log('🔍 Products API: Getting variants...');
+      const response = await HttpClient.get<ProductVariantSet>(`/products/${productId}/variants`, {}, accessToken);
+      return { axes: response.axes || [], variants: response.variants || [] };
+    } catch (error) {
+      console.error('❌ Products API: Error getting variants:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a product's axes and variants. Variants without an id are
+   * created with an inventory row; variants left out are deleted.
+   */
+  static async saveVariants(
+    accessToken: string,
+    productId: number,
+    data: { axes: VariantOptionAxis[]; variants: ProductVariantInput[] }
+  ): Promise<ProductVariantSet> {
+    try {
+      console.log('🔄 Products API: Saving variants...');
+      const response = await HttpClient.put<ProductVariantSet>(`/products/${productId}/variants`, data, {}, accessToken);
+      console.log('✅ Products API: Variants saved');
+      return { axes: response.axes || [], variants: response.variants || [] };
+    } catch (error) {
+      console.error('❌ Products API: Error saving variants:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Reports API
+ *
+ * Report figures are aggregated by the backend so the browser never loads
+ * the whole catalog. Margin reports come back as per-group totals; the
+ * below-cost and catalog-health reports return only the offending rows,
+ * capped at REPORT_ROW_LIMIT with the full count alongside. The backend uses the
+ * cost formula documented in calculations.ts and filters on createdAt.
+ */
+
+import { HttpClient } from '../auth/httpClient';
+import { ListingsService, type Listing, type ListingsFilters } from '../listings/api';
+import type { Product } from '../products/api';
+import type { DateRange, MarginGroupTotals } from './calculations';
+
+const PAGE_SIZE = 500;
+
+export const REPORT_ROW_LIMIT = 1000;
+
+export type MarginGroupBy = 'brand' | 'category';
+
+export type MarginSource = 'listings' | 'products';
+
+export interface MarginReportResponse {
+  groups: MarginGroupTotals[];
+  timestamp: string;
+}
+
+export interface BelowCostReportResponse {
+  listings: Listing[];
+  total: number; // every listing below cost in the range, even past the limit
+  timestamp: string;
+}
+
+export interface CatalogHealthReportResponse {
+  products: Product[];
+  total: number; // every product with an issue in the range, even past the limit
+  timestamp: string;
+}
+
+const rangeParams = (range: DateRange, params = new URLSearchParams()) => {
+  if (range.from) params.append('from', range.from);
+  if (range.to) params.append('to', range.to);
+  return params;
+};
+
+export class ReportsService {
+  /**
+   * Margin totals per brand or category for listings or products created in the range
+   */
+  static async getMarginReport(
+    accessToken: string,
+    groupBy: MarginGroupBy,
+    source: MarginSource,
+    range: DateRange = {}
+  ): Promise<MarginReportResponse> {
+    const params = rangeParams(range, new URLSearchParams({ groupBy, source }));
+
+    try {
+      console.log('📊 Reports API: Fetching margin report...');
+      const response = await HttpClient.get<MarginReportResponse>(`/reports/margin?${params.toString()}`, {}, accessToken);
+      console.log('✅ Reports API: Retrieved margin report successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Reports API: Error fetching margin report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Listings created in the range whose ecommerce price does not cover their cost
+   */
+  static async getBelowCostReport(accessToken: string, range: DateRange = {}): Promise<BelowCostReportResponse> {
+    const params = rangeParams(range, new URLSearchParams({ limit: REPORT_ROW_LIMIT.toString() }));
+
+    try {
+      console.log('📊 Reports API: Fetching below-cost report...');
+      const response = await HttpClient.get<BelowCostReportResponse>(`/reports/below-cost?${params.toString()}`, {}, accessToken);
+      console.log('✅ Reports API: Retrieved below-cost report successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Reports API: Error fetching below-cost report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Products created in the range that miss images, feature bullets or shipping dimensions
+   */
+  static async getCatalogHealthReport(accessToken: string, range: DateRange = {}): Promise<CatalogHealthReportResponse> {
+    const params = rangeParams(range, new URLSearchParams({ limit: REPORT_ROW_LIMIT.toString() }));
+
+    try {
+      console.log('📊 Reports API: Fetching catalog health report...');
+      const response = await HttpClient.get<CatalogHealthReportResponse>(`/reports/catalog-health?${params.toString()}`, {}, accessToken);
+      console.log('✅ Reports API: Retrieved catalog health report successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Reports API: Error fetching catalog health report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load every listing the user can access, page by page
+   */
+  static async getAllListings(
+    accessToken: string,
+    filters: Omit<ListingsFilters, 'page' | 'limit'> = {}
+  ): Promise<Listing[]> {
+    const listings: Listing[] = [];
+    let page = 1;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const response = await ListingsService.getListings(accessToken, { ...filters, page, limit: PAGE_SIZE });
+      listings.push(...(response.listings || []));
+      hasNextPage = !!response.pagination?.hasNextPage;
+      page++;
+    }
+
+    return listings;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Report Calculations
+ *
+ * Pure functions that turn the backend's report data into table rows.
+ * All prices are absolute amounts as stored on Product / Listing, and the
+ * backend aggregates with the same formula:
+ *
+ *   cost   = brandRealPrice + brandMiscellaneous + shippingPrice
+ *            + commissionPrice + ecommerceMiscellaneous
+ *   margin = ecommercePrice - cost
+ */
+
+import type { Product } from '../products/api';
+import type { Listing } from '../listings/api';
+
+/**
+ * Fields shared by products and listings that the pricing reports read
+ */
+export type PricedItem = Pick<
+  Product,
+  | 'brandRealPrice'
+  | 'brandMiscellaneous'
+  | 'shippingPrice'
+  | 'commissionPrice'
+  | 'profitMarginPrice'
+  | 'ecommerceMiscellaneous'
+  | 'ecommercePrice'
+  | 'createdAt'
+> & {
+  category: string | null;
+  brand?: { id: number; name: string } | null;
+};
+
+export interface DateRange {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Sums for one brand or category as returned by the margin report endpoint
+ */
+export interface MarginGroupTotals {
+  key: string;
+  itemCount: number;
+  totalEcommercePrice: number;
+  totalCost: number;
+  belowCostCount: number;
+}
+
+export interface MarginGroupRow {
+  key: string;
+  itemCount: number;
+  totalEcommercePrice: number;
+  totalCost: number;
+  totalMargin: number;
+  averageMargin: number;
+  averageMarginPercent: number;
+  belowCostCount: number;
+}
+
+export interface BelowCostRow {
+  id: number;
+  sku: string;
+  subSku: string | null;
+  title: string;
+  brand: string;
+  ecommercePrice: number;
+  cost: number;
+  shortfall: number;
+}
+
+export type CatalogHealthIssue = 'mainImage' | 'galleryImages' | 'features' | 'shippingDimensions';
+
+export interface CatalogHealthRow {
+  id: number;
+  groupSku: string;
+  subSku: string | null;
+  title: string;
+  brand: string;
+  issues: CatalogHealthIssue[];
+  missingFeatures: string[];
+  missingDimensions: string[];
+}
+
+export const FEATURE_KEYS = ['feature_1', 'feature_2', 'feature_3', 'feature_4', 'feature_5', 'feature_6', 'feature_7'];
+
+export const SHIPPING_DIMENSION_KEYS = ['shipping_length_in', 'shipping_width_in', 'shipping_height_in', 'weight_lb'];
+
+export const CATALOG_HEALTH_LABELS: Record<CatalogHealthIssue, string> = {
+  mainImage: 'Missing main image',
+  galleryImages: 'Missing gallery images',
+  features: 'Missing features',
+  shippingDimensions: 'Missing shipping dimensions',
+};
+
+/**
+ * Coerce a price that may arrive as a string (Prisma decimals) to a number
+ */
+export const toAmount = (value: unknown): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? 0));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const getCost = (item: PricedItem): number =>
+  toAmount(item.brandRealPrice) +
+  toAmount(item.brandMiscellaneous) +
+  toAmount(item.shippingPrice) +
+  toAmount(item.commissionPrice) +
+  toAmount(item.ecommerceMiscellaneous);
+
+export const getMargin = (item: PricedItem): number => toAmount(item.ecommercePrice) - getCost(item);
+
+/**
+ * Margin rows from per-group totals, highest total margin first
+ */
+export function toMarginRows(groups: MarginGroupTotals[]): MarginGroupRow[] {
+  return groups
+    .map(group => {
+      const totalEcommercePrice = toAmount(group.totalEcommercePrice);
+      const totalCost = toAmount(group.totalCost);
+      const totalMargin = totalEcommercePrice - totalCost;
+
+      return {
+        key: group.key || 'Unassigned',
+        itemCount: group.itemCount,
+        totalEcommercePrice: round2(totalEcommercePrice),
+        totalCost: round2(totalCost),
+        totalMargin: round2(totalMargin),
+        averageMargin: group.itemCount > 0 ? round2(totalMargin / group.itemCount) : 0,
+        averageMarginPercent: totalEcommercePrice > 0 ? round2((totalMargin / totalEcommercePrice) * 100) : 0,
+        belowCostCount: group.belowCostCount,
+      };
+    })
+    .sort((a, b) => b.totalMargin - a.totalMargin);
+}
+
+/**
+ * Listings whose ecommerce price does not cover their cost
+ */
+export function listingsBelowCost(listings: Listing[]): BelowCostRow[] {
+  return listings
+    .filter(listing => getMargin(listing) < 0)
+    .map(listing => ({
+      id: listing.id,
+      sku: listing.sku,
+      subSku: listing.subSku,
+      title: listing.title,
+      brand: listing.customBrandName || listing.brand?.name || '',
+      ecommercePrice: round2(toAmount(listing.ecommercePrice)),
+      cost: round2(getCost(listing)),
+      shortfall: round2(-getMargin(listing)),
+    }))
+    .sort((a, b) => b.shortfall - a.shortfall);
+}
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Products missing images, feature bullets or shipping dimensions
+ */
+export function catalogHealth(products: Product[]): CatalogHealthRow[] {
+  return products
+    .map(product => {
+      const attributes = product.attributes || {};
+      const missingFeatures = FEATURE_KEYS.filter(key => isBlank(attributes[key]));
+      const missingDimensions = SHIPPING_DIMENSION_KEYS.filter(key => isBlank(attributes[key]) || toAmount(attributes[key]) <= 0);
+
+      const issues: CatalogHealthIssue[] = [];
+      if (isBlank(product.mainImageUrl)) issues.push('mainImage');
+      if (!product.galleryImages || product.galleryImages.length === 0) issues.push('galleryImages');
+      if (missingFeatures.length > 0) issues.push('features');
+      if (missingDimensions.length > 0) issues.push('shippingDimensions');
+
+      return {
+        id: product.id,
+        groupSku: product.groupSku,
+        subSku: product.subSku,
+        title: product.title,
+        brand: product.brand?.name || '',
+        issues,
+        missingFeatures,
+        missingDimensions,
+      };
+    })
+    .filter(row => row.issues.length > 0);
+}
@@ -0,0 +1,36 @@
+/**
+ * Reports Module
+ * 
+ * Central export point for report data loading and calculations
+ */
+
+export { ReportsService, REPORT_ROW_LIMIT } from './api';
+export type {
+  MarginGroupBy,
+  MarginSource,
+  MarginReportResponse,
+  BelowCostReportResponse,
+  CatalogHealthReportResponse,
+} from './api';
+
+export {
+  FEATURE_KEYS,
+  SHIPPING_DIMENSION_KEYS,
+  CATALOG_HEALTH_LABELS,
+  toAmount,
+  getCost,
+  getMargin,
+  toMarginRows,
+  listingsBelowCost,
+  catalogHealth,
+} from './calculations';
+
+export type {
+  PricedItem,
+  DateRange,
+  MarginGroupTotals,
+  MarginGroupRow,
+  BelowCostRow,
+  CatalogHealthIssue,
+  CatalogHealthRow,
+} from './calculations';
@@ -0,0 +1,239 @@
+import { HttpClient } from '../auth/httpClient';
+import type { UserRole } from '../auth/types';
+
+/**
+ * Fine-grained action permissions granted through roles. These decide what a
+ * user may do; brand / marketplace / shipping access still decides which
+ * records they see.
+ */
+export type RolePermission =
+  | 'products:read'
+  | 'products:write'
+  | 'products:delete'
+  | 'products:import'
+  | 'listings:read'
+  | 'listings:write'
+  | 'inventory:read'
+  | 'inventory:write'
+  | 'inventory:bulk-update'
+  | 'inventory:transfer'
+  | 'catalog-settings:manage' // general settings, brands, marketplaces, shipping companies, attribute schemas
+  | 'warehouses:manage'
+  | 'channels:manage'
+  | 'pricing:manage'
+  | 'orders:read'
+  | 'orders:fulfil'
+  | 'reports:view'
+  | 'audit:view'
+  | 'users:manage'
+  | 'roles:manage';
+
+export interface RolePermissionGroup {
+  label: string;
+  permissions: { key: RolePermission; label: string; description: string }[];
+}
+
+export const ROLE_PERMISSION_GROUPS: RolePermissionGroup[] = [
+  {
+    label: 'Products',
+    permissions: [
+      { key: 'products:read', label: 'View products', description: 'Browse and export products' },
+      { key: 'products:write', label: 'Edit products', description: 'Create and update products' },
+      { key: 'products:delete', label: 'Delete products', description: 'Remove products permanently' },
+      { key: 'products:import', label: 'Import products', description: 'Bulk upload products and images' },
+    ],
+  },
+  {
+    label: 'Listings',
+    permissions: [
+      { key: 'listings:read', label: 'View listings', description: 'Browse and export listings' },
+      { key: 'listings:write', label: 'Edit listings', description: 'Create, update and delete listings' },
+    ],
+  },
+  {
+    label: 'Inventory',
+    permissions: [
+      { key: 'inventory:read', label: 'View inventory', description: 'See stock levels and movements' },
+      { key: 'inventory:write', label: 'Adjust inventory', description: 'Edit quantities and ETAs item by item' },
+      { key: 'inventory:bulk-update', label: 'Bulk update inventory', description: 'Upload inventory files' },
+      { key: 'inventory:transfer', label: 'Transfer stock', description: 'Move stock between warehouses' },
+    ],
+  },
+  {
+    label: 'Orders & Reports',
+    permissions: [
+      { key: 'orders:read', label: 'View orders', description: 'Browse orders' },
+      { key: 'orders:fulfil', label: 'Fulfil orders', description: 'Ship orders and update tracking' },
+      { key: 'reports:view', label: 'View reports', description: 'Open reports and dashboards' },
+    ],
+  },
+  {
+    label: 'Settings',
+    permissions: [
+      { key: 'catalog-settings:manage', label: 'Manage catalog settings', description: 'General settings, brands, marketplaces, shipping companies and attribute schemas' },
+      { key: 'warehouses:manage', label: 'Manage warehouses', description: 'Create and edit warehouse locations' },
+      { key: 'channels:manage', label: 'Manage sales channels', description: 'Connect and sync sales channels' },
+      { key: 'pricing:manage', label: 'Manage pricing rules', description: 'Edit and run pricing rules' },
+    ],
+  },
+  {
+    label: 'Administration',
+    permissions: [
+      { key: 'audit:view', label: 'View history', description: 'Login history and activity logs' },
+      { key: 'users:manage', label: 'Manage users', description: 'Create users, change roles and access' },
+      { key: 'roles:manage', label: 'Manage roles', description: 'Create and edit roles' },
+    ],
+  },
+];
+
+export const ALL_ROLE_PERMISSIONS: RolePermission[] =
+  ROLE_PERMISSION_GROUPS.flatMap(group => group.permissions.map(permission => permission.key));
+
+export interface Role {
+  id: number;
+  key: UserRole;        // stored on the user, e.g. "ADMIN", "CATALOG_EDITOR"
+  name: string;
+  description: string;
+  permissions: RolePermission[];
+  isSystem: boolean;    // ADMIN and USER cannot be renamed or deleted
+  userCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoleInput {
+  key?: UserRole; // only on create; derived from the name when omitted
+  name: string;
+  description: string;
+  permissions: RolePermission[];
+}
+
+/**
+ * Starting points offered in the role editor
+ */
+export const ROLE_TEMPLATES: RoleInput[] = [
+  {
+    name: 'Catalog Editor',
+    description: 'Maintains products and listings',
+    permissions: ['products:read', 'products:write', 'products:import', 'listings:read', 'listings:write', 'inventory:read'],
+  },
+  {
+    name: 'Inventory Clerk',
+    description: 'Keeps stock levels up to date',
+    permissions: ['products:read', 'inventory:read', 'inventory:write', 'inventory:bulk-update', 'inventory:transfer'],
+  },
+  {
+    name: 'Read-only Analyst',
+    description: 'Views everything, changes nothing',
+    permissions: ['products:read', 'listings:read', 'inventory:read', 'orders:read', 'reports:view'],
+  },
+  {
+    name: 'Fulfilment',
+    description: 'Ships orders and moves stock',
+    permissions: ['orders:read', 'orders:fulfil', 'inventory:read', 'inventory:transfer'],
+  },
+];
+
+/**
+ * Turn a role name into its stored key, e.g. "Read-only Analyst" -> "READ_ONLY_ANALYST"
+ */
+export const toRoleKey = (name: string): UserRole =>
+  name.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * What the built-in USER role may do when the backend sends no permission
+ * list: everything a non-admin could do before roles existed, i.e. work
+ * with products, listings, inventory and orders within their brand access.
+ */
+export const DEFAULT_USER_PERMISSIONS: RolePermission[] = [
+  'products:read',
+  'products:write',
+  'products:delete',
+  'products:import',
+  'listings:read',
+  'listings:write',
+  'inventory:read',
+  'inventory:write',
+  'inventory:bulk-update',
+  'inventory:transfer',
+  'orders:read',
+  'orders:fulfil',
+  'reports:view',
+];
+
+/**
+ * Whether a user with this role and permission list may perform an action.
+ * ADMIN keeps full access regardless of what the backend sends, and USER
+ * falls back to DEFAULT_USER_PERMISSIONS.
+ */
+export const roleHasPermission = (
+  role: UserRole | undefined,
+  permissions: RolePermission[] | undefined,
+  permission: RolePermission
+): boolean => {
+  if (role === 'ADMIN') return true;
+  const granted = permissions ?? (role === 'USER' ? DEFAULT_USER_PERMISSIONS : []);
+  return granted.includes(permission);
+};
+
+export class RolesService {
+  /**
+   * Get all roles with their permissions and user counts
+   */
+  static async getRoles(accessToken: string): Promise<Role[]> {
+    try {
+      console.log('🔍 Roles API: Fetching roles...');
+      const response = await HttpClient.get<{ roles: Role[] }>('/roles', {}, accessToken);
+      console.log('✅ Roles API: Retrieved roles successfully');
+      return response.roles || [];
+    } catch (error) {
+      console.error('❌ Roles API: Error fetching roles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a custom role
+   */
+  static async createRole(accessToken: string, data: RoleInput): Promise<Role> {
+    try {
+      console.log('📝 Roles API: Creating role...');
+      const response = await HttpClient.post<{ role: Role }>('/roles', { ...data, key: data.key || toRoleKey(data.name) }, {}, accessToken);
+      console.log('✅ Roles API: Role created successfully');
+      return response.role;
+    } catch (error) {
+      console.error('❌ Roles API: Error creating role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a role's name, description or permissions
+   */
+  static async updateRole(accessToken: string, roleId: number, data: Partial<RoleInput>): Promise<Role> {
+    try {
+      console.log('🔄 Roles API: Updating role:', roleId);
+      const response = await HttpClient.put<{ role: Role }>(`/roles/${roleId}`, data, {}, accessToken);
+      console.log('✅ Roles API: Role updated successfully');
+      return response.role;
+    } catch (error) {
+      console.error('❌ Roles API: Error updating role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a custom role. The backend refuses while users are still assigned to it.
+   */
+  static async deleteRole(accessToken: string, roleId: number): Promise<{ message: string }> {
+    try {
+      console.log('🗑️ Roles API: Deleting role:', roleId);
+      const response = await HttpClient.delete<{ message: string }>(`/roles/${roleId}`, {}, accessToken);
+      console.log('✅ Roles API: Role deleted successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Roles API: Error deleting role:', error);
+      throw error;
+    }
+  }
+}
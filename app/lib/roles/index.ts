@@ -0,0 +1,24 @@
+/**
+ * Roles API Module
+ *
+ * Central export point for custom roles and their action permissions
+ */
+
+// Core roles service
+export {
+  RolesService,
+  ROLE_PERMISSION_GROUPS,
+  ALL_ROLE_PERMISSIONS,
+  ROLE_TEMPLATES,
+  DEFAULT_USER_PERMISSIONS,
+  toRoleKey,
+  roleHasPermission,
+} from './api';
+
+// TypeScript types and interfaces
+export type {
+  Role,
+  RoleInput,
+  RolePermission,
+  RolePermissionGroup,
+} from './api';
@@ -0,0 +1,223 @@
+import { HttpClient } from '../auth/httpClient';
+
+export type SalesChannelProvider = 'amazon' | 'walmart' | 'ebay' | 'etsy' | 'google' | 'newegg' | 'sears';
+
+export type ChannelConnectionStatus = 'pending' | 'connected' | 'error';
+
+export type ChannelSyncStatus = 'running' | 'success' | 'failed';
+
+export interface ChannelCredentialField {
+  key: string;
+  label: string;
+  secret?: boolean;   // never returned in full by the backend
+  required?: boolean;
+  placeholder?: string;
+  help?: string;
+}
+
+export interface SalesChannel {
+  id: number;
+  provider: SalesChannelProvider | string;
+  nickname: string;
+  region: string;
+  fba: boolean;
+  endpointOverride: string | null; // used instead of the provider's API host, e.g. the local stub
+  // Non-secret values in full, secret values masked to their last 4 characters
+  credentials: Record<string, string>;
+  status: ChannelConnectionStatus;
+  lastTestedAt: string | null;
+  lastTestMessage: string | null;
+  lastSyncAt: string | null;
+  lastSyncStatus: ChannelSyncStatus | null;
+  lastSyncMessage: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SalesChannelInput {
+  provider: string;
+  nickname: string;
+  region: string;
+  fba?: boolean;
+  endpointOverride?: string | null;
+  // Blank secret values on update keep the stored secret
+  credentials: Record<string, string>;
+}
+
+export interface SalesChannelsResponse {
+  channels: SalesChannel[];
+  timestamp: string;
+}
+
+export interface SalesChannelResponse {
+  message: string;
+  channel: SalesChannel;
+  timestamp: string;
+}
+
+export interface ChannelTestResult {
+  success: boolean;
+  message: string;
+  testedAt: string;
+  channel?: SalesChannel; // present when testing a saved connection
+}
+
+export const CHANNEL_CONNECTION_STATUS_LABELS: Record<ChannelConnectionStatus, string> = {
+  pending: 'Not tested',
+  connected: 'Connected',
+  error: 'Connection failed',
+};
+
+export const CHANNEL_SYNC_STATUS_LABELS: Record<ChannelSyncStatus, string> = {
+  running: 'Syncing',
+  success: 'Synced',
+  failed: 'Sync failed',
+};
+
+/**
+ * Credentials each provider's API needs. Providers without an entry connect
+ * with a nickname and region only.
+ */
+export const CHANNEL_CREDENTIAL_FIELDS: Partial<Record<SalesChannelProvider, ChannelCredentialField[]>> = {
+  amazon: [
+    { key: 'sellerId', label: 'Seller ID', required: true, placeholder: 'A1B2C3D4E5F6G7' },
+    { key: 'lwaClientId', label: 'LWA Client ID', required: true, placeholder: 'amzn1.application-oa2-client...' },
+    { key: 'lwaClientSecret', label: 'LWA Client Secret', secret: true, required: true },
+    { key: 'refreshToken', label: 'Refresh Token', secret: true, required: true, placeholder: 'Atzr|...', help: 'Issued when you authorize the SP-API application in Seller Central' },
+  ],
+  walmart: [
+    { key: 'clientId', label: 'Client ID', required: true },
+    { key: 'clientSecret', label: 'Client Secret', secret: true, required: true, help: 'Found under API Keys in Walmart Seller Center' },
+  ],
+  ebay: [
+    { key: 'clientId', label: 'App ID (Client ID)', required: true },
+    { key: 'clientSecret', label: 'Cert ID (Client Secret)', secret: true, required: true },
+    { key: 'refreshToken', label: 'User Refresh Token', secret: true, required: true, help: 'Generated with the eBay user consent flow for your seller account' },
+  ],
+  etsy: [
+    { key: 'shopId', label: 'Shop ID', required: true },
+    { key: 'clientId', label: 'Keystring (Client ID)', required: true },
+    { key: 'clientSecret', label: 'Shared Secret', secret: true, required: true },
+    { key: 'refreshToken', label: 'Refresh Token', secret: true, required: true },
+  ],
+};
+
+export const getCredentialFields = (provider: string): ChannelCredentialField[] =>
+  CHANNEL_CREDENTIAL_FIELDS[provider as SalesChannelProvider] || [];
+
+/**
+ * Local stub that mimics the providers' token and ping endpoints (app/api/channel-stub)
+ */
+export const getStubEndpoint = (provider: string) =>
+  typeof window !== 'undefined' ? `${window.location.origin}/api/channel-stub/${provider}` : `/api/channel-stub/${provider}`;
+
+export class SalesChannelsService {
+  /**
+   * Get all connected sales channels
+   */
+  static async getChannels(accessToken: string): Promise<SalesChannelsResponse> {
+    try {
+      console.log('🔍 Sales Channels API: Fetching channels...');
+      const response = await HttpClient.get<SalesChannelsResponse>('/channels', {}, accessToken);
+      console.log('✅ Sales Channels API: Retrieved channels successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Sales Channels API: Error fetching channels:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single channel connection
+   */
+  static async getChannel(accessToken: string, channelId: number): Promise<SalesChannel> {
+    const response = await HttpClient.get<{ channel: SalesChannel }>(`/channels/${channelId}`, {}, accessToken);
+    return response.channel;
+  }
+
+  /**
+   * Save a new channel connection
+   */
+  static async createChannel(accessToken: string, data: SalesChannelInput): Promise<SalesChannelResponse> {
+    try {
+      console.log('📝 Sales Channels API: Creating channel...', data.provider);
+      const response = await HttpClient.post<SalesChannelResponse>('/channels', data, {}, accessToken);
+      console.log('✅ Sales Channels API: Channel created successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Sales Channels API: Error creating channel:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a channel connection (blank secrets are left unchanged)
+   */
+  static async updateChannel(
+    accessToken: string,
+    channelId: number,
+    data: Partial<SalesChannelInput>
+  ): Promise<SalesChannelResponse> {
+    try {
+      console.log('🔄 Sales Channels API: Updating channel:', channelId);
+      const response = await HttpClient.put<SalesChannelResponse>(`/channels/${channelId}`, data, {}, accessToken);
+      console.log('✅ Sales Channels API: Channel updated successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Sales Channels API: Error updating channel:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect a channel and delete its stored credentials
+   */
+  static async deleteChannel(accessToken: string, channelId: number): Promise<{ message: string }> {
+    try {
+      console.log('🗑️ Sales Channels API: Deleting channel:', channelId);
+      const response = await HttpClient.delete<{ message: string }>(`/channels/${channelId}`, {}, accessToken);
+      console.log('✅ Sales Channels API: Channel deleted successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Sales Channels API: Error deleting channel:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check unsaved credentials against the provider before connecting.
+   * When editing, pass the channel id: secret fields left blank are filled
+   * from that saved channel, everything else is tested as entered.
+   */
+  static async testCredentials(accessToken: string, data: SalesChannelInput, channelId?: number): Promise<ChannelTestResult> {
+    console.log('🔌 Sales Channels API: Testing credentials...', data.provider);
+    const response = await HttpClient.post<ChannelTestResult>('/channels/test', channelId ? { ...data, channelId } : data, {}, accessToken);
+    console.log(response.success ? '✅ Sales Channels API: Credentials accepted' : '⚠️ Sales Channels API: Credentials rejected');
+    return response;
+  }
+
+  /**
+   * Re-test a saved connection; the result is stored on the channel
+   */
+  static async testConnection(accessToken: string, channelId: number): Promise<ChannelTestResult> {
+    console.log('🔌 Sales Channels API: Testing connection:', channelId);
+    const response = await HttpClient.post<ChannelTestResult>(`/channels/${channelId}/test`, {}, {}, accessToken);
+    console.log(response.success ? '✅ Sales Channels API: Connection OK' : '⚠️ Sales Channels API: Connection failed');
+    return response;
+  }
+
+  /**
+   * Start a sync for a channel. The returned channel has lastSyncStatus 'running'.
+   */
+  static async syncChannel(accessToken: string, channelId: number): Promise<SalesChannelResponse> {
+    try {
+      console.log('🔄 Sales Channels API: Starting sync:', channelId);
+      const response = await HttpClient.post<SalesChannelResponse>(`/channels/${channelId}/sync`, {}, {}, accessToken);
+      console.log('✅ Sales Channels API: Sync started');
+      return response;
+    } catch (error) {
+      console.error('❌ Sales Channels API: Error starting sync:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Sales Channels API Module
+ * 
+ * Central export point for marketplace channel connections
+ */
+
+// Core sales channels service
+export {
+  SalesChannelsService,
+  CHANNEL_CREDENTIAL_FIELDS,
+  CHANNEL_CONNECTION_STATUS_LABELS,
+  CHANNEL_SYNC_STATUS_LABELS,
+  getCredentialFields,
+  getStubEndpoint,
+} from './api';
+
+// TypeScript types and interfaces
+export type {
+  SalesChannel,
+  SalesChannelInput,
+  SalesChannelProvider,
+  SalesChannelsResponse,
+  SalesChannelResponse,
+  ChannelConnectionStatus,
+  ChannelSyncStatus,
+  ChannelCredentialField,
+  ChannelTestResult,
+} from './api';
@@ -1,14 +1,40 @@
 import httpClient from '../auth/httpClient';
 
 // Types for Settings API
+// Threshold override; unset values fall back to the next level up
+export interface InventoryThreshold {
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
 export interface InventoryConfig {
   minValue: number;
   maxValue?: number | null;
+  brandOverrides?: Record<string, InventoryThreshold>; // keyed by brandId
+  skuOverrides?: Record<string, InventoryThreshold>;   // keyed by subSku
+}
+
+// Rounding applied to a calculated ecommerce price
+export type PriceRounding = 'none' | 'up_99' | 'nearest_99';
+
+// A pricing formula scoped to a brand and/or marketplace (null = all)
+export interface PricingRule {
+  id: string;
+  name: string;
+  brandId: number | null;
+  marketplaceId: number | null;
+  commissionPercent: number;
+  targetMarginPercent: number;
+  rounding: PriceRounding;
+  capAtMsrp: boolean;
+  enabled: boolean;
 }
 
 export interface Setting {
   id: number;
   inventoryConfig: InventoryConfig;
+  pricingRules?: PricingRule[];
+  bundleSkuPattern?: string | null; // naming pattern for bundle listing SKUs, see listings/bundles
   createdAt: string;
   updatedAt: string;
 }
@@ -71,6 +97,44 @@ export const updateSettings = async (
   }
 };
 
+// API 2b: Update pricing rules (Admin only)
+export const updatePricingRules = async (
+  pricingRules: PricingRule[],
+  accessToken?: string
+): Promise<SettingsResponse> => {
+  try {
+    const response = await httpClient.put<SettingsResponse>(
+      '/settings',
+      { pricingRules },
+      {},
+      accessToken
+    );
+    return response;
+  } catch (error: unknown) {
+    console.error('Error updating pricing rules:', error);
+    throw error;
+  }
+};
+
+// API 2c: Update the bundle SKU naming pattern (Admin only)
+export const updateBundleSkuPattern = async (
+  bundleSkuPattern: string,
+  accessToken?: string
+): Promise<SettingsResponse> => {
+  try {
+    const response = await httpClient.put<SettingsResponse>(
+      '/settings',
+      { bundleSkuPattern },
+      {},
+      accessToken
+    );
+    return response;
+  } catch (error: unknown) {
+    console.error('Error updating bundle SKU pattern:', error);
+    throw error;
+  }
+};
+
 // API 3: Get all brands from listings
 export const getBrands = async (accessToken?: string): Promise<BrandsResponse> => {
   try {
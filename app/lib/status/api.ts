@@ -90,36 +90,66 @@ export const statusApi = {
     }
   },
 
+  // Get order import status
+  async getOrdersStatus(accessToken: string): Promise<StatusResponse> {
+    try {
+      const data = await HttpClient.get<{ 
+        jobs: JobStatus[]; 
+        message?: string;
+        systemStats?: { total: number; processing: number; completed: number; failed: number };
+        timestamp?: string;
+      }>('/orders/status', {}, accessToken);
+      return {
+        success: true,
+        jobs: data.jobs || [],
+        message: data.message,
+        systemStats: data.systemStats,
+        timestamp: data.timestamp
+      };
+    } catch (error) {
+      console.error('Error fetching orders status:', error);
+      return {
+        success: false,
+        jobs: [],
+        message: error instanceof Error ? error.message : 'Failed to fetch orders status'
+      };
+    }
+  },
+
   // Get all status data
   async getAllStatus(accessToken: string): Promise<{
     products: JobStatus[];
     listings: JobStatus[];
     inventory: JobStatus[];
+    orders: JobStatus[];
   }> {
     try {
-      const [productsRes, listingsRes, inventoryRes] = await Promise.all([
+      const [productsRes, listingsRes, inventoryRes, ordersRes] = await Promise.all([
         this.getProductsStatus(accessToken),
         this.getListingsStatus(accessToken),
-        this.getInventoryStatus(accessToken)
+        this.getInventoryStatus(accessToken),
+        this.getOrdersStatus(accessToken)
       ]);
 
       return {
         products: productsRes.jobs,
         listings: listingsRes.jobs,
-        inventory: inventoryRes.jobs
+        inventory: inventoryRes.jobs,
+        orders: ordersRes.jobs
       };
     } catch (error) {
       console.error('Error fetching all status data:', error);
       return {
         products: [],
         listings: [],
-        inventory: []
+        inventory: [],
+        orders: []
       };
     }
   },
 
   // Cancel a job
-  async cancelJob(jobId: string, type: 'product' | 'listing' | 'inventory', accessToken: string): Promise<{ success: boolean; message?: string }> {
+  async cancelJob(jobId: string, type: JobStatus['type'], accessToken: string): Promise<{ success: boolean; message?: string }> {
     try {
       const data = await HttpClient.delete<{ message: string }>(`/${type}s/cancel/${jobId}`, {}, accessToken);
       return {
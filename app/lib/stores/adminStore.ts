@@ -9,6 +9,7 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import type { DetailedUser, LoginSession } from '../admin/types';
+import type { UserRole } from '../auth/types';
 
 interface AdminState {
   // User management data
@@ -38,7 +39,7 @@ interface AdminState {
   
   // Filters and sorting
   userFilters: {
-    role: 'ALL' | 'ADMIN' | 'USER';
+    role: 'ALL' | UserRole;
     status: 'ALL' | 'ONLINE' | 'OFFLINE';
     hasAccess: 'ALL' | 'YES' | 'NO';
   };
@@ -8,6 +8,7 @@
 
 import { create } from 'zustand';
 import type { User } from '../auth/types';
+import { roleHasPermission, type RolePermission } from '../roles/api';
 
 interface AuthState {
   // Core auth data
@@ -168,6 +169,12 @@ export const authSelectors = {
     return false;
   },
   
+  // Check if the user's role grants an action permission (e.g. 'products:write')
+  can: (permission: RolePermission) => {
+    const user = useAuthStore.getState().user;
+    return roleHasPermission(user?.role, user?.permissions, permission);
+  },
+  
   // Get authentication state summary
   getAuthSummary: () => {
     const state = useAuthStore.getState();
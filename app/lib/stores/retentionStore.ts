@@ -1,145 +1,100 @@
 import { create } from 'zustand';
-import { v4 as uuidv4 } from 'uuid';
-
-export interface RetentionNotification {
-  id: string;
-  type: 'retention_warning' | 'retention_expired';
-  message: string;
-  logsCount: number;
-  expirationDate: string;
-  createdAt: string;
-  isRead: boolean;
-  adminAction?: 'keep' | 'delete' | 'pending';
-}
-
-export interface LogRetentionPolicy {
-  retentionMonths: number;
-  notificationThreshold: number; // Days before expiration to notify
-  autoDelete: boolean;
-  lastNotificationDate?: string;
-  adminDecision?: 'keep' | 'delete' | 'pending';
-  adminDecisionDate?: string;
-}
-
+import type {
+  LogRetentionPolicy,
+  RetentionArchive,
+  RetentionNotification,
+} from '../audit-log/retention';
+import type { AuditLogType } from '../audit-log/api';
+
+export type { LogRetentionPolicy, RetentionArchive, RetentionNotification } from '../audit-log/retention';
+
+/**
+ * Client cache of the server-side retention state. Policies, notifications
+ * and archives are owned by LogRetentionService; this store only holds the
+ * last loaded copy so the history page and badges stay in sync.
+ */
 interface RetentionStore {
+  policies: LogRetentionPolicy[];
   notifications: RetentionNotification[];
-  policy: LogRetentionPolicy;
-  
+  archives: RetentionArchive[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Policy methods
+  setPolicies: (policies: LogRetentionPolicy[]) => void;
+  upsertPolicy: (policy: LogRetentionPolicy) => void;
+  getPolicy: (logType: AuditLogType) => LogRetentionPolicy | undefined;
+
   // Notification methods
-  addNotification: (notification: Omit<RetentionNotification, 'id' | 'createdAt'>) => void;
-  markAsRead: (id: string) => void;
-  setAdminAction: (id: string, action: 'keep' | 'delete') => void;
-  removeNotification: (id: string) => void;
-  clearNotifications: () => void;
+  setNotifications: (notifications: RetentionNotification[]) => void;
+  upsertNotification: (notification: RetentionNotification) => void;
   getUnreadCount: () => number;
-  
-  // Policy methods
-  updatePolicy: (policy: Partial<LogRetentionPolicy>) => void;
-  checkRetentionStatus: () => {
-    needsNotification: boolean;
-    expiredLogs: number;
-    expiringSoonLogs: number;
-    expirationDate: string;
-  };
-  createRetentionNotification: () => RetentionNotification | null;
+
+  // Archive methods
+  setArchives: (archives: RetentionArchive[]) => void;
+  addArchive: (archive: RetentionArchive) => void;
+
+  setLoading: (isLoading: boolean) => void;
+  setError: (error: string | null) => void;
+  clearRetention: () => void;
 }
 
 export const useRetentionStore = create<RetentionStore>()((set, get) => ({
+  policies: [],
   notifications: [],
-  policy: {
-    retentionMonths: 6,
-    notificationThreshold: 7,
-    autoDelete: false,
+  archives: [],
+  isLoading: false,
+  error: null,
+
+  setPolicies: (policies) => {
+    set({ policies });
   },
 
-  addNotification: (notificationData) => {
-    const newNotification: RetentionNotification = {
-      ...notificationData,
-      id: uuidv4(),
-      createdAt: new Date().toISOString(),
-    };
-    
+  upsertPolicy: (policy) => {
     set((state) => ({
-      notifications: [newNotification, ...state.notifications].slice(0, 50), // Keep only last 50 notifications
+      policies: state.policies.some(p => p.logType === policy.logType)
+        ? state.policies.map(p => (p.logType === policy.logType ? policy : p))
+        : [...state.policies, policy],
     }));
   },
 
-  markAsRead: (id) => {
-    set((state) => ({
-      notifications: state.notifications.map(notification =>
-        notification.id === id
-          ? { ...notification, isRead: true }
-          : notification
-      ),
-    }));
+  getPolicy: (logType) => {
+    return get().policies.find(p => p.logType === logType);
   },
 
-  setAdminAction: (id, action) => {
-    set((state) => ({
-      notifications: state.notifications.map(notification =>
-        notification.id === id
-          ? { ...notification, adminAction: action, isRead: true }
-          : notification
-      ),
-    }));
+  setNotifications: (notifications) => {
+    set({ notifications });
   },
 
-  removeNotification: (id) => {
+  upsertNotification: (notification) => {
     set((state) => ({
-      notifications: state.notifications.filter(notification => notification.id !== id),
+      notifications: state.notifications.some(n => n.id === notification.id)
+        ? state.notifications.map(n => (n.id === notification.id ? notification : n))
+        : [notification, ...state.notifications],
     }));
   },
 
-  clearNotifications: () => {
-    set({ notifications: [] });
-  },
-
   getUnreadCount: () => {
     return get().notifications.filter(n => !n.isRead).length;
   },
 
-  updatePolicy: (newPolicy) => {
-    set((state) => ({
-      policy: { ...state.policy, ...newPolicy },
-    }));
+  setArchives: (archives) => {
+    set({ archives });
+  },
+
+  addArchive: (archive) => {
+    set((state) => ({ archives: [archive, ...state.archives.filter(a => a.id !== archive.id)] }));
+  },
+
+  setLoading: (isLoading) => {
+    set({ isLoading });
   },
 
-  checkRetentionStatus: () => {
-    const { policy } = get();
-    const now = new Date();
-    const expirationDate = new Date();
-    expirationDate.setMonth(expirationDate.getMonth() - policy.retentionMonths);
-
-    // This would need to be connected to the activity store
-    // For now, return mock data
-    return {
-      needsNotification: false,
-      expiredLogs: 0,
-      expiringSoonLogs: 0,
-      expirationDate: expirationDate.toISOString(),
-    };
+  setError: (error) => {
+    set({ error });
   },
 
-  createRetentionNotification: () => {
-    const status = get().checkRetentionStatus();
-    
-    if (!status.needsNotification) {
-      return null;
-    }
-
-    const notification: RetentionNotification = {
-      id: uuidv4(),
-      type: status.expiredLogs > 0 ? 'retention_expired' : 'retention_warning',
-      message: status.expiredLogs > 0 
-        ? `${status.expiredLogs} log entries have exceeded the 6-month retention period and should be reviewed for deletion.`
-        : `${status.expiringSoonLogs} log entries will expire soon. Please review the retention policy.`,
-      logsCount: status.expiredLogs + status.expiringSoonLogs,
-      expirationDate: status.expirationDate,
-      createdAt: new Date().toISOString(),
-      isRead: false,
-    };
-
-    get().addNotification(notification);
-    return notification;
+  clearRetention: () => {
+    set({ policies: [], notifications: [], archives: [], isLoading: false, error: null });
   },
 }));
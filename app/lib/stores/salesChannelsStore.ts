@@ -1,21 +1,16 @@
 import { create } from 'zustand';
+import type { SalesChannel } from '../sales-channels/api';
 
-export interface SalesChannel {
-  id: string;
-  provider: string;
-  nickname: string;
-  region: string;
-  fba?: boolean;
-}
+export type { SalesChannel } from '../sales-channels/api';
 
 interface SalesChannelsStore {
   channels: SalesChannel[];
   
   // Channel methods
-  addChannel: (channel: Omit<SalesChannel, 'id'>) => void;
-  removeChannel: (id: string) => void;
-  updateChannel: (id: string, updates: Partial<SalesChannel>) => void;
-  getChannel: (id: string) => SalesChannel | undefined;
+  setChannels: (channels: SalesChannel[]) => void;
+  upsertChannel: (channel: SalesChannel) => void;
+  removeChannel: (id: number) => void;
+  getChannel: (id: number) => SalesChannel | undefined;
   getChannelsByProvider: (provider: string) => SalesChannel[];
   clearChannels: () => void;
 }
@@ -23,28 +18,21 @@ interface SalesChannelsStore {
 export const useSalesChannelsStore = create<SalesChannelsStore>()((set, get) => ({
   channels: [],
 
-  addChannel: (channelData) => {
-    const newChannel: SalesChannel = {
-      ...channelData,
-      id: `${channelData.provider}-${Date.now()}`,
-    };
-    
-    set((state) => ({
-      channels: [...state.channels, newChannel],
-    }));
+  setChannels: (channels) => {
+    set({ channels });
   },
 
-  removeChannel: (id) => {
+  upsertChannel: (channel) => {
     set((state) => ({
-      channels: state.channels.filter(channel => channel.id !== id),
+      channels: state.channels.some(existing => existing.id === channel.id)
+        ? state.channels.map(existing => existing.id === channel.id ? channel : existing)
+        : [...state.channels, channel],
     }));
   },
 
-  updateChannel: (id, updates) => {
+  removeChannel: (id) => {
     set((state) => ({
-      channels: state.channels.map(channel =>
-        channel.id === id ? { ...channel, ...updates } : channel
-      ),
+      channels: state.channels.filter(channel => channel.id !== id),
     }));
   },
 
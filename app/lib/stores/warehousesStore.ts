@@ -1,29 +1,20 @@
 import { create } from 'zustand';
+import type { Warehouse } from '../warehouses/api';
 
-export interface Warehouse {
-  id: string;
-  name: string;
-  address: string;
-  city: string;
-  state: string;
-  zipCode: string;
-  country: string;
-  capacity: number;
-  isActive: boolean;
-}
+export type { Warehouse } from '../warehouses/api';
 
 interface WarehousesStore {
   warehouses: Warehouse[];
   loading: boolean;
   error: string | null;
-  
+
   // Warehouse methods
-  addWarehouse: (warehouse: Omit<Warehouse, 'id'>) => void;
-  removeWarehouse: (id: string) => void;
-  updateWarehouse: (id: string, updates: Partial<Warehouse>) => void;
-  getWarehouse: (id: string) => Warehouse | undefined;
+  setWarehouses: (warehouses: Warehouse[]) => void;
+  upsertWarehouse: (warehouse: Warehouse) => void;
+  removeWarehouse: (id: number) => void;
+  getWarehouse: (id: number) => Warehouse | undefined;
   clearWarehouses: () => void;
-  
+
   // State methods
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
@@ -34,28 +25,21 @@ export const useWarehousesStore = create<WarehousesStore>()((set, get) => ({
   loading: false,
   error: null,
 
-  addWarehouse: (warehouseData) => {
-    const newWarehouse: Warehouse = {
-      ...warehouseData,
-      id: crypto.randomUUID(),
-    };
-    
-    set((state) => ({
-      warehouses: [...state.warehouses, newWarehouse],
-    }));
+  setWarehouses: (warehouses) => {
+    set({ warehouses });
   },
 
-  removeWarehouse: (id) => {
+  upsertWarehouse: (warehouse) => {
     set((state) => ({
-      warehouses: state.warehouses.filter(warehouse => warehouse.id !== id),
+      warehouses: state.warehouses.some(existing => existing.id === warehouse.id)
+        ? state.warehouses.map(existing => existing.id === warehouse.id ? warehouse : existing)
+        : [...state.warehouses, warehouse],
     }));
   },
 
-  updateWarehouse: (id, updates) => {
+  removeWarehouse: (id) => {
     set((state) => ({
-      warehouses: state.warehouses.map(warehouse =>
-        warehouse.id === id ? { ...warehouse, ...updates } : warehouse
-      ),
+      warehouses: state.warehouses.filter(warehouse => warehouse.id !== id),
     }));
   },
 
@@ -110,7 +110,7 @@ export interface BulkOperationResult<T = any> {
  */
 export interface JobStatus {
   id: string;
-  type: 'product' | 'listing' | 'inventory';
+  type: 'product' | 'listing' | 'inventory' | 'order';
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   totalItems: number;
@@ -152,9 +152,9 @@ export interface UploadProgress {
 export type SortOrder = 'asc' | 'desc';
 
 /**
- * User Role
+ * User Role (built-in ADMIN / USER or a custom role key)
  */
-export type UserRole = 'ADMIN' | 'USER';
+export type UserRole = 'ADMIN' | 'USER' | (string & {});
 
 /**
  * Generic ID Type
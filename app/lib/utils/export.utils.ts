@@ -0,0 +1,82 @@
+/**
+ * Export Utilities
+ *
+ * Helpers for downloading tabular data as CSV or Excel (.xlsx) files
+ * from the browser. Workbooks are written with exceljs, loaded on first use.
+ */
+
+export type ExportCell = string | number | boolean | null | undefined;
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Trigger a browser download for a Blob
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Build CSV content, quoting every cell and escaping embedded quotes
+ */
+export function toCsv(headers: string[], rows: ExportCell[][]): string {
+  const escape = (cell: ExportCell) => `"${String(cell ?? '').replace(/"/g, '""')}"`;
+  return [
+    headers.map(escape).join(','),
+    ...rows.map(row => row.map(escape).join(',')),
+  ].join('\n');
+}
+
+/**
+ * Download rows as a CSV file
+ */
+export function downloadCsv(fileName: string, headers: string[], rows: ExportCell[][]): void {
+  const blob = new Blob([toCsv(headers, rows)], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(blob, fileName.endsWith('.csv') ? fileName : `${fileName}.csv`);
+}
+
+/**
+ * Download rows as a single-sheet Excel workbook
+ */
+export async function downloadXlsx(
+  fileName: string,
+  headers: string[],
+  rows: ExportCell[][],
+  sheetName: string = 'Sheet1'
+): Promise<void> {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  // Excel limits sheet names to 31 characters and rejects some punctuation
+  const worksheet = workbook.addWorksheet(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1');
+  worksheet.addRow(headers);
+  rows.forEach(row => worksheet.addRow(row.map(cell => cell ?? '')));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  downloadBlob(blob, fileName.endsWith('.xlsx') ? fileName : `${fileName}.xlsx`);
+}
+
+/**
+ * Download rows in the requested format
+ */
+export function exportRows(
+  format: ExportFormat,
+  fileName: string,
+  headers: string[],
+  rows: ExportCell[][],
+  sheetName?: string
+): Promise<void> {
+  if (format === 'xlsx') {
+    return downloadXlsx(fileName, headers, rows, sheetName);
+  }
+  downloadCsv(fileName, headers, rows);
+  return Promise.resolve();
+}
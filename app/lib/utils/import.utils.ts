@@ -0,0 +1,93 @@
+/**
+ * Import Utilities
+ *
+ * Helpers for reading CSV, Excel (.xlsx) and JSON upload files in the browser
+ * so rows can be checked before the file is sent to the backend. CSV is parsed
+ * with papaparse and workbooks with exceljs, which is loaded on first use.
+ * Legacy .xls workbooks cannot be read here and have to be saved as .xlsx.
+ */
+
+import Papa from 'papaparse';
+
+export type ImportRow = Record<string, string>;
+
+/**
+ * Header form used for matching: lowercase, without spaces, underscores or dashes
+ */
+export const normalizeImportHeader = (header: string) => header.toLowerCase().replace(/[\s_-]+/g, '');
+
+// Rows keyed by the header row; missing cells become '' and blank rows are dropped
+function toImportRows(headers: string[], records: string[][]): ImportRow[] {
+  return records
+    .filter(record => record.some(cell => cell.trim() !== ''))
+    .map(record => Object.fromEntries(
+      headers
+        .map((header, index) => [header, record[index] ?? ''] as const)
+        .filter(([header]) => header !== '')
+    ));
+}
+
+function readCsvRows(text: string): ImportRow[] {
+  const { data } = Papa.parse<string[]>(text, { skipEmptyLines: 'greedy' });
+  const [headers = [], ...records] = data;
+  return toImportRows(headers.map(header => header.trim()), records);
+}
+
+async function readXlsxRows(buffer: ArrayBuffer): Promise<ImportRow[]> {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  // cell.text is the displayed value, so dates and numbers read as they look in Excel
+  const records: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, row => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(row.getCell(column).text ?? '');
+    }
+    records.push(cells);
+  });
+
+  const [headers = [], ...rest] = records;
+  return toImportRows(headers.map(header => header.trim()), rest);
+}
+
+/**
+ * Read a CSV file, the first sheet of an .xlsx workbook, or a JSON array into rows keyed by header
+ */
+export async function readImportRows(file: File): Promise<ImportRow[]> {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.json')) {
+    const parsed = JSON.parse(await file.text());
+    const records: any[] = Array.isArray(parsed) ? parsed : parsed?.rows || parsed?.data || [];
+    return records.map(record =>
+      Object.fromEntries(Object.entries(record || {}).map(([key, value]) => [key, value == null ? '' : String(value)]))
+    );
+  }
+
+  if (name.endsWith('.xlsx')) {
+    return readXlsxRows(await file.arrayBuffer());
+  }
+
+  if (name.endsWith('.xls')) {
+    throw new Error('Legacy .xls workbooks cannot be read in the browser. Save the file as .xlsx or CSV and try again.');
+  }
+
+  return readCsvRows(await file.text());
+}
+
+/**
+ * Read a cell by any of several header names, ignoring case, spaces and underscores
+ */
+export function getImportCell(row: ImportRow, ...headers: string[]): string {
+  const wanted = headers.map(normalizeImportHeader);
+  for (const [key, value] of Object.entries(row)) {
+    if (wanted.includes(normalizeImportHeader(key))) {
+      return String(value ?? '').trim();
+    }
+  }
+  return '';
+}
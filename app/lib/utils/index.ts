@@ -10,3 +10,19 @@ export {
   type PasswordValidationResult
 } from './passwordValidation';
 
+export {
+  downloadBlob,
+  toCsv,
+  downloadCsv,
+  downloadXlsx,
+  exportRows,
+  type ExportCell,
+  type ExportFormat
+} from './export.utils';
+
+export {
+  readImportRows,
+  getImportCell,
+  normalizeImportHeader,
+  type ImportRow
+} from './import.utils';
@@ -0,0 +1,141 @@
+import { HttpClient } from '../auth/httpClient';
+
+export interface Warehouse {
+  id: number;
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+  capacity: number;
+  isActive: boolean;
+  totalUnits?: number; // units currently stocked across all sub SKUs
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type WarehouseInput = Omit<Warehouse, 'id' | 'totalUnits' | 'createdAt' | 'updatedAt'>;
+
+export interface WarehousesResponse {
+  warehouses: Warehouse[];
+  timestamp: string;
+}
+
+export interface WarehouseResponse {
+  message: string;
+  warehouse: Warehouse;
+  timestamp: string;
+}
+
+// Quantity of one inventory item held in one warehouse
+export interface WarehouseStock {
+  warehouseId: number;
+  quantity: number;
+}
+
+export interface StockTransferRequest {
+  inventoryId: number;
+  fromWarehouseId: number;
+  toWarehouseId: number;
+  quantity: number;
+  reason?: string;
+}
+
+export interface StockTransferResponse {
+  message: string;
+  inventoryId: number;
+  warehouseStock: WarehouseStock[];
+  timestamp: string;
+}
+
+export class WarehousesService {
+  /**
+   * Get all warehouse locations
+   */
+  static async getWarehouses(accessToken: string): Promise<WarehousesResponse> {
+    try {
+      console.log('🔍 Warehouses API: Fetching warehouses...');
+      const response = await HttpClient.get<WarehousesResponse>('/warehouses', {}, accessToken);
+      console.log('✅ Warehouses API: Retrieved warehouses successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Warehouses API: Error fetching warehouses:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a warehouse location (Admin only)
+   */
+  static async createWarehouse(accessToken: string, data: WarehouseInput): Promise<WarehouseResponse> {
+    try {
+      console.log('📝 Warehouses API: Creating warehouse...');
+      const response = await HttpClient.post<WarehouseResponse>('/warehouses', data, {}, accessToken);
+      console.log('✅ Warehouses API: Warehouse created successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Warehouses API: Error creating warehouse:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a warehouse location (Admin only)
+   */
+  static async updateWarehouse(
+    accessToken: string,
+    warehouseId: number,
+    data: Partial<WarehouseInput>
+  ): Promise<WarehouseResponse> {
+    try {
+      console.log('🔄 Warehouses API: Updating warehouse:', warehouseId);
+      const response = await HttpClient.put<WarehouseResponse>(`/warehouses/${warehouseId}`, data, {}, accessToken);
+      console.log('✅ Warehouses API: Warehouse updated successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Warehouses API: Error updating warehouse:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a warehouse location (Admin only).
+   * The backend rejects the request while the warehouse still holds stock.
+   */
+  static async deleteWarehouse(accessToken: string, warehouseId: number): Promise<{ message: string }> {
+    try {
+      console.log('🗑️ Warehouses API: Deleting warehouse:', warehouseId);
+      const response = await HttpClient.delete<{ message: string }>(`/warehouses/${warehouseId}`, {}, accessToken);
+      console.log('✅ Warehouses API: Warehouse deleted successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Warehouses API: Error deleting warehouse:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move units of one inventory item between two warehouses.
+   * The item's total quantity is unchanged; both sides are recorded in the movement ledger.
+   */
+  static async transferStock(accessToken: string, data: StockTransferRequest): Promise<StockTransferResponse> {
+    try {
+      console.log('📦 Warehouses API: Transferring stock...', data);
+      const response = await HttpClient.post<StockTransferResponse>('/warehouses/transfers', data, {}, accessToken);
+      console.log('✅ Warehouses API: Stock transferred successfully');
+      return response;
+    } catch (error) {
+      console.error('❌ Warehouses API: Error transferring stock:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Quantity of an inventory item in one warehouse (0 when it has none there)
+ */
+export const getWarehouseQuantity = (
+  warehouseStock: WarehouseStock[] | undefined,
+  warehouseId: number
+): number => warehouseStock?.find(stock => stock.warehouseId === warehouseId)?.quantity ?? 0;
@@ -0,0 +1,19 @@
+/**
+ * Warehouses API Module
+ * 
+ * Central export point for warehouse locations and stock transfers
+ */
+
+// Core warehouses service
+export { WarehousesService, getWarehouseQuantity } from './api';
+
+// TypeScript types and interfaces
+export type {
+  Warehouse,
+  WarehouseInput,
+  WarehousesResponse,
+  WarehouseResponse,
+  WarehouseStock,
+  StockTransferRequest,
+  StockTransferResponse,
+} from './api';
@@ -7,9 +7,11 @@ import Listings from '../components/listings';
 
 export default function ListingsPage() {
   return (
-    <ProtectedRoute>
+    <ProtectedRoute requiredRolePermissions={['listings:read']}>
       <div className="p-4">
-        <Listings />
+        <React.Suspense fallback={<div className="flex justify-center py-6"><div className="loader w-6 h-6"></div></div>}>
+          <Listings />
+        </React.Suspense>
       </div>
     </ProtectedRoute>
   );
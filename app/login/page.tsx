@@ -1,16 +1,19 @@
 "use client";
-import Image from "next/image";
 import Link from "next/link";
 import React from "react";
 import { useRouter } from "next/navigation";
-import { Eye, EyeOff, AlertCircle } from "lucide-react";
+import { Eye, EyeOff, AlertCircle, ShieldCheck } from "lucide-react";
 import { useAuth } from "../lib/auth/context";
 import { AuthApiError, testApiConnectivity } from "../lib/auth/api";
+import { TwoFactorService } from "../lib/auth/twoFactor";
+import type { TwoFactorChallengeResponse, TwoFactorEnrollLoginResponse, TwoFactorSetupResponse } from "../lib/auth/types";
+import TwoFactorEnrollment, { RecoveryCodes } from "../components/TwoFactorEnrollment";
+import AuthPageShell from "../components/AuthPageShell";
 import { validatePassword, getPasswordStrengthColor, getPasswordStrengthText } from "../lib/utils/passwordValidation";
 
 export default function LoginPage() {
   // Authentication context and router
-  const { login, state, clearError } = useAuth();
+  const { login, verifyTwoFactor, completeLogin, state, clearError } = useAuth();
   const router = useRouter();
 
   // Form state
@@ -23,6 +26,14 @@ export default function LoginPage() {
   const [passwordValidation, setPasswordValidation] = React.useState(validatePassword(""));
   const [showPasswordValidation, setShowPasswordValidation] = React.useState(false);
   
+  // Two-factor step state
+  const [challenge, setChallenge] = React.useState<TwoFactorChallengeResponse | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = React.useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = React.useState(false);
+  const [enrollmentSetup, setEnrollmentSetup] = React.useState<TwoFactorSetupResponse | null>(null);
+  const [enrolledLogin, setEnrolledLogin] = React.useState<TwoFactorEnrollLoginResponse | null>(null);
+  const [twoFactorError, setTwoFactorError] = React.useState<string | null>(null);
+  
   // Debug state
   const [debugInfo, setDebugInfo] = React.useState<string>("");
 
@@ -82,7 +93,23 @@ export default function LoginPage() {
 
     try {
       // Attempt login
-      await login(email.trim(), password);
+      const twoFactorChallenge = await login(email.trim(), password);
+      
+      if (twoFactorChallenge) {
+        setChallenge(twoFactorChallenge);
+        setTwoFactorCode("");
+        setUseRecoveryCode(false);
+        setTwoFactorError(null);
+        
+        // The 2FA policy applies but the user has no authenticator yet
+        if (twoFactorChallenge.setupRequired) {
+          try {
+            setEnrollmentSetup(await TwoFactorService.startLoginEnrollment(twoFactorChallenge.challengeToken));
+          } catch (error) {
+            setTwoFactorError(error instanceof Error ? error.message : 'Could not start two-factor setup');
+          }
+        }
+      }
       
       // Redirect will happen via useEffect when state updates
       // router.push('/dashboard');
@@ -94,149 +121,254 @@ export default function LoginPage() {
     }
   };
 
+  /**
+   * Go back to the email and password step
+   */
+  const resetTwoFactor = () => {
+    setChallenge(null);
+    setEnrollmentSetup(null);
+    setEnrolledLogin(null);
+    setTwoFactorCode("");
+    setTwoFactorError(null);
+    setPassword("");
+  };
+
+  /**
+   * Submit the authenticator or recovery code for the login challenge
+   */
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge || isSubmitting || !twoFactorCode.trim()) return;
+
+    setIsSubmitting(true);
+    setTwoFactorError(null);
+    try {
+      await verifyTwoFactor(challenge.challengeToken, twoFactorCode, useRecoveryCode ? 'recovery' : 'totp');
+    } catch (error) {
+      console.error('Two-factor verification failed:', error);
+      setTwoFactorError(error instanceof Error ? error.message : 'Invalid code. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Confirm enrollment required by the 2FA policy; recovery codes are shown before continuing
+   */
+  const handleEnrollmentConfirm = async (code: string) => {
+    if (!challenge) return;
+    setTwoFactorError(null);
+    try {
+      setEnrolledLogin(await TwoFactorService.confirmLoginEnrollment(challenge.challengeToken, code));
+    } catch (error) {
+      setTwoFactorError(error instanceof Error ? error.message : 'Invalid code. Please try again.');
+      throw error;
+    }
+  };
+
+  const twoFactorErrorBox = twoFactorError && (
+    <div className="mb-4 p-3 bg-red-500/20 border border-red-500/40 rounded-lg flex items-center gap-2">
+      <AlertCircle size={16} className="text-red-400 flex-shrink-0" />
+      <span className="text-red-200 text-sm">{twoFactorError}</span>
+    </div>
+  );
+
   return (
-    <div className="min-h-screen flex items-center justify-center relative overflow-hidden">
-      {/* Video Background */}
-      <video
-        autoPlay
-        loop
-        muted
-        playsInline
-        className="absolute inset-0 w-full h-full object-cover mute  z-0"
-      >
-        <source src="/login-bg.mp4" type="video/mp4" />
-        {/* Fallback for browsers that don't support video */}
-        Your browser does not support the video tag.
-      </video>
-      <div className="absolute inset-0 bg-black/40 z-10" />
-      <div className="relative w-full max-w-md mx-auto p-4 sm:p-6 z-20">
-        <div className="backdrop-blur-md bg-white/10 border border-white/20 rounded-xl shadow-xl p-6 sm:p-8">
-          <div className="flex items-center gap-3 mb-6">
-            <Image src="/fhs-tech-logo.png" alt="FHS Tech" width={120} height={120} />
-          </div>
-            <div className="text-xl font-semibold text-white">Welcome Back</div>
-          <div className="text-sm text-white/80 mb-6">Enter your email and password to access your account.</div>
-          
-          {/* Error Message */}
-          {state.error && (
-            <div className="mb-4 p-3 bg-red-500/20 border border-red-500/40 rounded-lg flex items-center gap-2">
-              <AlertCircle size={16} className="text-red-400 flex-shrink-0" />
-              <span className="text-red-200 text-sm">{state.error}</span>
-            </div>
+    <AuthPageShell>
+      {enrolledLogin ? (
+        <>
+          <div className="text-xl font-semibold text-white flex items-center gap-2"><ShieldCheck size={20} /> Two-factor enabled</div>
+          <div className="text-sm text-white/80 mb-6">One last step before you continue.</div>
+          <RecoveryCodes codes={enrolledLogin.recoveryCodes} account={email.trim()} tone="dark" />
+          <button
+            type="button"
+            onClick={() => completeLogin(enrolledLogin).catch(error => setTwoFactorError(error instanceof Error ? error.message : 'Login failed'))}
+            className="w-full btn-primary py-3 text-sm mt-6"
+          >
+            I&apos;ve saved my recovery codes
+          </button>
+        </>
+      ) : challenge?.setupRequired ? (
+        <>
+          <div className="text-xl font-semibold text-white">Set up two-factor authentication</div>
+          <div className="text-sm text-white/80 mb-6">Your administrator requires an authenticator app for every account.</div>
+          {twoFactorErrorBox}
+          {enrollmentSetup ? (
+            <TwoFactorEnrollment setup={enrollmentSetup} onConfirm={handleEnrollmentConfirm} onCancel={resetTwoFactor} tone="dark" />
+          ) : twoFactorError ? (
+            <button type="button" className="text-xs text-blue-200 hover:underline" onClick={resetTwoFactor}>
+              Back to sign in
+            </button>
+          ) : (
+            <div className="flex justify-center py-6"><div className="loader w-6 h-6"></div></div>
           )}
-          
-          <form onSubmit={handleSubmit} className="space-y-4">
+        </>
+      ) : challenge ? (
+        <>
+          <div className="text-xl font-semibold text-white">Two-factor verification</div>
+          <div className="text-sm text-white/80 mb-6">
+            {useRecoveryCode
+              ? 'Enter one of your saved recovery codes. Each code works once.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </div>
+          {twoFactorErrorBox}
+          <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
             <div>
-              <label className="text-xs text-white/80">Email</label>
-              <input 
-                type="email" 
-                value={email} 
-                onChange={(e) => setEmail(e.target.value)} 
-                className="mt-1 w-full border border-white/20 bg-white/10 text-white placeholder-white/60 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-400 transition-colors" 
-                placeholder="you@company.com" 
-                required 
+              <label className="text-xs text-white/80">{useRecoveryCode ? 'Recovery code' : 'Authenticator code'}</label>
+              <input
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                placeholder={useRecoveryCode ? 'xxxx-xxxx' : '123456'}
+                className="mt-1 w-full border border-white/20 bg-white/10 text-white placeholder-white/60 rounded px-3 py-2 text-sm tracking-widest focus:outline-none focus:border-blue-400 transition-colors"
                 disabled={isSubmitting}
-                autoComplete="email"
+                autoFocus
               />
             </div>
-            <div>
-              <label className="text-xs text-white/80">Password</label>
-              <div className="relative">
-                <input 
-                  type={showPassword ? 'text' : 'password'} 
-                  value={password} 
-                  onChange={(e) => setPassword(e.target.value)} 
-                  onFocus={() => setShowPasswordValidation(true)}
-                  onBlur={() => setShowPasswordValidation(false)}
-                  className={`mt-1 w-full border bg-white/10 text-white placeholder-white/60 rounded px-3 py-2 pr-10 text-sm focus:outline-none transition-colors ${
-                    passwordValidation.isValid ? 'border-green-400 focus:border-green-400' : 'border-red-400 focus:border-red-400'
-                  }`}
-                  placeholder="••••••••" 
-                  required 
-                  disabled={isSubmitting}
-                  autoComplete="current-password"
-                />
-                <button 
-                  type="button" 
-                  aria-label="toggle password visibility" 
-                  className="absolute right-2 top-1/2 -translate-y-1/2 text-white/80 hover:text-white transition-colors disabled:opacity-50" 
-                  onClick={() => setShowPassword(!showPassword)}
-                  disabled={isSubmitting}
-                >
-                  {showPassword ? <Eye size={18} /> : <EyeOff size={18} />}
-                </button>
-              </div>
-              
-              {/* Password validation feedback */}
-              {showPasswordValidation && password && (
-                <div className="mt-2 space-y-1">
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs text-white/70">Password strength:</span>
-                    <span className={`text-xs font-medium ${getPasswordStrengthColor(passwordValidation.strength)}`}>
-                      {getPasswordStrengthText(passwordValidation.strength)}
-                    </span>
-                  </div>
-                  {passwordValidation.errors.length > 0 && (
-                    <div className="space-y-1">
-                      {passwordValidation.errors.map((error, index) => (
-                        <div key={index} className="text-xs text-red-300 flex items-center gap-1">
-                          <span className="text-red-400">•</span>
-                          {error}
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-            {/* <div className="flex items-center justify-between text-xs">
-              <label className="flex items-center gap-2 text-white/80">
-                <input type="checkbox" className="h-4 w-4" checked={remember} onChange={(e)=>setRemember(e.target.checked)} />
-                <span>Remember Me</span>
-              </label>
-              <Link href="#" className="text-blue-200 hover:underline">Forgot Your Password?</Link>
-            </div> */}
-            <button 
-              type="submit" 
+            <button
+              type="submit"
               className="w-full btn-primary py-3 text-sm flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-              disabled={isSubmitting || !email.trim() || !password.trim() || !passwordValidation.isValid}
+              disabled={isSubmitting || !twoFactorCode.trim()}
             >
               {isSubmitting && <div className="loader w-4 h-4"></div>}
-              {isSubmitting ? 'Logging in...' : 'Log In'}
+              {isSubmitting ? 'Verifying...' : 'Verify'}
             </button>
+            <div className="flex items-center justify-between text-xs">
+              <button
+                type="button"
+                className="text-blue-200 hover:underline"
+                onClick={() => { setUseRecoveryCode(!useRecoveryCode); setTwoFactorCode(""); setTwoFactorError(null); }}
+              >
+                {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+              </button>
+              <button type="button" className="text-white/70 hover:underline" onClick={resetTwoFactor}>
+                Back to sign in
+              </button>
+            </div>
           </form>
-          {/* <div className="flex items-center my-4">
-            <div className="flex-1 h-px bg-white/20"></div>
-            <div className="px-3 text-xs text-white/70">Or Login With</div>
-            <div className="flex-1 h-px bg-white/20"></div>
-          </div>
-          <div className="grid grid-cols-2 gap-3">
-            <button className="border border-white/30 bg-white/10 text-white rounded py-2 text-sm">Google</button>
-            <button className="border border-white/30 bg-white/10 text-white rounded py-2 text-sm">Apple</button>
-          </div> */}
-          {/* <div className="text-xs text-white/80 mt-6">
-            Don&apos;t Have An Account? <Link href="#" className="text-blue-200 hover:underline">Register Now.</Link>
-          </div> */}
-          <div className="text-[10px] text-white/60 mt-6">Privacy Policy</div>
-          
-          {/* Debug Section - Remove in production */}
-          {/* <div className="mt-4 pt-4 border-t border-white/20">
+        </>
+      ) : (
+      <>
+        <div className="text-xl font-semibold text-white">Welcome Back</div>
+      <div className="text-sm text-white/80 mb-6">Enter your email and password to access your account.</div>
+      
+      {/* Error Message */}
+      {state.error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/40 rounded-lg flex items-center gap-2">
+          <AlertCircle size={16} className="text-red-400 flex-shrink-0" />
+          <span className="text-red-200 text-sm">{state.error}</span>
+        </div>
+      )}
+      
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="text-xs text-white/80">Email</label>
+          <input 
+            type="email" 
+            value={email} 
+            onChange={(e) => setEmail(e.target.value)} 
+            className="mt-1 w-full border border-white/20 bg-white/10 text-white placeholder-white/60 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-400 transition-colors" 
+            placeholder="you@company.com" 
+            required 
+            disabled={isSubmitting}
+            autoComplete="email"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-white/80">Password</label>
+          <div className="relative">
+            <input 
+              type={showPassword ? 'text' : 'password'} 
+              value={password} 
+              onChange={(e) => setPassword(e.target.value)} 
+              onFocus={() => setShowPasswordValidation(true)}
+              onBlur={() => setShowPasswordValidation(false)}
+              className={`mt-1 w-full border bg-white/10 text-white placeholder-white/60 rounded px-3 py-2 pr-10 text-sm focus:outline-none transition-colors ${
+                passwordValidation.isValid ? 'border-green-400 focus:border-green-400' : 'border-red-400 focus:border-red-400'
+              }`}
+              placeholder="••••••••" 
+              required 
+              disabled={isSubmitting}
+              autoComplete="current-password"
+            />
             <button 
-              type="button"
-              onClick={testConnectivity}
-              className="text-xs text-white/60 hover:text-white/80 underline"
+              type="button" 
+              aria-label="toggle password visibility" 
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-white/80 hover:text-white transition-colors disabled:opacity-50" 
+              onClick={() => setShowPassword(!showPassword)}
+              disabled={isSubmitting}
             >
-              Test API Connectivity
+              {showPassword ? <Eye size={18} /> : <EyeOff size={18} />}
             </button>
-            {debugInfo && (
-              <pre className="mt-2 text-xs text-white/60 bg-black/20 p-2 rounded overflow-auto max-h-32">
-                {debugInfo}
-              </pre>
-            )}
-          </div> */}
+          </div>
+          
+          {/* Password validation feedback */}
+          {showPasswordValidation && password && (
+            <div className="mt-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-white/70">Password strength:</span>
+                <span className={`text-xs font-medium ${getPasswordStrengthColor(passwordValidation.strength)}`}>
+                  {getPasswordStrengthText(passwordValidation.strength)}
+                </span>
+              </div>
+              {passwordValidation.errors.length > 0 && (
+                <div className="space-y-1">
+                  {passwordValidation.errors.map((error, index) => (
+                    <div key={index} className="text-xs text-red-300 flex items-center gap-1">
+                      <span className="text-red-400">•</span>
+                      {error}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
+        <div className="flex items-center justify-end text-xs">
+          <Link href="/forgot-password" className="text-blue-200 hover:underline">Forgot Your Password?</Link>
+        </div>
+        <button 
+          type="submit" 
+          className="w-full btn-primary py-3 text-sm flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={isSubmitting || !email.trim() || !password.trim() || !passwordValidation.isValid}
+        >
+          {isSubmitting && <div className="loader w-4 h-4"></div>}
+          {isSubmitting ? 'Logging in...' : 'Log In'}
+        </button>
+      </form>
+      </>
+      )}
+      {/* <div className="flex items-center my-4">
+        <div className="flex-1 h-px bg-white/20"></div>
+        <div className="px-3 text-xs text-white/70">Or Login With</div>
+        <div className="flex-1 h-px bg-white/20"></div>
       </div>
-    </div>
+      <div className="grid grid-cols-2 gap-3">
+        <button className="border border-white/30 bg-white/10 text-white rounded py-2 text-sm">Google</button>
+        <button className="border border-white/30 bg-white/10 text-white rounded py-2 text-sm">Apple</button>
+      </div> */}
+      {/* <div className="text-xs text-white/80 mt-6">
+        Don&apos;t Have An Account? <Link href="#" className="text-blue-200 hover:underline">Register Now.</Link>
+      </div> */}
+      <div className="text-[10px] text-white/60 mt-6">Privacy Policy</div>
+      
+      {/* Debug Section - Remove in production */}
+      {/* <div className="mt-4 pt-4 border-t border-white/20">
+        <button 
+          type="button"
+          onClick={testConnectivity}
+          className="text-xs text-white/60 hover:text-white/80 underline"
+        >
+          Test API Connectivity
+        </button>
+        {debugInfo && (
+          <pre className="mt-2 text-xs text-white/60 bg-black/20 p-2 rounded overflow-auto max-h-32">
+            {debugInfo}
+          </pre>
+        )}
+      </div> */}
+    </AuthPageShell>
   );
 }
 
@@ -1,12 +1,17 @@
 "use client";
 
 import React from 'react';
+import Orders from '../components/orders';
 import { ProtectedRoute } from '../lib/auth';
 
 export default function OrdersPage() {
   return (
-    <ProtectedRoute>
-      <div className="p-6 text-gray-800 dark:text-slate-100">Orders page placeholder</div>
+    <ProtectedRoute requiredRolePermissions={['orders:read']}>
+      <div className="p-4">
+        <React.Suspense fallback={<div className="flex justify-center py-6"><div className="loader w-6 h-6"></div></div>}>
+          <Orders />
+        </React.Suspense>
+      </div>
     </ProtectedRoute>
   );
 }
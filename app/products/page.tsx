@@ -6,7 +6,7 @@ import { ProtectedRoute } from '../lib/auth';
 
 export default function ProductsPage() {
   return (
-    <ProtectedRoute>
+    <ProtectedRoute requiredRolePermissions={['products:read']}>
       <div className="p-4">
         <Products />
       </div>
@@ -1,12 +1,15 @@
 "use client";
 
 import React from 'react';
+import Reports from '../components/reports';
 import { ProtectedRoute } from '../lib/auth';
 
 export default function ReportsPage() {
   return (
-    <ProtectedRoute>
-      <div className="p-6 text-gray-800">Reports page placeholder</div>
+    <ProtectedRoute requiredRolePermissions={['reports:view']}>
+      <div className="p-4">
+        <Reports />
+      </div>
     </ProtectedRoute>
   );
 }
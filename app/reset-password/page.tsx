@@ -0,0 +1,233 @@
+"use client";
+import Link from "next/link";
+import React from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Eye, EyeOff, AlertCircle, CheckCircle } from "lucide-react";
+import { PasswordResetService, type PasswordTokenInfo } from "../lib/auth/invitations";
+import { validatePassword, getPasswordStrengthColor, getPasswordStrengthText } from "../lib/utils/passwordValidation";
+import AuthPageShell from "../components/AuthPageShell";
+
+const inputClass = "mt-1 w-full border border-white/20 bg-white/10 text-white placeholder-white/60 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-400 transition-colors";
+
+/**
+ * Set a password from a one-time link: accepting an invitation or resetting a forgotten password
+ */
+function SetPasswordForm() {
+  const router = useRouter();
+  const token = useSearchParams().get('token') || '';
+
+  const [tokenInfo, setTokenInfo] = React.useState<PasswordTokenInfo | null>(null);
+  const [isValidating, setIsValidating] = React.useState(true);
+  const [linkError, setLinkError] = React.useState<string | null>(null);
+
+  const [username, setUsername] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [confirmPassword, setConfirmPassword] = React.useState("");
+  const [showPassword, setShowPassword] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isDone, setIsDone] = React.useState(false);
+
+  const passwordValidation = React.useMemo(() => validatePassword(password), [password]);
+  const isInvite = tokenInfo?.purpose === 'invite';
+
+  // Check the link before showing the form
+  React.useEffect(() => {
+    if (!token) {
+      setLinkError('This link is missing its token. Use the link from your email.');
+      setIsValidating(false);
+      return;
+    }
+
+    PasswordResetService.validateToken(token)
+      .then(info => {
+        if (new Date(info.expiresAt).getTime() <= Date.now()) {
+          setLinkError('This link has expired.');
+          return;
+        }
+        setTokenInfo(info);
+        if (info.purpose === 'invite') {
+          setUsername(info.email.split('@')[0]);
+        }
+      })
+      .catch(() => setLinkError('This link is invalid, has expired or was already used.'))
+      .finally(() => setIsValidating(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting || !tokenInfo) return;
+
+    if (!passwordValidation.isValid) {
+      setError(passwordValidation.errors[0]);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+    if (isInvite && !username.trim()) {
+      setError('Username is required.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await PasswordResetService.setPassword(token, {
+        password,
+        ...(isInvite ? { username: username.trim() } : {}),
+      });
+      setIsDone(true);
+      setTimeout(() => router.push('/login'), 3000);
+    } catch (error) {
+      console.error('Setting password failed:', error);
+      setError(error instanceof Error ? error.message : 'Unable to set your password. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isValidating) {
+    return (
+      <div className="flex justify-center py-6"><div className="loader w-6 h-6"></div></div>
+    );
+  }
+
+  if (linkError || !tokenInfo) {
+    return (
+      <>
+        <div className="text-xl font-semibold text-white">Link not valid</div>
+        <div className="mt-2 mb-6 p-3 bg-red-500/20 border border-red-500/40 rounded-lg flex items-center gap-2">
+          <AlertCircle size={16} className="text-red-400 flex-shrink-0" />
+          <span className="text-red-200 text-sm">{linkError}</span>
+        </div>
+        <div className="text-xs text-white/80">
+          <Link href="/forgot-password" className="text-blue-200 hover:underline">Request a new reset link</Link>
+          {' '}or ask your administrator to resend your invitation.
+        </div>
+      </>
+    );
+  }
+
+  if (isDone) {
+    return (
+      <>
+        <div className="text-xl font-semibold text-white">{isInvite ? 'Account activated' : 'Password updated'}</div>
+        <div className="mt-2 p-3 bg-green-500/20 border border-green-500/40 rounded-lg flex items-center gap-2">
+          <CheckCircle size={16} className="text-green-300 flex-shrink-0" />
+          <span className="text-green-100 text-sm">You can now log in with your new password. Redirecting…</span>
+        </div>
+        <div className="text-xs text-white/80 mt-6">
+          <Link href="/login" className="text-blue-200 hover:underline">Go to login</Link>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="text-xl font-semibold text-white">{isInvite ? 'Set up your account' : 'Choose a new password'}</div>
+      <div className="text-sm text-white/80 mb-6">
+        {tokenInfo.email} · link expires {new Date(tokenInfo.expiresAt).toLocaleString()}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/40 rounded-lg flex items-center gap-2">
+          <AlertCircle size={16} className="text-red-400 flex-shrink-0" />
+          <span className="text-red-200 text-sm">{error}</span>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {isInvite && (
+          <div>
+            <label className="text-xs text-white/80">Username</label>
+            <input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className={inputClass}
+              required
+              disabled={isSubmitting}
+              autoComplete="username"
+            />
+          </div>
+        )}
+        <div>
+          <label className="text-xs text-white/80">New Password</label>
+          <div className="relative">
+            <input
+              type={showPassword ? 'text' : 'password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={`${inputClass} pr-10`}
+              placeholder="••••••••"
+              required
+              disabled={isSubmitting}
+              autoComplete="new-password"
+              autoFocus
+            />
+            <button
+              type="button"
+              aria-label="toggle password visibility"
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-white/80 hover:text-white transition-colors"
+              onClick={() => setShowPassword(!showPassword)}
+            >
+              {showPassword ? <Eye size={18} /> : <EyeOff size={18} />}
+            </button>
+          </div>
+          {password && (
+            <div className="mt-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-white/70">Password strength:</span>
+                <span className={`text-xs font-medium ${getPasswordStrengthColor(passwordValidation.strength)}`}>
+                  {getPasswordStrengthText(passwordValidation.strength)}
+                </span>
+              </div>
+              {passwordValidation.errors.map((message, index) => (
+                <div key={index} className="text-xs text-red-300 flex items-center gap-1">
+                  <span className="text-red-400">•</span>
+                  {message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div>
+          <label className="text-xs text-white/80">Confirm Password</label>
+          <input
+            type={showPassword ? 'text' : 'password'}
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className={inputClass}
+            placeholder="••••••••"
+            required
+            disabled={isSubmitting}
+            autoComplete="new-password"
+          />
+          {confirmPassword && confirmPassword !== password && (
+            <div className="text-xs text-red-300 mt-1">Passwords do not match</div>
+          )}
+        </div>
+        <button
+          type="submit"
+          className="w-full btn-primary py-3 text-sm flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={isSubmitting || !passwordValidation.isValid || password !== confirmPassword}
+        >
+          {isSubmitting && <div className="loader w-4 h-4"></div>}
+          {isSubmitting ? 'Saving...' : isInvite ? 'Activate Account' : 'Update Password'}
+        </button>
+      </form>
+    </>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <AuthPageShell>
+      <React.Suspense fallback={<div className="flex justify-center py-6"><div className="loader w-6 h-6"></div></div>}>
+        <SetPasswordForm />
+      </React.Suspense>
+    </AuthPageShell>
+  );
+}
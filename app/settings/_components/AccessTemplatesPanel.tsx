@@ -0,0 +1,280 @@
+"use client";
+import React from 'react'
+import { Loader2, Plus, Trash2, X } from 'lucide-react'
+import { useAuth } from '../../lib/auth'
+import type { DetailedUser } from '../../lib/admin/types'
+import {
+  AccessTemplatesService,
+  applyAccessChanges,
+  diffTemplateUpdate,
+  type AccessCatalog,
+  type AccessTemplate,
+  type AccessTemplateInput,
+} from '../../lib/access-control'
+import { AccessDiffList } from './ApplyAccessTemplateModal'
+
+const emptyDraft: AccessTemplateInput = { name: '', description: '', brandIds: [], marketplaceIds: [], shippingIds: [] }
+
+type ListKey = 'brandIds' | 'marketplaceIds' | 'shippingIds'
+
+const toDraft = (template: AccessTemplate): AccessTemplateInput => ({
+  name: template.name,
+  description: template.description,
+  brandIds: [...template.brandIds],
+  marketplaceIds: [...template.marketplaceIds],
+  shippingIds: [...template.shippingIds],
+})
+
+interface AccessTemplatesPanelProps {
+  templates: AccessTemplate[]
+  users: DetailedUser[]
+  catalog: AccessCatalog
+  onTemplatesChange: (templates: AccessTemplate[]) => void
+  onUsersChanged: () => Promise<void>
+  onClose: () => void
+}
+
+/**
+ * Create, edit and delete access templates. Edits can optionally be pushed
+ * to every user the template was applied to.
+ */
+export default function AccessTemplatesPanel({
+  templates,
+  users,
+  catalog,
+  onTemplatesChange,
+  onUsersChanged,
+  onClose,
+}: AccessTemplatesPanelProps) {
+  const { state: authState } = useAuth()
+  // null = nothing selected, 0 = new template
+  const [selectedId, setSelectedId] = React.useState<number | null>(null)
+  const [draft, setDraft] = React.useState<AccessTemplateInput>(emptyDraft)
+  const [propagate, setPropagate] = React.useState(false)
+  const [isSaving, setIsSaving] = React.useState(false)
+  const [message, setMessage] = React.useState<{ text: string; success: boolean } | null>(null)
+
+  const selected = templates.find(t => t.id === selectedId) || null
+  const assignedUsers = React.useMemo(
+    () => selected ? users.filter(user => selected.assignedUserIds.includes(user.id)) : [],
+    [selected, users]
+  )
+
+  const propagationDiffs = React.useMemo(() => (
+    selected && propagate
+      ? assignedUsers.map(user => ({ user, changes: diffTemplateUpdate(user, toDraft(selected), draft, catalog) }))
+      : []
+  ), [selected, propagate, assignedUsers, draft, catalog])
+
+  const select = (template: AccessTemplate | null) => {
+    setSelectedId(template ? template.id : 0)
+    setDraft(template ? toDraft(template) : emptyDraft)
+    setPropagate(false)
+    setMessage(null)
+  }
+
+  const toggleItem = (key: ListKey, id: number) => {
+    setDraft(prev => ({
+      ...prev,
+      [key]: prev[key].includes(id) ? prev[key].filter(item => item !== id) : [...prev[key], id],
+    }))
+  }
+
+  const save = async () => {
+    if (!authState.accessToken) return
+    if (!draft.name.trim()) {
+      setMessage({ text: 'Template name is required', success: false })
+      return
+    }
+    if (templates.some(t => t.id !== selectedId && t.name.trim().toLowerCase() === draft.name.trim().toLowerCase())) {
+      setMessage({ text: `A template named "${draft.name.trim()}" already exists`, success: false })
+      return
+    }
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const data = { ...draft, name: draft.name.trim(), description: draft.description.trim() }
+      const saved = selectedId
+        ? await AccessTemplatesService.updateTemplate(authState.accessToken, selectedId, data)
+        : await AccessTemplatesService.createTemplate(authState.accessToken, data)
+
+      onTemplatesChange(selectedId
+        ? templates.map(t => t.id === saved.id ? saved : t)
+        : [...templates, saved])
+
+      let text = `Template "${saved.name}" saved`
+      const pending = propagationDiffs.filter(diff => diff.changes.length > 0)
+      if (pending.length > 0) {
+        const failed: string[] = []
+        for (const { user, changes } of pending) {
+          try {
+            await applyAccessChanges(authState.accessToken, user.id, changes)
+          } catch (err) {
+            console.error(`❌ Failed to propagate template to user ${user.id}:`, err)
+            failed.push(user.username || user.email)
+          }
+        }
+        await onUsersChanged()
+        if (failed.length > 0) {
+          select(saved)
+          setMessage({ text: `${text}, but could not update: ${failed.join(', ')}`, success: false })
+          return
+        }
+        text += ` and applied to ${pending.length} user${pending.length !== 1 ? 's' : ''}`
+      }
+
+      select(saved)
+      setMessage({ text, success: true })
+    } catch (err: any) {
+      setMessage({ text: err.message || 'Failed to save template', success: false })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const remove = async () => {
+    if (!authState.accessToken || !selected) return
+    if (!confirm(`Delete the template "${selected.name}"? Access already granted from it is kept.`)) return
+    try {
+      await AccessTemplatesService.deleteTemplate(authState.accessToken, selected.id)
+      onTemplatesChange(templates.filter(t => t.id !== selected.id))
+      setSelectedId(null)
+      setMessage(null)
+    } catch (err: any) {
+      setMessage({ text: err.message || 'Failed to delete template', success: false })
+    }
+  }
+
+  const renderChecklist = (title: string, key: ListKey, items: Array<{ id: number; name: string }>) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-gray-800 dark:text-slate-100">
+          {title} <span className="text-gray-500 dark:text-slate-400">({draft[key].length}/{items.length})</span>
+        </div>
+        <button
+          type="button"
+          className="text-xs text-blue-600"
+          onClick={() => setDraft(prev => ({ ...prev, [key]: prev[key].length === items.length ? [] : items.map(item => item.id) }))}
+        >
+          {draft[key].length === items.length ? 'Clear' : 'All'}
+        </button>
+      </div>
+      <div className="space-y-1 max-h-56 overflow-y-auto border dark:border-slate-600 rounded-lg p-2">
+        {items.map(item => (
+          <label key={item.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={draft[key].includes(item.id)} onChange={() => toggleItem(key, item.id)} />
+            {item.name}
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 p-4">
+      <div className="card p-4 sm:p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="text-lg font-semibold text-gray-800 dark:text-slate-100">Access Templates</div>
+          <button className="text-gray-400 hover:text-red-500 transition-colors" onClick={onClose} disabled={isSaving}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {message && (
+          <div className={`mb-4 rounded-lg p-3 text-sm border ${message.success ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+            {message.text}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <button onClick={() => select(null)} className="btn-primary text-sm px-3 py-2 w-full flex items-center justify-center gap-1">
+              <Plus size={14} /> New Template
+            </button>
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => select(template)}
+                className={`w-full text-left border dark:border-slate-600 rounded-lg p-3 ${selectedId === template.id ? 'bg-indigo-50 dark:bg-slate-700 border-indigo-300' : 'hover:bg-gray-50 dark:hover:bg-slate-800'}`}
+              >
+                <div className="text-sm font-medium text-gray-800 dark:text-slate-100">{template.name}</div>
+                <div className="text-xs text-gray-500 dark:text-slate-400">
+                  {template.brandIds.length} brands · {template.marketplaceIds.length} marketplaces · {template.shippingIds.length} shipping
+                </div>
+                <div className="text-xs text-gray-500 dark:text-slate-400">
+                  Assigned to {template.assignedUserIds.length} user{template.assignedUserIds.length !== 1 ? 's' : ''}
+                </div>
+              </button>
+            ))}
+            {templates.length === 0 && (
+              <div className="text-xs text-gray-500 dark:text-slate-400">No templates yet.</div>
+            )}
+          </div>
+
+          <div className="lg:col-span-3">
+            {selectedId === null ? (
+              <div className="text-sm text-gray-600 dark:text-slate-400 p-6 text-center border dark:border-slate-600 rounded-lg">
+                Select a template to edit it, or create a new one.
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-xs text-gray-600 dark:text-slate-400">Name</label>
+                    <input
+                      value={draft.name}
+                      onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="e.g. Walmart ops"
+                      className="input-soft w-full mt-1 px-3 py-2"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600 dark:text-slate-400">Description</label>
+                    <input
+                      value={draft.description}
+                      onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                      className="input-soft w-full mt-1 px-3 py-2"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {renderChecklist('Brands', 'brandIds', catalog.brands)}
+                  {renderChecklist('Marketplaces', 'marketplaceIds', catalog.marketplaces)}
+                  {renderChecklist('Shipping', 'shippingIds', catalog.shipping)}
+                </div>
+
+                {selected && assignedUsers.length > 0 && (
+                  <div className="border dark:border-slate-600 rounded-lg p-3 space-y-3">
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+                      <input type="checkbox" checked={propagate} onChange={(e) => setPropagate(e.target.checked)} />
+                      Also update the {assignedUsers.length} user{assignedUsers.length !== 1 ? 's' : ''} assigned this template
+                    </label>
+                    {propagate && <AccessDiffList diffs={propagationDiffs} />}
+                  </div>
+                )}
+
+                <div className="flex items-center gap-3">
+                  {selected && (
+                    <button onClick={remove} disabled={isSaving} className="btn-ghost text-sm text-red-600 flex items-center gap-1">
+                      <Trash2 size={14} /> Delete
+                    </button>
+                  )}
+                  <button
+                    onClick={save}
+                    disabled={isSaving}
+                    className="btn-primary text-sm px-4 py-2 ml-auto disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isSaving && <Loader2 size={14} className="animate-spin" />}
+                    {selected ? 'Save Template' : 'Create Template'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+"use client";
+import React from 'react'
+import { Loader2, LogOut, Monitor, RefreshCw, Smartphone } from 'lucide-react'
+import { useAuth, SessionsService, describeUserAgent, type ActiveSession } from '../../lib/auth'
+import { AdminUtils } from '../../lib/admin'
+
+interface ActiveSessionsPanelProps {
+  // Manage another user's sessions (admin); omit for the signed-in user's own sessions
+  user?: { id: number; email: string; username?: string }
+}
+
+const isMobile = (userAgent: string) => /iPhone|iPad|iPod|Android|Mobile/.test(userAgent)
+
+/**
+ * Active sessions with "sign out this device" and "sign out everywhere".
+ * Revoking a session invalidates its refresh cookie on the server.
+ */
+export default function ActiveSessionsPanel({ user }: ActiveSessionsPanelProps) {
+  const { state: authState, logout, signOutEverywhere } = useAuth()
+  const [sessions, setSessions] = React.useState<ActiveSession[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+  const [revokingId, setRevokingId] = React.useState<string | null>(null)
+  const [isRevokingAll, setIsRevokingAll] = React.useState(false)
+
+  const isSelf = !user
+  const targetEmail = user?.email || authState.user?.email || 'unknown'
+
+  const loadSessions = React.useCallback(async () => {
+    if (!authState.accessToken) return
+    try {
+      setIsLoading(true)
+      setError(null)
+      setSessions(user
+        ? await SessionsService.getUserSessions(user.id, authState.accessToken)
+        : await SessionsService.getMySessions(authState.accessToken))
+    } catch (err: any) {
+      setError(err.message || 'Failed to load sessions')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authState.accessToken, user])
+
+  React.useEffect(() => {
+    if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      loadSessions()
+    }
+  }, [loadSessions, authState.isAuthenticated, authState.accessToken, authState.isLoading])
+
+  const revoke = async (session: ActiveSession) => {
+    if (!authState.accessToken) return
+    // Signing out the current device is a normal logout
+    if (isSelf && session.isCurrent) {
+      await logout()
+      return
+    }
+
+    try {
+      setRevokingId(session.id)
+      setError(null)
+      if (user) {
+        await SessionsService.revokeUserSession(user.id, session.id, authState.accessToken)
+      } else {
+        await SessionsService.revokeMySession(session.id, authState.accessToken)
+      }
+      setSessions(prev => prev.filter(s => s.id !== session.id))
+    } catch (err: any) {
+      setError(err.message || 'Failed to sign out session')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const revokeAll = async () => {
+    if (!authState.accessToken) return
+    const message = isSelf
+      ? 'Sign out of every device, including this one?'
+      : `Sign ${targetEmail} out of every device? They will have to log in again.`
+    if (!confirm(message)) return
+
+    try {
+      setIsRevokingAll(true)
+      setError(null)
+      if (isSelf) {
+        await signOutEverywhere()
+        return
+      }
+      await SessionsService.revokeAllUserSessions(user.id, authState.accessToken)
+      setSessions([])
+    } catch (err: any) {
+      setError(err.message || 'Failed to sign out all sessions')
+    } finally {
+      setIsRevokingAll(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-gray-600 dark:text-slate-400">
+          {isSelf ? 'Devices where you are signed in.' : `Devices where ${targetEmail} is signed in.`}
+        </p>
+        <div className="flex gap-2">
+          <button onClick={loadSessions} disabled={isLoading} className="btn-ghost text-sm flex items-center gap-1 disabled:opacity-50" title="Refresh sessions">
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+          <button
+            onClick={revokeAll}
+            disabled={isRevokingAll || sessions.length === 0}
+            className="btn-secondary text-sm px-3 py-1.5 text-red-600 flex items-center gap-1 disabled:opacity-50"
+          >
+            {isRevokingAll ? <Loader2 size={14} className="animate-spin" /> : <LogOut size={14} />}
+            Sign Out Everywhere
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500"><Loader2 size={14} className="animate-spin" /> Loading sessions…</div>
+      ) : sessions.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-slate-400">No active sessions.</div>
+      ) : (
+        <div className="divide-y dark:divide-slate-700 border dark:border-slate-600 rounded-lg">
+          {sessions.map(session => (
+            <div key={session.id} className="flex items-center justify-between gap-3 p-3">
+              <div className="flex items-center gap-3 min-w-0">
+                {isMobile(session.userAgent)
+                  ? <Smartphone size={18} className="text-gray-500 flex-shrink-0" />
+                  : <Monitor size={18} className="text-gray-500 flex-shrink-0" />}
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-800 dark:text-slate-100 flex items-center gap-2">
+                    {describeUserAgent(session.userAgent)}
+                    {session.isCurrent && isSelf && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-800">This device</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                    {session.ipAddress} · {session.networkType} · signed in {AdminUtils.formatRelativeTime(session.loginTime)} · active {AdminUtils.formatRelativeTime(session.lastActiveAt)}
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => revoke(session)}
+                disabled={revokingId === session.id || isRevokingAll}
+                className="btn-ghost text-xs px-2 py-1 text-red-600 flex items-center gap-1 disabled:opacity-50 flex-shrink-0"
+              >
+                {revokingId === session.id && <Loader2 size={12} className="animate-spin" />}
+                Sign Out
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
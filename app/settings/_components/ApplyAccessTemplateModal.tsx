@@ -0,0 +1,191 @@
+"use client";
+import React from 'react'
+import { Loader2, X } from 'lucide-react'
+import { useAuth } from '../../lib/auth'
+import type { DetailedUser } from '../../lib/admin/types'
+import {
+  AccessTemplatesService,
+  applyAccessChanges,
+  diffTemplateAccess,
+  ACCESS_TEMPLATE_MODE_LABELS,
+  type AccessCatalog,
+  type AccessChange,
+  type AccessTemplate,
+  type AccessTemplateMode,
+} from '../../lib/access-control'
+
+const TYPE_LABELS: Record<AccessChange['type'], string> = {
+  brand: 'Brand',
+  marketplace: 'Marketplace',
+  shipping: 'Shipping',
+}
+
+/**
+ * Per-user list of grants (green) and revokes (red)
+ */
+export function AccessDiffList({ diffs }: { diffs: Array<{ user: DetailedUser; changes: AccessChange[] }> }) {
+  const changed = diffs.filter(diff => diff.changes.length > 0)
+  const unchanged = diffs.length - changed.length
+
+  return (
+    <div className="space-y-3">
+      {changed.map(({ user, changes }) => (
+        <div key={user.id} className="border dark:border-slate-600 rounded-lg p-3">
+          <div className="text-sm font-medium text-gray-800 dark:text-slate-100 mb-2">
+            {user.username || user.email}
+            <span className="text-xs text-gray-500 dark:text-slate-400 ml-2">
+              {changes.filter(c => c.enabled).length} grant{changes.filter(c => c.enabled).length !== 1 ? 's' : ''}, {changes.filter(c => !c.enabled).length} revoke{changes.filter(c => !c.enabled).length !== 1 ? 's' : ''}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {changes.map(change => (
+              <span
+                key={`${change.type}-${change.id}`}
+                className={`text-xs px-2 py-0.5 rounded ${change.enabled ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800 line-through'}`}
+              >
+                {change.enabled ? '+' : '−'} {TYPE_LABELS[change.type]}: {change.name}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+      {unchanged > 0 && (
+        <div className="text-xs text-gray-500 dark:text-slate-400">
+          {unchanged} user{unchanged !== 1 ? 's' : ''} already match{unchanged === 1 ? 'es' : ''} and will not change.
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ApplyAccessTemplateModalProps {
+  templates: AccessTemplate[]
+  users: DetailedUser[]
+  catalog: AccessCatalog
+  onApplied: (template: AccessTemplate) => Promise<void> | void
+  onClose: () => void
+}
+
+/**
+ * Apply one template to the selected users after previewing the permission diff
+ */
+export default function ApplyAccessTemplateModal({ templates, users, catalog, onApplied, onClose }: ApplyAccessTemplateModalProps) {
+  const { state: authState } = useAuth()
+  const [templateId, setTemplateId] = React.useState<number | null>(templates[0]?.id ?? null)
+  const [mode, setMode] = React.useState<AccessTemplateMode>('merge')
+  const [isApplying, setIsApplying] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const template = templates.find(t => t.id === templateId) || null
+
+  const diffs = React.useMemo(() => (
+    template ? users.map(user => ({ user, changes: diffTemplateAccess(user, template, catalog, mode) })) : []
+  ), [template, users, catalog, mode])
+
+  const totalChanges = diffs.reduce((sum, diff) => sum + diff.changes.length, 0)
+
+  const apply = async () => {
+    if (!template || !authState.accessToken || !authState.user) return
+    setIsApplying(true)
+    setError(null)
+
+    const failed: string[] = []
+    const appliedUserIds: number[] = []
+    for (const { user, changes } of diffs) {
+      try {
+        await applyAccessChanges(authState.accessToken, user.id, changes)
+        appliedUserIds.push(user.id)
+      } catch (err: any) {
+        console.error(`❌ Failed to apply template to user ${user.id}:`, err)
+        failed.push(user.username || user.email)
+      }
+    }
+
+    try {
+      if (appliedUserIds.length > 0) {
+        const updated = await AccessTemplatesService.assignTemplate(authState.accessToken, template.id, appliedUserIds)
+        await onApplied(updated)
+      }
+      if (failed.length > 0) {
+        setError(`Could not update: ${failed.join(', ')}. Their access may be partially changed; review them individually.`)
+      } else {
+        onClose()
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to apply template')
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 p-4">
+      <div className="card p-4 sm:p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="text-lg font-semibold text-gray-800 dark:text-slate-100">
+            Apply Template to {users.length} User{users.length !== 1 ? 's' : ''}
+          </div>
+          <button className="text-gray-400 hover:text-red-500 transition-colors" onClick={onClose} disabled={isApplying}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {templates.length === 0 ? (
+          <div className="text-sm text-gray-600 dark:text-slate-400">Create a template first under “Templates”.</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+              <div>
+                <label className="text-xs text-gray-600 dark:text-slate-400">Template</label>
+                <select
+                  value={templateId ?? ''}
+                  onChange={(e) => setTemplateId(Number(e.target.value))}
+                  className="input-soft w-full mt-1 px-3 py-2"
+                >
+                  {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs text-gray-600 dark:text-slate-400">Mode</label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as AccessTemplateMode)}
+                  className="input-soft w-full mt-1 px-3 py-2"
+                >
+                  {(Object.keys(ACCESS_TEMPLATE_MODE_LABELS) as AccessTemplateMode[]).map(key => (
+                    <option key={key} value={key}>{ACCESS_TEMPLATE_MODE_LABELS[key]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {template?.description && (
+              <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">{template.description}</p>
+            )}
+
+            <div className="text-sm font-medium text-gray-800 dark:text-slate-100 mb-2">Preview</div>
+            <AccessDiffList diffs={diffs} />
+          </>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} disabled={isApplying} className="btn-secondary text-sm px-4 py-2 disabled:opacity-50">
+            Cancel
+          </button>
+          <button
+            onClick={apply}
+            disabled={!template || isApplying}
+            className="btn-primary text-sm px-4 py-2 disabled:opacity-50 flex items-center gap-2"
+          >
+            {isApplying && <Loader2 size={14} className="animate-spin" />}
+            {totalChanges > 0 ? `Apply ${totalChanges} Change${totalChanges !== 1 ? 's' : ''}` : 'Assign Template'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
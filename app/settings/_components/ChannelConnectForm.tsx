@@ -2,7 +2,15 @@
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import React from 'react'
+import { useAuth } from '../../lib/auth'
 import { useSalesChannelsStore } from '../../lib/stores/salesChannelsStore'
+import {
+  SalesChannelsService,
+  getCredentialFields,
+  getStubEndpoint,
+  type ChannelTestResult,
+  type SalesChannelInput,
+} from '../../lib/sales-channels'
 
 export type ChannelOption = {
   label: string
@@ -11,25 +19,133 @@ export type ChannelOption = {
 
 export default function ChannelConnectForm({
   channelName,
+  provider,
   regions,
   showFbaToggle = false,
+  channelId,
 }: {
   channelName: string
+  provider: string
   regions: ChannelOption[]
   showFbaToggle?: boolean
+  channelId?: number // edit an existing connection
 }) {
-  const { addChannel } = useSalesChannelsStore();
+  const { state: authState, can } = useAuth()
+  const { upsertChannel } = useSalesChannelsStore();
   const router = useRouter()
+  const fields = getCredentialFields(provider)
+
   const [nickname, setNickname] = React.useState('')
   const [region, setRegion] = React.useState(regions[0]?.value || '')
   const [fba, setFba] = React.useState(false)
+  const [credentials, setCredentials] = React.useState<Record<string, string>>({})
+  const [maskedSecrets, setMaskedSecrets] = React.useState<Record<string, string>>({})
+  const [endpointOverride, setEndpointOverride] = React.useState('')
+  const [showAdvanced, setShowAdvanced] = React.useState(false)
+
+  const [loading, setLoading] = React.useState(!!channelId)
+  const [saving, setSaving] = React.useState(false)
+  const [testing, setTesting] = React.useState(false)
+  const [testResult, setTestResult] = React.useState<ChannelTestResult | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Load the saved connection when editing; secrets come back masked and are left blank
+  React.useEffect(() => {
+    if (!channelId || !authState.accessToken) return
+    let cancelled = false
+
+    SalesChannelsService.getChannel(authState.accessToken, channelId)
+      .then(channel => {
+        if (cancelled) return
+        setNickname(channel.nickname)
+        setRegion(channel.region)
+        setFba(channel.fba)
+        setEndpointOverride(channel.endpointOverride || '')
+        setShowAdvanced(!!channel.endpointOverride)
+        setCredentials(Object.fromEntries(fields.filter(f => !f.secret).map(f => [f.key, channel.credentials[f.key] || ''])))
+        setMaskedSecrets(Object.fromEntries(fields.filter(f => f.secret).map(f => [f.key, channel.credentials[f.key] || ''])))
+      })
+      .catch((err: any) => !cancelled && setError(err.message || 'Failed to load channel'))
+      .finally(() => !cancelled && setLoading(false))
+
+    return () => { cancelled = true }
+  }, [channelId, authState.accessToken])
+
+  const setCredential = (key: string, value: string) => {
+    setCredentials(prev => ({ ...prev, [key]: value }))
+    setTestResult(null)
+  }
+
+  const buildInput = (): SalesChannelInput => ({
+    provider,
+    nickname: nickname.trim() || `${channelName} Store`,
+    region,
+    fba: showFbaToggle ? fba : false,
+    endpointOverride: endpointOverride.trim() || null,
+    credentials: Object.fromEntries(fields.map(f => [f.key, (credentials[f.key] || '').trim()])),
+  })
+
+  // Required secrets may stay blank when editing (the stored value is kept)
+  const missingFields = fields.filter(f =>
+    f.required && !(credentials[f.key] || '').trim() && !(channelId && f.secret && maskedSecrets[f.key])
+  )
+
+  const test = async () => {
+    if (!authState.accessToken) return
+    setTesting(true)
+    setError(null)
+    setTestResult(null)
+    try {
+      // Test what would be saved; blank secrets are taken from the saved connection
+      const result = await SalesChannelsService.testCredentials(authState.accessToken, buildInput(), channelId)
+      setTestResult(result)
+    } catch (err: any) {
+      setError(err.message || 'Connection test failed')
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const save = async () => {
+    if (!authState.accessToken) return
+    if (missingFields.length > 0) {
+      setError(`Please fill in: ${missingFields.map(f => f.label).join(', ')}`)
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const response = channelId
+        ? await SalesChannelsService.updateChannel(authState.accessToken, channelId, buildInput())
+        : await SalesChannelsService.createChannel(authState.accessToken, buildInput())
+      upsertChannel(response.channel)
+      router.push('/settings/channels/your')
+    } catch (err: any) {
+      setError(err.message || 'Failed to save channel')
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-sm text-gray-600">Loading channel...</div>
+  }
+
+  if (!authState.isLoading && !can('channels:manage')) {
+    return <div className="text-sm text-gray-600">You need the “Manage sales channels” permission to connect or edit channels.</div>
+  }
 
   return (
     <div className="space-y-4">
-      <h2 className="text-xl font-semibold text-gray-800">Connect a New Sales Channel</h2>
+      <h2 className="text-xl font-semibold text-gray-800">{channelId ? `Edit ${channelName} Connection` : 'Connect a New Sales Channel'}</h2>
+
+      {!channelId && (
+        <>
+          <div className="text-gray-800 font-medium">Connecting your {channelName} account is easy!</div>
+          <div className="text-sm text-gray-600">You may need a seller account on {channelName} to list and sell. Learn more</div>
+        </>
+      )}
 
-      <div className="text-gray-800 font-medium">Connecting your {channelName} account is easy!</div>
-      <div className="text-sm text-gray-600">You may need a seller account on {channelName} to list and sell. Learn more</div>
+      {error && <div className="max-w-2xl bg-red-50 border border-red-200 text-red-700 text-sm px-3 py-2 rounded">{error}</div>}
 
       <div className="max-w-2xl space-y-3">
         <div>
@@ -38,7 +154,7 @@ export default function ChannelConnectForm({
         </div>
 
         <div>
-          <select className="border rounded px-3 py-2 text-sm" value={region} onChange={(e)=>setRegion(e.target.value)}>
+          <select className="border rounded px-3 py-2 text-sm" value={region} onChange={(e)=>{ setRegion(e.target.value); setTestResult(null) }}>
             {regions.map(r => (<option key={r.value} value={r.value}>{r.label}</option>))}
           </select>
         </div>
@@ -50,27 +166,90 @@ export default function ChannelConnectForm({
           </label>
         )}
 
+        {fields.length > 0 && (
+          <div className="bg-white border rounded-lg shadow-sm">
+            <div className="border-b p-4">
+              <div className="font-medium text-gray-800">API Credentials</div>
+              <div className="text-xs text-gray-500">Stored encrypted on the server. Secrets are never shown again after saving.</div>
+            </div>
+            <div className="p-4 space-y-3">
+              {fields.map(field => (
+                <div key={field.key}>
+                  <div className="text-sm text-gray-700 mb-1">
+                    {field.label}{field.required && <span className="text-red-500">*</span>}
+                  </div>
+                  <input
+                    type={field.secret ? 'password' : 'text'}
+                    autoComplete="off"
+                    value={credentials[field.key] || ''}
+                    onChange={(e) => setCredential(field.key, e.target.value)}
+                    placeholder={field.secret && maskedSecrets[field.key]
+                      ? `${maskedSecrets[field.key]} (leave blank to keep current)`
+                      : field.placeholder}
+                    className="w-full border rounded px-3 py-2 text-sm font-mono"
+                  />
+                  {field.help && <div className="text-xs text-gray-500 mt-1">{field.help}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <button type="button" className="text-xs text-blue-600" onClick={() => setShowAdvanced(v => !v)}>
+            {showAdvanced ? 'Hide advanced' : 'Advanced'}
+          </button>
+          {showAdvanced && (
+            <div className="mt-2">
+              <div className="text-sm text-gray-700 mb-1">Provider Endpoint Override</div>
+              <div className="flex gap-2">
+                <input
+                  value={endpointOverride}
+                  onChange={(e) => { setEndpointOverride(e.target.value); setTestResult(null) }}
+                  placeholder="Leave blank to use the live provider API"
+                  className="flex-1 border rounded px-3 py-2 text-sm font-mono"
+                />
+                <button
+                  type="button"
+                  onClick={() => { setEndpointOverride(getStubEndpoint(provider)); setTestResult(null) }}
+                  className="border rounded px-3 py-2 text-sm text-gray-700"
+                >
+                  Use local stub
+                </button>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">For local testing. The stub rejects any credential starting with &quot;invalid&quot;.</div>
+            </div>
+          )}
+        </div>
+
+        {testResult && (
+          <div className={`text-sm px-3 py-2 rounded border ${testResult.success ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+            {testResult.success ? 'Connection successful' : 'Connection failed'}: {testResult.message}
+          </div>
+        )}
+
         <div className="pt-2 flex items-center gap-2">
           <button
-            className="bg-white border rounded px-4 py-3 flex items-center gap-3 shadow-sm"
-            onClick={() => {
-              const channelData = {
-                provider: channelName.toLowerCase(),
-                nickname: nickname || `${channelName} Store`,
-                region,
-                fba
-              };
-              addChannel(channelData);
-              router.push('/settings/channels/your');
-            }}
+            className="bg-white border rounded px-4 py-3 flex items-center gap-3 shadow-sm disabled:opacity-50"
+            disabled={saving}
+            onClick={save}
           >
             <span className="w-6 h-6 rounded bg-purple-100 text-purple-700 flex items-center justify-center">{channelName[0]}</span>
-            <span className="text-sm text-gray-800">Connect Your Account</span>
+            <span className="text-sm text-gray-800">{saving ? 'Saving...' : channelId ? 'Save Changes' : 'Connect Your Account'}</span>
           </button>
-          <Link href={'/settings/channels'} className="text-sm text-gray-700 border rounded px-3 py-2">Back</Link>
+          {fields.length > 0 && (
+            <button
+              type="button"
+              disabled={testing || (missingFields.length > 0 && !channelId)}
+              onClick={test}
+              className="text-sm text-gray-700 border rounded px-3 py-2 disabled:opacity-50"
+            >
+              {testing ? 'Testing...' : 'Test Connection'}
+            </button>
+          )}
+          <Link href={channelId ? '/settings/channels/your' : '/settings/channels'} className="text-sm text-gray-700 border rounded px-3 py-2">Back</Link>
         </div>
       </div>
     </div>
   )
 }
-
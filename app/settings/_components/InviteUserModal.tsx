@@ -0,0 +1,116 @@
+"use client";
+import React from 'react'
+import { Loader2, X } from 'lucide-react'
+import { useAuth, InvitationsService, INVITATION_TTL_HOURS, type Invitation, type UserRole } from '../../lib/auth'
+import type { Role } from '../../lib/roles'
+
+interface InviteUserModalProps {
+  roles: Role[]
+  existingEmails: string[]
+  onInvited: (invitation: Invitation) => void
+  onClose: () => void
+}
+
+/**
+ * Invite a user by email and role. They choose their own password from the emailed link.
+ */
+export default function InviteUserModal({ roles, existingEmails, onInvited, onClose }: InviteUserModalProps) {
+  const { state: authState } = useAuth()
+  const [email, setEmail] = React.useState('')
+  const [role, setRole] = React.useState<UserRole>('USER')
+  const [isSending, setIsSending] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const selectedRole = roles.find(r => r.key === role)
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!authState.accessToken || isSending) return
+
+    const normalized = email.trim().toLowerCase()
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+      setError('Enter a valid email address')
+      return
+    }
+    if (existingEmails.some(existing => existing.toLowerCase() === normalized)) {
+      setError(`${normalized} already has an account`)
+      return
+    }
+
+    setIsSending(true)
+    setError(null)
+    try {
+      const invitation = await InvitationsService.createInvitation({ email: normalized, role }, authState.accessToken)
+      onInvited(invitation)
+    } catch (err: any) {
+      setError(err.message || 'Failed to send invitation')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 p-4">
+      <form onSubmit={submit} className="card p-6 w-full max-w-md space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="text-lg font-semibold text-gray-800">Invite User</div>
+          <button type="button" className="text-gray-400 hover:text-red-500 transition-colors" onClick={onClose} disabled={isSending}>
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600">
+          We&apos;ll email a link to set their password. The link works once and expires in {INVITATION_TTL_HOURS} hours.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div>
+          <label className="text-xs text-gray-600">Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="mt-1 w-full border rounded px-3 py-2 text-sm"
+            placeholder="user@company.com"
+            required
+            disabled={isSending}
+            autoFocus
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-600">Role</label>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value)}
+            className="mt-1 w-full border rounded px-3 py-2 text-sm"
+            disabled={isSending}
+          >
+            {roles.length === 0 ? (
+              <>
+                <option value="USER">User</option>
+                <option value="ADMIN">Admin</option>
+              </>
+            ) : (
+              roles.map(r => <option key={r.key} value={r.key}>{r.name}</option>)
+            )}
+          </select>
+          <div className="text-xs text-gray-500 mt-1">
+            {role === 'ADMIN' ? 'Full access to all features' : selectedRole?.description || 'Limited access based on permissions'}
+          </div>
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <button type="button" onClick={onClose} disabled={isSending} className="btn-secondary text-sm px-4 py-2 disabled:opacity-50">
+            Cancel
+          </button>
+          <button type="submit" disabled={isSending || !email.trim()} className="btn-primary text-sm px-4 py-2 flex items-center gap-2 disabled:opacity-50">
+            {isSending && <Loader2 size={14} className="animate-spin" />}
+            Send Invitation
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,276 @@
+"use client";
+import React from 'react'
+import { Archive, Download, Loader2, Trash2 } from 'lucide-react'
+import { logRetentionManager } from '../../lib/log-retention'
+import { useRetentionStore } from '../../lib/stores/retentionStore'
+import {
+  AUDIT_LOG_TYPE_LABELS,
+  RETENTION_ARCHIVE_FORMAT_LABELS,
+  type LogRetentionPolicy,
+  type RetentionArchiveFormat,
+  type UpdateLogRetentionPolicyRequest,
+} from '../../lib/audit-log'
+
+type PolicyDraft = Required<UpdateLogRetentionPolicyRequest>
+
+const toDraft = (policy: LogRetentionPolicy): PolicyDraft => ({
+  retentionMonths: policy.retentionMonths,
+  notificationThreshold: policy.notificationThreshold,
+  autoDelete: policy.autoDelete,
+  archiveFormat: policy.archiveFormat,
+})
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+/**
+ * Per-log-type retention policies and the archives written before each purge
+ */
+export default function LogRetentionPanel() {
+  const { policies, archives, isLoading, error } = useRetentionStore()
+  const [drafts, setDrafts] = React.useState<Record<string, PolicyDraft>>({})
+  const [busyType, setBusyType] = React.useState<string | null>(null)
+  const [downloadingId, setDownloadingId] = React.useState<number | null>(null)
+  const [message, setMessage] = React.useState<{ text: string; success: boolean } | null>(null)
+
+  React.useEffect(() => {
+    setDrafts(Object.fromEntries(policies.map(policy => [policy.logType, toDraft(policy)])))
+  }, [policies])
+
+  const updateDraft = (logType: string, patch: Partial<PolicyDraft>) => {
+    setDrafts(prev => ({ ...prev, [logType]: { ...prev[logType], ...patch } }))
+  }
+
+  const isDirty = (policy: LogRetentionPolicy) => {
+    const draft = drafts[policy.logType]
+    return !!draft && (Object.keys(draft) as (keyof PolicyDraft)[]).some(key => draft[key] !== policy[key])
+  }
+
+  const run = async (logType: string, action: () => Promise<string>) => {
+    setBusyType(logType)
+    setMessage(null)
+    try {
+      setMessage({ text: await action(), success: true })
+    } catch (err: any) {
+      setMessage({ text: err.message || 'Retention request failed', success: false })
+    } finally {
+      setBusyType(null)
+    }
+  }
+
+  const save = (policy: LogRetentionPolicy) => run(policy.logType, async () => {
+    const draft = drafts[policy.logType]
+    if (!Number.isInteger(draft.retentionMonths) || draft.retentionMonths < 1) {
+      throw new Error('Retention must be at least 1 month')
+    }
+    if (!Number.isInteger(draft.notificationThreshold) || draft.notificationThreshold < 0) {
+      throw new Error('Notification threshold must be 0 days or more')
+    }
+    await logRetentionManager.updatePolicy(policy.logType, draft)
+    return `${AUDIT_LOG_TYPE_LABELS[policy.logType]} retention policy saved`
+  })
+
+  const exportExpired = (policy: LogRetentionPolicy) => run(policy.logType, async () => {
+    const archive = await logRetentionManager.exportExpired(policy.logType, drafts[policy.logType]?.archiveFormat || policy.archiveFormat)
+    return archive.entryCount > 0
+      ? `Archived ${archive.entryCount} expired ${AUDIT_LOG_TYPE_LABELS[policy.logType].toLowerCase()} entries`
+      : 'No expired entries to archive'
+  })
+
+  const purge = (policy: LogRetentionPolicy) => {
+    const label = AUDIT_LOG_TYPE_LABELS[policy.logType]
+    if (!confirm(`Purge ${label.toLowerCase()} entries older than ${policy.retentionMonths} months? They are archived first, then removed from the audit log.`)) return
+    return run(policy.logType, async () => {
+      const result = await logRetentionManager.purge(policy.logType)
+      return `Purged ${result.purgedCount} ${label.toLowerCase()} entries; archive #${result.archive.id} is ready to download`
+    })
+  }
+
+  const download = async (archiveId: number) => {
+    const archive = archives.find(a => a.id === archiveId)
+    if (!archive) return
+    setDownloadingId(archiveId)
+    try {
+      await logRetentionManager.downloadArchive(archive)
+    } catch (err: any) {
+      setMessage({ text: err.message || 'Failed to download archive', success: false })
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {(message || error) && (
+        <div className={`text-sm px-3 py-2 rounded border ${message?.success ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+          {message?.text || error}
+        </div>
+      )}
+
+      <div className="bg-white border rounded-lg shadow-sm">
+        <div className="border-b p-4">
+          <div className="font-medium text-gray-800">Retention Policies</div>
+          <div className="text-xs text-gray-500">
+            Checked nightly on the server. Expired entries are always archived before they are purged.
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="p-3 text-left">Log Type</th>
+                <th className="p-3 text-left">Keep For (months)</th>
+                <th className="p-3 text-left">Notify (days before)</th>
+                <th className="p-3 text-left">Auto Purge</th>
+                <th className="p-3 text-left">Archive Format</th>
+                <th className="p-3 text-left">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading && policies.length === 0 && (
+                <tr><td className="p-4 text-gray-500" colSpan={6}>Loading retention policies...</td></tr>
+              )}
+              {!isLoading && policies.length === 0 && (
+                <tr><td className="p-4 text-gray-500" colSpan={6}>No retention policies configured.</td></tr>
+              )}
+              {policies.map(policy => {
+                const draft = drafts[policy.logType] || toDraft(policy)
+                const busy = busyType === policy.logType
+                return (
+                  <tr key={policy.logType} className="border-t align-top">
+                    <td className="p-3">
+                      <div className="font-medium text-gray-800">{AUDIT_LOG_TYPE_LABELS[policy.logType] || policy.logType}</div>
+                      {policy.updatedAt && (
+                        <div className="text-xs text-gray-500">
+                          Updated {new Date(policy.updatedAt).toLocaleDateString()}{policy.updatedBy && ` by ${policy.updatedBy}`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      <input
+                        type="number"
+                        min={1}
+                        value={draft.retentionMonths}
+                        onChange={(e) => updateDraft(policy.logType, { retentionMonths: parseInt(e.target.value, 10) || 0 })}
+                        className="input-soft px-2 py-1 w-24"
+                      />
+                    </td>
+                    <td className="p-3">
+                      <input
+                        type="number"
+                        min={0}
+                        value={draft.notificationThreshold}
+                        onChange={(e) => updateDraft(policy.logType, { notificationThreshold: parseInt(e.target.value, 10) || 0 })}
+                        className="input-soft px-2 py-1 w-24"
+                      />
+                    </td>
+                    <td className="p-3">
+                      <label className="flex items-center gap-2 text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={draft.autoDelete}
+                          onChange={(e) => updateDraft(policy.logType, { autoDelete: e.target.checked })}
+                        />
+                        <span className="text-xs">{draft.autoDelete ? 'Purge on schedule' : 'Ask an admin'}</span>
+                      </label>
+                    </td>
+                    <td className="p-3">
+                      <select
+                        value={draft.archiveFormat}
+                        onChange={(e) => updateDraft(policy.logType, { archiveFormat: e.target.value as RetentionArchiveFormat })}
+                        className="input-soft px-2 py-1"
+                      >
+                        {(Object.keys(RETENTION_ARCHIVE_FORMAT_LABELS) as RetentionArchiveFormat[]).map(format => (
+                          <option key={format} value={format}>{RETENTION_ARCHIVE_FORMAT_LABELS[format]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-3 whitespace-nowrap space-x-3">
+                      <button
+                        className="text-blue-600 disabled:opacity-50"
+                        disabled={busy || !isDirty(policy)}
+                        onClick={() => save(policy)}
+                      >
+                        Save
+                      </button>
+                      <button
+                        className="text-gray-700 disabled:opacity-50 inline-flex items-center gap-1"
+                        disabled={busy}
+                        onClick={() => exportExpired(policy)}
+                        title="Archive expired entries without removing them"
+                      >
+                        <Archive size={14} /> Export
+                      </button>
+                      <button
+                        className="text-red-600 disabled:opacity-50 inline-flex items-center gap-1"
+                        disabled={busy}
+                        onClick={() => purge(policy)}
+                      >
+                        {busy ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />} Purge
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-lg shadow-sm">
+        <div className="border-b p-4">
+          <div className="font-medium text-gray-800">Archives</div>
+          <div className="text-xs text-gray-500">Exports and purged entries, with their original sequence numbers and hashes.</div>
+        </div>
+        {archives.length === 0 ? (
+          <div className="p-4 text-sm text-gray-500">No archives yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="p-3 text-left">Archive</th>
+                  <th className="p-3 text-left">Log Type</th>
+                  <th className="p-3 text-left">Entries</th>
+                  <th className="p-3 text-left">Covers</th>
+                  <th className="p-3 text-left">Created</th>
+                  <th className="p-3 text-left">Status</th>
+                  <th className="p-3 text-left"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {archives.map(archive => (
+                  <tr key={archive.id} className="border-t">
+                    <td className="p-3 font-mono">#{archive.id} · {archive.format.toUpperCase()} · {formatBytes(archive.sizeBytes)}</td>
+                    <td className="p-3">{AUDIT_LOG_TYPE_LABELS[archive.logType] || archive.logType}</td>
+                    <td className="p-3">{archive.entryCount}</td>
+                    <td className="p-3 text-xs text-gray-600">
+                      {archive.fromSequence !== null
+                        ? <>#{archive.fromSequence}–#{archive.toSequence}<br />{archive.fromTimestamp && new Date(archive.fromTimestamp).toLocaleDateString()} – {archive.toTimestamp && new Date(archive.toTimestamp).toLocaleDateString()}</>
+                        : '—'}
+                    </td>
+                    <td className="p-3 text-xs text-gray-600">{new Date(archive.createdAt).toLocaleString()}<br />by {archive.createdBy}</td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 rounded text-xs ${archive.purgedAt ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'}`}>
+                        {archive.purgedAt ? 'Purged' : 'Export only'}
+                      </span>
+                    </td>
+                    <td className="p-3">
+                      <button
+                        className="text-blue-600 disabled:opacity-50 inline-flex items-center gap-1"
+                        disabled={downloadingId === archive.id || archive.entryCount === 0}
+                        onClick={() => download(archive.id)}
+                      >
+                        {downloadingId === archive.id ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Download
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+"use client";
+import React from 'react'
+import { Mail, RefreshCw, Trash2 } from 'lucide-react'
+import { useAuth, InvitationsService, type Invitation } from '../../lib/auth'
+
+interface PendingInvitationsProps {
+  invitations: Invitation[]
+  roleName: (key: string) => string
+  onChange: (invitations: Invitation[]) => void
+  onError: (message: string) => void
+}
+
+const isExpired = (invitation: Invitation) =>
+  invitation.status === 'expired' || new Date(invitation.expiresAt).getTime() <= Date.now()
+
+/**
+ * Invitations that have not been accepted yet, with resend and revoke
+ */
+export default function PendingInvitations({ invitations, roleName, onChange, onError }: PendingInvitationsProps) {
+  const { state: authState } = useAuth()
+  const [busyId, setBusyId] = React.useState<number | null>(null)
+
+  const open = invitations.filter(invitation => invitation.status === 'pending' || invitation.status === 'expired')
+  if (open.length === 0) return null
+
+  const resend = async (invitation: Invitation) => {
+    if (!authState.accessToken) return
+    try {
+      setBusyId(invitation.id)
+      const updated = await InvitationsService.resendInvitation(invitation.id, authState.accessToken)
+      onChange(invitations.map(i => i.id === updated.id ? updated : i))
+    } catch (err: any) {
+      onError(`Failed to resend invitation: ${err.message || 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const revoke = async (invitation: Invitation) => {
+    if (!authState.accessToken) return
+    if (!confirm(`Revoke the invitation for ${invitation.email}? The link in their email will stop working.`)) return
+    try {
+      setBusyId(invitation.id)
+      await InvitationsService.revokeInvitation(invitation.id, authState.accessToken)
+      onChange(invitations.filter(i => i.id !== invitation.id))
+    } catch (err: any) {
+      onError(`Failed to revoke invitation: ${err.message || 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="card p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Mail size={16} className="text-indigo-600" />
+        <div className="font-semibold text-gray-800">Pending invitations</div>
+        <span className="text-xs text-gray-500">{open.length}</span>
+      </div>
+      <div className="divide-y border rounded-lg">
+        {open.map(invitation => (
+          <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 p-3 text-sm">
+            <div>
+              <div className="font-medium text-gray-800">{invitation.email}</div>
+              <div className="text-xs text-gray-500">
+                {roleName(invitation.role)}
+                {invitation.invitedBy && <> · invited by {invitation.invitedBy}</>}
+                {' · '}
+                {isExpired(invitation)
+                  ? <span className="text-red-600">expired {new Date(invitation.expiresAt).toLocaleDateString()}</span>
+                  : <>expires {new Date(invitation.expiresAt).toLocaleString()}</>}
+              </div>
+            </div>
+            <div className="flex gap-1">
+              <button
+                title="Resend"
+                aria-label="Resend"
+                onClick={() => resend(invitation)}
+                disabled={busyId === invitation.id}
+                className="inline-flex items-center gap-1 border rounded px-2 py-1 text-xs hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RefreshCw size={12} className={busyId === invitation.id ? 'animate-spin' : ''} /> Resend
+              </button>
+              <button
+                title="Revoke"
+                aria-label="Revoke"
+                onClick={() => revoke(invitation)}
+                disabled={busyId === invitation.id}
+                className="inline-flex items-center justify-center border rounded p-1 text-xs hover:bg-red-50 text-red-600 disabled:opacity-50"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
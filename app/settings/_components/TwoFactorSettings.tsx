@@ -0,0 +1,195 @@
+"use client";
+import React from 'react'
+import { Loader2, ShieldCheck, ShieldAlert } from 'lucide-react'
+import { useAuth, TwoFactorService, type TwoFactorSetupResponse, type TwoFactorStatus } from '../../lib/auth'
+import { AdminUtils } from '../../lib/admin'
+import TwoFactorEnrollment, { RecoveryCodes } from '../../components/TwoFactorEnrollment'
+
+type PendingAction = 'regenerate' | 'disable'
+
+/**
+ * Two-factor authentication card for the account page: enroll an
+ * authenticator app, manage recovery codes, or turn 2FA off.
+ */
+export default function TwoFactorSettings() {
+  const { state: authState } = useAuth()
+  const [status, setStatus] = React.useState<TwoFactorStatus | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+  const [setup, setSetup] = React.useState<TwoFactorSetupResponse | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(null)
+  const [pendingAction, setPendingAction] = React.useState<PendingAction | null>(null)
+  const [actionCode, setActionCode] = React.useState('')
+  const [isWorking, setIsWorking] = React.useState(false)
+
+  const loadStatus = React.useCallback(async () => {
+    if (!authState.accessToken) return
+    try {
+      setIsLoading(true)
+      setStatus(await TwoFactorService.getStatus(authState.accessToken))
+    } catch (err: any) {
+      setError(err.message || 'Failed to load two-factor status')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authState.accessToken])
+
+  React.useEffect(() => {
+    if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      loadStatus()
+    }
+  }, [loadStatus, authState.isAuthenticated, authState.accessToken, authState.isLoading])
+
+  const startEnrollment = async () => {
+    if (!authState.accessToken) return
+    setError(null)
+    setRecoveryCodes(null)
+    try {
+      setIsWorking(true)
+      setSetup(await TwoFactorService.startEnrollment(authState.accessToken))
+    } catch (err: any) {
+      setError(err.message || 'Failed to start two-factor setup')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const confirmEnrollment = async (code: string) => {
+    if (!authState.accessToken) return
+    setError(null)
+    try {
+      const response = await TwoFactorService.confirmEnrollment(code, authState.accessToken)
+      setSetup(null)
+      setRecoveryCodes(response.recoveryCodes)
+      await loadStatus()
+    } catch (err: any) {
+      setError(err.message || 'Invalid code. Please try again.')
+      throw err
+    }
+  }
+
+  const runPendingAction = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!authState.accessToken || !pendingAction || !actionCode.trim()) return
+    setError(null)
+    try {
+      setIsWorking(true)
+      if (pendingAction === 'regenerate') {
+        const response = await TwoFactorService.regenerateRecoveryCodes(actionCode, authState.accessToken)
+        setRecoveryCodes(response.recoveryCodes)
+      } else {
+        await TwoFactorService.disable(actionCode, authState.accessToken)
+        setRecoveryCodes(null)
+      }
+      setPendingAction(null)
+      setActionCode('')
+      await loadStatus()
+    } catch (err: any) {
+      setError(err.message || 'Invalid code. Please try again.')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-slate-100 flex items-center gap-2">
+            {status?.enabled ? <ShieldCheck size={18} className="text-green-600" /> : <ShieldAlert size={18} className="text-amber-500" />}
+            Two-Factor Authentication
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-slate-400">
+            Require a code from an authenticator app when you sign in.
+          </p>
+        </div>
+        {status && (
+          <span className={`text-xs px-2 py-0.5 rounded ${status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+            {status.enabled ? 'Enabled' : 'Off'}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500"><Loader2 size={14} className="animate-spin" /> Loading…</div>
+      ) : recoveryCodes ? (
+        <div className="space-y-3">
+          <RecoveryCodes codes={recoveryCodes} account={authState.user?.email} />
+          <button onClick={() => setRecoveryCodes(null)} className="btn-primary text-sm px-4 py-2">Done</button>
+        </div>
+      ) : setup ? (
+        <div className="max-w-sm">
+          <TwoFactorEnrollment setup={setup} onConfirm={confirmEnrollment} onCancel={() => setSetup(null)} />
+        </div>
+      ) : status?.enabled ? (
+        <div className="space-y-3">
+          <div className="text-sm text-gray-700 dark:text-slate-300">
+            {status.enrolledAt && <>Enabled {AdminUtils.formatRelativeTime(status.enrolledAt)} · </>}
+            <span className={status.recoveryCodesRemaining <= 2 ? 'text-amber-600 font-medium' : ''}>
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining !== 1 ? 's' : ''} left
+            </span>
+          </div>
+          {status.required && (
+            <div className="text-xs text-gray-500 dark:text-slate-400">Your administrator requires two-factor authentication, so it cannot be turned off.</div>
+          )}
+
+          {pendingAction ? (
+            <form onSubmit={runPendingAction} className="flex flex-wrap items-end gap-2">
+              <div>
+                <label className="text-xs text-gray-600 dark:text-slate-400">Authenticator code</label>
+                <input
+                  value={actionCode}
+                  onChange={(e) => setActionCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  maxLength={7}
+                  className="input-soft w-40 mt-1 px-3 py-2 tracking-widest"
+                  autoFocus
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isWorking || !actionCode.trim()}
+                className={`${pendingAction === 'disable' ? 'bg-red-600 hover:bg-red-700 text-white rounded-lg' : 'btn-primary'} text-sm px-4 py-2 flex items-center gap-2 disabled:opacity-50`}
+              >
+                {isWorking && <Loader2 size={14} className="animate-spin" />}
+                {pendingAction === 'disable' ? 'Turn Off 2FA' : 'Generate New Codes'}
+              </button>
+              <button type="button" onClick={() => { setPendingAction(null); setActionCode('') }} className="btn-ghost text-sm px-3 py-2">
+                Cancel
+              </button>
+            </form>
+          ) : (
+            <div className="flex gap-2">
+              <button onClick={() => setPendingAction('regenerate')} className="btn-secondary text-sm px-4 py-2">
+                Regenerate Recovery Codes
+              </button>
+              {!status.required && (
+                <button onClick={() => setPendingAction('disable')} className="btn-ghost text-sm px-4 py-2 text-red-600">
+                  Turn Off
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {status?.required && (
+            <div className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              Your administrator requires two-factor authentication. You will be asked to set it up at your next sign-in if you don&apos;t do it now.
+            </div>
+          )}
+          <button onClick={startEnrollment} disabled={isWorking} className="btn-primary text-sm px-4 py-2 flex items-center gap-2 disabled:opacity-50">
+            {isWorking && <Loader2 size={14} className="animate-spin" />}
+            Set Up Authenticator App
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
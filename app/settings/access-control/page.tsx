@@ -1,12 +1,26 @@
 "use client";
 import SettingsLayout from "../_components/SettingsLayout";
 import React from "react";
-import { Settings, AlertCircle, RefreshCw, Search } from "lucide-react";
+import { Settings, AlertCircle, RefreshCw, Search, Layers, Clock } from "lucide-react";
 import { AdminService, AdminUtils } from "../../lib/admin";
-import { useAuth } from "../../lib/auth";
+import { useAuth, useCanAccess } from "../../lib/auth";
 import type { DetailedUser } from "../../lib/admin/types";
 import AppleToggle from "../../components/AppleToggle";
-import { AccessControlService, type Brand, type Marketplace, type ShippingPlatform } from "../../lib/access-control";
+import {
+  AccessControlService,
+  AccessTemplatesService,
+  getUpcomingGrantEvents,
+  formatTimeUntil,
+  isGrantPending,
+  type AccessCatalog,
+  type AccessGrantType,
+  type AccessTemplate,
+  type Brand,
+  type Marketplace,
+  type ShippingPlatform,
+} from "../../lib/access-control";
+import AccessTemplatesPanel from "../_components/AccessTemplatesPanel";
+import ApplyAccessTemplateModal from "../_components/ApplyAccessTemplateModal";
 
 type PermissionItem = { name: string; enabled: boolean };
 type AdminUser = {
@@ -24,9 +38,27 @@ type AdminUser = {
   };
 };
 
+type GrantScheduleDraft = { startsAt: string; expiresAt: string };
+
+const EMPTY_SCHEDULE: GrantScheduleDraft = { startsAt: '', expiresAt: '' };
+
+const scheduleKey = (type: AccessGrantType, id: number) => `${type}:${id}`;
+
+// ISO timestamp -> yyyy-mm-dd in local time, for date inputs
+const toDateInput = (iso?: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Access starts at the beginning of the start day and ends at the end of the expiry day
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`).toISOString() : null;
+
 export default function AccessControlPage() {
   // Authentication context
   const { state: authState, logout } = useAuth();
+  const canManageUsers = useCanAccess(undefined, undefined, ['users:manage']);
   
 
   // API data state
@@ -45,6 +77,12 @@ export default function AccessControlPage() {
   const [showPermissions, setShowPermissions] = React.useState<{ user: DetailedUser; type: 'brands' | 'marketplaces' | 'shippingPlatforms' } | null>(null);
   const [searchTerm, setSearchTerm] = React.useState('');
 
+  // Access templates and bulk assignment
+  const [templates, setTemplates] = React.useState<AccessTemplate[]>([]);
+  const [selectedUserIds, setSelectedUserIds] = React.useState<Set<number>>(new Set());
+  const [showTemplates, setShowTemplates] = React.useState(false);
+  const [showApplyTemplate, setShowApplyTemplate] = React.useState(false);
+
   // Loading state for toggle operations
   const [togglingItems, setTogglingItems] = React.useState<Set<string>>(new Set());
   const [isSavingChanges, setIsSavingChanges] = React.useState(false);
@@ -66,6 +104,10 @@ export default function AccessControlPage() {
     shipping: {}
   });
 
+  // Start/expiry dates per grant, keyed by `${type}:${id}`, as yyyy-mm-dd strings
+  const [grantSchedules, setGrantSchedules] = React.useState<Record<string, GrantScheduleDraft>>({});
+  const [originalSchedules, setOriginalSchedules] = React.useState<Record<string, GrantScheduleDraft>>({});
+
   // Flag to prevent reinitialization when user is making changes
   const [hasInitialized, setHasInitialized] = React.useState(false);
 
@@ -82,15 +124,17 @@ export default function AccessControlPage() {
       setIsLoadingAccessData(true);
       setError(null);
       
-      const [brandsResponse, marketplacesResponse, shippingResponse] = await Promise.all([
+      const [brandsResponse, marketplacesResponse, shippingResponse, templatesResponse] = await Promise.all([
         AccessControlService.getBrands(authState.accessToken),
         AccessControlService.getMarketplaces(authState.accessToken),
-        AccessControlService.getShippingPlatforms(authState.accessToken)
+        AccessControlService.getShippingPlatforms(authState.accessToken),
+        AccessTemplatesService.getTemplates(authState.accessToken)
       ]);
       
       setBrands(brandsResponse.brands);
       setMarketplaces(marketplacesResponse.marketplaces);
       setShippingPlatforms(shippingResponse.shippingCompanies);
+      setTemplates(templatesResponse);
     } catch (error: any) {
       console.error('Failed to load access control data:', error);
       setError(error.message || 'Failed to load access control data');
@@ -116,21 +160,21 @@ export default function AccessControlPage() {
         // For admin users, use their actual permissions from API data (same as regular users)
         const brandStates: Record<number, boolean> = {};
         brands.forEach((brand: Brand) => {
-          const hasAccess = showGrantAccess.brandAccess.some(b => b.id === brand.id && b.isActive);
+          const hasAccess = showGrantAccess.brandAccess.some(b => b.id === brand.id && (b.isActive || isGrantPending(b)));
           brandStates[brand.id] = hasAccess;
         });
         setBrandAccess(brandStates);
 
         const marketplaceStates: Record<number, boolean> = {};
         marketplaces.forEach((marketplace: Marketplace) => {
-          const hasAccess = showGrantAccess.marketplaceAccess.some(m => m.id === marketplace.id && m.isActive);
+          const hasAccess = showGrantAccess.marketplaceAccess.some(m => m.id === marketplace.id && (m.isActive || isGrantPending(m)));
           marketplaceStates[marketplace.id] = hasAccess;
         });
         setMarketplaceAccess(marketplaceStates);
 
         const shippingStates: Record<number, boolean> = {};
         shippingPlatforms.forEach((shipping: ShippingPlatform) => {
-          const hasAccess = showGrantAccess.shippingAccess.some(s => s.id === shipping.id && s.isActive);
+          const hasAccess = showGrantAccess.shippingAccess.some(s => s.id === shipping.id && (s.isActive || isGrantPending(s)));
           shippingStates[shipping.id] = hasAccess;
         });
         setShippingAccess(shippingStates);
@@ -145,21 +189,21 @@ export default function AccessControlPage() {
         // For regular users, use their actual permissions from API data
         const brandStates: Record<number, boolean> = {};
         brands.forEach((brand: Brand) => {
-          const hasAccess = showGrantAccess.brandAccess.some(b => b.id === brand.id && b.isActive);
+          const hasAccess = showGrantAccess.brandAccess.some(b => b.id === brand.id && (b.isActive || isGrantPending(b)));
           brandStates[brand.id] = hasAccess;
         });
         setBrandAccess(brandStates);
 
         const marketplaceStates: Record<number, boolean> = {};
         marketplaces.forEach((marketplace: Marketplace) => {
-          const hasAccess = showGrantAccess.marketplaceAccess.some(m => m.id === marketplace.id && m.isActive);
+          const hasAccess = showGrantAccess.marketplaceAccess.some(m => m.id === marketplace.id && (m.isActive || isGrantPending(m)));
           marketplaceStates[marketplace.id] = hasAccess;
         });
         setMarketplaceAccess(marketplaceStates);
 
         const shippingStates: Record<number, boolean> = {};
         shippingPlatforms.forEach((shipping: ShippingPlatform) => {
-          const hasAccess = showGrantAccess.shippingAccess.some(s => s.id === shipping.id && s.isActive);
+          const hasAccess = showGrantAccess.shippingAccess.some(s => s.id === shipping.id && (s.isActive || isGrantPending(s)));
           shippingStates[shipping.id] = hasAccess;
         });
         setShippingAccess(shippingStates);
@@ -172,6 +216,21 @@ export default function AccessControlPage() {
         });
       }
       
+      // Start and expiry dates for every existing grant
+      const schedules: Record<string, GrantScheduleDraft> = {};
+      const addSchedules = (type: AccessGrantType, grants: DetailedUser['brandAccess']) => {
+        grants.forEach(grant => {
+          if (grant.startsAt || grant.expiresAt) {
+            schedules[scheduleKey(type, grant.id)] = { startsAt: toDateInput(grant.startsAt), expiresAt: toDateInput(grant.expiresAt) };
+          }
+        });
+      };
+      addSchedules('brand', showGrantAccess.brandAccess);
+      addSchedules('marketplace', showGrantAccess.marketplaceAccess);
+      addSchedules('shipping', showGrantAccess.shippingAccess);
+      setGrantSchedules(schedules);
+      setOriginalSchedules(schedules);
+      
       setHasInitialized(true);
     }
   }, [showGrantAccess, brands, marketplaces, shippingPlatforms, hasInitialized]);
@@ -222,6 +281,8 @@ export default function AccessControlPage() {
     }
   }, [loadUsers, authState.isAuthenticated, authState.accessToken, authState.isLoading]);
 
+  const upcomingGrantEvents = React.useMemo(() => getUpcomingGrantEvents(users, 14), [users]);
+
   /**
    * Get permission count for a user from API data
    */
@@ -305,17 +366,102 @@ export default function AccessControlPage() {
       return current !== original;
     });
     
-    const hasChanges = brandChanged || marketplaceChanged || shippingChanged;
-    console.log('Permission changes detected:', { brandChanged, marketplaceChanged, shippingChanged, hasChanges });
+    const scheduleChanged = getChangedScheduleKeys().length > 0;
+    
+    const hasChanges = brandChanged || marketplaceChanged || shippingChanged || scheduleChanged;
+    console.log('Permission changes detected:', { brandChanged, marketplaceChanged, shippingChanged, scheduleChanged, hasChanges });
     return hasChanges;
   };
 
+  /**
+   * Grants whose start or expiry date was edited
+   */
+  function getChangedScheduleKeys() {
+    const keys = new Set([...Object.keys(grantSchedules), ...Object.keys(originalSchedules)]);
+    return Array.from(keys).filter(key => {
+      const current = grantSchedules[key] || EMPTY_SCHEDULE;
+      const original = originalSchedules[key] || EMPTY_SCHEDULE;
+      return current.startsAt !== original.startsAt || current.expiresAt !== original.expiresAt;
+    });
+  }
+
+  const updateGrantSchedule = (type: AccessGrantType, id: number, patch: Partial<GrantScheduleDraft>) => {
+    const key = scheduleKey(type, id);
+    setGrantSchedules(prev => ({ ...prev, [key]: { ...(prev[key] || EMPTY_SCHEDULE), ...patch } }));
+  };
+
+  /**
+   * Start/expiry inputs for an enabled grant, with its current window
+   */
+  const renderGrantSchedule = (type: AccessGrantType, id: number, enabled: boolean) => {
+    if (!enabled) return null;
+    const schedule = grantSchedules[scheduleKey(type, id)] || EMPTY_SCHEDULE;
+    const today = toDateInput(new Date().toISOString());
+    return (
+      <div className="mt-2 space-y-1">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-slate-400">
+          <label className="flex items-center gap-1">
+            From
+            <input
+              type="date"
+              value={schedule.startsAt}
+              onChange={(e) => updateGrantSchedule(type, id, { startsAt: e.target.value })}
+              className="input-soft px-2 py-1 text-xs"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Until
+            <input
+              type="date"
+              value={schedule.expiresAt}
+              min={schedule.startsAt || today}
+              onChange={(e) => updateGrantSchedule(type, id, { expiresAt: e.target.value })}
+              className="input-soft px-2 py-1 text-xs"
+            />
+          </label>
+        </div>
+        {schedule.startsAt > today && (
+          <span className="inline-block text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-800">Pending · starts {schedule.startsAt}</span>
+        )}
+        {schedule.expiresAt && (
+          <span className="inline-block text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800 ml-1">Expires {schedule.expiresAt}</span>
+        )}
+      </div>
+    );
+  };
+
   /**
    * Save all permission changes
    */
   const savePermissionChanges = async () => {
     if (!showGrantAccess || !authState.accessToken || !hasPermissionChanges()) return;
 
+    // Grants with a start or expiry date are saved with an explicit state instead of a toggle
+    const accessFor = (type: AccessGrantType, id: number) =>
+      type === 'brand' ? brandAccess[id] : type === 'marketplace' ? marketplaceAccess[id] : shippingAccess[id];
+    const originalFor = (type: AccessGrantType, id: number) =>
+      type === 'brand' ? originalPermissions.brands[id] : type === 'marketplace' ? originalPermissions.marketplaces[id] : originalPermissions.shipping[id];
+    const scheduledKeys = new Set(getChangedScheduleKeys());
+    Object.entries(grantSchedules).forEach(([key, schedule]) => {
+      const [type, id] = key.split(':') as [AccessGrantType, string];
+      if ((schedule.startsAt || schedule.expiresAt) && accessFor(type, Number(id)) !== originalFor(type, Number(id))) {
+        scheduledKeys.add(key);
+      }
+    });
+
+    for (const key of Array.from(scheduledKeys)) {
+      const schedule = grantSchedules[key] || EMPTY_SCHEDULE;
+      if (schedule.startsAt && schedule.expiresAt && schedule.expiresAt < schedule.startsAt) {
+        setError('An expiry date cannot be before its start date');
+        return;
+      }
+      const [type, id] = key.split(':') as [AccessGrantType, string];
+      if (accessFor(type, Number(id)) && schedule.expiresAt && fromDateInput(schedule.expiresAt, true)! <= new Date().toISOString()) {
+        setError('An expiry date must be in the future');
+        return;
+      }
+    }
+
     setIsSavingChanges(true);
     setError(null);
 
@@ -327,7 +473,7 @@ export default function AccessControlPage() {
         const brandId = Number(id);
         const currentState = brandAccess[brandId];
         const originalState = originalPermissions.brands[brandId];
-        if (currentState !== originalState) {
+        if (currentState !== originalState && !scheduledKeys.has(scheduleKey('brand', brandId))) {
           changes.push({ type: 'brand', id: brandId, enabled: currentState });
         }
       });
@@ -337,7 +483,7 @@ export default function AccessControlPage() {
         const marketplaceId = Number(id);
         const currentState = marketplaceAccess[marketplaceId];
         const originalState = originalPermissions.marketplaces[marketplaceId];
-        if (currentState !== originalState) {
+        if (currentState !== originalState && !scheduledKeys.has(scheduleKey('marketplace', marketplaceId))) {
           changes.push({ type: 'marketplace', id: marketplaceId, enabled: currentState });
         }
       });
@@ -347,7 +493,7 @@ export default function AccessControlPage() {
         const shippingId = Number(id);
         const currentState = shippingAccess[shippingId];
         const originalState = originalPermissions.shipping[shippingId];
-        if (currentState !== originalState) {
+        if (currentState !== originalState && !scheduledKeys.has(scheduleKey('shipping', shippingId))) {
           changes.push({ type: 'shipping', id: shippingId, enabled: currentState });
         }
       });
@@ -382,6 +528,22 @@ export default function AccessControlPage() {
 
       await Promise.all(promises);
 
+      await Promise.all(Array.from(scheduledKeys).map(key => {
+        const [type, id] = key.split(':') as [AccessGrantType, string];
+        const schedule = grantSchedules[key] || EMPTY_SCHEDULE;
+        return AccessControlService.setGrantSchedule(
+          showGrantAccess.id.toString(),
+          type,
+          Number(id),
+          {
+            enabled: !!accessFor(type, Number(id)),
+            startsAt: fromDateInput(schedule.startsAt, false),
+            expiresAt: fromDateInput(schedule.expiresAt, true),
+          },
+          authState.accessToken!
+        );
+      }));
+
       // Refresh the users data to get the latest permissions from backend
       try {
         const updatedUsersResponse = await AdminService.getAllUsers(authState.accessToken);
@@ -425,13 +587,14 @@ export default function AccessControlPage() {
       }
 
       // Update original permissions to reflect saved state
+      setOriginalSchedules({ ...grantSchedules });
       setOriginalPermissions({
         brands: { ...brandAccess },
         marketplaces: { ...marketplaceAccess },
         shipping: { ...shippingAccess }
       });
 
-      console.log(`Saved ${changes.length} permission changes for user ${showGrantAccess.id}`);
+      console.log(`Saved ${changes.length} permission changes and ${scheduledKeys.size} schedule changes for user ${showGrantAccess.id}`);
       
       // Show success message
       setError(null);
@@ -562,6 +725,35 @@ export default function AccessControlPage() {
     return gradients[userId % gradients.length];
   };
 
+  const accessCatalog = React.useMemo<AccessCatalog>(() => ({
+    brands: brands || [],
+    marketplaces: marketplaces || [],
+    shipping: shippingPlatforms || [],
+  }), [brands, marketplaces, shippingPlatforms]);
+
+  const selectedUsers = React.useMemo(
+    () => users.filter(user => selectedUserIds.has(user.id)),
+    [users, selectedUserIds]
+  );
+
+  const toggleUserSelection = (userId: number) => {
+    setSelectedUserIds(prev => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Templates assigned to a user, for the user table
+   */
+  const getUserTemplates = (user: DetailedUser) =>
+    templates.filter(template => template.assignedUserIds.includes(user.id));
+
   // Filter users based on search term
   const filteredUsers = React.useMemo(() => {
     if (!searchTerm.trim()) return users;
@@ -574,6 +766,15 @@ export default function AccessControlPage() {
     );
   }, [users, searchTerm]);
 
+  if (!authState.isLoading && !canManageUsers) {
+    return (
+      <SettingsLayout>
+        <h2 className="text-xl font-semibold text-gray-800">Access Control</h2>
+        <div className="text-sm text-gray-600">You need the “Manage users” permission to view this page.</div>
+      </SettingsLayout>
+    );
+  }
+
   return (
     <SettingsLayout>
       <div className="space-y-6">
@@ -588,6 +789,21 @@ export default function AccessControlPage() {
             )}
           </div>
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowTemplates(true)}
+              className="btn-ghost text-sm flex items-center gap-2"
+              title="Manage access templates"
+            >
+              <Layers size={16} />
+              <span className="hidden sm:inline">Templates</span>
+            </button>
+            <button
+              onClick={() => setShowApplyTemplate(true)}
+              disabled={selectedUsers.length === 0}
+              className="btn-primary text-sm px-3 py-2 disabled:opacity-50"
+            >
+              Apply Template{selectedUsers.length > 0 ? ` (${selectedUsers.length})` : ''}
+            </button>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
               <input
@@ -642,6 +858,39 @@ export default function AccessControlPage() {
           </div>
         )}
 
+        {/* Upcoming Expirations */}
+        {!isLoading && upcomingGrantEvents.length > 0 && (
+          <div className="card p-4 mb-4">
+            <div className="flex items-center gap-2 mb-3">
+              <Clock size={16} className="text-amber-600" />
+              <div className="font-semibold text-gray-800 dark:text-slate-100">Upcoming access changes</div>
+              <span className="text-xs text-gray-500 dark:text-slate-400">next 14 days</span>
+            </div>
+            <div className="space-y-2">
+              {upcomingGrantEvents.map(event => (
+                <div key={`${event.userId}-${event.type}-${event.itemId}-${event.kind}`} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <div className="text-gray-700 dark:text-slate-300">
+                    <span className="font-medium">{event.user}</span>
+                    {' · '}{event.type === 'brand' ? 'Brand' : event.type === 'marketplace' ? 'Marketplace' : 'Shipping'}: {event.itemName}
+                    <span className={`ml-2 text-xs px-2 py-0.5 rounded ${event.kind === 'expires' ? 'bg-amber-100 text-amber-800' : 'bg-blue-100 text-blue-800'}`}>
+                      {event.kind === 'expires' ? 'Expires' : 'Starts'} {formatTimeUntil(event.at)}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => {
+                      const user = users.find(u => u.id === event.userId);
+                      if (user) setShowGrantAccess(user);
+                    }}
+                    className="btn-ghost text-xs px-2 py-1"
+                  >
+                    Review
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Loading State */}
         {isLoading ? (
           <div className="card p-8 text-center">
@@ -654,6 +903,14 @@ export default function AccessControlPage() {
               <table className="w-full text-sm">
                 <thead>
                   <tr className="text-left text-secondary-600 dark:text-slate-400 border-b bg-secondary-50 dark:bg-slate-800">
+                    <th className="py-3 px-4 w-10">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all users"
+                        checked={filteredUsers.length > 0 && filteredUsers.every(user => selectedUserIds.has(user.id))}
+                        onChange={(e) => setSelectedUserIds(e.target.checked ? new Set(filteredUsers.map(user => user.id)) : new Set())}
+                      />
+                    </th>
                     <th className="py-3 px-4 min-w-[200px]">User</th>
                     <th className="py-3 px-4 min-w-[100px]">Status</th>
                     <th className="py-3 px-4 min-w-[120px]">Brands</th>
@@ -665,6 +922,14 @@ export default function AccessControlPage() {
                 <tbody>
                   {filteredUsers.map(user => (
                     <tr key={user.id} className="border-b last:border-b-0 hover:bg-secondary-50 dark:hover:bg-slate-800">
+                      <td className="py-3 px-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${getDisplayUsername(user)}`}
+                          checked={selectedUserIds.has(user.id)}
+                          onChange={() => toggleUserSelection(user.id)}
+                        />
+                      </td>
                       <td className="py-3 px-4">
                         <div className="flex items-center gap-3">
                           <div className="relative">
@@ -674,6 +939,9 @@ export default function AccessControlPage() {
                             <div className="font-medium text-gray-800 dark:text-slate-100">{getDisplayUsername(user)}</div>
                             <div className="text-xs text-gray-500 dark:text-slate-400 flex items-center gap-2">
                               {user.role}
+                              {getUserTemplates(user).map(template => (
+                                <span key={template.id} className="bg-indigo-50 text-indigo-700 px-1.5 py-0.5 rounded">{template.name}</span>
+                              ))}
                             </div>
                           </div>
                         </div>
@@ -714,7 +982,7 @@ export default function AccessControlPage() {
                   ))}
                   {users.length === 0 && (
                     <tr>
-                      <td className="py-8 px-4 text-center text-gray-500 dark:text-slate-400" colSpan={6}>
+                      <td className="py-8 px-4 text-center text-gray-500 dark:text-slate-400" colSpan={7}>
                         No users found. {authState.user?.role === 'ADMIN' ? 'Create users in Manage Users to get started.' : 'Contact your administrator to add users.'}
                       </td>
                     </tr>
@@ -725,6 +993,31 @@ export default function AccessControlPage() {
           </div>
         )}
 
+        {showTemplates && (
+          <AccessTemplatesPanel
+            templates={templates}
+            users={users}
+            catalog={accessCatalog}
+            onTemplatesChange={setTemplates}
+            onUsersChanged={loadUsers}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+
+        {showApplyTemplate && (
+          <ApplyAccessTemplateModal
+            templates={templates}
+            users={selectedUsers}
+            catalog={accessCatalog}
+            onApplied={async (template) => {
+              setTemplates(prev => prev.map(t => t.id === template.id ? template : t));
+              setSelectedUserIds(new Set());
+              await loadUsers();
+            }}
+            onClose={() => setShowApplyTemplate(false)}
+          />
+        )}
+
         {showGrantAccess && (
           <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 p-4">
             <div className="card p-4 sm:p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -802,6 +1095,7 @@ export default function AccessControlPage() {
                         <div className="flex-1">
                           <div className="font-medium text-gray-900 dark:text-slate-100">{brand.name}</div>
                           <div className="text-sm text-gray-500 dark:text-slate-400">{brand.description}</div>
+                          {renderGrantSchedule('brand', brand.id, brandAccess[brand.id] || false)}
                         </div>
                         <AppleToggle
                           checked={brandAccess[brand.id] || false}
@@ -828,6 +1122,7 @@ export default function AccessControlPage() {
                         <div className="flex-1">
                           <div className="font-medium text-gray-900 dark:text-slate-100">{marketplace.name}</div>
                           <div className="text-sm text-gray-500 dark:text-slate-400">{marketplace.description}</div>
+                          {renderGrantSchedule('marketplace', marketplace.id, marketplaceAccess[marketplace.id] || false)}
                         </div>
                         <AppleToggle
                           checked={marketplaceAccess[marketplace.id] || false}
@@ -854,6 +1149,7 @@ export default function AccessControlPage() {
                         <div className="flex-1">
                           <div className="font-medium text-gray-900 dark:text-slate-100">{shipping.name}</div>
                           <div className="text-sm text-gray-500 dark:text-slate-400">{shipping.description}</div>
+                          {renderGrantSchedule('shipping', shipping.id, shippingAccess[shipping.id] || false)}
                         </div>
                         <AppleToggle
                           checked={shippingAccess[shipping.id] || false}
@@ -1,5 +1,7 @@
 "use client";
 import SettingsLayout from "../_components/SettingsLayout";
+import TwoFactorSettings from "../_components/TwoFactorSettings";
+import ActiveSessionsPanel from "../_components/ActiveSessionsPanel";
 import { useRouter } from "next/navigation";
 import React from "react";
 import { useUsersStore } from "../../lib/stores/usersStore";
@@ -80,6 +82,13 @@ export default function AccountInfoPage() {
             <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white text-sm px-4 py-2 rounded">Save Settings</button>
           </div>
         </form>
+
+        <TwoFactorSettings />
+
+        <div className="card p-6 space-y-2">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-slate-100">Sessions</h3>
+          <ActiveSessionsPanel />
+        </div>
       </div>
     </SettingsLayout>
   )
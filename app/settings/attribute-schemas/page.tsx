@@ -0,0 +1,403 @@
+"use client";
+import SettingsLayout from "../_components/SettingsLayout";
+import React from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Trash2, AlertCircle, ListChecks } from "lucide-react";
+import { useAuth, useCanAccess } from "../../lib/auth";
+import { ProductsService } from "../../lib/products/api";
+import {
+  AttributeSchemasService,
+  ATTRIBUTE_FIELD_TYPE_LABELS,
+  toAttributeKey,
+  type AttributeFieldType,
+  type AttributeSchema,
+  type AttributeSchemaField,
+} from "../../lib/products/attribute-schemas";
+
+// Editor row; list and number settings are kept as typed text until saved
+interface FieldDraft {
+  key: string;
+  label: string;
+  type: AttributeFieldType;
+  required: boolean;
+  unit: string;
+  allowedValues: string;
+  min: string;
+  max: string;
+}
+
+interface SchemaForm {
+  category: string;
+  subCategory: string;
+  fields: FieldDraft[];
+}
+
+const emptyField: FieldDraft = { key: "", label: "", type: "text", required: false, unit: "", allowedValues: "", min: "", max: "" };
+const emptyForm: SchemaForm = { category: "", subCategory: "", fields: [{ ...emptyField }] };
+
+const toDraft = (field: AttributeSchemaField): FieldDraft => ({
+  key: field.key,
+  label: field.label,
+  type: field.type,
+  required: field.required,
+  unit: field.unit || "",
+  allowedValues: (field.allowedValues || []).join(", "),
+  min: field.min != null ? String(field.min) : "",
+  max: field.max != null ? String(field.max) : "",
+});
+
+const fromDraft = (draft: FieldDraft): AttributeSchemaField => ({
+  key: draft.key.trim() || toAttributeKey(draft.label),
+  label: draft.label.trim(),
+  type: draft.type,
+  required: draft.required,
+  ...(draft.type === "number" ? {
+    unit: draft.unit.trim() || null,
+    min: draft.min.trim() ? Number(draft.min) : null,
+    max: draft.max.trim() ? Number(draft.max) : null,
+  } : {}),
+  ...(draft.type === "enum" ? {
+    allowedValues: draft.allowedValues.split(",").map(value => value.trim()).filter(Boolean),
+  } : {}),
+});
+
+const schemaName = (schema: Pick<AttributeSchema, "category" | "subCategory">) =>
+  schema.subCategory ? `${schema.category} › ${schema.subCategory}` : schema.category;
+
+export default function AttributeSchemasPage() {
+  const router = useRouter();
+  const { state: authState } = useAuth();
+  const canManage = useCanAccess(undefined, undefined, ['catalog-settings:manage']);
+
+  const [schemas, setSchemas] = React.useState<AttributeSchema[]>([]);
+  const [categories, setCategories] = React.useState<string[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = React.useState<string | null>(null);
+
+  // null = nothing selected, 0 = new schema
+  const [selectedId, setSelectedId] = React.useState<number | null>(null);
+  const [form, setForm] = React.useState<SchemaForm>(emptyForm);
+  const [saving, setSaving] = React.useState(false);
+
+  const selectedSchema = schemas.find(schema => schema.id === selectedId) || null;
+
+  const loadSchemas = React.useCallback(async () => {
+    if (!authState.accessToken) return;
+    try {
+      setError(null);
+      const [loaded, loadedCategories] = await Promise.all([
+        AttributeSchemasService.getSchemas(authState.accessToken),
+        ProductsService.getCategories(authState.accessToken),
+      ]);
+      setSchemas(loaded);
+      setCategories(loadedCategories);
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to load attribute schemas';
+      setError(errorMessage);
+      if (errorMessage.includes('Session expired') || errorMessage.includes('Token expired')) {
+        router.push('/login');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [authState.accessToken, router]);
+
+  React.useEffect(() => {
+    if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      loadSchemas();
+    }
+  }, [loadSchemas, authState.isAuthenticated, authState.accessToken, authState.isLoading]);
+
+  const selectSchema = (schema: AttributeSchema) => {
+    setSelectedId(schema.id);
+    setForm({ category: schema.category, subCategory: schema.subCategory || "", fields: schema.fields.map(toDraft) });
+    setSuccessMessage(null);
+  };
+
+  const startCreate = () => {
+    setSelectedId(0);
+    setForm({ ...emptyForm, fields: [{ ...emptyField }] });
+    setSuccessMessage(null);
+  };
+
+  const updateField = (index: number, changes: Partial<FieldDraft>) => {
+    setForm(prev => ({ ...prev, fields: prev.fields.map((field, i) => i === index ? { ...field, ...changes } : field) }));
+  };
+
+  const removeField = (index: number) => {
+    setForm(prev => ({ ...prev, fields: prev.fields.filter((_, i) => i !== index) }));
+  };
+
+  // Problems that would make the schema unusable, checked before saving
+  const validateForm = (fields: AttributeSchemaField[]): string | null => {
+    if (!form.category.trim()) return 'Category is required';
+    const duplicate = schemas.find(schema =>
+      schema.id !== selectedId &&
+      schema.category.trim().toLowerCase() === form.category.trim().toLowerCase() &&
+      (schema.subCategory || '').trim().toLowerCase() === form.subCategory.trim().toLowerCase()
+    );
+    if (duplicate) return `A schema for ${schemaName(duplicate)} already exists`;
+    if (fields.length === 0) return 'Add at least one field';
+
+    const keys = new Set<string>();
+    for (const field of fields) {
+      if (!field.label) return 'Every field needs a label';
+      if (!field.key) return `Field "${field.label}" needs a key`;
+      if (keys.has(field.key)) return `Two fields use the key ${field.key}`;
+      keys.add(field.key);
+      if (field.type === 'enum' && !field.allowedValues?.length) return `Field "${field.label}" needs at least one allowed value`;
+      if (field.type === 'number' && ((field.min != null && isNaN(field.min)) || (field.max != null && isNaN(field.max)))) {
+        return `Min and max of "${field.label}" must be numbers`;
+      }
+      if (field.min != null && field.max != null && field.min > field.max) return `Min of "${field.label}" is above its max`;
+    }
+    return null;
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!authState.accessToken || !authState.user) return;
+
+    const fields = form.fields.filter(field => field.label.trim() || field.key.trim()).map(fromDraft);
+    const validationError = validateForm(fields);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const data = { category: form.category.trim(), subCategory: form.subCategory.trim() || null, fields };
+      const saved = selectedId === 0
+        ? await AttributeSchemasService.createSchema(authState.accessToken, data)
+        : await AttributeSchemasService.updateSchema(authState.accessToken, selectedId!, data);
+
+      setSchemas(prev => prev.some(schema => schema.id === saved.id)
+        ? prev.map(schema => schema.id === saved.id ? saved : schema)
+        : [...prev, saved]);
+      selectSchema(saved);
+      setSuccessMessage(`Schema for ${schemaName(saved)} saved`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save attribute schema');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!authState.accessToken || !authState.user || !selectedSchema) return;
+    if (!confirm(`Delete the attribute schema for ${schemaName(selectedSchema)}? Attribute values already on products are kept.`)) return;
+
+    try {
+      await AttributeSchemasService.deleteSchema(authState.accessToken, selectedSchema.id);
+      setSchemas(prev => prev.filter(schema => schema.id !== selectedSchema.id));
+      setSelectedId(null);
+      setForm(emptyForm);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete attribute schema');
+    }
+  };
+
+  if (!authState.isLoading && !canManage) {
+    return (
+      <SettingsLayout>
+        <h2 className="text-xl font-semibold text-gray-800">Attribute Schemas</h2>
+        <div className="text-sm text-gray-600">You need the “Manage catalog settings” permission to view this page.</div>
+      </SettingsLayout>
+    );
+  }
+
+  const sortedSchemas = [...schemas].sort((a, b) => schemaName(a).localeCompare(schemaName(b)));
+
+  return (
+    <SettingsLayout>
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Attribute Schemas</h2>
+          <p className="text-sm text-gray-600 mt-1">Define the attributes each category needs. Product forms and imports are checked against them; a sub category schema adds to its category&apos;s fields.</p>
+        </div>
+        <button onClick={startCreate} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm flex items-center gap-2">
+          <Plus size={16} /> New Schema
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm px-3 py-2 rounded flex items-center gap-2">
+          <AlertCircle size={16} /> {error}
+          <button onClick={() => setError(null)} className="ml-auto text-red-500">×</button>
+        </div>
+      )}
+      {successMessage && (
+        <div className="bg-green-50 border border-green-200 text-green-700 text-sm px-3 py-2 rounded">{successMessage}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white border rounded-lg shadow-sm">
+          <div className="border-b p-4 font-medium text-gray-800">All Schemas</div>
+          {loading ? (
+            <div className="p-4 text-sm text-gray-500">Loading schemas...</div>
+          ) : sortedSchemas.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500">No schemas yet. Products use free-form attributes until one is added.</div>
+          ) : (
+            <ul className="divide-y">
+              {sortedSchemas.map(schema => (
+                <li key={schema.id}>
+                  <button
+                    onClick={() => selectSchema(schema)}
+                    className={`w-full text-left p-4 hover:bg-gray-50 ${selectedId === schema.id ? 'bg-indigo-50' : ''}`}
+                  >
+                    <div className="font-medium text-gray-800">{schemaName(schema)}</div>
+                    <div className="text-xs text-gray-500 flex items-center gap-3 mt-1">
+                      <span className="flex items-center gap-1"><ListChecks size={12} /> {schema.fields.length} field{schema.fields.length !== 1 ? 's' : ''}</span>
+                      <span>{schema.fields.filter(field => field.required).length} required</span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          {selectedId === null ? (
+            <div className="bg-white border rounded-lg shadow-sm p-8 text-center text-sm text-gray-600">
+              Select a schema to edit it, or create one for a category.
+            </div>
+          ) : (
+            <form onSubmit={save} className="bg-white border rounded-lg shadow-sm">
+              <div className="border-b p-4 font-medium text-gray-800">
+                {selectedId === 0 ? 'New Schema' : `Edit ${selectedSchema ? schemaName(selectedSchema) : ''}`}
+              </div>
+
+              <div className="p-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-xs text-gray-600">Category</label>
+                    <input
+                      value={form.category}
+                      onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))}
+                      list="attribute-schema-categories"
+                      className="mt-1 w-full border rounded px-3 py-2 text-sm"
+                      placeholder="e.g. Dining Chairs"
+                    />
+                    <datalist id="attribute-schema-categories">
+                      {categories.map(category => <option key={category} value={category} />)}
+                    </datalist>
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600">Sub Category (optional)</label>
+                    <input
+                      value={form.subCategory}
+                      onChange={(e) => setForm(prev => ({ ...prev, subCategory: e.target.value }))}
+                      className="mt-1 w-full border rounded px-3 py-2 text-sm"
+                      placeholder="Leave empty for the whole category"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="text-sm font-medium text-gray-800">Fields</div>
+                    <button
+                      type="button"
+                      onClick={() => setForm(prev => ({ ...prev, fields: [...prev.fields, { ...emptyField }] }))}
+                      className="text-xs text-blue-600 flex items-center gap-1"
+                    >
+                      <Plus size={12} /> Add field
+                    </button>
+                  </div>
+                  <div className="space-y-2">
+                    {form.fields.map((field, index) => (
+                      <div key={index} className="border rounded p-3 space-y-2">
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                          <input
+                            value={field.label}
+                            onChange={(e) => updateField(index, { label: e.target.value })}
+                            className="border rounded px-2 py-1.5 text-sm"
+                            placeholder="Label, e.g. Seat Height"
+                          />
+                          <input
+                            value={field.key}
+                            onChange={(e) => updateField(index, { key: toAttributeKey(e.target.value) })}
+                            className="border rounded px-2 py-1.5 text-sm font-mono"
+                            placeholder={toAttributeKey(field.label) || 'key'}
+                          />
+                          <select
+                            value={field.type}
+                            onChange={(e) => updateField(index, { type: e.target.value as AttributeFieldType })}
+                            className="border rounded px-2 py-1.5 text-sm"
+                          >
+                            {(Object.keys(ATTRIBUTE_FIELD_TYPE_LABELS) as AttributeFieldType[]).map(type => (
+                              <option key={type} value={type}>{ATTRIBUTE_FIELD_TYPE_LABELS[type]}</option>
+                            ))}
+                          </select>
+                          <div className="flex items-center justify-between gap-2">
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                              <input type="checkbox" checked={field.required} onChange={(e) => updateField(index, { required: e.target.checked })} />
+                              Required
+                            </label>
+                            <button type="button" title="Remove field" onClick={() => removeField(index)} className="text-red-600 p-1">
+                              <Trash2 size={14} />
+                            </button>
+                          </div>
+                        </div>
+                        {field.type === 'number' && (
+                          <div className="grid grid-cols-3 gap-2">
+                            <input
+                              value={field.unit}
+                              onChange={(e) => updateField(index, { unit: e.target.value })}
+                              className="border rounded px-2 py-1.5 text-sm"
+                              placeholder="Unit, e.g. in"
+                            />
+                            <input
+                              type="number"
+                              step="any"
+                              value={field.min}
+                              onChange={(e) => updateField(index, { min: e.target.value })}
+                              className="border rounded px-2 py-1.5 text-sm"
+                              placeholder="Min"
+                            />
+                            <input
+                              type="number"
+                              step="any"
+                              value={field.max}
+                              onChange={(e) => updateField(index, { max: e.target.value })}
+                              className="border rounded px-2 py-1.5 text-sm"
+                              placeholder="Max"
+                            />
+                          </div>
+                        )}
+                        {field.type === 'enum' && (
+                          <input
+                            value={field.allowedValues}
+                            onChange={(e) => updateField(index, { allowedValues: e.target.value })}
+                            className="w-full border rounded px-2 py-1.5 text-sm"
+                            placeholder="Allowed values, comma separated, e.g. Oak, Walnut, Cherry"
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="border-t p-4 flex items-center gap-2">
+                {selectedSchema && (
+                  <button type="button" onClick={remove} className="text-sm text-red-600 mr-auto">Delete schema</button>
+                )}
+                <button type="button" onClick={() => { setSelectedId(null); setForm(emptyForm); }} className="ml-auto border rounded px-4 py-2 text-sm text-gray-700">
+                  Cancel
+                </button>
+                <button type="submit" disabled={saving} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm disabled:opacity-50">
+                  {saving ? 'Saving...' : selectedId === 0 ? 'Create Schema' : 'Save Changes'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </SettingsLayout>
+  );
+}
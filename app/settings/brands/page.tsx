@@ -10,7 +10,8 @@ import UnifiedAddNew from '../../components/UnifiedAddNew';
 import DeleteConfirmationModal from '../../components/DeleteConfirmationModal';
 
 export default function BrandsPage() {
-  const { state: authState, isAdmin } = useAuth();
+  const { state: authState, can } = useAuth();
+  const canManage = can('catalog-settings:manage');
   
   // API data state
   const [brands, setBrands] = React.useState<Brand[]>([]);
@@ -87,7 +88,7 @@ export default function BrandsPage() {
   // Create brand
   const handleCreateBrand = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!authState.accessToken || !isAdmin()) return;
+    if (!authState.accessToken || !canManage) return;
 
     try {
       setIsSubmitting(true);
@@ -106,7 +107,7 @@ export default function BrandsPage() {
   // Update brand
   const handleUpdateBrand = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!authState.accessToken || !isAdmin() || !selectedBrand) return;
+    if (!authState.accessToken || !canManage || !selectedBrand) return;
 
     try {
       setIsSubmitting(true);
@@ -125,7 +126,7 @@ export default function BrandsPage() {
 
   // Delete brand
   const handleDeleteBrand = async () => {
-    if (!authState.accessToken || !isAdmin() || !selectedBrand) return;
+    if (!authState.accessToken || !canManage || !selectedBrand) return;
 
     try {
       setIsSubmitting(true);
@@ -178,7 +179,7 @@ export default function BrandsPage() {
 
   // Create multiple brands
   const handleBulkCreate = async () => {
-    if (!authState.accessToken || !isAdmin() || bulkBrands.length === 0) return;
+    if (!authState.accessToken || !canManage || bulkBrands.length === 0) return;
 
     try {
       setIsSubmitting(true);
@@ -197,7 +198,7 @@ export default function BrandsPage() {
 
   // Handle file upload
   const handleFileUpload = async () => {
-    if (!authState.accessToken || !isAdmin() || !uploadFile) return;
+    if (!authState.accessToken || !canManage || !uploadFile) return;
 
     try {
       setIsSubmitting(true);
@@ -299,7 +300,7 @@ export default function BrandsPage() {
               <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
               <span className="hidden pl-1 sm:inline">Refresh</span>
             </Button>
-            {isAdmin() && (
+            {canManage && (
               <UnifiedAddNew
                 platformType="brands"
                 onAddBrand={() => setShowCreateModal(true)}
@@ -350,7 +351,7 @@ export default function BrandsPage() {
                       </span>
                     </div>
                   </div>
-                  {isAdmin() && (
+                  {canManage && (
                     <div className="flex gap-1">
                       <button 
                         onClick={() => openEditModal(brand)}
@@ -389,7 +390,7 @@ export default function BrandsPage() {
                 <p className="text-gray-600">
                   {searchTerm 
                     ? 'No brands match your search criteria.' 
-                    : isAdmin() 
+                    : canManage 
                       ? 'Get started by adding your first brand.' 
                       : 'No brands are available to you.'
                   }
@@ -28,8 +28,16 @@ const channelRegions: Record<string, ChannelOption[]> = {
   ],
 }
 
-export default async function ProviderPage({ params }: { params: Promise<{ provider: string }> }) {
+export default async function ProviderPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ provider: string }>
+  searchParams: Promise<{ edit?: string }>
+}) {
   const { provider } = await params
+  const { edit } = await searchParams
+  const channelId = edit && !isNaN(Number(edit)) ? Number(edit) : undefined
   const key = provider.toLowerCase()
   const pretty = key.charAt(0).toUpperCase() + key.slice(1)
   const regions = channelRegions[key] || [{ label: `${pretty} (Global)`, value: 'global' }]
@@ -41,7 +49,7 @@ export default async function ProviderPage({ params }: { params: Promise<{ provi
         <ChannelLogo name={pretty} />
         <div className="text-lg font-semibold text-gray-800">{pretty}</div>
       </div>
-      <ChannelConnectForm channelName={pretty} regions={regions} showFbaToggle={showFba} />
+      <ChannelConnectForm channelName={pretty} provider={key} regions={regions} showFbaToggle={showFba} channelId={channelId} />
     </SettingsLayout>
   )
 }
@@ -2,24 +2,125 @@
 import SettingsLayout from "../../_components/SettingsLayout";
 import Link from 'next/link'
 import React from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from "../../../lib/auth"
 import { useSalesChannelsStore } from "../../../lib/stores/salesChannelsStore"
+import {
+  SalesChannelsService,
+  CHANNEL_CONNECTION_STATUS_LABELS,
+  CHANNEL_SYNC_STATUS_LABELS,
+  type SalesChannel,
+} from "../../../lib/sales-channels"
 
-type SavedChannel = { id: string; provider: string; nickname: string; region: string; fba?: boolean }
+const CONNECTION_STATUS_CLASSES: Record<SalesChannel['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  connected: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+}
+
+const SYNC_STATUS_CLASSES: Record<NonNullable<SalesChannel['lastSyncStatus']>, string> = {
+  running: 'text-blue-600',
+  success: 'text-green-700',
+  failed: 'text-red-600',
+}
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : 'Never'
 
 export default function YourSalesChannelsPage() {
-  const { channels, removeChannel } = useSalesChannelsStore()
+  const router = useRouter()
+  const { state: authState, can } = useAuth()
+  const canManage = can('channels:manage')
+  const { channels, setChannels, upsertChannel, removeChannel } = useSalesChannelsStore()
+  const [loading, setLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+  const [busyId, setBusyId] = React.useState<number | null>(null)
+  const [message, setMessage] = React.useState<{ id: number; text: string; success: boolean } | null>(null)
+
+  const loadChannels = React.useCallback(async () => {
+    if (!authState.accessToken) return
+    try {
+      setError(null)
+      const response = await SalesChannelsService.getChannels(authState.accessToken)
+      setChannels(response.channels || [])
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to load sales channels'
+      setError(errorMessage)
+      if (errorMessage.includes('Session expired') || errorMessage.includes('Token expired')) {
+        router.push('/login')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [authState.accessToken, setChannels, router])
+
+  React.useEffect(() => {
+    if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      loadChannels()
+    }
+  }, [loadChannels, authState.isAuthenticated, authState.accessToken, authState.isLoading])
+
+  // Poll while a sync is running so the last-sync status updates by itself
+  const syncing = channels.some(c => c.lastSyncStatus === 'running')
+  React.useEffect(() => {
+    if (!syncing) return
+    const timer = setInterval(loadChannels, 5000)
+    return () => clearInterval(timer)
+  }, [syncing, loadChannels])
+
+  const showMessage = (id: number, text: string, success: boolean) => {
+    setMessage({ id, text, success })
+    setTimeout(() => setMessage(current => current?.id === id ? null : current), 5000)
+  }
+
+  const test = async (channel: SalesChannel) => {
+    if (!authState.accessToken) return
+    setBusyId(channel.id)
+    try {
+      const result = await SalesChannelsService.testConnection(authState.accessToken, channel.id)
+      if (result.channel) upsertChannel(result.channel)
+      showMessage(channel.id, result.message, result.success)
+    } catch (err: any) {
+      showMessage(channel.id, err.message || 'Connection test failed', false)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const sync = async (channel: SalesChannel) => {
+    if (!authState.accessToken) return
+    setBusyId(channel.id)
+    try {
+      const response = await SalesChannelsService.syncChannel(authState.accessToken, channel.id)
+      upsertChannel(response.channel)
+    } catch (err: any) {
+      showMessage(channel.id, err.message || 'Failed to start sync', false)
+    } finally {
+      setBusyId(null)
+    }
+  }
 
-  const remove = (id: string) => {
-    removeChannel(id)
+  const remove = async (channel: SalesChannel) => {
+    if (!authState.accessToken) return
+    if (!confirm(`Disconnect "${channel.nickname}"? Its stored credentials will be deleted.`)) return
+    setBusyId(channel.id)
+    try {
+      await SalesChannelsService.deleteChannel(authState.accessToken, channel.id)
+      removeChannel(channel.id)
+    } catch (err: any) {
+      showMessage(channel.id, err.message || 'Failed to remove channel', false)
+    } finally {
+      setBusyId(null)
+    }
   }
 
   return (
     <SettingsLayout>
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-semibold text-gray-800">Your Sales Channels</h2>
-        <Link href={'/settings/channels'} className="text-sm text-blue-600">+ Connect new channel</Link>
+        {canManage && <Link href={'/settings/channels'} className="text-sm text-blue-600">+ Connect new channel</Link>}
       </div>
-      <div className="bg-white border rounded">
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 text-sm px-3 py-2 rounded">{error}</div>}
+      <div className="bg-white border rounded overflow-x-auto">
         <table className="min-w-full text-sm">
           <thead className="bg-gray-50 text-gray-600">
             <tr>
@@ -27,23 +128,75 @@ export default function YourSalesChannelsPage() {
               <th className="p-3 text-left">Nickname</th>
               <th className="p-3 text-left">Region</th>
               <th className="p-3 text-left">FBA</th>
+              <th className="p-3 text-left">Connection</th>
+              <th className="p-3 text-left">Last Sync</th>
               <th className="p-3 text-left">Actions</th>
             </tr>
           </thead>
           <tbody>
-            {channels.length === 0 && (
-              <tr><td className="p-4 text-gray-500" colSpan={5}>No channels connected yet.</td></tr>
+            {loading && channels.length === 0 && (
+              <tr><td className="p-4 text-gray-500" colSpan={7}>Loading channels...</td></tr>
+            )}
+            {!loading && channels.length === 0 && (
+              <tr><td className="p-4 text-gray-500" colSpan={7}>No channels connected yet.</td></tr>
             )}
             {channels.map(c => (
-              <tr key={c.id} className="border-t">
-                <td className="p-3 capitalize">{c.provider}</td>
-                <td className="p-3">{c.nickname}</td>
-                <td className="p-3">{c.region}</td>
-                <td className="p-3">{c.fba ? 'Enabled' : '-'}</td>
-                <td className="p-3">
-                  <button className="text-red-600" onClick={()=>remove(c.id)}>Remove</button>
-                </td>
-              </tr>
+              <React.Fragment key={c.id}>
+                <tr className="border-t align-top">
+                  <td className="p-3 capitalize">{c.provider}</td>
+                  <td className="p-3">
+                    {c.nickname}
+                    {c.endpointOverride && <div className="text-xs text-amber-600">Custom endpoint</div>}
+                  </td>
+                  <td className="p-3">{c.region}</td>
+                  <td className="p-3">{c.fba ? 'Enabled' : '-'}</td>
+                  <td className="p-3">
+                    <span className={`px-2 py-1 rounded text-xs ${CONNECTION_STATUS_CLASSES[c.status]}`}>
+                      {CHANNEL_CONNECTION_STATUS_LABELS[c.status]}
+                    </span>
+                    <div className="text-xs text-gray-500 mt-1">Tested: {formatDate(c.lastTestedAt)}</div>
+                  </td>
+                  <td className="p-3">
+                    {c.lastSyncStatus ? (
+                      <div className={SYNC_STATUS_CLASSES[c.lastSyncStatus]}>{CHANNEL_SYNC_STATUS_LABELS[c.lastSyncStatus]}</div>
+                    ) : (
+                      <div className="text-gray-500">Not synced</div>
+                    )}
+                    <div className="text-xs text-gray-500">{formatDate(c.lastSyncAt)}</div>
+                    {c.lastSyncStatus === 'failed' && c.lastSyncMessage && (
+                      <div className="text-xs text-red-600 max-w-xs">{c.lastSyncMessage}</div>
+                    )}
+                  </td>
+                  <td className="p-3 whitespace-nowrap space-x-3">
+                    {canManage ? (
+                      <>
+                        <button className="text-blue-600 disabled:opacity-50" disabled={busyId === c.id} onClick={()=>test(c)}>Test</button>
+                        <button
+                          className="text-blue-600 disabled:opacity-50"
+                          disabled={busyId === c.id || c.status !== 'connected' || c.lastSyncStatus === 'running'}
+                          title={c.status !== 'connected' ? 'Test the connection first' : undefined}
+                          onClick={()=>sync(c)}
+                        >
+                          Sync now
+                        </button>
+                        <Link href={`/settings/channels/${c.provider}?edit=${c.id}`} className="text-gray-700">Edit</Link>
+                        <button className="text-red-600 disabled:opacity-50" disabled={busyId === c.id} onClick={()=>remove(c)}>Remove</button>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                </tr>
+                {(message?.id === c.id || (c.status === 'error' && c.lastTestMessage)) && (
+                  <tr>
+                    <td colSpan={7} className="px-3 pb-3">
+                      <div className={`text-xs px-3 py-2 rounded border ${message?.id === c.id ? (message.success ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700') : 'bg-red-50 border-red-200 text-red-700'}`}>
+                        {message?.id === c.id ? message.text : c.lastTestMessage}
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
             ))}
           </tbody>
         </table>
@@ -51,5 +204,3 @@ export default function YourSalesChannelsPage() {
     </SettingsLayout>
   )
 }
-
-
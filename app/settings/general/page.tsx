@@ -2,13 +2,22 @@
 
 import React from 'react';
 import SettingsLayout from "../_components/SettingsLayout";
-import { Settings as SettingsIcon, Package, AlertCircle, RefreshCw, Save, Edit, Check, X, Search } from 'lucide-react';
+import { Settings as SettingsIcon, Package, Package2, AlertCircle, RefreshCw, Save, Edit, Check, X, Search } from 'lucide-react';
 import { useAuth } from '../../lib/auth';
-import { getSettings, updateSettings, getBrands, updateBrandMapping, type BrandMapping, type InventoryConfig } from '../../lib/settings/api';
+import { getSettings, updateSettings, updateBundleSkuPattern, getBrands, updateBrandMapping, type BrandMapping, type InventoryConfig, type InventoryThreshold } from '../../lib/settings/api';
+import { BrandsService, type Brand } from '../../lib/brands/api';
+import { BUNDLE_SKU_TOKENS, DEFAULT_BUNDLE_SKU_PATTERN, buildBundleSku, validateBundleSkuPattern } from '../../lib/listings/bundles';
 import { Button } from '../../components/ui/button';
 
+// 1 table + 4 chairs, shown as the pattern preview
+const BUNDLE_SKU_SAMPLE = [
+  { subSkus: ['AM-T100-WAL'], quantity: 1, product: { groupSku: 'AM-T100', brand: { name: 'Acme' } } },
+  { subSkus: ['AM-C200-BLK'], quantity: 4, product: { groupSku: 'AM-C200', brand: { name: 'Acme' } } },
+];
+
 export default function GeneralSettingsPage() {
-  const { state: authState, isAdmin } = useAuth();
+  const { state: authState, can } = useAuth();
+  const canManage = can('catalog-settings:manage');
   
   // Settings state
   const [inventoryConfig, setInventoryConfig] = React.useState<InventoryConfig>({ minValue: 5, maxValue: null });
@@ -17,6 +26,12 @@ export default function GeneralSettingsPage() {
   const [settingsError, setSettingsError] = React.useState<string | null>(null);
   const [isUpdatingSettings, setIsUpdatingSettings] = React.useState(false);
   
+  // Bundle SKU pattern state
+  const [bundleSkuPattern, setBundleSkuPattern] = React.useState(DEFAULT_BUNDLE_SKU_PATTERN);
+  const [originalBundleSkuPattern, setOriginalBundleSkuPattern] = React.useState(DEFAULT_BUNDLE_SKU_PATTERN);
+  const [isSavingPattern, setIsSavingPattern] = React.useState(false);
+  const [patternMessage, setPatternMessage] = React.useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  
   // Brands state
   const [brands, setBrands] = React.useState<BrandMapping[]>([]);
   const [brandsLoading, setBrandsLoading] = React.useState(true);
@@ -25,6 +40,10 @@ export default function GeneralSettingsPage() {
   const [editingBrand, setEditingBrand] = React.useState<string | null>(null);
   const [editValue, setEditValue] = React.useState('');
   const [searchTerm, setSearchTerm] = React.useState('');
+  
+  // Brand threshold overrides state
+  const [catalogBrands, setCatalogBrands] = React.useState<Brand[]>([]);
+  const [thresholdSearch, setThresholdSearch] = React.useState('');
 
   // Load general settings
   const loadSettings = React.useCallback(async () => {
@@ -38,9 +57,15 @@ export default function GeneralSettingsPage() {
       setSettingsLoading(true);
       setSettingsError(null);
       
-      const response = await getSettings(authState.accessToken);
+      const [response, brandsResponse] = await Promise.all([
+        getSettings(authState.accessToken),
+        BrandsService.getBrands(authState.accessToken, { limit: 1000, sortBy: 'name', sortOrder: 'asc' }),
+      ]);
       setInventoryConfig(response.settings.inventoryConfig);
       setOriginalInventoryConfig(response.settings.inventoryConfig);
+      setBundleSkuPattern(response.settings.bundleSkuPattern || DEFAULT_BUNDLE_SKU_PATTERN);
+      setOriginalBundleSkuPattern(response.settings.bundleSkuPattern || DEFAULT_BUNDLE_SKU_PATTERN);
+      setCatalogBrands(brandsResponse.brands || []);
     } catch (error: any) {
       console.error('Failed to load settings:', error);
       
@@ -93,8 +118,8 @@ export default function GeneralSettingsPage() {
 
   // Update general settings
   const handleUpdateSettings = async () => {
-    if (!isAdmin()) {
-      setSettingsError('Only admins can update settings');
+    if (!canManage) {
+      setSettingsError('Your role does not allow changing settings');
       return;
     }
 
@@ -125,10 +150,35 @@ export default function GeneralSettingsPage() {
     }
   };
 
+  // Update bundle SKU pattern
+  const handleSaveBundleSkuPattern = async () => {
+    if (!canManage || !authState.accessToken) return;
+
+    const patternError = validateBundleSkuPattern(bundleSkuPattern);
+    if (patternError) {
+      setPatternMessage({ type: 'error', text: patternError });
+      return;
+    }
+
+    try {
+      setIsSavingPattern(true);
+      setPatternMessage(null);
+      await updateBundleSkuPattern(bundleSkuPattern.trim(), authState.accessToken);
+      setBundleSkuPattern(bundleSkuPattern.trim());
+      setOriginalBundleSkuPattern(bundleSkuPattern.trim());
+      setPatternMessage({ type: 'success', text: 'Bundle SKU pattern saved' });
+    } catch (error: any) {
+      console.error('Failed to update bundle SKU pattern:', error);
+      setPatternMessage({ type: 'error', text: error.message || 'Failed to update bundle SKU pattern' });
+    } finally {
+      setIsSavingPattern(false);
+    }
+  };
+
   // Update brand mapping
   const handleUpdateBrandMapping = async (originalBrand: string, customBrand: string) => {
-    if (!isAdmin()) {
-      setBrandsError('Only admins can update brand mappings');
+    if (!canManage) {
+      setBrandsError('Your role does not allow changing brand mappings');
       return;
     }
 
@@ -201,6 +251,29 @@ export default function GeneralSettingsPage() {
   // Count changed brands
   const changedBrandsCount = brands.filter(b => b.isChanged).length;
 
+  // Update one brand's threshold override; empty overrides are removed
+  const updateBrandThreshold = (brandId: number, key: keyof InventoryThreshold, value: string) => {
+    const brandOverrides = { ...(inventoryConfig.brandOverrides || {}) };
+    const next: InventoryThreshold = { ...brandOverrides[brandId], [key]: value === '' ? null : Number(value) };
+    if ((next.minValue ?? null) === null && (next.maxValue ?? null) === null) {
+      delete brandOverrides[brandId];
+    } else {
+      brandOverrides[brandId] = next;
+    }
+    setInventoryConfig({ ...inventoryConfig, brandOverrides });
+  };
+
+  const removeSkuOverride = (subSku: string) => {
+    const skuOverrides = { ...(inventoryConfig.skuOverrides || {}) };
+    delete skuOverrides[subSku];
+    setInventoryConfig({ ...inventoryConfig, skuOverrides });
+  };
+
+  const filteredCatalogBrands = catalogBrands.filter(brand =>
+    brand.name.toLowerCase().includes(thresholdSearch.toLowerCase())
+  );
+  const skuOverrideEntries = Object.entries(inventoryConfig.skuOverrides || {});
+
   // Check if settings have changed
   const settingsChanged = JSON.stringify(inventoryConfig) !== JSON.stringify(originalInventoryConfig);
 
@@ -215,7 +288,7 @@ export default function GeneralSettingsPage() {
               General Settings
             </h2>
             <p className="text-sm text-gray-600 mt-1">
-              Manage inventory configuration and brand name mappings
+              Manage inventory configuration, bundle SKU naming and brand name mappings
             </p>
           </div>
         </div>
@@ -224,7 +297,7 @@ export default function GeneralSettingsPage() {
         <div className="bg-white border rounded-lg shadow-sm">
           <div className="border-b p-4">
             <h3 className="text-lg font-semibold text-gray-900">Inventory Configuration</h3>
-            <p className="text-sm text-gray-600 mt-1">Configure minimum inventory thresholds</p>
+            <p className="text-sm text-gray-600 mt-1">Configure stock thresholds for low-stock alerts and reorder suggestions</p>
           </div>
           
           <div className="p-6">
@@ -265,14 +338,130 @@ export default function GeneralSettingsPage() {
                       onChange={(e) => setInventoryConfig({ ...inventoryConfig, minValue: Number(e.target.value) })}
                       className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                       placeholder="Enter minimum value"
-                      disabled={!isAdmin()}
+                      disabled={!canManage}
                     />
                     <p className="text-xs text-gray-500 mt-1">
                       Set the minimum inventory threshold for alerts
                     </p>
                   </div>
 
-                  {isAdmin() && settingsChanged && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Maximum Inventory Value
+                    </label>
+                    <input
+                      type="number"
+                      value={inventoryConfig.maxValue ?? ''}
+                      onChange={(e) => setInventoryConfig({ ...inventoryConfig, maxValue: e.target.value === '' ? null : Number(e.target.value) })}
+                      className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      placeholder="No maximum"
+                      disabled={!canManage}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Items above this are flagged as overstocked; reorders top up to this level
+                    </p>
+                  </div>
+                </div>
+
+                {/* Brand threshold overrides */}
+                <div className="mt-8">
+                  <h4 className="text-sm font-semibold text-gray-900">Brand Thresholds</h4>
+                  <p className="text-xs text-gray-500 mt-1 mb-3">
+                    Override the global values per brand. Leave blank to use the global thresholds.
+                  </p>
+                  <div className="relative max-w-md mb-3">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+                    <input
+                      type="text"
+                      placeholder="Search brands..."
+                      value={thresholdSearch}
+                      onChange={(e) => setThresholdSearch(e.target.value)}
+                      className="w-full border border-gray-300 rounded-lg pl-10 pr-4 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div className="border rounded-lg overflow-hidden">
+                    <div className="overflow-x-auto max-h-[320px] overflow-y-auto">
+                      <table className="w-full">
+                        <thead className="bg-gray-50 sticky top-0">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Brand</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Min</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Max</th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {filteredCatalogBrands.map(brand => {
+                            const override = inventoryConfig.brandOverrides?.[brand.id];
+                            return (
+                              <tr key={brand.id} className={override ? 'bg-indigo-50/50' : ''}>
+                                <td className="px-4 py-2 text-sm text-gray-900">{brand.name}</td>
+                                <td className="px-4 py-2">
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={override?.minValue ?? ''}
+                                    onChange={(e) => updateBrandThreshold(brand.id, 'minValue', e.target.value)}
+                                    placeholder={String(inventoryConfig.minValue)}
+                                    className="w-24 border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                    disabled={!canManage}
+                                  />
+                                </td>
+                                <td className="px-4 py-2">
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={override?.maxValue ?? ''}
+                                    onChange={(e) => updateBrandThreshold(brand.id, 'maxValue', e.target.value)}
+                                    placeholder={inventoryConfig.maxValue != null ? String(inventoryConfig.maxValue) : '—'}
+                                    className="w-24 border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                    disabled={!canManage}
+                                  />
+                                </td>
+                              </tr>
+                            );
+                          })}
+                          {filteredCatalogBrands.length === 0 && (
+                            <tr>
+                              <td colSpan={3} className="px-4 py-6 text-center text-sm text-gray-500">No brands found</td>
+                            </tr>
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Sub-SKU threshold overrides */}
+                <div className="mt-8">
+                  <h4 className="text-sm font-semibold text-gray-900">Sub SKU Thresholds</h4>
+                  <p className="text-xs text-gray-500 mt-1 mb-3">
+                    Set from the edit dialog on the Inventory page. These take priority over brand and global values.
+                  </p>
+                  {skuOverrideEntries.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {skuOverrideEntries.map(([subSku, override]) => (
+                        <span key={subSku} className="inline-flex items-center gap-2 px-3 py-1 text-xs rounded-full bg-gray-100 text-gray-800">
+                          <span className="font-mono">{subSku}</span>
+                          <span>min {override.minValue ?? '—'} / max {override.maxValue ?? '—'}</span>
+                          {canManage && (
+                            <button
+                              onClick={() => removeSkuOverride(subSku)}
+                              className="text-gray-500 hover:text-red-600"
+                              title="Remove override"
+                            >
+                              <X size={12} />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">No sub SKU overrides</p>
+                  )}
+                </div>
+
+                <div className="space-y-4 max-w-md mt-6">
+                  {canManage && settingsChanged && (
                     <Button
                       onClick={handleUpdateSettings}
                       disabled={isUpdatingSettings}
@@ -284,10 +473,10 @@ export default function GeneralSettingsPage() {
                     </Button>
                   )}
 
-                  {!isAdmin() && (
+                  {!canManage && (
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
                       <AlertCircle size={16} className="inline mr-2" />
-                      Only administrators can modify settings
+                      Your role does not allow changing settings
                     </div>
                   )}
                 </div>
@@ -296,7 +485,80 @@ export default function GeneralSettingsPage() {
           </div>
         </div>
 
-        {/* Section 2: Brand Name Mappings */}
+        {/* Section 2: Bundle SKU Pattern */}
+        <div className="bg-white border rounded-lg shadow-sm">
+          <div className="border-b p-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Package2 size={20} className="text-indigo-600" />
+              Bundle SKU Pattern
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Naming pattern for the SKU of bundle listings built from several products
+            </p>
+          </div>
+
+          <div className="p-6">
+            {settingsLoading ? (
+              <div className="text-gray-600 text-sm">Loading settings...</div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Pattern
+                    </label>
+                    <input
+                      type="text"
+                      value={bundleSkuPattern}
+                      onChange={(e) => { setBundleSkuPattern(e.target.value); setPatternMessage(null); }}
+                      className="w-full border border-gray-300 rounded-lg px-4 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      placeholder={DEFAULT_BUNDLE_SKU_PATTERN}
+                      disabled={!canManage}
+                    />
+                    {validateBundleSkuPattern(bundleSkuPattern) ? (
+                      <p className="text-xs text-red-600 mt-1">{validateBundleSkuPattern(bundleSkuPattern)}</p>
+                    ) : (
+                      <p className="text-xs text-gray-500 mt-1">
+                        1 table + 4 chairs becomes <span className="font-mono text-gray-800">{buildBundleSku(bundleSkuPattern, BUNDLE_SKU_SAMPLE)}</span>
+                      </p>
+                    )}
+                  </div>
+
+                  {patternMessage && (
+                    <div className={`text-sm ${patternMessage.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+                      {patternMessage.text}
+                    </div>
+                  )}
+
+                  {canManage && bundleSkuPattern !== originalBundleSkuPattern && (
+                    <Button
+                      onClick={handleSaveBundleSkuPattern}
+                      disabled={isSavingPattern || !!validateBundleSkuPattern(bundleSkuPattern)}
+                      variant="default"
+                    >
+                      <Save size={16} className="mr-2" />
+                      {isSavingPattern ? 'Saving...' : 'Save Pattern'}
+                    </Button>
+                  )}
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">Tokens</h4>
+                  <dl className="space-y-1 text-xs">
+                    {BUNDLE_SKU_TOKENS.map(({ token, description }) => (
+                      <div key={token} className="flex gap-3">
+                        <dt className="font-mono text-indigo-700 w-24 flex-shrink-0">{token}</dt>
+                        <dd className="text-gray-600">{description}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Section 3: Brand Name Mappings */}
         <div className="bg-white border rounded-lg shadow-sm">
           <div className="border-b p-4 flex items-center justify-between">
             <div>
@@ -380,7 +642,7 @@ export default function GeneralSettingsPage() {
                             <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                               Status
                             </th>
-                            {isAdmin() && (
+                            {canManage && (
                               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                 Actions
                               </th>
@@ -426,7 +688,7 @@ export default function GeneralSettingsPage() {
                                   </span>
                                 )}
                               </td>
-                              {isAdmin() && (
+                              {canManage && (
                                 <td className="px-4 py-3 text-sm">
                                   {editingBrand === brand.originalBrand ? (
                                     <div className="flex gap-2">
@@ -474,10 +736,10 @@ export default function GeneralSettingsPage() {
                   </div>
                 )}
 
-                {!isAdmin() && brands.length > 0 && (
+                {!canManage && brands.length > 0 && (
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800 mt-4">
                     <AlertCircle size={16} className="inline mr-2" />
-                    Only administrators can modify brand mappings
+                    Your role does not allow changing brand mappings
                   </div>
                 )}
               </>
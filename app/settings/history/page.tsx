@@ -1,20 +1,39 @@
 "use client";
 
 import React from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import SettingsLayout from "../_components/SettingsLayout";
-import { History, Clock, User, Activity, Shield, Package, Truck, Store, RefreshCw, Loader2, AlertCircle, Search } from 'lucide-react';
-import { useAuth } from '../../lib/auth';
+import { History, Clock, User, Activity, Shield, ShieldCheck, ShieldAlert, Package, Truck, Store, RefreshCw, Loader2, AlertCircle, Search, ChevronLeft, ChevronRight, ChevronDown, GitCommit, Boxes, Tag, Warehouse, Archive } from 'lucide-react';
+import { useAuth, useCanAccess } from '../../lib/auth';
 import { AdminService, AdminUtils } from '../../lib/admin/api';
 import { type UserWithHistory, type DetailedUser, type LoginSession } from '../../lib/admin/types';
 import LiveTimer from '../../components/LiveTimer';
-import { useActivityStore } from '../../lib/stores/activityStore';
+import {
+  AuditLogService,
+  AUDIT_LOG_TYPE_LABELS,
+  AUDIT_LINK_STATUS_LABELS,
+  verifyAuditPage,
+  CATALOG_ENTITY_LABELS,
+  type AuditLogEntry,
+  type FieldChange,
+  type AuditLogFilters,
+  type AuditLogType,
+  type AuditChainVerification,
+  type AuditPageVerification,
+} from '../../lib/audit-log';
+import type { Pagination } from '../../lib/types/common.types';
 import { useRetentionStore } from '../../lib/stores/retentionStore';
+import { logRetentionManager, type RetentionNotification } from '../../lib/log-retention';
+import LogRetentionPanel from '../_components/LogRetentionPanel';
 // import LoginHistoryDebugger from '../../components/LoginHistoryDebugger';
 
-export default function HistoryPage() {
-  const [activeTab, setActiveTab] = React.useState<'user-logs' | 'activity-logs'>('user-logs');
+// Cap on timeline pages (100 entries each) fetched for one SKU
+const TIMELINE_MAX_PAGES = 10;
+
+function HistoryPageContent() {
+  const [activeTab, setActiveTab] = React.useState<'user-logs' | 'activity-logs' | 'entity-timeline'>('user-logs');
   const { state: authState, logout } = useAuth();
+  const canViewHistory = useCanAccess(undefined, undefined, ['audit:view']);
   const router = useRouter();
   
   // API data state
@@ -24,13 +43,35 @@ export default function HistoryPage() {
   const [error, setError] = React.useState<string | null>(null);
   const [isLoadingUserDetails, setIsLoadingUserDetails] = React.useState(false);
 
+  // Audit log (server-side paging and filters)
+  const [activityLogs, setActivityLogs] = React.useState<AuditLogEntry[]>([]);
+  const [activityPagination, setActivityPagination] = React.useState<Pagination | null>(null);
+  const [activityFilters, setActivityFilters] = React.useState<AuditLogFilters>({ page: 1, limit: 25, sortOrder: 'desc' });
+  const [activityDraft, setActivityDraft] = React.useState({ search: '', userEmail: '', targetUser: '' });
+  const [isLoadingActivity, setIsLoadingActivity] = React.useState(false);
+  const [pageVerification, setPageVerification] = React.useState<AuditPageVerification | null>(null);
+  const [chainVerification, setChainVerification] = React.useState<AuditChainVerification | null>(null);
+  const [isVerifyingChain, setIsVerifyingChain] = React.useState(false);
+  const [expandedLogIds, setExpandedLogIds] = React.useState<Set<number>>(new Set());
+
+  // Entity timeline (everything that happened to one SKU, oldest first)
+  const [timelineSkuDraft, setTimelineSkuDraft] = React.useState('');
+  const [timelineSku, setTimelineSku] = React.useState('');
+  const [timelineLogs, setTimelineLogs] = React.useState<AuditLogEntry[]>([]);
+  const [timelineTruncated, setTimelineTruncated] = React.useState(false);
+  const [isLoadingTimeline, setIsLoadingTimeline] = React.useState(false);
+
   // Zustand stores
-  const { logs: activityLogs, getRecentLogs } = useActivityStore();
-  const { notifications: retentionNotifications, markAsRead, setAdminAction } = useRetentionStore();
+  const { notifications: retentionNotifications, getPolicy } = useRetentionStore();
   
   // UI state
   const [showRetentionModal, setShowRetentionModal] = React.useState(false);
-  const [selectedNotification, setSelectedNotification] = React.useState<any>(null);
+  const [selectedNotification, setSelectedNotification] = React.useState<RetentionNotification | null>(null);
+  const [showRetentionSettings, setShowRetentionSettings] = React.useState(false);
+  const [isDecidingRetention, setIsDecidingRetention] = React.useState(false);
+
+  // Shared across admins: pending decisions stay visible until someone decides
+  const openRetentionNotifications = retentionNotifications.filter(n => n.adminAction === 'pending' || !n.isRead);
 
   // Search state
   const [searchTerm, setSearchTerm] = React.useState('');
@@ -48,30 +89,130 @@ export default function HistoryPage() {
   }, [userLogs, searchTerm]);
 
   // Handle admin decision on retention
-  const handleRetentionDecision = (notificationId: string, decision: 'keep' | 'delete') => {
+  const handleRetentionDecision = async (notificationId: number, decision: 'keep' | 'delete') => {
     try {
-      setAdminAction(notificationId, decision);
+      setIsDecidingRetention(true);
+      const purge = await logRetentionManager.setAdminAction(notificationId, decision);
       setShowRetentionModal(false);
       setSelectedNotification(null);
       
       // Show success message
-      console.log(`✅ Retention decision: ${decision} applied successfully`);
-    } catch (error) {
+      console.log(`✅ Retention decision: ${decision} applied successfully`, purge ? `(${purge.purgedCount} purged)` : '');
+      if (purge) {
+        setShowRetentionSettings(true);
+        loadActivityLogs();
+      }
+    } catch (error: any) {
       console.error('Failed to handle retention decision:', error);
+      setError(error.message || 'Failed to apply retention decision');
+    } finally {
+      setIsDecidingRetention(false);
     }
   };
 
-  // Load activity logs from Zustand store (real user actions)
+  const dismissRetentionNotification = async (notificationId: number) => {
+    try {
+      await logRetentionManager.markNotificationAsRead(notificationId);
+    } catch (error: any) {
+      setError(error.message || 'Failed to dismiss notification');
+    }
+  };
+
+  // Load a page of audit log entries and check their hashes in the browser
   const loadActivityLogs = React.useCallback(async () => {
+    if (!authState.accessToken) return;
+
     try {
+      setIsLoadingActivity(true);
       setError(null);
-      // Activity logs are already available from Zustand store
-      // No need to load them separately
+      const response = await AuditLogService.getLogs(authState.accessToken, activityFilters);
+      setActivityLogs(response.logs || []);
+      setActivityPagination(response.pagination || null);
+      setPageVerification(await verifyAuditPage(response.logs || []));
     } catch (error: any) {
       console.error('Failed to load activity logs:', error);
-      setError('Failed to load activity logs');
+      if (error.message?.includes('Session expired') || error.message?.includes('Token expired') || error.message?.includes('Token refresh failed')) {
+        handleTokenExpiration();
+        return;
+      }
+      setError(error.message || 'Failed to load activity logs');
+    } finally {
+      setIsLoadingActivity(false);
     }
-  }, []);
+  }, [authState.accessToken, activityFilters]);
+
+  // Load every entry for one SKU, a page at a time
+  const loadTimeline = React.useCallback(async () => {
+    if (!authState.accessToken || !timelineSku) return;
+
+    try {
+      setIsLoadingTimeline(true);
+      setError(null);
+      const logs: AuditLogEntry[] = [];
+      let page = 1;
+      let hasNextPage = true;
+      while (hasNextPage && page <= TIMELINE_MAX_PAGES) {
+        const response = await AuditLogService.getLogs(authState.accessToken, { sku: timelineSku, page, limit: 100, sortOrder: 'asc' });
+        logs.push(...(response.logs || []));
+        hasNextPage = !!response.pagination?.hasNextPage;
+        page++;
+      }
+      setTimelineLogs(logs);
+      setTimelineTruncated(hasNextPage);
+    } catch (error: any) {
+      console.error('Failed to load entity timeline:', error);
+      if (error.message?.includes('Session expired') || error.message?.includes('Token expired') || error.message?.includes('Token refresh failed')) {
+        handleTokenExpiration();
+        return;
+      }
+      setError(error.message || 'Failed to load entity timeline');
+    } finally {
+      setIsLoadingTimeline(false);
+    }
+  }, [authState.accessToken, timelineSku]);
+
+  const openTimeline = (sku: string) => {
+    setTimelineSkuDraft(sku);
+    setTimelineSku(sku);
+    setActiveTab('entity-timeline');
+  };
+
+  const toggleLogExpanded = (id: number) => {
+    setExpandedLogIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  // Re-hash the full chain on the server
+  const verifyAuditChain = async () => {
+    if (!authState.accessToken) return;
+
+    try {
+      setIsVerifyingChain(true);
+      setChainVerification(await AuditLogService.verifyChain(authState.accessToken));
+    } catch (error: any) {
+      setError(error.message || 'Failed to verify audit log');
+    } finally {
+      setIsVerifyingChain(false);
+    }
+  };
+
+  const applyActivityFilters = () => {
+    setActivityFilters(prev => ({
+      ...prev,
+      page: 1,
+      search: activityDraft.search.trim() || undefined,
+      userEmail: activityDraft.userEmail.trim() || undefined,
+      targetUser: activityDraft.targetUser.trim() || undefined,
+    }));
+  };
+
+  const clearActivityFilters = () => {
+    setActivityDraft({ search: '', userEmail: '', targetUser: '' });
+    setActivityFilters(prev => ({ page: 1, limit: prev.limit, sortOrder: 'desc' }));
+  };
 
   // Load users with login stats
   const loadUsers = React.useCallback(async () => {
@@ -159,22 +300,43 @@ export default function HistoryPage() {
   React.useEffect(() => {
     if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
       loadUsers();
-      if (activeTab === 'activity-logs') {
-        loadActivityLogs();
-      }
     }
-  }, [loadUsers, loadActivityLogs, authState.isAuthenticated, authState.accessToken, authState.isLoading, activeTab]);
+  }, [loadUsers, authState.isAuthenticated, authState.accessToken, authState.isLoading]);
+
+  // Deep link: /settings/history?sku=ABC-123 opens that SKU's timeline
+  const searchParams = useSearchParams();
+  React.useEffect(() => {
+    const sku = searchParams.get('sku');
+    if (sku) openTimeline(sku);
+  }, [searchParams]);
+
+  React.useEffect(() => {
+    if (activeTab === 'entity-timeline' && authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      loadTimeline();
+    }
+  }, [loadTimeline, activeTab, authState.isAuthenticated, authState.accessToken, authState.isLoading]);
+
+  // Retention policies and notifications live on the server and are shared by all admins
+  React.useEffect(() => {
+    if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      logRetentionManager.refresh().catch(error => console.error('Failed to load retention settings:', error));
+    }
+  }, [authState.isAuthenticated, authState.accessToken, authState.isLoading]);
+
+  // Load activity logs when the tab is opened or the filters change
+  React.useEffect(() => {
+    if (activeTab === 'activity-logs' && authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      loadActivityLogs();
+    }
+  }, [loadActivityLogs, activeTab, authState.isAuthenticated, authState.accessToken, authState.isLoading]);
 
   const formatRelativeTime = (dateString: string) => {
     return AdminUtils.formatRelativeTime(dateString);
   };
 
   // Handle tab change
-  const handleTabChange = (tab: 'user-logs' | 'activity-logs') => {
+  const handleTabChange = (tab: 'user-logs' | 'activity-logs' | 'entity-timeline') => {
     setActiveTab(tab);
-    if (tab === 'activity-logs' && activityLogs.length === 0) {
-      loadActivityLogs();
-    }
   };
 
   const getDisplayUsername = (email: string) => {
@@ -196,7 +358,10 @@ export default function HistoryPage() {
 
   const getActivityIcon = (type: string) => {
     switch (type) {
-      case 'brand': return <Package className="w-4 h-4" />;
+      case 'brand': return <Tag className="w-4 h-4" />;
+      case 'product': return <Package className="w-4 h-4" />;
+      case 'listing': return <Boxes className="w-4 h-4" />;
+      case 'inventory': return <Warehouse className="w-4 h-4" />;
       case 'marketplace': return <Store className="w-4 h-4" />;
       case 'shipping': return <Truck className="w-4 h-4" />;
       case 'user': return <User className="w-4 h-4" />;
@@ -236,6 +401,34 @@ export default function HistoryPage() {
     }
   };
 
+  const formatChangeValue = (value: unknown) => {
+    if (value === null || value === undefined) return <span className="text-gray-400">—</span>;
+    if (typeof value === 'object') return <span className="font-mono break-all">{JSON.stringify(value)}</span>;
+    return String(value);
+  };
+
+  // Field-level before/after table for catalog entries
+  const renderFieldChanges = (changes: FieldChange[]) => (
+    <table className="mt-2 w-full text-xs border rounded">
+      <thead className="bg-gray-50 text-gray-600">
+        <tr>
+          <th className="px-2 py-1 text-left">Field</th>
+          <th className="px-2 py-1 text-left">Before</th>
+          <th className="px-2 py-1 text-left">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map(change => (
+          <tr key={change.field} className="border-t align-top">
+            <td className="px-2 py-1 font-mono text-gray-700">{change.field}</td>
+            <td className="px-2 py-1 text-red-700">{formatChangeValue(change.oldValue)}</td>
+            <td className="px-2 py-1 text-green-700">{formatChangeValue(change.newValue)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
   // Clear errors when modal is closed
   const closeUserDetails = () => {
     setSelectedUser(null);
@@ -252,6 +445,15 @@ export default function HistoryPage() {
   // Filter users based on search term (using the new filteredUsers logic)
   const filteredUserLogs = filteredUsers;
 
+  if (!authState.isLoading && !canViewHistory) {
+    return (
+      <SettingsLayout>
+        <h2 className="text-xl font-semibold text-gray-800">System History</h2>
+        <div className="text-sm text-gray-600">You need the “View history” permission to view this page.</div>
+      </SettingsLayout>
+    );
+  }
+
   return (
     <SettingsLayout>
       <div className="space-y-6">
@@ -331,12 +533,23 @@ export default function HistoryPage() {
             >
               <Activity className="w-4 h-4 inline mr-2" />
               Activity Logs
-              {retentionNotifications.filter(n => !n.isRead).length > 0 && (
+              {openRetentionNotifications.length > 0 && (
                 <span className="ml-2 inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-white bg-red-500 rounded-full">
-                  {retentionNotifications.filter(n => !n.isRead).length}
+                  {openRetentionNotifications.length}
                 </span>
               )}
             </button>
+            <button
+              onClick={() => handleTabChange('entity-timeline')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'entity-timeline'
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <GitCommit className="w-4 h-4 inline mr-2" />
+              Entity Timeline
+            </button>
           </nav>
         </div>
 
@@ -505,21 +718,66 @@ export default function HistoryPage() {
               <div>
                 <h3 className="text-lg font-medium text-gray-900">Activity Logs</h3>
                 <p className="text-sm text-gray-600 mt-1">
-                  System changes and user activities from the last 6 months
+                  Append-only audit trail of system changes and user activities
                 </p>
               </div>
-              <button
-                onClick={loadActivityLogs}
-                className="btn-secondary text-sm flex items-center gap-2"
-                title="Refresh activity logs"
-              >
-                <RefreshCw size={16} />
-                Refresh
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowRetentionSettings(v => !v)}
+                  className={`btn-secondary text-sm flex items-center gap-2 ${showRetentionSettings ? 'ring-1 ring-indigo-300' : ''}`}
+                  title="Retention policies and archives"
+                >
+                  <Archive size={16} />
+                  Retention
+                </button>
+                <button
+                  onClick={verifyAuditChain}
+                  disabled={isVerifyingChain}
+                  className="btn-secondary text-sm flex items-center gap-2 disabled:opacity-50"
+                  title="Re-hash every entry on the server"
+                >
+                  {isVerifyingChain ? <Loader2 size={16} className="animate-spin" /> : <ShieldCheck size={16} />}
+                  Verify Integrity
+                </button>
+                <button
+                  onClick={loadActivityLogs}
+                  disabled={isLoadingActivity}
+                  className="btn-secondary text-sm flex items-center gap-2 disabled:opacity-50"
+                  title="Refresh activity logs"
+                >
+                  <RefreshCw size={16} className={isLoadingActivity ? 'animate-spin' : ''} />
+                  Refresh
+                </button>
+              </div>
             </div>
 
+            {/* Chain verification result */}
+            {chainVerification && (
+              <div className={`rounded-lg p-4 border flex items-start gap-3 ${chainVerification.valid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+                {chainVerification.valid
+                  ? <ShieldCheck className="w-5 h-5 text-green-600 flex-shrink-0" />
+                  : <ShieldAlert className="w-5 h-5 text-red-600 flex-shrink-0" />}
+                <div className="text-sm">
+                  <div className={`font-medium ${chainVerification.valid ? 'text-green-800' : 'text-red-800'}`}>
+                    {chainVerification.valid
+                      ? `Audit log intact: ${chainVerification.checkedCount} entries verified`
+                      : `Audit log tampering detected at entry #${chainVerification.brokenAtSequence}`}
+                  </div>
+                  <div className={chainVerification.valid ? 'text-green-700' : 'text-red-700'}>
+                    {chainVerification.reason || (chainVerification.firstSequence !== null
+                      ? `Entries #${chainVerification.firstSequence} to #${chainVerification.lastSequence}`
+                      : 'No entries yet')}
+                    {' · '}Checked {new Date(chainVerification.verifiedAt).toLocaleString()}
+                  </div>
+                </div>
+                <button onClick={() => setChainVerification(null)} className="ml-auto text-gray-400 hover:text-gray-600">×</button>
+              </div>
+            )}
+
+            {showRetentionSettings && <LogRetentionPanel />}
+
             {/* Retention Notifications */}
-            {retentionNotifications.filter(n => !n.isRead).length > 0 && (
+            {openRetentionNotifications.length > 0 && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                 <div className="flex items-start">
                   <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5 mr-3 flex-shrink-0" />
@@ -528,22 +786,36 @@ export default function HistoryPage() {
                       Log Retention Policy Notification
                     </h4>
                     <div className="space-y-2">
-                      {retentionNotifications.filter(n => !n.isRead).map((notification) => (
+                      {openRetentionNotifications.map((notification) => (
                         <div key={notification.id} className="bg-white rounded p-3 border border-yellow-200">
-                          <p className="text-sm text-yellow-700 mb-2">{notification.message}</p>
+                          <p className="text-sm text-yellow-700 mb-2">
+                            <span className="font-medium">{AUDIT_LOG_TYPE_LABELS[notification.logType] || notification.logType}:</span> {notification.message}
+                          </p>
                           <div className="flex items-center justify-between">
                             <span className="text-xs text-yellow-600">
                               {notification.logsCount} log entries affected
+                              {notification.adminAction !== 'pending' && notification.decidedBy && (
+                                <> · {notification.adminAction === 'keep' ? 'Kept' : 'Archived and purged'} by {notification.decidedBy}</>
+                              )}
                             </span>
-                            <button
-                              onClick={() => {
-                                setSelectedNotification(notification);
-                                setShowRetentionModal(true);
-                              }}
-                              className="text-xs bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1 rounded"
-                            >
-                              Review & Decide
-                            </button>
+                            {notification.adminAction === 'pending' ? (
+                              <button
+                                onClick={() => {
+                                  setSelectedNotification(notification);
+                                  setShowRetentionModal(true);
+                                }}
+                                className="text-xs bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1 rounded"
+                              >
+                                Review & Decide
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => dismissRetentionNotification(notification.id)}
+                                className="text-xs text-yellow-700 hover:text-yellow-900 px-3 py-1"
+                              >
+                                Dismiss
+                              </button>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -553,13 +825,93 @@ export default function HistoryPage() {
               </div>
             )}
 
+            {/* Activity Log Filters */}
+            <div className="bg-white border rounded-lg shadow-sm p-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+                <input
+                  type="text"
+                  placeholder="Search action or description"
+                  value={activityDraft.search}
+                  onChange={(e) => setActivityDraft(prev => ({ ...prev, search: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && applyActivityFilters()}
+                  className="input-soft px-3 py-2 lg:col-span-2"
+                />
+                <input
+                  type="text"
+                  placeholder="Changed by (email)"
+                  value={activityDraft.userEmail}
+                  onChange={(e) => setActivityDraft(prev => ({ ...prev, userEmail: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && applyActivityFilters()}
+                  className="input-soft px-3 py-2"
+                />
+                <input
+                  type="text"
+                  placeholder="Affected user (email)"
+                  value={activityDraft.targetUser}
+                  onChange={(e) => setActivityDraft(prev => ({ ...prev, targetUser: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && applyActivityFilters()}
+                  className="input-soft px-3 py-2"
+                />
+                <select
+                  value={activityFilters.type || ''}
+                  onChange={(e) => setActivityFilters(prev => ({ ...prev, page: 1, type: (e.target.value || undefined) as AuditLogType | undefined }))}
+                  className="input-soft px-3 py-2"
+                >
+                  <option value="">All types</option>
+                  {(Object.keys(AUDIT_LOG_TYPE_LABELS) as AuditLogType[]).map(type => (
+                    <option key={type} value={type}>{AUDIT_LOG_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <select
+                  value={activityFilters.sortOrder || 'desc'}
+                  onChange={(e) => setActivityFilters(prev => ({ ...prev, page: 1, sortOrder: e.target.value as 'asc' | 'desc' }))}
+                  className="input-soft px-3 py-2"
+                >
+                  <option value="desc">Newest first</option>
+                  <option value="asc">Oldest first</option>
+                </select>
+              </div>
+              <div className="flex flex-wrap items-end gap-3 mt-3">
+                <div>
+                  <label className="text-xs text-gray-600 block">From</label>
+                  <input
+                    type="date"
+                    value={activityFilters.dateFrom || ''}
+                    onChange={(e) => setActivityFilters(prev => ({ ...prev, page: 1, dateFrom: e.target.value || undefined }))}
+                    className="input-soft px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-600 block">To</label>
+                  <input
+                    type="date"
+                    value={activityFilters.dateTo || ''}
+                    onChange={(e) => setActivityFilters(prev => ({ ...prev, page: 1, dateTo: e.target.value || undefined }))}
+                    className="input-soft px-3 py-2"
+                  />
+                </div>
+                <button onClick={applyActivityFilters} className="btn-primary text-sm">Apply</button>
+                <button onClick={clearActivityFilters} className="btn-ghost text-sm">Clear</button>
+                {activityPagination && (
+                  <span className="ml-auto text-sm text-gray-600">
+                    {activityPagination.totalCount} entr{activityPagination.totalCount === 1 ? 'y' : 'ies'}
+                  </span>
+                )}
+              </div>
+            </div>
+
             {/* Activity Logs Content */}
-            {activityLogs.length === 0 ? (
+            {isLoadingActivity && activityLogs.length === 0 ? (
+              <div className="bg-white border rounded p-8 flex items-center justify-center gap-2 text-gray-600">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Loading activity logs...
+              </div>
+            ) : activityLogs.length === 0 ? (
               <div className="bg-white dark:bg-gray-800 border dark:border-gray-700 rounded p-8 text-center">
                 <Activity className="w-12 h-12 mx-auto mb-4 text-gray-400 dark:text-gray-500" />
                 <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">No Activity Logs</h3>
                 <p className="text-gray-600 dark:text-gray-400">
-                  {error ? 'Failed to load activity logs. Please try again.' : 'No activity logs found for the last 6 months.'}
+                  {error ? 'Failed to load activity logs. Please try again.' : 'No activity logs match these filters.'}
                 </p>
                 {error && (
                   <button
@@ -572,44 +924,184 @@ export default function HistoryPage() {
               </div>
             ) : (
               <div className="bg-white dark:bg-gray-800 border dark:border-gray-700 rounded overflow-hidden">
-                <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
                   <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100">Recent Activities</h4>
+                  {pageVerification && (
+                    <span className={`text-xs flex items-center gap-1 ${pageVerification.valid ? 'text-green-700' : 'text-red-700'}`}>
+                      {pageVerification.valid ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+                      {pageVerification.valid ? 'Hashes on this page verified' : 'Some entries on this page failed verification'}
+                    </span>
+                  )}
                 </div>
                 <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {activityLogs.map((log, index) => (
-                    <div key={index} className="px-6 py-4">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-1">
-                            <div className={`w-2 h-2 rounded-full ${
-                              log.type === 'permission' ? 'bg-blue-500' :
-                              log.type === 'user_edit' ? 'bg-green-500' :
-                              log.type === 'login' ? 'bg-purple-500' :
-                              'bg-gray-500'
-                            }`}></div>
-                            <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                              {log.action || 'System Activity'}
-                            </span>
-                            <span className="text-xs text-gray-500 dark:text-gray-400">
-                              {formatRelativeTime(log.timestamp || new Date().toISOString())}
-                            </span>
-                          </div>
-                          <p className="text-sm text-gray-600 dark:text-gray-300">
-                            {log.description || 'No description available'}
-                          </p>
-                          {log.user && (
-                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                              By: {log.user.email || log.user.username || 'Unknown User'}
+                  {activityLogs.map((log) => {
+                    const linkStatus = pageVerification?.statuses[log.id];
+                    const tampered = linkStatus === 'hashMismatch' || linkStatus === 'chainGap';
+                    return (
+                      <div key={log.id} className={`px-6 py-4 ${tampered ? 'bg-red-50' : ''}`}>
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                              <div className={`w-2 h-2 rounded-full ${
+                                log.type === 'permission' ? 'bg-blue-500' :
+                                log.type === 'user_edit' ? 'bg-green-500' :
+                                log.type === 'login' ? 'bg-purple-500' :
+                                log.entity ? 'bg-amber-500' :
+                                'bg-gray-500'
+                              }`}></div>
+                              <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                                {log.action || 'System Activity'}
+                              </span>
+                              <span className="text-xs text-gray-500 dark:text-gray-400" title={new Date(log.timestamp).toLocaleString()}>
+                                {formatRelativeTime(log.timestamp)}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-600 dark:text-gray-300">
+                              {log.description || 'No description available'}
                             </p>
-                          )}
-                        </div>
-                        <div className="text-xs text-gray-400 dark:text-gray-500">
-                          {log.type || 'unknown'}
+                            {log.user && (
+                              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                By: {log.user.email || log.user.username || 'Unknown User'}
+                              </p>
+                            )}
+                            {tampered && linkStatus && (
+                              <p className="text-xs text-red-700 mt-1 flex items-center gap-1">
+                                <ShieldAlert className="w-3 h-3" />
+                                {AUDIT_LINK_STATUS_LABELS[linkStatus]}
+                              </p>
+                            )}
+                            {log.entity && (
+                              <div className="flex items-center gap-3 mt-1 text-xs">
+                                {log.details?.changes?.length > 0 && (
+                                  <button onClick={() => toggleLogExpanded(log.id)} className="text-indigo-600 hover:underline flex items-center gap-1">
+                                    <ChevronDown className={`w-3 h-3 transition-transform ${expandedLogIds.has(log.id) ? 'rotate-180' : ''}`} />
+                                    {log.details.changes.length} field change{log.details.changes.length !== 1 ? 's' : ''}
+                                  </button>
+                                )}
+                                {log.entity.sku && (
+                                  <button onClick={() => openTimeline(log.entity!.sku!)} className="text-indigo-600 hover:underline">
+                                    View {log.entity.sku} timeline
+                                  </button>
+                                )}
+                              </div>
+                            )}
+                            {expandedLogIds.has(log.id) && log.details?.changes && renderFieldChanges(log.details.changes)}
+                          </div>
+                          <div className="text-right text-xs text-gray-400 dark:text-gray-500 space-y-1">
+                            <div>{AUDIT_LOG_TYPE_LABELS[log.type] || log.type}</div>
+                            <div className="font-mono" title={`SHA-256 ${log.hash}`}>#{log.sequence} · {log.hash.slice(0, 10)}</div>
+                          </div>
                         </div>
                       </div>
+                    );
+                  })}
+                </div>
+                {activityPagination && activityPagination.totalPages > 1 && (
+                  <div className="px-6 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between text-sm text-gray-600">
+                    <span>Page {activityPagination.currentPage} of {activityPagination.totalPages}</span>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setActivityFilters(prev => ({ ...prev, page: (prev.page || 1) - 1 }))}
+                        disabled={!activityPagination.hasPrevPage || isLoadingActivity}
+                        className="btn-ghost p-1 disabled:opacity-50"
+                      >
+                        <ChevronLeft size={16} />
+                      </button>
+                      <button
+                        onClick={() => setActivityFilters(prev => ({ ...prev, page: (prev.page || 1) + 1 }))}
+                        disabled={!activityPagination.hasNextPage || isLoadingActivity}
+                        className="btn-ghost p-1 disabled:opacity-50"
+                      >
+                        <ChevronRight size={16} />
+                      </button>
                     </div>
-                  ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'entity-timeline' && (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Entity Timeline</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                Every recorded change to a product, listing or inventory item, oldest first
+              </p>
+            </div>
+
+            <div className="bg-white border rounded-lg shadow-sm p-4 flex flex-wrap items-center gap-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+                <input
+                  type="text"
+                  placeholder="Group or sub SKU"
+                  value={timelineSkuDraft}
+                  onChange={(e) => setTimelineSkuDraft(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && setTimelineSku(timelineSkuDraft.trim())}
+                  className="input-soft pl-10 pr-4 py-2 w-72 font-mono"
+                />
+              </div>
+              <button
+                onClick={() => setTimelineSku(timelineSkuDraft.trim())}
+                disabled={!timelineSkuDraft.trim() || isLoadingTimeline}
+                className="btn-primary text-sm disabled:opacity-50"
+              >
+                Show Timeline
+              </button>
+              {timelineSku && (
+                <button onClick={loadTimeline} disabled={isLoadingTimeline} className="btn-ghost text-sm flex items-center gap-2 disabled:opacity-50">
+                  <RefreshCw size={16} className={isLoadingTimeline ? 'animate-spin' : ''} />
+                  Refresh
+                </button>
+              )}
+            </div>
+
+            {!timelineSku ? (
+              <div className="bg-white border rounded p-8 text-center text-gray-600">
+                Enter a SKU to see everything that happened to it.
+              </div>
+            ) : isLoadingTimeline && timelineLogs.length === 0 ? (
+              <div className="bg-white border rounded p-8 flex items-center justify-center gap-2 text-gray-600">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Loading timeline...
+              </div>
+            ) : timelineLogs.length === 0 ? (
+              <div className="bg-white border rounded p-8 text-center text-gray-600">
+                No recorded changes for <span className="font-mono">{timelineSku}</span>.
+              </div>
+            ) : (
+              <div className="bg-white border rounded-lg shadow-sm">
+                <div className="border-b p-4 flex items-center justify-between">
+                  <div className="font-medium text-gray-800 font-mono">{timelineSku}</div>
+                  <span className="text-sm text-gray-600">
+                    {timelineLogs.length} event{timelineLogs.length !== 1 ? 's' : ''}
+                    {timelineTruncated && ' (oldest shown; narrow with the activity log filters for more)'}
+                  </span>
                 </div>
+                <ol className="p-4 space-y-4">
+                  {timelineLogs.map((log) => (
+                    <li key={log.id} className="relative pl-8">
+                      <span className="absolute left-0 top-0.5 w-6 h-6 rounded-full bg-gray-100 text-gray-600 flex items-center justify-center">
+                        {getActivityIcon(log.type)}
+                      </span>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium text-gray-900">{log.action}</span>
+                        <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600">
+                          {log.entity ? CATALOG_ENTITY_LABELS[log.entity.type] : AUDIT_LOG_TYPE_LABELS[log.type] || log.type}
+                        </span>
+                        <span className="text-xs text-gray-500">{new Date(log.timestamp).toLocaleString()}</span>
+                        <span className="text-xs text-gray-500">by {log.user?.email || 'Unknown User'}</span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">{log.description}</p>
+                      {log.details?.changes?.length > 0 && renderFieldChanges(log.details.changes)}
+                      {log.details?.fileName && (
+                        <p className="text-xs text-gray-500 mt-1">File: {log.details.fileName}{log.details.jobId && ` · Job ${log.details.jobId}`}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
               </div>
             )}
           </div>
@@ -768,22 +1260,25 @@ export default function HistoryPage() {
 
               <div className="mb-4">
                 <p className="text-sm text-gray-600">
-                  Please decide what to do with logs that have exceeded the 6-month retention period:
+                  Please decide what to do with {AUDIT_LOG_TYPE_LABELS[selectedNotification.logType]?.toLowerCase() || 'these'} logs that have exceeded their retention period.
+                  Deleted logs are written to a downloadable archive first.
                 </p>
               </div>
 
               <div className="flex space-x-3">
                 <button
                   onClick={() => handleRetentionDecision(selectedNotification.id, 'keep')}
-                  className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded text-sm font-medium"
+                  disabled={isDecidingRetention}
+                  className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded text-sm font-medium disabled:opacity-50"
                 >
-                  Keep Logs (Extend 6 months)
+                  Keep Logs (Extend {getPolicy(selectedNotification.logType)?.retentionMonths ?? 'one period'}{getPolicy(selectedNotification.logType) ? ' months' : ''})
                 </button>
                 <button
                   onClick={() => handleRetentionDecision(selectedNotification.id, 'delete')}
-                  className="flex-1 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded text-sm font-medium"
+                  disabled={isDecidingRetention}
+                  className="flex-1 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded text-sm font-medium disabled:opacity-50"
                 >
-                  Delete Old Logs
+                  {isDecidingRetention ? 'Archiving...' : 'Archive & Delete Old Logs'}
                 </button>
               </div>
 
@@ -805,3 +1300,11 @@ export default function HistoryPage() {
     </SettingsLayout>
   );
 }
+
+export default function HistoryPage() {
+  return (
+    <React.Suspense fallback={<div className="flex justify-center py-6"><div className="loader w-6 h-6"></div></div>}>
+      <HistoryPageContent />
+    </React.Suspense>
+  );
+}
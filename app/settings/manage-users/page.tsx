@@ -1,14 +1,17 @@
 "use client";
 import SettingsLayout from "../_components/SettingsLayout";
 import React from "react";
-import { Pencil, Trash2, Eye, EyeOff, AlertCircle, RefreshCw, Search, CheckCircle } from "lucide-react";
+import { Pencil, Trash2, Eye, EyeOff, AlertCircle, RefreshCw, Search, CheckCircle, ShieldCheck, ShieldOff, MonitorSmartphone, X, KeyRound } from "lucide-react";
 import { AdminService, AdminUtils } from "../../lib/admin";
-import { useAuth, AuthService } from "../../lib/auth";
+import { useAuth, useCanAccess, AuthService, TwoFactorService, InvitationsService, type UserRole, type TwoFactorPolicy, type Invitation } from "../../lib/auth";
+import { RolesService, type Role } from "../../lib/roles";
 import type { DetailedUser } from "../../lib/admin/types";
 import AppleToggle from "../../components/AppleToggle";
 import { AccessControlService, type Brand, type Marketplace, type ShippingPlatform } from "../../lib/access-control";
-import { activityLogger } from "../../lib/activity-logger";
 import DeleteUserModal from "../../components/DeleteUserModal";
+import ActiveSessionsPanel from "../_components/ActiveSessionsPanel";
+import InviteUserModal from "../_components/InviteUserModal";
+import PendingInvitations from "../_components/PendingInvitations";
 import { validatePassword, getPasswordStrengthColor, getPasswordStrengthText } from "../../lib/utils/passwordValidation";
 // import { usePermissionsStore } from "../../lib/stores/permissionsStore"; // No longer needed
 
@@ -42,6 +45,7 @@ function randomAvatar() {
 export default function ManageUsersPage() {
   // Authentication context
   const { state: authState, logout } = useAuth();
+  const canManageUsers = useCanAccess(undefined, undefined, ['users:manage']);
   
   // Permissions store (no longer needed - using API data directly)
 
@@ -71,8 +75,13 @@ export default function ManageUsersPage() {
     username: "", 
     email: "", 
     password: "", 
-    role: 'USER' as 'USER' | 'ADMIN' 
+    role: 'USER' as UserRole 
   });
+
+  // Built-in and custom roles for the role picker
+  const [roles, setRoles] = React.useState<Role[]>([]);
+  const roleName = (key: string) => roles.find(role => role.key === key)?.name || key;
+  const selectedRole = roles.find(role => role.key === form.role);
   
   // Password validation state
   const [passwordValidation, setPasswordValidation] = React.useState(validatePassword(""));
@@ -81,6 +90,11 @@ export default function ManageUsersPage() {
   
   const [showAccessFor, setShowAccessFor] = React.useState<DetailedUser | null>(null);
   const [confirmDelete, setConfirmDelete] = React.useState<DetailedUser | null>(null);
+  const [sessionsFor, setSessionsFor] = React.useState<DetailedUser | null>(null);
+
+  // Invitations
+  const [showInvite, setShowInvite] = React.useState(false);
+  const [invitations, setInvitations] = React.useState<Invitation[]>([]);
   const [isSubmitting, setIsSubmitting] = React.useState(false);
 
   // Toggle states for View Access modal
@@ -101,6 +115,10 @@ export default function ManageUsersPage() {
   const [userToDelete, setUserToDelete] = React.useState<DetailedUser | null>(null);
   const [isDeleting, setIsDeleting] = React.useState(false);
 
+  // Two-factor policy state
+  const [twoFactorPolicy, setTwoFactorPolicy] = React.useState<TwoFactorPolicy | null>(null);
+  const [isUpdatingPolicy, setIsUpdatingPolicy] = React.useState(false);
+
   // Mock data removed - now using actual API data
 
   // Initialize toggle states when user is selected
@@ -192,6 +210,15 @@ export default function ManageUsersPage() {
     if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
       loadUsers();
       loadAvailableItems();
+      RolesService.getRoles(authState.accessToken)
+        .then(setRoles)
+        .catch(error => console.error('Failed to load roles:', error));
+      TwoFactorService.getPolicy(authState.accessToken)
+        .then(setTwoFactorPolicy)
+        .catch(error => console.error('Failed to load two-factor policy:', error));
+      InvitationsService.getInvitations(authState.accessToken)
+        .then(setInvitations)
+        .catch(error => console.error('Failed to load invitations:', error));
     }
   }, [loadUsers, loadAvailableItems, authState.isAuthenticated, authState.accessToken, authState.isLoading]);
 
@@ -292,7 +319,6 @@ export default function ManageUsersPage() {
       console.log('🔍 Update User: Form data:', form);
       
       const changes: { field: string; oldValue: any; newValue: any }[] = [];
-      const adminUser = { email: authState.user?.email || 'unknown', username: authState.user?.username };
 
       // Update username if changed
       if (!currentUser) {
@@ -356,16 +382,6 @@ export default function ManageUsersPage() {
         console.log('✅ Update User: Role updated successfully');
       }
 
-      // Log the activity if there were changes
-      if (changes.length > 0) {
-        activityLogger.logUserEdit(
-          currentUser.email,
-          getDisplayUsername(currentUser),
-          changes,
-          adminUser
-        );
-      }
-
       // Show warning if username update was skipped
       if (currentUsername !== form.username && changes.length === 0) {
         console.log('⚠️ No changes were made - username update was skipped');
@@ -413,19 +429,6 @@ export default function ManageUsersPage() {
       // Call delete API
       await AdminService.deleteUser(user.id, authState.accessToken);
       
-      // Log the deletion activity
-      const adminUser = { 
-        email: authState.user?.email || 'unknown', 
-        username: authState.user?.username || 'unknown' 
-      };
-      
-      activityLogger.logUserEdit(
-        user.email,
-        getDisplayUsername(user),
-        [{ field: 'account', oldValue: 'active', newValue: 'deleted' }],
-        adminUser
-      );
-
       // Remove user from local state
       setUsers(prev => prev.filter(u => u.id !== user.id));
       
@@ -443,6 +446,73 @@ export default function ManageUsersPage() {
     }
   };
 
+  /**
+   * Require or stop requiring two-factor authentication for all users
+   */
+  const handleTwoFactorPolicyChange = async (required: boolean) => {
+    if (!authState.accessToken) return;
+    const usersWithout = users.filter(user => !user.twoFactorEnabled).length;
+    if (required && !confirm(`Require two-factor authentication for everyone? ${usersWithout} user${usersWithout !== 1 ? 's' : ''} without it will have to set it up at their next sign-in.`)) {
+      return;
+    }
+
+    try {
+      setIsUpdatingPolicy(true);
+      setError(null);
+      const policy = await TwoFactorService.updatePolicy(required, authState.accessToken);
+      setTwoFactorPolicy(policy);
+
+      setSuccessMessage(required ? 'Two-factor authentication is now required for all users' : 'Two-factor authentication is now optional');
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (error: any) {
+      console.error('❌ Failed to update two-factor policy:', error);
+      setError(`Failed to update two-factor policy: ${error.message || 'Unknown error'}`);
+    } finally {
+      setIsUpdatingPolicy(false);
+    }
+  };
+
+  /**
+   * Email a user a one-time link to choose a new password
+   */
+  const handleSendPasswordReset = async (user: DetailedUser) => {
+    if (!authState.accessToken) return;
+    if (!confirm(`Email ${user.email} a link to choose a new password?`)) return;
+
+    try {
+      setError(null);
+      await InvitationsService.sendPasswordReset(user.id, authState.accessToken);
+
+      setSuccessMessage(`Password reset link sent to ${user.email}`);
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (error: any) {
+      console.error('❌ Failed to send password reset:', error);
+      setError(`Failed to send password reset link: ${error.message || 'Unknown error'}`);
+    }
+  };
+
+  /**
+   * Remove a user's authenticator and recovery codes (e.g. lost phone)
+   */
+  const handleResetTwoFactor = async (user: DetailedUser) => {
+    if (!authState.accessToken) return;
+    if (!confirm(`Reset two-factor authentication for ${user.email}? Their authenticator and recovery codes stop working${twoFactorPolicy?.required ? ' and they must set up 2FA again at their next sign-in' : ''}.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await TwoFactorService.resetForUser(user.id, authState.accessToken);
+
+      setUsers(prev => prev.map(u => u.id === user.id ? { ...u, twoFactorEnabled: false } : u));
+      setSuccessMessage(`Two-factor authentication was reset for ${user.email}`);
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (error: any) {
+      console.error('❌ Failed to reset two-factor authentication:', error);
+      setError(`Failed to reset two-factor authentication: ${error.message || 'Unknown error'}`);
+    }
+  };
+
   /**
    * Get username from user object (uses actual username field from API)
    */
@@ -475,11 +545,6 @@ export default function ManageUsersPage() {
     try {
       console.log('Calling toggleBrandAccess...');
       
-      // Get current state before toggle
-      const currentState = brandAccess[brandId];
-      const brand = availableBrands.find(b => b.id === brandId);
-      const brandName = brand?.name || `Brand ${brandId}`;
-      
       // @ts-ignore - Temporary workaround for TypeScript issue
       await AdminService.toggleBrandAccess(userId, brandId, authState.accessToken);
       
@@ -489,16 +554,6 @@ export default function ManageUsersPage() {
         [brandId]: !prev[brandId]
       }));
       
-      // Log the activity
-      const adminUser = { email: authState.user?.email || 'unknown', username: authState.user?.username };
-      activityLogger.logPermissionChange(
-        showAccessFor.email,
-        'brand',
-        brandName,
-        !currentState ? 'granted' : 'revoked',
-        adminUser
-      );
-      
       // Reload users to get updated data
       await loadUsers();
     } catch (error: any) {
@@ -519,11 +574,6 @@ export default function ManageUsersPage() {
     setIsToggling(prev => ({ ...prev, [toggleKey]: true }));
     
     try {
-      // Get current state before toggle
-      const currentState = marketplaceAccess[marketplaceId];
-      const marketplace = availableMarketplaces.find(m => m.id === marketplaceId);
-      const marketplaceName = marketplace?.name || `Marketplace ${marketplaceId}`;
-      
       // @ts-ignore - Temporary workaround for TypeScript issue
       await AdminService.toggleMarketplaceAccess(userId, marketplaceId, authState.accessToken);
       
@@ -533,16 +583,6 @@ export default function ManageUsersPage() {
         [marketplaceId]: !prev[marketplaceId]
       }));
       
-      // Log the activity
-      const adminUser = { email: authState.user?.email || 'unknown', username: authState.user?.username };
-      activityLogger.logPermissionChange(
-        showAccessFor.email,
-        'marketplace',
-        marketplaceName,
-        !currentState ? 'granted' : 'revoked',
-        adminUser
-      );
-      
       // Reload users to get updated data
       await loadUsers();
     } catch (error: any) {
@@ -563,11 +603,6 @@ export default function ManageUsersPage() {
     setIsToggling(prev => ({ ...prev, [toggleKey]: true }));
     
     try {
-      // Get current state before toggle
-      const currentState = shippingAccess[shippingId];
-      const shipping = availableShipping.find(s => s.id === shippingId);
-      const shippingName = shipping?.name || `Shipping ${shippingId}`;
-      
       // @ts-ignore - Temporary workaround for TypeScript issue
       await AdminService.toggleShippingAccess(userId, shippingId, authState.accessToken);
       
@@ -577,16 +612,6 @@ export default function ManageUsersPage() {
         [shippingId]: !prev[shippingId]
       }));
       
-      // Log the activity
-      const adminUser = { email: authState.user?.email || 'unknown', username: authState.user?.username };
-      activityLogger.logPermissionChange(
-        showAccessFor.email,
-        'shipping',
-        shippingName,
-        !currentState ? 'granted' : 'revoked',
-        adminUser
-      );
-      
       // Reload users to get updated data
       await loadUsers();
     } catch (error: any) {
@@ -620,6 +645,15 @@ export default function ManageUsersPage() {
   };
 
 
+  if (!authState.isLoading && !canManageUsers) {
+    return (
+      <SettingsLayout>
+        <h2 className="text-xl font-semibold text-gray-800">Manage Users</h2>
+        <div className="text-sm text-gray-600">You need the “Manage users” permission to view this page.</div>
+      </SettingsLayout>
+    );
+  }
+
   return (
     <SettingsLayout>
       <div className="space-y-6">
@@ -654,11 +688,11 @@ export default function ManageUsersPage() {
               <span className="hidden sm:inline">Refresh</span>
             </button>
             <button 
-              onClick={() => setOpen(true)} 
+              onClick={() => setShowInvite(true)} 
               className="btn-primary text-sm px-4 py-2"
               disabled={isLoading}
             >
-              Create New User
+              Invite User
             </button>
           </div>
         </div>
@@ -698,6 +732,30 @@ export default function ManageUsersPage() {
           </div>
         )}
 
+        {/* Two-Factor Policy */}
+        {twoFactorPolicy && (
+          <div className="card p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <div className="font-medium text-gray-800 flex items-center gap-2">
+                <ShieldCheck size={16} className="text-green-600" />
+                Require two-factor authentication
+              </div>
+              <div className="text-sm text-gray-600">
+                Users without an authenticator app must set one up at their next sign-in.
+                {!isLoading && users.length > 0 && (
+                  <> {users.filter(user => user.twoFactorEnabled).length} of {users.length} users have 2FA enabled.</>
+                )}
+              </div>
+            </div>
+            <AppleToggle
+              checked={twoFactorPolicy.required}
+              onChange={handleTwoFactorPolicyChange}
+              disabled={isUpdatingPolicy}
+              size="md"
+            />
+          </div>
+        )}
+
         {/* Loading State */}
         {isLoading ? (
           <div className="card p-8 text-center">
@@ -731,7 +789,7 @@ export default function ManageUsersPage() {
                       <div className="text-xs text-gray-500 flex items-center gap-2">
                         {/* <span className={`inline-block w-2 h-2 rounded-full `}></span> */}
                         {/* <span className={`inline-block w-2 h-2 rounded-full ${user.role === 'ADMIN' ? 'bg-purple-500' : 'bg-blue-500'}`}></span> */}
-                        {user.role}
+                        {roleName(user.role)}
                       </div>
                     </div>
                   </td>
@@ -749,6 +807,11 @@ export default function ManageUsersPage() {
                     ) : (
                       <span className="text-gray-500 text-sm">Offline</span>
                     )}
+                    {user.twoFactorEnabled ? (
+                      <div className="text-xs text-green-700">2FA on</div>
+                    ) : twoFactorPolicy?.required ? (
+                      <div className="text-xs text-amber-600">2FA setup pending</div>
+                    ) : null}
                   </td>
                   <td className="py-3 px-4">
                     <div className="flex gap-1">
@@ -780,6 +843,32 @@ export default function ManageUsersPage() {
                       >
                         <Pencil size={14} />
                       </button>
+                      <button 
+                        title="Send password reset link" 
+                        aria-label="Send password reset link" 
+                        onClick={() => handleSendPasswordReset(user)} 
+                        className="inline-flex items-center justify-center border rounded p-1 text-xs hover:bg-gray-50"
+                      >
+                        <KeyRound size={14} />
+                      </button>
+                      <button 
+                        title="Sessions" 
+                        aria-label="Sessions" 
+                        onClick={() => setSessionsFor(user)} 
+                        className="inline-flex items-center justify-center border rounded p-1 text-xs hover:bg-gray-50"
+                      >
+                        <MonitorSmartphone size={14} />
+                      </button>
+                      {user.twoFactorEnabled && (
+                        <button 
+                          title="Reset 2FA" 
+                          aria-label="Reset 2FA" 
+                          onClick={() => handleResetTwoFactor(user)} 
+                          className="inline-flex items-center justify-center border rounded p-1 text-xs hover:bg-amber-50 text-amber-600"
+                        >
+                          <ShieldOff size={14} />
+                        </button>
+                      )}
                       
                       <button 
                         title="Delete" 
@@ -802,7 +891,7 @@ export default function ManageUsersPage() {
                     {searchTerm 
                       ? 'No users match your search criteria.' 
                       : authState.user?.role === 'ADMIN' 
-                        ? 'Click Create New User to get started.' 
+                        ? 'Click Invite User to get started.' 
                         : 'Contact your administrator to add users.'
                     }
                   </td>
@@ -813,6 +902,41 @@ export default function ManageUsersPage() {
           </div>
         )}
 
+        <PendingInvitations
+          invitations={invitations}
+          roleName={roleName}
+          onChange={setInvitations}
+          onError={setError}
+        />
+
+        {showInvite && (
+          <InviteUserModal
+            roles={roles}
+            existingEmails={users.map(user => user.email)}
+            onInvited={(invitation) => {
+              setInvitations(prev => [invitation, ...prev]);
+              setShowInvite(false);
+              setSuccessMessage(`Invitation sent to ${invitation.email}`);
+              setTimeout(() => setSuccessMessage(null), 3000);
+            }}
+            onClose={() => setShowInvite(false)}
+          />
+        )}
+
+        {sessionsFor && (
+          <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 p-4">
+            <div className="card p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between mb-4">
+                <div className="text-lg font-semibold text-gray-800">Sessions · {getDisplayUsername(sessionsFor)}</div>
+                <button className="text-gray-400 hover:text-red-500 transition-colors" onClick={() => { setSessionsFor(null); loadUsers(); }}>
+                  <X size={20} />
+                </button>
+              </div>
+              <ActiveSessionsPanel user={sessionsFor} />
+            </div>
+          </div>
+        )}
+
         {open && (
           <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
             <form onSubmit={handleRegister} className="card p-6 w-full max-w-md space-y-4">
@@ -908,15 +1032,24 @@ export default function ManageUsersPage() {
                 <label className="text-xs text-gray-600">Role</label>
                 <select 
                   value={form.role} 
-                  onChange={(e)=>setForm({...form, role: e.target.value as 'USER' | 'ADMIN'})} 
+                  onChange={(e)=>setForm({...form, role: e.target.value})} 
                   className="mt-1 w-full border rounded px-3 py-2 text-sm"
                   disabled={isSubmitting}
                 >
-                  <option value="USER">User</option>
-                  <option value="ADMIN">Admin</option>
+                  {roles.length === 0 ? (
+                    <>
+                      <option value="USER">User</option>
+                      <option value="ADMIN">Admin</option>
+                    </>
+                  ) : (
+                    roles.map(role => <option key={role.key} value={role.key}>{role.name}</option>)
+                  )}
                 </select>
                 <div className="text-xs text-gray-500 mt-1">
-                  {form.role === 'ADMIN' ? 'Full access to all features' : 'Limited access based on permissions'}
+                  {form.role === 'ADMIN'
+                    ? 'Full access to all features'
+                    : selectedRole?.description || 'Limited access based on permissions'}
+                  {form.role !== 'ADMIN' && selectedRole && ` · ${selectedRole.permissions.length} permission${selectedRole.permissions.length !== 1 ? 's' : ''}`}
                 </div>
               </div>
               <div className="flex gap-2 justify-end">
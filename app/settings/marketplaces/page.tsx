@@ -10,7 +10,8 @@ import UnifiedAddNew from '../../components/UnifiedAddNew';
 import DeleteConfirmationModal from '../../components/DeleteConfirmationModal';
 
 export default function MarketplacesPage() {
-  const { state: authState, isAdmin } = useAuth();
+  const { state: authState, can } = useAuth();
+  const canManage = can('catalog-settings:manage');
   
   // API data state
   const [marketplaces, setMarketplaces] = React.useState<Marketplace[]>([]);
@@ -87,7 +88,7 @@ export default function MarketplacesPage() {
   // Create marketplace
   const handleCreateMarketplace = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!authState.accessToken || !isAdmin()) return;
+    if (!authState.accessToken || !canManage) return;
 
     try {
       setIsSubmitting(true);
@@ -106,7 +107,7 @@ export default function MarketplacesPage() {
   // Update marketplace
   const handleUpdateMarketplace = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!authState.accessToken || !isAdmin() || !selectedMarketplace) return;
+    if (!authState.accessToken || !canManage || !selectedMarketplace) return;
 
     try {
       setIsSubmitting(true);
@@ -125,7 +126,7 @@ export default function MarketplacesPage() {
 
   // Delete marketplace
   const handleDeleteMarketplace = async () => {
-    if (!authState.accessToken || !isAdmin() || !selectedMarketplace) return;
+    if (!authState.accessToken || !canManage || !selectedMarketplace) return;
 
     try {
       setIsSubmitting(true);
@@ -178,7 +179,7 @@ export default function MarketplacesPage() {
 
   // Create multiple marketplaces
   const handleBulkCreate = async () => {
-    if (!authState.accessToken || !isAdmin() || bulkMarketplaces.length === 0) return;
+    if (!authState.accessToken || !canManage || bulkMarketplaces.length === 0) return;
 
     try {
       setIsSubmitting(true);
@@ -197,7 +198,7 @@ export default function MarketplacesPage() {
 
   // Handle file upload
   const handleFileUpload = async () => {
-    if (!authState.accessToken || !isAdmin() || !uploadFile) return;
+    if (!authState.accessToken || !canManage || !uploadFile) return;
 
     try {
       setIsSubmitting(true);
@@ -299,7 +300,7 @@ export default function MarketplacesPage() {
               <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
               <span className="hidden pl-1 sm:inline">Refresh</span>
             </Button>
-            {isAdmin() && (
+            {canManage && (
               <UnifiedAddNew
                 platformType="marketplace"
                 onAddMarketplace={() => setShowCreateModal(true)}
@@ -350,7 +351,7 @@ export default function MarketplacesPage() {
                       </span>
                     </div>
                   </div>
-                  {isAdmin() && (
+                  {canManage && (
                     <div className="flex gap-1">
                       <button 
                         onClick={() => openEditModal(marketplace)}
@@ -389,7 +390,7 @@ export default function MarketplacesPage() {
                 <p className="text-gray-600">
                   {searchTerm 
                     ? 'No marketplaces match your search criteria.' 
-                    : isAdmin() 
+                    : canManage 
                       ? 'Get started by adding your first marketplace.' 
                       : 'No marketplaces are available to you.'
                   }
@@ -0,0 +1,722 @@
+"use client";
+
+import React from 'react';
+import SettingsLayout from "../_components/SettingsLayout";
+import { DollarSign, AlertCircle, Plus, Edit, Trash2, Save, Check, X, Play, RefreshCw } from 'lucide-react';
+import { useAuth } from '../../lib/auth';
+import { type PricingRule, type PriceRounding } from '../../lib/settings/api';
+import { BrandsService, type Brand } from '../../lib/brands/api';
+import { MarketplacesService, type Marketplace } from '../../lib/marketplaces/api';
+import { ReportsService } from '../../lib/reports';
+import {
+  PricingService,
+  createPricingRuleId,
+  PRICE_ROUNDING_LABELS,
+  REPRICE_SKIP_LABELS,
+  isValidRule,
+  calculatePrice,
+  buildRepricePreview,
+  type RepriceRow,
+  type RepriceResult,
+} from '../../lib/pricing';
+import { Button } from '../../components/ui/button';
+
+const EMPTY_RULE: Omit<PricingRule, 'id'> = {
+  name: '',
+  brandId: null,
+  marketplaceId: null,
+  commissionPercent: 15,
+  targetMarginPercent: 20,
+  rounding: 'up_99',
+  capAtMsrp: true,
+  enabled: true,
+};
+
+// Example cost used to show what a rule produces while editing
+const EXAMPLE_COST = 100;
+
+const formatMoney = (value: number | null) =>
+  value === null ? '—' : `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function PricingSettingsPage() {
+  const { state: authState, can } = useAuth();
+  const canManage = can('pricing:manage');
+
+  // Rules state
+  const [rules, setRules] = React.useState<PricingRule[]>([]);
+  const [originalRules, setOriginalRules] = React.useState<PricingRule[]>([]);
+  const [rulesLoading, setRulesLoading] = React.useState(true);
+  const [rulesError, setRulesError] = React.useState<string | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [brands, setBrands] = React.useState<Brand[]>([]);
+  const [marketplaces, setMarketplaces] = React.useState<Marketplace[]>([]);
+
+  // Rule editor state
+  const [editingRuleId, setEditingRuleId] = React.useState<string | null>(null);
+  const [ruleForm, setRuleForm] = React.useState<Omit<PricingRule, 'id'> | null>(null);
+
+  // Reprice preview state
+  const [previewMarketplaceId, setPreviewMarketplaceId] = React.useState<number | null>(null);
+  const [previewBrandId, setPreviewBrandId] = React.useState<number | null>(null);
+  const [previewRows, setPreviewRows] = React.useState<RepriceRow[] | null>(null);
+  const [previewLoading, setPreviewLoading] = React.useState(false);
+  const [previewError, setPreviewError] = React.useState<string | null>(null);
+  const [onlyChanges, setOnlyChanges] = React.useState(true);
+  const [selectedIds, setSelectedIds] = React.useState<Set<number>>(new Set());
+  const [applyProgress, setApplyProgress] = React.useState<{ done: number; total: number } | null>(null);
+  const [applyResult, setApplyResult] = React.useState<RepriceResult | null>(null);
+
+  const loadRules = React.useCallback(async () => {
+    if (!authState.accessToken) {
+      setRulesError('No access token available');
+      setRulesLoading(false);
+      return;
+    }
+
+    try {
+      setRulesLoading(true);
+      setRulesError(null);
+
+      const [pricingRules, brandsResponse, marketplacesResponse] = await Promise.all([
+        PricingService.getPricingRules(authState.accessToken),
+        BrandsService.getBrands(authState.accessToken, { limit: 1000, sortBy: 'name', sortOrder: 'asc' }),
+        MarketplacesService.getAllMarketplaces(authState.accessToken),
+      ]);
+
+      setRules(pricingRules);
+      setOriginalRules(pricingRules);
+      setBrands(brandsResponse.brands || []);
+      setMarketplaces(marketplacesResponse.marketplaces || []);
+    } catch (error: any) {
+      console.error('Failed to load pricing rules:', error);
+
+      if (error.message?.includes('Session expired') || error.message?.includes('Token expired')) {
+        window.location.href = '/login';
+        return;
+      }
+
+      setRulesError(error.message || 'Failed to load pricing rules');
+    } finally {
+      setRulesLoading(false);
+    }
+  }, [authState.accessToken]);
+
+  React.useEffect(() => {
+    if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      loadRules();
+    }
+  }, [loadRules, authState.isAuthenticated, authState.accessToken, authState.isLoading]);
+
+  const rulesChanged = JSON.stringify(rules) !== JSON.stringify(originalRules);
+
+  const brandName = (brandId: number | null) =>
+    brandId === null ? 'All brands' : brands.find(b => b.id === brandId)?.name || `Brand #${brandId}`;
+
+  const marketplaceName = (marketplaceId: number | null) =>
+    marketplaceId === null ? 'All marketplaces' : marketplaces.find(m => m.id === marketplaceId)?.name || `Marketplace #${marketplaceId}`;
+
+  // Rule editor
+  const startNewRule = () => {
+    setEditingRuleId('new');
+    setRuleForm({ ...EMPTY_RULE });
+  };
+
+  const startEditingRule = (rule: PricingRule) => {
+    const { id, ...rest } = rule;
+    setEditingRuleId(id);
+    setRuleForm(rest);
+  };
+
+  const cancelEditing = () => {
+    setEditingRuleId(null);
+    setRuleForm(null);
+  };
+
+  const saveRuleForm = () => {
+    if (!ruleForm) return;
+
+    if (ruleForm.name.trim() === '') {
+      setRulesError('Rule name cannot be empty');
+      return;
+    }
+    if (!isValidRule(ruleForm)) {
+      setRulesError(REPRICE_SKIP_LABELS.invalidRule);
+      return;
+    }
+
+    const rule = { ...ruleForm, name: ruleForm.name.trim() };
+    setRules(editingRuleId === 'new'
+      ? [...rules, { id: createPricingRuleId(), ...rule }]
+      : rules.map(r => r.id === editingRuleId ? { ...r, ...rule } : r));
+    setRulesError(null);
+    cancelEditing();
+  };
+
+  const deleteRule = (ruleId: string) => {
+    setRules(rules.filter(r => r.id !== ruleId));
+    if (editingRuleId === ruleId) cancelEditing();
+  };
+
+  const toggleRule = (ruleId: string) => {
+    setRules(rules.map(r => r.id === ruleId ? { ...r, enabled: !r.enabled } : r));
+  };
+
+  const handleSaveRules = async () => {
+    if (!canManage) {
+      setRulesError('Your role does not allow changing pricing rules');
+      return;
+    }
+
+    if (!authState.accessToken) {
+      setRulesError('No access token available');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setRulesError(null);
+
+      const saved = await PricingService.savePricingRules(authState.accessToken, rules);
+      setRules(saved);
+      setOriginalRules(saved);
+
+      const successDiv = document.getElementById('pricing-success');
+      if (successDiv) {
+        successDiv.classList.remove('hidden');
+        setTimeout(() => successDiv.classList.add('hidden'), 3000);
+      }
+    } catch (error: any) {
+      console.error('Failed to save pricing rules:', error);
+      setRulesError(error.message || 'Failed to save pricing rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Reprice preview
+  const runPreview = async () => {
+    if (!authState.accessToken) return;
+
+    try {
+      setPreviewLoading(true);
+      setPreviewError(null);
+      setApplyResult(null);
+
+      const listings = await ReportsService.getAllListings(
+        authState.accessToken,
+        previewBrandId !== null ? { brandId: previewBrandId } : {}
+      );
+      const rows = buildRepricePreview(listings, rules, previewMarketplaceId);
+
+      setPreviewRows(rows);
+      setSelectedIds(new Set(rows.filter(row => row.change !== null && row.change !== 0).map(row => row.listingId)));
+    } catch (error: any) {
+      console.error('Failed to build reprice preview:', error);
+      setPreviewError(error.message || 'Failed to build reprice preview');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const applyPreview = async () => {
+    if (!authState.accessToken || !previewRows) return;
+
+    const rowsToApply = previewRows.filter(row => selectedIds.has(row.listingId) && row.calculation);
+    if (rowsToApply.length === 0) return;
+    if (!window.confirm(`Update the price of ${rowsToApply.length} listing${rowsToApply.length !== 1 ? 's' : ''}?`)) return;
+
+    try {
+      setPreviewError(null);
+      setApplyProgress({ done: 0, total: rowsToApply.length });
+
+      const result = await PricingService.applyReprice(authState.accessToken, rowsToApply, (done, total) =>
+        setApplyProgress({ done, total })
+      );
+
+      setApplyResult(result);
+      const failedIds = new Set(result.failed.map(f => f.listingId));
+      // Applied rows now carry their new price
+      setPreviewRows(previewRows.map(row =>
+        rowsToApply.includes(row) && !failedIds.has(row.listingId)
+          ? { ...row, oldPrice: row.newPrice!, change: 0 }
+          : row
+      ));
+      setSelectedIds(failedIds);
+    } catch (error: any) {
+      console.error('Failed to apply reprice:', error);
+      setPreviewError(error.message || 'Failed to apply reprice');
+    } finally {
+      setApplyProgress(null);
+    }
+  };
+
+  const visibleRows = (previewRows || []).filter(row => !onlyChanges || (row.change !== null && row.change !== 0));
+  const selectableRows = visibleRows.filter(row => row.calculation && row.change !== 0);
+  const allVisibleSelected = selectableRows.length > 0 && selectableRows.every(row => selectedIds.has(row.listingId));
+
+  const toggleSelected = (listingId: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(listingId)) {
+      next.delete(listingId);
+    } else {
+      next.add(listingId);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAllVisible = () => {
+    const next = new Set(selectedIds);
+    selectableRows.forEach(row => allVisibleSelected ? next.delete(row.listingId) : next.add(row.listingId));
+    setSelectedIds(next);
+  };
+
+  const previewSummary = previewRows ? {
+    total: previewRows.length,
+    increases: previewRows.filter(row => (row.change || 0) > 0).length,
+    decreases: previewRows.filter(row => (row.change || 0) < 0).length,
+    capped: previewRows.filter(row => row.calculation?.cappedAtMsrp).length,
+    belowCost: previewRows.filter(row => row.calculation?.belowCost).length,
+    skipped: previewRows.filter(row => row.skipReason).length,
+  } : null;
+
+  const exampleCalculation = ruleForm
+    ? calculatePrice(
+        { brandRealPrice: EXAMPLE_COST, brandMiscellaneous: 0, shippingPrice: 0, ecommerceMiscellaneous: 0, msrp: 0 },
+        { id: 'example', ...ruleForm }
+      )
+    : null;
+
+  return (
+    <SettingsLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+              <DollarSign size={28} className="text-indigo-600" />
+              Pricing Rules
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Calculate ecommerce prices per brand and marketplace, then preview a reprice run before applying it
+            </p>
+          </div>
+        </div>
+
+        {/* Section 1: Rules */}
+        <div className="bg-white border rounded-lg shadow-sm">
+          <div className="border-b p-4 flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Rules</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                Price = cost ÷ (1 − commission % − target margin %). The most specific rule wins: brand + marketplace, then brand, then marketplace, then all.
+              </p>
+            </div>
+            {canManage && (
+              <Button onClick={startNewRule} variant="outline" size="sm" disabled={editingRuleId !== null}>
+                <Plus size={16} className="mr-1" />
+                Add Rule
+              </Button>
+            )}
+          </div>
+
+          <div className="p-6 space-y-4">
+            {rulesLoading ? (
+              <div className="text-center py-8">
+                <div className="loader mx-auto mb-4"></div>
+                <div className="text-gray-600">Loading pricing rules...</div>
+              </div>
+            ) : (
+              <>
+                {rulesError && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+                    <AlertCircle size={20} className="text-red-500 flex-shrink-0" />
+                    <div>
+                      <div className="text-red-800 font-medium">Error</div>
+                      <div className="text-red-700 text-sm">{rulesError}</div>
+                    </div>
+                    <button
+                      onClick={() => setRulesError(null)}
+                      className="ml-auto text-red-500 hover:text-red-700"
+                    >
+                      ×
+                    </button>
+                  </div>
+                )}
+
+                <div id="pricing-success" className="hidden bg-green-50 border border-green-200 rounded-lg p-4 flex items-center gap-3">
+                  <Check size={20} className="text-green-500 flex-shrink-0" />
+                  <div className="text-green-800 font-medium">Pricing rules saved successfully!</div>
+                </div>
+
+                {/* Rule editor */}
+                {ruleForm && (
+                  <div className="border border-indigo-200 bg-indigo-50/40 rounded-lg p-4 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                        <input
+                          type="text"
+                          value={ruleForm.name}
+                          onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                          placeholder="e.g. Amazon default"
+                          autoFocus
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Brand</label>
+                        <select
+                          value={ruleForm.brandId ?? ''}
+                          onChange={(e) => setRuleForm({ ...ruleForm, brandId: e.target.value ? Number(e.target.value) : null })}
+                          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          <option value="">All brands</option>
+                          {brands.map(brand => (
+                            <option key={brand.id} value={brand.id}>{brand.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Marketplace</label>
+                        <select
+                          value={ruleForm.marketplaceId ?? ''}
+                          onChange={(e) => setRuleForm({ ...ruleForm, marketplaceId: e.target.value ? Number(e.target.value) : null })}
+                          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          <option value="">All marketplaces</option>
+                          {marketplaces.map(marketplace => (
+                            <option key={marketplace.id} value={marketplace.id}>{marketplace.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Commission %</label>
+                        <input
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          value={ruleForm.commissionPercent}
+                          onChange={(e) => setRuleForm({ ...ruleForm, commissionPercent: Number(e.target.value) })}
+                          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Target Margin %</label>
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={ruleForm.targetMarginPercent}
+                          onChange={(e) => setRuleForm({ ...ruleForm, targetMarginPercent: Number(e.target.value) })}
+                          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Rounding</label>
+                        <select
+                          value={ruleForm.rounding}
+                          onChange={(e) => setRuleForm({ ...ruleForm, rounding: e.target.value as PriceRounding })}
+                          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          {(Object.keys(PRICE_ROUNDING_LABELS) as PriceRounding[]).map(rounding => (
+                            <option key={rounding} value={rounding}>{PRICE_ROUNDING_LABELS[rounding]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-6">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={ruleForm.capAtMsrp}
+                          onChange={(e) => setRuleForm({ ...ruleForm, capAtMsrp: e.target.checked })}
+                        />
+                        Never price above MSRP
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={ruleForm.enabled}
+                          onChange={(e) => setRuleForm({ ...ruleForm, enabled: e.target.checked })}
+                        />
+                        Enabled
+                      </label>
+                      <span className="text-sm text-gray-600">
+                        Example: cost {formatMoney(EXAMPLE_COST)} → {exampleCalculation ? formatMoney(exampleCalculation.ecommercePrice) : REPRICE_SKIP_LABELS.invalidRule}
+                      </span>
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button onClick={saveRuleForm} size="sm">
+                        <Check size={16} className="mr-1" />
+                        {editingRuleId === 'new' ? 'Add' : 'Update'}
+                      </Button>
+                      <Button onClick={cancelEditing} variant="outline" size="sm">
+                        <X size={16} className="mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Rules table */}
+                {rules.length > 0 ? (
+                  <div className="border rounded-lg overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            {['Name', 'Brand', 'Marketplace', 'Commission', 'Margin', 'Rounding', 'MSRP Cap', 'Status'].map(header => (
+                              <th key={header} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                {header}
+                              </th>
+                            ))}
+                            {canManage && (
+                              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Actions
+                              </th>
+                            )}
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {rules.map(rule => (
+                            <tr key={rule.id} className={`hover:bg-gray-50 ${rule.enabled ? '' : 'opacity-60'}`}>
+                              <td className="px-4 py-3 text-sm font-medium text-gray-900">{rule.name}</td>
+                              <td className="px-4 py-3 text-sm text-gray-700">{brandName(rule.brandId)}</td>
+                              <td className="px-4 py-3 text-sm text-gray-700">{marketplaceName(rule.marketplaceId)}</td>
+                              <td className="px-4 py-3 text-sm text-gray-700">{rule.commissionPercent}%</td>
+                              <td className="px-4 py-3 text-sm text-gray-700">{rule.targetMarginPercent}%</td>
+                              <td className="px-4 py-3 text-sm text-gray-700">{PRICE_ROUNDING_LABELS[rule.rounding]}</td>
+                              <td className="px-4 py-3 text-sm text-gray-700">{rule.capAtMsrp ? 'Yes' : 'No'}</td>
+                              <td className="px-4 py-3 text-sm">
+                                <button
+                                  onClick={() => canManage && toggleRule(rule.id)}
+                                  disabled={!canManage}
+                                  className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${rule.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}
+                                >
+                                  {rule.enabled ? 'Enabled' : 'Disabled'}
+                                </button>
+                              </td>
+                              {canManage && (
+                                <td className="px-4 py-3 text-sm">
+                                  <div className="flex gap-2">
+                                    <button
+                                      onClick={() => startEditingRule(rule)}
+                                      className="p-1 hover:bg-gray-100 rounded text-gray-600"
+                                      title="Edit rule"
+                                    >
+                                      <Edit size={16} />
+                                    </button>
+                                    <button
+                                      onClick={() => deleteRule(rule.id)}
+                                      className="p-1 hover:bg-red-100 rounded text-red-600"
+                                      title="Delete rule"
+                                    >
+                                      <Trash2 size={16} />
+                                    </button>
+                                  </div>
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ) : !ruleForm && (
+                  <div className="text-center py-12">
+                    <DollarSign size={48} className="mx-auto text-gray-400 mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No pricing rules</h3>
+                    <p className="text-gray-600">Add a rule to calculate ecommerce prices automatically.</p>
+                  </div>
+                )}
+
+                {canManage && rulesChanged && (
+                  <div className="flex items-center gap-3">
+                    <Button onClick={handleSaveRules} disabled={isSaving}>
+                      <Save size={16} className="mr-2" />
+                      {isSaving ? 'Saving...' : 'Save Rules'}
+                    </Button>
+                    <Button onClick={() => { setRules(originalRules); cancelEditing(); }} variant="outline" disabled={isSaving}>
+                      Discard Changes
+                    </Button>
+                  </div>
+                )}
+
+                {!canManage && (
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+                    <AlertCircle size={16} className="inline mr-2" />
+                    Your role does not allow changing pricing rules
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Section 2: Reprice preview */}
+        <div className="bg-white border rounded-lg shadow-sm">
+          <div className="border-b p-4">
+            <h3 className="text-lg font-semibold text-gray-900">Reprice Listings</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Preview old vs new prices for every listing. Nothing changes until you apply the selected rows.
+            </p>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Price for marketplace</label>
+                <select
+                  value={previewMarketplaceId ?? ''}
+                  onChange={(e) => setPreviewMarketplaceId(e.target.value ? Number(e.target.value) : null)}
+                  className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Any (catch-all and brand rules only)</option>
+                  {marketplaces.map(marketplace => (
+                    <option key={marketplace.id} value={marketplace.id}>{marketplace.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Brand</label>
+                <select
+                  value={previewBrandId ?? ''}
+                  onChange={(e) => setPreviewBrandId(e.target.value ? Number(e.target.value) : null)}
+                  className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">All brands</option>
+                  {brands.map(brand => (
+                    <option key={brand.id} value={brand.id}>{brand.name}</option>
+                  ))}
+                </select>
+              </div>
+              <Button onClick={runPreview} disabled={previewLoading || rulesLoading || rules.length === 0}>
+                {previewLoading ? <RefreshCw size={16} className="mr-2 animate-spin" /> : <Play size={16} className="mr-2" />}
+                {previewLoading ? 'Calculating...' : 'Run Preview'}
+              </Button>
+            </div>
+
+            {previewError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                <AlertCircle size={16} className="inline mr-2" />
+                {previewError}
+              </div>
+            )}
+
+            {applyResult && (
+              <div className={`border rounded-lg p-3 text-sm ${applyResult.failed.length > 0 ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+                {applyResult.updated} listing{applyResult.updated !== 1 ? 's' : ''} repriced
+                {applyResult.failed.length > 0 && (
+                  <>
+                    , {applyResult.failed.length} failed:
+                    <ul className="list-disc ml-6 mt-1">
+                      {applyResult.failed.slice(0, 10).map(failure => (
+                        <li key={failure.listingId}>{failure.sku}: {failure.error}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+
+            {previewSummary && (
+              <>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-800">{previewSummary.total} listings</span>
+                  <span className="px-2 py-1 rounded-full bg-green-100 text-green-800">{previewSummary.increases} increases</span>
+                  <span className="px-2 py-1 rounded-full bg-red-100 text-red-800">{previewSummary.decreases} decreases</span>
+                  <span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800">{previewSummary.capped} capped at MSRP</span>
+                  <span className="px-2 py-1 rounded-full bg-orange-100 text-orange-800">{previewSummary.belowCost} below cost</span>
+                  <span className="px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">{previewSummary.skipped} skipped</span>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} />
+                    Only show price changes
+                  </label>
+                  {canManage && (
+                    <div className="flex items-center gap-3">
+                      {rulesChanged && (
+                        <span className="text-xs text-yellow-700">Save rules before applying</span>
+                      )}
+                      <Button
+                        onClick={applyPreview}
+                        disabled={selectedIds.size === 0 || rulesChanged || applyProgress !== null}
+                      >
+                        <Check size={16} className="mr-2" />
+                        {applyProgress
+                          ? `Applying ${applyProgress.done}/${applyProgress.total}...`
+                          : `Apply ${selectedIds.size} Change${selectedIds.size !== 1 ? 's' : ''}`}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="border rounded-lg overflow-hidden">
+                  <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          <th className="px-4 py-3 text-left">
+                            <input
+                              type="checkbox"
+                              checked={allVisibleSelected}
+                              onChange={toggleAllVisible}
+                              disabled={!canManage || selectableRows.length === 0}
+                            />
+                          </th>
+                          {['SKU', 'Title', 'Brand', 'Rule', 'Old Price', 'New Price', 'Change', 'Notes'].map(header => (
+                            <th key={header} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              {header}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {visibleRows.map(row => (
+                          <tr key={row.listingId} className="hover:bg-gray-50">
+                            <td className="px-4 py-3">
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.has(row.listingId)}
+                                onChange={() => toggleSelected(row.listingId)}
+                                disabled={!canManage || !row.calculation || row.change === 0}
+                              />
+                            </td>
+                            <td className="px-4 py-3 text-sm font-mono text-gray-900">{row.subSku || row.sku}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700 max-w-xs truncate" title={row.title}>{row.title}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{row.brand}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{row.ruleName || '—'}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{formatMoney(row.oldPrice)}</td>
+                            <td className="px-4 py-3 text-sm font-semibold text-indigo-600">{formatMoney(row.newPrice)}</td>
+                            <td className={`px-4 py-3 text-sm font-medium ${(row.change || 0) > 0 ? 'text-green-600' : (row.change || 0) < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                              {row.change === null ? '—' : `${row.change > 0 ? '+' : ''}${formatMoney(row.change)}`}
+                            </td>
+                            <td className="px-4 py-3 text-xs text-gray-600">
+                              {row.skipReason && REPRICE_SKIP_LABELS[row.skipReason]}
+                              {row.calculation?.cappedAtMsrp && <span className="block text-blue-700">Capped at MSRP</span>}
+                              {row.calculation?.belowCost && <span className="block text-orange-700">Below cost</span>}
+                            </td>
+                          </tr>
+                        ))}
+                        {visibleRows.length === 0 && (
+                          <tr>
+                            <td colSpan={9} className="px-4 py-8 text-center text-sm text-gray-500">
+                              No price changes for the selected listings
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </SettingsLayout>
+  );
+}
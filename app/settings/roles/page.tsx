@@ -0,0 +1,308 @@
+"use client";
+import SettingsLayout from "../_components/SettingsLayout";
+import React from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Lock, Users, AlertCircle } from "lucide-react";
+import { useAuth, useCanAccess } from "../../lib/auth";
+import {
+  RolesService,
+  ROLE_PERMISSION_GROUPS,
+  ROLE_TEMPLATES,
+  toRoleKey,
+  type Role,
+  type RoleInput,
+  type RolePermission,
+} from "../../lib/roles";
+
+const emptyForm: RoleInput = { name: "", description: "", permissions: [] };
+
+export default function RolesPage() {
+  const router = useRouter();
+  const { state: authState } = useAuth();
+  const canManageRoles = useCanAccess(undefined, undefined, ['roles:manage']);
+
+  const [roles, setRoles] = React.useState<Role[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = React.useState<string | null>(null);
+
+  // null = nothing selected, 0 = new role
+  const [selectedId, setSelectedId] = React.useState<number | null>(null);
+  const [form, setForm] = React.useState<RoleInput>(emptyForm);
+  const [saving, setSaving] = React.useState(false);
+
+  const selectedRole = roles.find(role => role.id === selectedId) || null;
+  const isAdminRole = selectedRole?.key === 'ADMIN';
+
+  const loadRoles = React.useCallback(async () => {
+    if (!authState.accessToken) return;
+    try {
+      setError(null);
+      setRoles(await RolesService.getRoles(authState.accessToken));
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to load roles';
+      setError(errorMessage);
+      if (errorMessage.includes('Session expired') || errorMessage.includes('Token expired')) {
+        router.push('/login');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [authState.accessToken, router]);
+
+  React.useEffect(() => {
+    if (authState.isAuthenticated && authState.accessToken && !authState.isLoading) {
+      loadRoles();
+    }
+  }, [loadRoles, authState.isAuthenticated, authState.accessToken, authState.isLoading]);
+
+  const selectRole = (role: Role) => {
+    setSelectedId(role.id);
+    setForm({ name: role.name, description: role.description, permissions: [...role.permissions] });
+    setSuccessMessage(null);
+  };
+
+  const startCreate = (template?: RoleInput) => {
+    setSelectedId(0);
+    setForm(template ? { ...template, permissions: [...template.permissions] } : emptyForm);
+    setSuccessMessage(null);
+  };
+
+  const togglePermission = (permission: RolePermission) => {
+    setForm(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter(p => p !== permission)
+        : [...prev.permissions, permission],
+    }));
+  };
+
+  const toggleGroup = (permissions: RolePermission[], enable: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      permissions: enable
+        ? Array.from(new Set([...prev.permissions, ...permissions]))
+        : prev.permissions.filter(p => !permissions.includes(p)),
+    }));
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!authState.accessToken || !authState.user) return;
+    if (!form.name.trim()) {
+      setError('Role name is required');
+      return;
+    }
+    if (selectedId === 0 && roles.some(role => role.key === toRoleKey(form.name))) {
+      setError(`A role with the key ${toRoleKey(form.name)} already exists`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const data = { ...form, name: form.name.trim(), description: form.description.trim() };
+      const saved = selectedId === 0
+        ? await RolesService.createRole(authState.accessToken, data)
+        : await RolesService.updateRole(authState.accessToken, selectedId!, data);
+
+      setRoles(prev => prev.some(role => role.id === saved.id)
+        ? prev.map(role => role.id === saved.id ? saved : role)
+        : [...prev, saved]);
+      selectRole(saved);
+      setSuccessMessage(`Role "${saved.name}" saved`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!authState.accessToken || !authState.user || !selectedRole) return;
+    if (selectedRole.userCount > 0) {
+      setError(`Reassign the ${selectedRole.userCount} user${selectedRole.userCount !== 1 ? 's' : ''} with this role before deleting it`);
+      return;
+    }
+    if (!confirm(`Delete the role "${selectedRole.name}"?`)) return;
+
+    try {
+      await RolesService.deleteRole(authState.accessToken, selectedRole.id);
+      setRoles(prev => prev.filter(role => role.id !== selectedRole.id));
+      setSelectedId(null);
+      setForm(emptyForm);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete role');
+    }
+  };
+
+  if (!authState.isLoading && !canManageRoles) {
+    return (
+      <SettingsLayout>
+        <h2 className="text-xl font-semibold text-gray-800">Roles</h2>
+        <div className="text-sm text-gray-600">You need the “Manage roles” permission to view this page.</div>
+      </SettingsLayout>
+    );
+  }
+
+  return (
+    <SettingsLayout>
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Roles</h2>
+          <p className="text-sm text-gray-600 mt-1">Decide what each role can do. Brand, marketplace and shipping access still limits which records users see.</p>
+        </div>
+        <button onClick={() => startCreate()} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm flex items-center gap-2">
+          <Plus size={16} /> New Role
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm px-3 py-2 rounded flex items-center gap-2">
+          <AlertCircle size={16} /> {error}
+          <button onClick={() => setError(null)} className="ml-auto text-red-500">×</button>
+        </div>
+      )}
+      {successMessage && (
+        <div className="bg-green-50 border border-green-200 text-green-700 text-sm px-3 py-2 rounded">{successMessage}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white border rounded-lg shadow-sm">
+          <div className="border-b p-4 font-medium text-gray-800">All Roles</div>
+          {loading ? (
+            <div className="p-4 text-sm text-gray-500">Loading roles...</div>
+          ) : (
+            <ul className="divide-y">
+              {roles.map(role => (
+                <li key={role.id}>
+                  <button
+                    onClick={() => selectRole(role)}
+                    className={`w-full text-left p-4 hover:bg-gray-50 ${selectedId === role.id ? 'bg-indigo-50' : ''}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-800">{role.name}</span>
+                      {role.isSystem && <Lock size={12} className="text-gray-400" />}
+                    </div>
+                    <div className="text-xs text-gray-500 font-mono">{role.key}</div>
+                    <div className="text-xs text-gray-500 flex items-center gap-3 mt-1">
+                      <span className="flex items-center gap-1"><Users size={12} /> {role.userCount}</span>
+                      <span>{role.key === 'ADMIN' ? 'All permissions' : `${role.permissions.length} permission${role.permissions.length !== 1 ? 's' : ''}`}</span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          {selectedId === null ? (
+            <div className="bg-white border rounded-lg shadow-sm p-8 text-center text-sm text-gray-600 space-y-3">
+              <div>Select a role to edit it, or start a new role from a template:</div>
+              <div className="flex flex-wrap justify-center gap-2">
+                {ROLE_TEMPLATES.map(template => (
+                  <button key={template.name} onClick={() => startCreate(template)} className="border rounded px-3 py-1.5 text-gray-700 hover:bg-gray-50">
+                    {template.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={save} className="bg-white border rounded-lg shadow-sm">
+              <div className="border-b p-4 flex items-center justify-between">
+                <div className="font-medium text-gray-800">{selectedId === 0 ? 'New Role' : `Edit ${selectedRole?.name}`}</div>
+                {selectedId === 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => { const template = ROLE_TEMPLATES.find(t => t.name === e.target.value); if (template) startCreate(template); }}
+                    className="border rounded px-2 py-1 text-sm"
+                  >
+                    <option value="">Start from template...</option>
+                    {ROLE_TEMPLATES.map(template => <option key={template.name} value={template.name}>{template.name}</option>)}
+                  </select>
+                )}
+              </div>
+
+              <div className="p-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-xs text-gray-600">Name</label>
+                    <input
+                      value={form.name}
+                      onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                      disabled={selectedRole?.isSystem}
+                      className="mt-1 w-full border rounded px-3 py-2 text-sm disabled:bg-gray-50"
+                      placeholder="e.g. Catalog Editor"
+                    />
+                    <div className="text-xs text-gray-500 mt-1 font-mono">
+                      Key: {selectedRole?.key || toRoleKey(form.name) || '—'}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600">Description</label>
+                    <input
+                      value={form.description}
+                      onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                      className="mt-1 w-full border rounded px-3 py-2 text-sm"
+                    />
+                  </div>
+                </div>
+
+                {isAdminRole ? (
+                  <div className="text-sm text-gray-600 bg-gray-50 border rounded p-3">Admins always have every permission.</div>
+                ) : (
+                  <div className="space-y-4">
+                    {ROLE_PERMISSION_GROUPS.map(group => {
+                      const keys = group.permissions.map(p => p.key);
+                      const allOn = keys.every(key => form.permissions.includes(key));
+                      return (
+                        <div key={group.label}>
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="text-sm font-medium text-gray-800">{group.label}</div>
+                            <button type="button" onClick={() => toggleGroup(keys, !allOn)} className="text-xs text-blue-600">
+                              {allOn ? 'Clear all' : 'Select all'}
+                            </button>
+                          </div>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            {group.permissions.map(permission => (
+                              <label key={permission.key} className="flex items-start gap-2 border rounded p-2 text-sm cursor-pointer hover:bg-gray-50">
+                                <input
+                                  type="checkbox"
+                                  className="mt-0.5"
+                                  checked={form.permissions.includes(permission.key)}
+                                  onChange={() => togglePermission(permission.key)}
+                                />
+                                <span>
+                                  <span className="text-gray-800">{permission.label}</span>
+                                  <span className="block text-xs text-gray-500">{permission.description}</span>
+                                  <span className="block text-xs text-gray-400 font-mono">{permission.key}</span>
+                                </span>
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t p-4 flex items-center gap-2">
+                {selectedRole && !selectedRole.isSystem && (
+                  <button type="button" onClick={remove} className="text-sm text-red-600 mr-auto">Delete role</button>
+                )}
+                <button type="button" onClick={() => { setSelectedId(null); setForm(emptyForm); }} className="ml-auto border rounded px-4 py-2 text-sm text-gray-700">
+                  Cancel
+                </button>
+                <button type="submit" disabled={saving} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm disabled:opacity-50">
+                  {saving ? 'Saving...' : selectedId === 0 ? 'Create Role' : 'Save Changes'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </SettingsLayout>
+  );
+}
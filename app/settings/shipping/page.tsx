@@ -38,7 +38,8 @@ interface ShippingCompanyFormData {
 }
 
 export default function ShippingPage() {
-  const { state: { user, accessToken }, isAdmin } = useAuth();
+  const { state: { user, accessToken }, can } = useAuth();
+  const canManage = can('catalog-settings:manage');
   const [shippingCompanies, setShippingCompanies] = useState<ShippingCompany[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -78,7 +79,7 @@ export default function ShippingPage() {
   };
 
   const handleAddCompany = async () => {
-    if (!accessToken || !isAdmin()) return;
+    if (!accessToken || !canManage) return;
     
     try {
       setIsSubmitting(true);
@@ -96,7 +97,7 @@ export default function ShippingPage() {
   };
 
   const handleEditCompany = async () => {
-    if (!accessToken || !isAdmin() || !editingCompany) return;
+    if (!accessToken || !canManage || !editingCompany) return;
     
     try {
       setIsSubmitting(true);
@@ -114,7 +115,7 @@ export default function ShippingPage() {
   };
 
   const handleDeleteCompany = async () => {
-    if (!accessToken || !isAdmin() || !companyToDelete) return;
+    if (!accessToken || !canManage || !companyToDelete) return;
     
     try {
       setIsDeleting(true);
@@ -136,7 +137,7 @@ export default function ShippingPage() {
   };
 
   const handleBulkUpload = async () => {
-    if (!accessToken || !isAdmin() || !uploadFile) return;
+    if (!accessToken || !canManage || !uploadFile) return;
     
     try {
       setIsSubmitting(true);
@@ -206,7 +207,7 @@ export default function ShippingPage() {
   };
 
   const handleBulkAdd = async () => {
-    if (!accessToken || !isAdmin() || bulkCompanies.length === 0) return;
+    if (!accessToken || !canManage || bulkCompanies.length === 0) return;
     
     try {
       setIsSubmitting(true);
@@ -249,8 +250,6 @@ export default function ShippingPage() {
     company.description.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const isAdminUser = isAdmin();
-
   return (
     <SettingsLayout>
       <div className="space-y-6">
@@ -285,7 +284,7 @@ export default function ShippingPage() {
               <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
               <span className="hidden pl-1 sm:inline">Refresh</span>
             </Button>
-            {isAdmin() && (
+            {canManage && (
               <UnifiedAddNew
                 platformType="shipping"
                 onAddShipping={openAddModal}
@@ -334,7 +333,7 @@ export default function ShippingPage() {
                       <p className="text-sm text-gray-600">{company.description}</p>
                     </div>
                   </div>
-                  {isAdminUser && (
+                  {canManage && (
                     <div className="flex gap-1">
                       <button
                         onClick={() => startEdit(company)}
@@ -381,7 +380,7 @@ export default function ShippingPage() {
             <p className="mt-1 text-gray-500">
               {searchTerm ? 'Try adjusting your search terms' : 'Get started by adding your first shipping company'}
             </p>
-            {isAdminUser && !searchTerm && (
+            {canManage && !searchTerm && (
               <button
                 onClick={openAddModal}
                 className="mt-4 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded"
@@ -1,12 +1,15 @@
 "use client";
 import SettingsLayout from "../_components/SettingsLayout";
 import { useWarehouses } from "../../components/warehouses/WarehouseProvider";
+import { useAuth } from "../../lib/auth";
 import React from "react";
 
 export default function WarehouseLocationsPage() {
+  const { can } = useAuth();
+  const canManage = can('warehouses:manage');
   const { warehouses, addWarehouse, updateWarehouse, deleteWarehouse, loading, error } = useWarehouses();
   const [showForm, setShowForm] = React.useState(false);
-  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editingId, setEditingId] = React.useState<number | null>(null);
   const [form, setForm] = React.useState({ 
     name: "", 
     address: "", 
@@ -18,7 +21,7 @@ export default function WarehouseLocationsPage() {
     isActive: true
   });
 
-  const onChange = (k: "name" | "address" | "city" | "state" | "zipCode" | "country" | "capacity" | "isActive") => (e: React.ChangeEvent<HTMLInputElement>) =>
+  const onChange = (k: "name" | "address" | "city" | "state" | "zipCode" | "country") => (e: React.ChangeEvent<HTMLInputElement>) =>
     setForm((p) => ({ ...p, [k]: e.target.value }));
 
   const startCreate = () => {
@@ -35,7 +38,7 @@ export default function WarehouseLocationsPage() {
     });
     setShowForm(true);
   };
-  const startEdit = (id: string) => {
+  const startEdit = (id: number) => {
     const w = warehouses.find((x) => x.id === id);
     if (!w) return;
     setEditingId(id);
@@ -54,12 +57,26 @@ export default function WarehouseLocationsPage() {
 
   const submit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (editingId) {
-      await updateWarehouse(editingId, form);
-    } else {
-      await addWarehouse(form);
+    try {
+      if (editingId !== null) {
+        await updateWarehouse(editingId, form);
+      } else {
+        await addWarehouse(form);
+      }
+      setShowForm(false);
+    } catch {
+      // error is shown from the warehouse context; keep the form open
+    }
+  };
+
+  const remove = async (id: number) => {
+    const w = warehouses.find((x) => x.id === id);
+    if (!w || !confirm(`Delete warehouse "${w.name}"? Warehouses that still hold stock cannot be deleted.`)) return;
+    try {
+      await deleteWarehouse(id);
+    } catch {
+      // error is shown from the warehouse context
     }
-    setShowForm(false);
   };
 
   return (
@@ -67,11 +84,17 @@ export default function WarehouseLocationsPage() {
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-semibold text-gray-800">Warehouse Locations</h2>
-          <button onClick={startCreate} className="bg-blue-600 hover:bg-blue-700 text-white text-sm px-4 py-2 rounded">+ Add Location</button>
+          {canManage && (
+            <button onClick={startCreate} className="bg-blue-600 hover:bg-blue-700 text-white text-sm px-4 py-2 rounded">+ Add Location</button>
+          )}
         </div>
 
         {error && <div className="text-sm text-red-600">{error}</div>}
 
+        {!canManage && (
+          <div className="text-sm text-gray-500">Your role does not allow changing warehouse locations.</div>
+        )}
+
         <div className="bg-white border rounded p-0 overflow-x-auto">
           <table className="min-w-full text-sm">
             <thead>
@@ -81,6 +104,7 @@ export default function WarehouseLocationsPage() {
                 <th className="py-3 px-4">City</th>
                 <th className="py-3 px-4">State</th>
                 <th className="py-3 px-4">Capacity</th>
+                <th className="py-3 px-4">Stocked</th>
                 <th className="py-3 px-4">Status</th>
                 <th className="py-3 px-4"></th>
               </tr>
@@ -93,27 +117,41 @@ export default function WarehouseLocationsPage() {
                   <td className="py-3 px-4">{w.city}</td>
                   <td className="py-3 px-4">{w.state}</td>
                   <td className="py-3 px-4">{w.capacity.toLocaleString()}</td>
+                  <td className="py-3 px-4">
+                    {(w.totalUnits ?? 0).toLocaleString()}
+                    {w.capacity > 0 && (
+                      <span className={`ml-2 text-xs ${(w.totalUnits ?? 0) > w.capacity ? 'text-red-600' : 'text-gray-500'}`}>
+                        ({Math.round(((w.totalUnits ?? 0) / w.capacity) * 100)}%)
+                      </span>
+                    )}
+                  </td>
                   <td className="py-3 px-4">
                     <span className={`px-2 py-1 rounded text-xs ${w.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
                       {w.isActive ? 'Active' : 'Inactive'}
                     </span>
                   </td>
                   <td className="py-3 px-4 text-right space-x-2">
-                    <button onClick={() => startEdit(w.id)} className="border px-3 py-1 rounded text-xs">edit</button>
-                    <button onClick={() => deleteWarehouse(w.id)} className="border px-3 py-1 rounded text-xs">delete</button>
+                    {canManage && (
+                      <>
+                        <button onClick={() => startEdit(w.id)} className="border px-3 py-1 rounded text-xs">edit</button>
+                        <button onClick={() => remove(w.id)} disabled={loading} className="border px-3 py-1 rounded text-xs">delete</button>
+                      </>
+                    )}
                   </td>
                 </tr>
               ))}
               {warehouses.length === 0 && (
                 <tr>
-                  <td className="py-4 px-4 text-gray-600" colSpan={7}>No warehouses yet. Click Add Location.</td>
+                  <td className="py-4 px-4 text-gray-600" colSpan={8}>
+                    {loading ? "Loading warehouses..." : canManage ? "No warehouses yet. Click Add Location." : "No warehouses yet."}
+                  </td>
                 </tr>
               )}
             </tbody>
           </table>
         </div>
 
-        {showForm && (
+        {showForm && canManage && (
           <form onSubmit={submit} className="bg-white border rounded p-6 space-y-4 max-w-2xl">
             <div>
               <label className="text-xs text-gray-600">Location Name*</label>
@@ -148,7 +186,7 @@ export default function WarehouseLocationsPage() {
               <input 
                 type="number" 
                 value={form.capacity} 
-                onChange={onChange("capacity")} 
+                onChange={(e) => setForm(p => ({ ...p, capacity: parseInt(e.target.value) || 0 }))} 
                 className="mt-1 w-full border rounded px-3 py-2 text-sm" 
                 required 
                 min="1"
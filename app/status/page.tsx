@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
-import { Activity, Package, BarChart3, Database, X, RefreshCw, AlertCircle, CheckCircle, Clock, User, Users } from 'lucide-react';
+import { Activity, Package, BarChart3, Database, ShoppingCart, X, RefreshCw, AlertCircle, CheckCircle, Clock, User, Users } from 'lucide-react';
 import { statusApi, JobStatus } from '../lib/status/api';
 import ProgressBar from '../components/ProgressBar';
 import { useAuth } from '../lib/auth';
@@ -10,6 +10,7 @@ interface StatusData {
   products: JobStatus[];
   listings: JobStatus[];
   inventory: JobStatus[];
+  orders: JobStatus[];
 }
 
 const StatusPage = () => {
@@ -17,7 +18,8 @@ const StatusPage = () => {
   const [statusData, setStatusData] = useState<StatusData>({
     products: [],
     listings: [],
-    inventory: []
+    inventory: [],
+    orders: []
   });
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
@@ -40,7 +42,7 @@ const StatusPage = () => {
     }
   };
 
-  const cancelJob = async (jobId: string, type: 'product' | 'listing' | 'inventory') => {
+  const cancelJob = async (jobId: string, type: JobStatus['type']) => {
     try {
       if (!state.accessToken) {
         console.error('No access token available');
@@ -117,7 +119,7 @@ const StatusPage = () => {
     title: string; 
     jobs: JobStatus[]; 
     icon: React.ComponentType<any>; 
-    type: 'product' | 'listing' | 'inventory';
+    type: JobStatus['type'];
   }) => {
     // Filter jobs based on user role and showAllUsers setting
     const filteredJobs = state.user?.role === 'ADMIN' && showAllUsers 
@@ -211,7 +213,7 @@ const StatusPage = () => {
             <div>
               <h1 className="text-3xl font-bold text-gray-900">Processing Status</h1>
               <p className="text-gray-600 mt-2">
-                Monitor real-time processing of products, listings, and inventory updates
+                Monitor real-time processing of products, listings, inventory updates and order imports
               </p>
             </div>
             <div className="flex items-center space-x-4">
@@ -246,7 +248,7 @@ const StatusPage = () => {
         </div>
 
         {/* Status Cards */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-4 gap-6">
           <StatusCard
             title="Products"
             jobs={statusData.products}
@@ -265,6 +267,12 @@ const StatusPage = () => {
             icon={Database}
             type="inventory"
           />
+          <StatusCard
+            title="Order Imports"
+            jobs={statusData.orders}
+            icon={ShoppingCart}
+            type="order"
+          />
         </div>
 
         {/* Summary Stats */}
@@ -280,7 +288,7 @@ const StatusPage = () => {
                 </p>
                 <p className="text-2xl font-bold text-gray-900">
                   {(() => {
-                    const allJobs = [...statusData.products, ...statusData.listings, ...statusData.inventory];
+                    const allJobs = [...statusData.products, ...statusData.listings, ...statusData.inventory, ...statusData.orders];
                     const filteredJobs = state.user?.role === 'ADMIN' && showAllUsers 
                       ? allJobs 
                       : allJobs.filter(job => !job.userId || job.userId === state.user?.id?.toString());
@@ -300,7 +308,7 @@ const StatusPage = () => {
                 <p className="text-sm font-medium text-gray-500">Completed</p>
                 <p className="text-2xl font-bold text-gray-900">
                   {(() => {
-                    const allJobs = [...statusData.products, ...statusData.listings, ...statusData.inventory];
+                    const allJobs = [...statusData.products, ...statusData.listings, ...statusData.inventory, ...statusData.orders];
                     const filteredJobs = state.user?.role === 'ADMIN' && showAllUsers 
                       ? allJobs 
                       : allJobs.filter(job => !job.userId || job.userId === state.user?.id?.toString());
@@ -320,7 +328,7 @@ const StatusPage = () => {
                 <p className="text-sm font-medium text-gray-500">Processing</p>
                 <p className="text-2xl font-bold text-gray-900">
                   {(() => {
-                    const allJobs = [...statusData.products, ...statusData.listings, ...statusData.inventory];
+                    const allJobs = [...statusData.products, ...statusData.listings, ...statusData.inventory, ...statusData.orders];
                     const filteredJobs = state.user?.role === 'ADMIN' && showAllUsers 
                       ? allJobs 
                       : allJobs.filter(job => !job.userId || job.userId === state.user?.id?.toString());
@@ -340,7 +348,7 @@ const StatusPage = () => {
                 <p className="text-sm font-medium text-gray-500">Failed</p>
                 <p className="text-2xl font-bold text-gray-900">
                   {(() => {
-                    const allJobs = [...statusData.products, ...statusData.listings, ...statusData.inventory];
+                    const allJobs = [...statusData.products, ...statusData.listings, ...statusData.inventory, ...statusData.orders];
                     const filteredJobs = state.user?.role === 'ADMIN' && showAllUsers 
                       ? allJobs 
                       : allJobs.filter(job => !job.userId || job.userId === state.user?.id?.toString());
@@ -0,0 +1,11 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Mail is disabled, not fatal, when its production config is incomplete (see app/lib/mail/transport.ts)
+    const { getMailConfigProblem } = await import('./app/lib/mail');
+    const problem = getMailConfigProblem();
+    if (problem) {
+      console.warn(`⚠️ Mail: Sending is disabled: ${problem}`);
+    }
+  }
+}